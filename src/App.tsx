@@ -3,12 +3,21 @@ import { PadVisualizer } from './components/visualization/PadVisualizer';
 import { StepSequencer } from './components/sequencer';
 import { PlaybackControls } from './components/playback';
 import { ShareButton, GitHubLink } from './components/sharing';
+import { PatternLibrary } from './components/library';
+import { MidiImportDialog } from './components/midi';
+import { DrumTabImportDialog } from './components/tab';
+import { HydrogenImportDialog } from './components/hydrogen';
+import { SongTimeline } from './components/song';
+import { NotationView } from './components/notation';
 import { ToastContainer } from './components/ui/Toast';
 import { ThemeToggle } from './components/ui/ThemeToggle';
+import { SessionRestoreDialog } from './components/ui/SessionRestoreDialog';
 import { useAudioStore } from './stores/useAudioStore';
 import { useToastStore } from './stores/useToastStore';
 import { useThemeStore } from './stores/useThemeStore';
 import { useSelectionStore } from './stores/useSelectionStore';
+import { useHistoryStore } from './stores/useHistoryStore';
+import { useLayoutStore } from './stores/useLayoutStore';
 import { APP_VERSION } from './config/version';
 import { usePlaybackStore } from './stores/usePlaybackStore';
 import { useUrlPatternLoader, useUrlSync } from './hooks';
@@ -17,13 +26,15 @@ import { useUrlPatternLoader, useUrlSync } from './hooks';
  * Main Application Layout
  *
  * Layout:
- * - Header: Title + Version + GitHub (left) | PlaybackControls (center) | Share + Theme (right)
- * - Main: Step Sequencer (top, ~60%) + Visualizer (bottom, ~40%)
+ * - Header: Title + Version + GitHub (left) | PlaybackControls (center) | Library + Share + Theme (right)
+ * - Main: Song timeline + Step Sequencer (top, ~60%) + Visualizer (bottom, ~40%)
  * - No footer, no page scroll (viewport fixed)
  *
  * Story 2.5: Audio initialization on first interaction
  * Story 3.4: Global keyboard shortcuts
  * Story 4.3: URL Pattern Loading
+ * Autosave: offer to restore the last session when there is no URL pattern
+ * Undo/redo: Cmd/Ctrl+Z, Cmd/Ctrl+Shift+Z
  */
 function App() {
   const { isAudioReady, isLoading: isAudioLoading, error: audioError, initAudio } = useAudioStore();
@@ -45,6 +56,10 @@ function App() {
     selectionStart,
   } = useSelectionStore();
 
+  // History store for undo/redo
+  const undo = useHistoryStore((state) => state.undo);
+  const redo = useHistoryStore((state) => state.redo);
+
   // Story 4.3: Load pattern from URL
   const { error: urlError } = useUrlPatternLoader();
 
@@ -91,6 +106,22 @@ function App() {
         return;
       }
 
+      // Cmd/Ctrl + Z: Undo, Cmd/Ctrl + Shift + Z (or Ctrl + Y): Redo
+      if (modifierKey && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+        return;
+      }
+      if (modifierKey && e.key === 'y') {
+        e.preventDefault();
+        redo();
+        return;
+      }
+
       // Cmd/Ctrl + C: Copy selection
       if (modifierKey && e.key === 'c') {
         if (selectionStart) {
@@ -152,10 +183,11 @@ function App() {
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [isPlaying, play, pause, adjustBpm, seekForward, seekBackward, toggleLoop, copySelection, pasteAtPlayhead, clearSelection, selectionStart, showToast]);
+  }, [isPlaying, play, pause, adjustBpm, seekForward, seekBackward, toggleLoop, copySelection, pasteAtPlayhead, clearSelection, selectionStart, showToast, undo, redo]);
 
   const isDark = theme === 'fgdp-50';
   const [showFingerLabel, setShowFingerLabel] = useState(false);
+  const showNotation = useLayoutStore((state) => state.showNotation);
 
   return (
     <div
@@ -187,7 +219,7 @@ function App() {
             <PlaybackControls />
           </div>
 
-          {/* Right: Finger Label Toggle + Share + Theme */}
+          {/* Right: Finger Label Toggle + Library + Share + Theme */}
           <div className="w-48 lg:w-64 shrink-0 flex items-center justify-end gap-2">
             <div className="flex items-center gap-1.5 mr-1">
               <span className={`text-xs hidden lg:inline whitespace-nowrap ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
@@ -219,6 +251,7 @@ function App() {
                 />
               </button>
             </div>
+            <PatternLibrary />
             <ShareButton />
             <ThemeToggle />
           </div>
@@ -227,6 +260,11 @@ function App() {
 
       {/* Main Content Area: Vertical split (no scroll) */}
       <main className="flex-1 flex flex-col min-h-0 p-4 lg:p-6 gap-4">
+        {/* Song arrangement strip */}
+        <section className="shrink-0" aria-label="Song Timeline Section">
+          <SongTimeline />
+        </section>
+
         {/* Top: Step Sequencer (~60%, internal scroll) */}
         <section
           className={`flex-[3] min-h-0 rounded-lg border overflow-auto ${
@@ -239,6 +277,20 @@ function App() {
           <StepSequencer />
         </section>
 
+        {/* Staff notation of the pattern (toggled from the sequencer header) */}
+        {showNotation && (
+          <section
+            className={`shrink-0 rounded-lg border ${
+              isDark
+                ? 'bg-slate-900 border-slate-800'
+                : 'bg-white border-slate-300'
+            }`}
+            aria-label="Notation Section"
+          >
+            <NotationView />
+          </section>
+        )}
+
         {/* Bottom: Pad Visualizer (~40%) */}
         <section
           className="flex-[2] min-h-0 flex items-center justify-center"
@@ -270,6 +322,18 @@ function App() {
         </div>
       )}
 
+      {/* Last-session restore offer */}
+      <SessionRestoreDialog />
+
+      {/* MIDI file import (mapping and quantization) */}
+      <MidiImportDialog />
+
+      {/* Drum tab paste-in import */}
+      <DrumTabImportDialog />
+
+      {/* Hydrogen song / pattern import (pattern choice and mapping) */}
+      <HydrogenImportDialog />
+
       {/* Toast Notifications */}
       <ToastContainer />
     </div>
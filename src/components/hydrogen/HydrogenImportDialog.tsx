@@ -0,0 +1,272 @@
+/**
+ * HydrogenImportDialog - Pick, map and quantize a pattern from a Hydrogen file
+ *
+ * - Pattern: any of the song's patterns (the first one with notes to start)
+ * - Grid: auto-detected subdivision or a chosen one
+ * - Mapping: pad (or skip) for every instrument the pattern plays; changes
+ *   are remembered per instrument name for later imports
+ * - Preview of what the import keeps, skips and drops
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useHydrogenImportStore } from '../../stores/useHydrogenImportStore';
+import { useThemeStore } from '../../stores/useThemeStore';
+import { useToastStore } from '../../stores/useToastStore';
+import {
+  formatTimeSignature,
+  getSubdivisionLabel,
+  isSubdivisionCompatible,
+  type Subdivision,
+} from '../../types/pattern';
+import { PAD_IDS, PADS, isValidPadId } from '../../config/padMapping';
+import { getHydrogenPad } from '../../config/hydrogen';
+import { MAX_BARS } from '../../utils/midiImport';
+import {
+  buildHydrogenPattern,
+  countHydrogenNotes,
+  detectHydrogenSubdivision,
+  getHydrogenPatternLayout,
+  type HydrogenImportResult,
+} from '../../utils/hydrogenImport';
+
+const SUBDIVISIONS: Subdivision[] = ['4n', '4t', '8n', '8t', '16n', '16t', '32n', '32t'];
+
+/** Select value for instruments that are not imported */
+const SKIP_VALUE = '';
+
+/**
+ * Describe what an import skips or drops, e.g. "3 unmapped notes skipped"
+ */
+function describeLosses(result: HydrogenImportResult): string[] {
+  const unmappedCount = result.unmapped.reduce((sum, note) => sum + note.count, 0);
+  const losses: string[] = [];
+  if (unmappedCount > 0) losses.push(`${unmappedCount} unmapped notes skipped`);
+  if (result.truncated > 0) losses.push(`${result.truncated} notes after bar ${MAX_BARS} dropped`);
+  if (result.merged > 0) losses.push(`${result.merged} notes merged on shared steps`);
+  return losses;
+}
+
+/**
+ * Count the notes a pattern plays
+ */
+function countActiveSteps(result: HydrogenImportResult): number {
+  return result.pattern.tracks.reduce(
+    (sum, track) => sum + track.steps.filter((step) => step.active).length,
+    0
+  );
+}
+
+export function HydrogenImportDialog() {
+  const pending = useHydrogenImportStore((state) => state.pending);
+  const overrides = useHydrogenImportStore((state) => state.overrides);
+  const setInstrumentPad = useHydrogenImportStore((state) => state.setInstrumentPad);
+  const resetMapping = useHydrogenImportStore((state) => state.resetMapping);
+  const cancelImport = useHydrogenImportStore((state) => state.cancelImport);
+  const showToast = useToastStore((state) => state.showToast);
+  const theme = useThemeStore((state) => state.theme);
+  const isDark = theme === 'fgdp-50';
+
+  const [patternIndex, setPatternIndex] = useState(0);
+  // undefined = auto-detect
+  const [subdivision, setSubdivision] = useState<Subdivision | undefined>(undefined);
+
+  // Each new file starts on its first pattern with notes
+  useEffect(() => {
+    const index = pending?.song.patterns.findIndex((pattern) => pattern.notes.length > 0) ?? -1;
+    setPatternIndex(Math.max(0, index));
+  }, [pending]);
+
+  // Each pattern starts on auto-detect
+  useEffect(() => {
+    setSubdivision(undefined);
+  }, [pending, patternIndex]);
+
+  // Close on ESC key
+  useEffect(() => {
+    if (!pending) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        cancelImport();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [pending, cancelImport]);
+
+  const hydrogenPattern = pending?.song.patterns[patternIndex];
+
+  const details = useMemo(() => {
+    if (!pending || !hydrogenPattern) return null;
+    const { timeSignature } = getHydrogenPatternLayout(hydrogenPattern);
+    return {
+      timeSignature,
+      detected: detectHydrogenSubdivision(pending.song, hydrogenPattern),
+      noteCounts: countHydrogenNotes(pending.song, hydrogenPattern),
+      subdivisions: SUBDIVISIONS.filter((s) => isSubdivisionCompatible(s, timeSignature)),
+    };
+  }, [pending, hydrogenPattern]);
+
+  const preview = useMemo(() => {
+    if (!pending || !hydrogenPattern) return null;
+    return buildHydrogenPattern(pending.song, hydrogenPattern, { subdivision, overrides });
+  }, [pending, hydrogenPattern, subdivision, overrides]);
+
+  if (!pending || !details || !preview) return null;
+
+  const handleImport = () => {
+    const result = useHydrogenImportStore.getState().completeImport(patternIndex, subdivision);
+    if (!result) return;
+
+    const losses = describeLosses(result);
+    showToast(
+      `Imported "${result.pattern.name}"${losses.length > 0 ? ` (${losses.join(', ')})` : ''}`,
+      losses.length > 0 ? 'warning' : 'success'
+    );
+  };
+
+  const panelStyle = isDark
+    ? 'bg-slate-800 border-slate-600 text-slate-200'
+    : 'bg-white border-slate-300 text-slate-700';
+  const mutedText = isDark ? 'text-slate-400' : 'text-slate-500';
+  const rowBorder = isDark ? 'border-slate-700' : 'border-slate-200';
+  const selectStyle = isDark
+    ? 'bg-slate-700 border-slate-600 text-slate-200'
+    : 'bg-white border-slate-300 text-slate-700';
+  const cancelStyle = isDark
+    ? 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+    : 'bg-slate-100 text-slate-600 hover:bg-slate-200';
+
+  const { song } = pending;
+  const losses = describeLosses(preview);
+  const usedPads = preview.pattern.tracks.filter((track) => track.steps.some((step) => step.active)).length;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) cancelImport();
+      }}
+    >
+      <div
+        className={`border rounded-lg shadow-xl w-full max-w-md p-4 ${panelStyle}`}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="hydrogen-import-title"
+      >
+        <h2 id="hydrogen-import-title" className="text-sm font-semibold mb-1 truncate">
+          Import Hydrogen: {song.name ?? pending.fileName}
+        </h2>
+        <p className={`text-xs mb-3 ${mutedText}`}>
+          {song.patterns.length} pattern{song.patterns.length === 1 ? '' : 's'} · {preview.pattern.bpm} BPM ·{' '}
+          {formatTimeSignature(details.timeSignature)}
+        </p>
+
+        <div className="flex flex-wrap items-center gap-3 text-xs mb-3">
+          <label className="flex items-center gap-2 min-w-0">
+            <span className={mutedText}>Pattern</span>
+            <select
+              value={patternIndex}
+              onChange={(e) => setPatternIndex(Number(e.target.value))}
+              className={`max-w-[12rem] px-2 py-1 rounded border ${selectStyle}`}
+            >
+              {song.patterns.map((pattern, index) => (
+                <option key={index} value={index}>
+                  {pattern.name} ({pattern.notes.length} notes)
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <span className={mutedText}>Grid</span>
+            <select
+              value={subdivision ?? ''}
+              onChange={(e) => setSubdivision((e.target.value || undefined) as Subdivision | undefined)}
+              className={`px-2 py-1 rounded border ${selectStyle}`}
+            >
+              <option value="">Auto ({getSubdivisionLabel(details.detected)})</option>
+              {details.subdivisions.map((s) => (
+                <option key={s} value={s}>
+                  {getSubdivisionLabel(s)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between mb-1">
+          <span className={`text-xs ${mutedText}`}>Instrument mapping</span>
+          {Object.keys(overrides).length > 0 && (
+            <button
+              type="button"
+              onClick={resetMapping}
+              className={`text-xs underline ${mutedText}`}
+            >
+              Reset to name matching
+            </button>
+          )}
+        </div>
+        <ul className="max-h-60 overflow-y-auto text-xs mb-3">
+          {details.noteCounts.length === 0 && (
+            <li className={`py-1 border-t ${rowBorder} ${mutedText}`}>This pattern has no notes</li>
+          )}
+          {details.noteCounts.map(({ instrument, count }) => {
+            const padId = getHydrogenPad(instrument.name, overrides);
+            return (
+              <li
+                key={instrument.id}
+                className={`flex items-center gap-2 py-1 border-t ${rowBorder} ${padId ? '' : 'text-amber-400'}`}
+              >
+                <span className="flex-1 truncate" title={instrument.name}>
+                  {instrument.name}
+                </span>
+                <span className={`w-10 text-right ${mutedText}`}>×{count}</span>
+                <select
+                  value={padId ?? SKIP_VALUE}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    setInstrumentPad(instrument.name, isValidPadId(value) ? value : null);
+                  }}
+                  className={`w-32 px-1 py-0.5 rounded border ${selectStyle}`}
+                  aria-label={`Pad for ${instrument.name}`}
+                >
+                  <option value={SKIP_VALUE}>— skip —</option>
+                  {PAD_IDS.map((id) => (
+                    <option key={id} value={id}>
+                      {PADS[id].label}
+                    </option>
+                  ))}
+                </select>
+              </li>
+            );
+          })}
+        </ul>
+
+        <p className={`text-xs ${mutedText}`}>
+          {countActiveSteps(preview)} notes on {usedPads} pads, {preview.pattern.bars} bar
+          {preview.pattern.bars > 1 ? 's' : ''} of {getSubdivisionLabel(preview.pattern.subdivision)}
+        </p>
+        {losses.length > 0 && (
+          <p className="text-xs text-amber-400 mt-1">{losses.join(' · ')}</p>
+        )}
+
+        <div className="flex justify-end gap-2 mt-4">
+          <button
+            type="button"
+            onClick={cancelImport}
+            className={`px-3 py-1 rounded text-xs font-medium transition-colors ${cancelStyle}`}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            autoFocus
+            className="px-3 py-1 rounded text-xs font-medium bg-sky-600 text-white hover:bg-sky-500 transition-colors"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
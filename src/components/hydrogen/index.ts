@@ -0,0 +1,7 @@
+/**
+ * Hydrogen Components
+ *
+ * Hydrogen song and drumkit pattern import
+ */
+
+export { HydrogenImportDialog } from './HydrogenImportDialog';
@@ -0,0 +1,121 @@
+/**
+ * AudioExportDialog - Options for rendering the pattern to a WAV file
+ *
+ * - Loop count, one-bar count-in, metronome clicks
+ * - Rendering runs offline (faster than real time) and downloads the file
+ */
+
+import { memo, useEffect, useState } from 'react';
+import { usePatternFile } from '../../hooks';
+import { clampRenderLoops, MIN_RENDER_LOOPS, MAX_RENDER_LOOPS } from '../../utils/audioRender';
+
+interface AudioExportDialogProps {
+  onClose: () => void;
+  isDark: boolean;
+}
+
+export const AudioExportDialog = memo(function AudioExportDialog({
+  onClose,
+  isDark,
+}: AudioExportDialogProps) {
+  const { downloadWav } = usePatternFile();
+  const [loops, setLoops] = useState(4);
+  const [countIn, setCountIn] = useState(true);
+  const [metronome, setMetronome] = useState(false);
+  const [isRendering, setIsRendering] = useState(false);
+
+  // Close on ESC key (not while rendering)
+  useEffect(() => {
+    if (isRendering) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isRendering, onClose]);
+
+  const handleRender = async () => {
+    setIsRendering(true);
+    await downloadWav({ loops, countIn, metronome });
+    setIsRendering(false);
+    onClose();
+  };
+
+  const panelStyle = isDark
+    ? 'bg-slate-800 border-slate-600 text-slate-200'
+    : 'bg-white border-slate-300 text-slate-700';
+  const mutedText = isDark ? 'text-slate-400' : 'text-slate-500';
+  const inputStyle = isDark
+    ? 'bg-slate-700 border-slate-600 text-slate-200'
+    : 'bg-white border-slate-300 text-slate-700';
+  const cancelStyle = isDark
+    ? 'bg-slate-700 text-slate-300 hover:bg-slate-600 disabled:opacity-50'
+    : 'bg-slate-100 text-slate-600 hover:bg-slate-200 disabled:opacity-50';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget && !isRendering) onClose();
+      }}
+    >
+      <div
+        className={`border rounded-lg shadow-xl w-full max-w-xs p-4 ${panelStyle}`}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="audio-export-title"
+      >
+        <h2 id="audio-export-title" className="text-sm font-semibold mb-1">
+          Export audio
+        </h2>
+        <p className={`text-xs mb-3 ${mutedText}`}>
+          Renders the current pattern to a .wav file with the current drum sounds.
+        </p>
+
+        <div className="space-y-2 text-xs">
+          <label className="flex items-center justify-between gap-2">
+            <span>Loops</span>
+            <input
+              type="number"
+              min={MIN_RENDER_LOOPS}
+              max={MAX_RENDER_LOOPS}
+              value={loops}
+              onChange={(e) => setLoops(clampRenderLoops(Number(e.target.value) || MIN_RENDER_LOOPS))}
+              className={`w-16 px-2 py-1 rounded border ${inputStyle}`}
+            />
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={countIn} onChange={(e) => setCountIn(e.target.checked)} />
+            One-bar count-in
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={metronome} onChange={(e) => setMetronome(e.target.checked)} />
+            Metronome
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isRendering}
+            className={`px-3 py-1 rounded text-xs font-medium transition-colors ${cancelStyle}`}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleRender}
+            disabled={isRendering}
+            autoFocus
+            className="px-3 py-1 rounded text-xs font-medium bg-sky-600 text-white hover:bg-sky-500 disabled:opacity-50 transition-colors"
+          >
+            {isRendering ? 'Rendering…' : 'Render .wav'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,526 @@
+/**
+ * PatternLibrary - Header button and slide-over browser for saved patterns
+ *
+ * - Save / Save as for the current pattern
+ * - Entries listed newest first; click one to load it
+ * - Rename inline, duplicate, delete (click twice to confirm)
+ * - Download / open the pattern as a .json file, import and export MIDI drums,
+ *   import Hydrogen patterns, render it to a .wav file, export notation as MusicXML,
+ *   print a practice sheet
+ */
+
+import { memo, useEffect, useRef, useState } from 'react';
+import { useLibraryStore } from '../../stores/useLibraryStore';
+import { usePatternStore } from '../../stores/usePatternStore';
+import { useToastStore } from '../../stores/useToastStore';
+import { useThemeStore } from '../../stores/useThemeStore';
+import type { LibraryEntry } from '../../types/library';
+import { usePatternFile } from '../../hooks';
+import { AudioExportDialog } from './AudioExportDialog';
+import { PrintSheetDialog } from '../print';
+import { PATTERN_JSON_EXTENSION, PATTERN_JSON_MIME } from '../../utils/patternJson';
+import { MIDI_FILE_EXTENSIONS } from '../../utils/midiFile';
+import { HYDROGEN_FILE_EXTENSIONS } from '../../utils/hydrogenFile';
+
+/**
+ * Format a last-modified time for the entry list
+ */
+function formatUpdatedAt(timestamp: number): string {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+}
+
+interface EntryRowProps {
+  entry: LibraryEntry;
+  isActive: boolean;
+  isDark: boolean;
+  onLoad: (entry: LibraryEntry) => void;
+}
+
+const EntryRow = memo(function EntryRow({ entry, isActive, isDark, onLoad }: EntryRowProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState(entry.name);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  // Reset delete confirmation after a moment
+  useEffect(() => {
+    if (!confirmDelete) return;
+    const timer = setTimeout(() => setConfirmDelete(false), 2000);
+    return () => clearTimeout(timer);
+  }, [confirmDelete]);
+
+  const commitRename = () => {
+    useLibraryStore.getState().rename(entry.id, draftName);
+    setIsRenaming(false);
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      commitRename();
+    } else if (e.key === 'Escape') {
+      e.stopPropagation();
+      setDraftName(entry.name);
+      setIsRenaming(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (confirmDelete) {
+      useLibraryStore.getState().remove(entry.id);
+    } else {
+      setConfirmDelete(true);
+    }
+  };
+
+  const actionStyle = isDark
+    ? 'text-slate-400 hover:text-slate-100 hover:bg-slate-700'
+    : 'text-slate-500 hover:text-slate-800 hover:bg-slate-200';
+
+  return (
+    <li
+      className={`group flex items-center gap-2 px-3 py-2 rounded-md ${
+        isActive
+          ? isDark ? 'bg-sky-900/40' : 'bg-sky-50'
+          : isDark ? 'hover:bg-slate-800' : 'hover:bg-slate-100'
+      }`}
+    >
+      {isRenaming ? (
+        <input
+          type="text"
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onKeyDown={handleRenameKeyDown}
+          onBlur={commitRename}
+          maxLength={50}
+          autoFocus
+          className={`flex-1 min-w-0 px-1.5 py-0.5 text-sm rounded border ${
+            isDark
+              ? 'bg-slate-900 border-slate-600 text-slate-100'
+              : 'bg-white border-slate-300 text-slate-800'
+          }`}
+        />
+      ) : (
+        <button
+          type="button"
+          onClick={() => onLoad(entry)}
+          className="flex-1 min-w-0 text-left"
+          title={`Load "${entry.name}"`}
+        >
+          <div className="text-sm truncate">{entry.name}</div>
+          <div className={`text-[11px] ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+            {formatUpdatedAt(entry.updatedAt)}
+          </div>
+        </button>
+      )}
+
+      {!isRenaming && (
+        <div className="flex items-center gap-0.5 shrink-0">
+          <button
+            type="button"
+            onClick={() => {
+              setDraftName(entry.name);
+              setIsRenaming(true);
+            }}
+            className={`px-1.5 py-0.5 text-xs rounded ${actionStyle}`}
+            title="Rename"
+          >
+            Rename
+          </button>
+          <button
+            type="button"
+            onClick={() => useLibraryStore.getState().duplicate(entry.id)}
+            className={`px-1.5 py-0.5 text-xs rounded ${actionStyle}`}
+            title="Duplicate"
+          >
+            Copy
+          </button>
+          <button
+            type="button"
+            onClick={handleDelete}
+            className={`px-1.5 py-0.5 text-xs rounded ${
+              confirmDelete ? 'bg-red-600 text-white hover:bg-red-500' : actionStyle
+            }`}
+            title={confirmDelete ? 'Click again to delete' : 'Delete'}
+          >
+            {confirmDelete ? 'Sure?' : 'Delete'}
+          </button>
+        </div>
+      )}
+    </li>
+  );
+});
+
+export function PatternLibrary() {
+  const theme = useThemeStore((state) => state.theme);
+  const isDark = theme === 'fgdp-50';
+  const showToast = useToastStore((state) => state.showToast);
+  const currentPattern = usePatternStore((state) => state.currentPattern);
+  const entries = useLibraryStore((state) => state.entries);
+  const activeEntryId = useLibraryStore((state) => state.activeEntryId);
+  const activePatternId = useLibraryStore((state) => state.activePatternId);
+
+  // Entry that Save writes to (same rule as useLibraryStore.getActiveEntry)
+  const activeEntry = activeEntryId && currentPattern?.id === activePatternId
+    ? entries.find((e) => e.id === activeEntryId) ?? null
+    : null;
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [saveAsName, setSaveAsName] = useState<string | null>(null);
+  const [splitHands, setSplitHands] = useState(false);
+  const [isAudioExportOpen, setIsAudioExportOpen] = useState(false);
+  const [isPrintOpen, setIsPrintOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const jsonInputRef = useRef<HTMLInputElement>(null);
+  const midiInputRef = useRef<HTMLInputElement>(null);
+  const hydrogenInputRef = useRef<HTMLInputElement>(null);
+  const {
+    downloadJson,
+    downloadMidi,
+    downloadMusicXml,
+    openJsonFile,
+    openMidiFile,
+    openMidiSample,
+    openHydrogenFile,
+  } = usePatternFile();
+
+  // Close on ESC key
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen]);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    // Use setTimeout to avoid immediate close from the triggering click
+    const timer = setTimeout(() => {
+      document.addEventListener('mousedown', handleClickOutside);
+    }, 0);
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const handleSave = () => {
+    if (useLibraryStore.getState().save()) {
+      showToast('Pattern saved to library', 'success');
+    } else {
+      showToast('Could not save the pattern to the library', 'error');
+    }
+  };
+
+  const handleSaveAs = () => {
+    if (saveAsName === null || !saveAsName.trim()) return;
+    if (!useLibraryStore.getState().saveAs(saveAsName)) {
+      showToast('Could not save the pattern to the library', 'error');
+      return;
+    }
+    setSaveAsName(null);
+    showToast('Pattern saved to library', 'success');
+  };
+
+  const handleSaveAsKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      handleSaveAs();
+    } else if (e.key === 'Escape') {
+      e.stopPropagation();
+      setSaveAsName(null);
+    }
+  };
+
+  const handleFileChange = (
+    e: React.ChangeEvent<HTMLInputElement>,
+    open: (file: File) => Promise<void>
+  ) => {
+    const file = e.target.files?.[0];
+    // Reset so the same file can be opened again
+    e.target.value = '';
+    if (file) {
+      open(file);
+    }
+  };
+
+  const handleLoad = (entry: LibraryEntry) => {
+    useLibraryStore.getState().load(entry.id);
+    showToast(`Loaded "${entry.name}"`, 'success');
+  };
+
+  const buttonStyle = isDark
+    ? 'bg-slate-800 border-slate-700 hover:bg-slate-700 hover:border-slate-600'
+    : 'bg-white border-slate-300 hover:bg-slate-50 hover:border-slate-400 text-slate-700';
+  const primaryStyle = 'bg-sky-600 hover:bg-sky-500 text-white disabled:opacity-50';
+  const secondaryStyle = isDark
+    ? 'bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-50'
+    : 'bg-slate-200 hover:bg-slate-300 text-slate-700 disabled:opacity-50';
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className={`flex items-center justify-center w-20 py-1.5 text-sm rounded-lg border transition-all duration-200 ${
+          isOpen ? 'bg-sky-600 border-sky-500 text-white' : buttonStyle
+        }`}
+        aria-expanded={isOpen}
+        title="Saved patterns"
+      >
+        Library
+      </button>
+
+      {isOpen && (
+        <div
+          ref={panelRef}
+          className={`fixed top-0 right-0 bottom-0 z-50 w-80 flex flex-col border-l shadow-2xl ${
+            isDark
+              ? 'bg-slate-900 border-slate-700 text-slate-100'
+              : 'bg-white border-slate-300 text-slate-800'
+          }`}
+          role="dialog"
+          aria-label="Pattern library"
+        >
+          {/* Header */}
+          <div className={`flex items-center justify-between px-4 py-3 border-b ${
+            isDark ? 'border-slate-700' : 'border-slate-200'
+          }`}>
+            <h2 className="text-sm font-semibold">Pattern Library</h2>
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              className={`px-2 text-lg leading-none ${isDark ? 'text-slate-400 hover:text-slate-100' : 'text-slate-500 hover:text-slate-800'}`}
+              aria-label="Close library"
+            >
+              ×
+            </button>
+          </div>
+
+          {/* Save controls */}
+          <div className={`px-4 py-3 border-b space-y-2 ${isDark ? 'border-slate-700' : 'border-slate-200'}`}>
+            <p className={`text-xs truncate ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+              {activeEntry
+                ? `Save updates "${activeEntry.name}"`
+                : 'Not saved yet'}
+            </p>
+            {saveAsName === null ? (
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={!currentPattern}
+                  className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${primaryStyle}`}
+                >
+                  Save
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSaveAsName(currentPattern?.name ?? '')}
+                  disabled={!currentPattern}
+                  className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${secondaryStyle}`}
+                >
+                  Save as…
+                </button>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={saveAsName}
+                  onChange={(e) => setSaveAsName(e.target.value)}
+                  onKeyDown={handleSaveAsKeyDown}
+                  onFocus={(e) => e.target.select()}
+                  maxLength={50}
+                  autoFocus
+                  placeholder="Pattern name"
+                  className={`flex-1 min-w-0 px-2 py-1 text-xs rounded border ${
+                    isDark
+                      ? 'bg-slate-800 border-slate-600 text-slate-100'
+                      : 'bg-white border-slate-300 text-slate-800'
+                  }`}
+                />
+                <button
+                  type="button"
+                  onClick={handleSaveAs}
+                  disabled={!saveAsName.trim()}
+                  className={`px-2 py-1 text-xs rounded transition-colors ${primaryStyle}`}
+                >
+                  Save
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSaveAsName(null)}
+                  className={`px-2 py-1 text-xs rounded transition-colors ${secondaryStyle}`}
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Entries */}
+          <div className="flex-1 min-h-0 overflow-y-auto p-2">
+            {entries.length === 0 ? (
+              <p className={`px-3 py-6 text-xs text-center ${isDark ? 'text-slate-500' : 'text-slate-400'}`}>
+                No saved patterns yet
+              </p>
+            ) : (
+              <ul className="space-y-0.5">
+                {entries.map((entry) => (
+                  <EntryRow
+                    key={entry.id}
+                    entry={entry}
+                    isActive={entry.id === activeEntry?.id}
+                    isDark={isDark}
+                    onLoad={handleLoad}
+                  />
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* JSON, MIDI and Hydrogen files (also accepted by dropping onto the sequencer) */}
+          <div className={`px-4 py-3 border-t space-y-2 ${isDark ? 'border-slate-700' : 'border-slate-200'}`}>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={downloadJson}
+                disabled={!currentPattern}
+                className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${secondaryStyle}`}
+                title="Download the current pattern as a JSON file"
+              >
+                Download .json
+              </button>
+              <button
+                type="button"
+                onClick={() => jsonInputRef.current?.click()}
+                className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${secondaryStyle}`}
+                title="Open a pattern JSON file (or drop it onto the sequencer)"
+              >
+                Open .json
+              </button>
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => midiInputRef.current?.click()}
+                className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${secondaryStyle}`}
+                title="Import drums from a Standard MIDI File (or drop it onto the sequencer)"
+              >
+                Import .mid
+              </button>
+              <button
+                type="button"
+                onClick={openMidiSample}
+                className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${secondaryStyle}`}
+                title="Import the bundled 8-beat MIDI groove"
+              >
+                Sample .mid
+              </button>
+            </div>
+            <button
+              type="button"
+              onClick={() => hydrogenInputRef.current?.click()}
+              className={`w-full px-2 py-1 text-xs rounded transition-colors ${secondaryStyle}`}
+              title="Import a pattern from a Hydrogen song or drumkit pattern (or drop it onto the sequencer)"
+            >
+              Import Hydrogen .h2song
+            </button>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => downloadMidi(splitHands)}
+                disabled={!currentPattern}
+                className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${secondaryStyle}`}
+                title="Download the current pattern as a MIDI file (GM drums, channel 10)"
+              >
+                Export .mid
+              </button>
+              <label
+                className={`flex-1 flex items-center gap-1.5 text-xs cursor-pointer ${isDark ? 'text-slate-400' : 'text-slate-500'}`}
+                title="Put left- and right-hand hits on separate MIDI tracks"
+              >
+                <input
+                  type="checkbox"
+                  checked={splitHands}
+                  onChange={(e) => setSplitHands(e.target.checked)}
+                />
+                Split L/R hands
+              </label>
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setIsAudioExportOpen(true)}
+                disabled={!currentPattern}
+                className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${secondaryStyle}`}
+                title="Render the current pattern to a WAV audio file"
+              >
+                Export .wav
+              </button>
+              <button
+                type="button"
+                onClick={downloadMusicXml}
+                disabled={!currentPattern}
+                className={`flex-1 px-2 py-1 text-xs rounded transition-colors ${secondaryStyle}`}
+                title="Download the current pattern as drum notation (opens in MuseScore)"
+              >
+                Export MusicXML
+              </button>
+            </div>
+            <button
+              type="button"
+              onClick={() => setIsPrintOpen(true)}
+              disabled={!currentPattern}
+              className={`w-full px-2 py-1 text-xs rounded transition-colors ${secondaryStyle}`}
+              title="Print the current pattern as a practice sheet (or save it as a PDF)"
+            >
+              Print sheet
+            </button>
+            <input
+              ref={jsonInputRef}
+              type="file"
+              accept={`${PATTERN_JSON_EXTENSION},${PATTERN_JSON_MIME}`}
+              onChange={(e) => handleFileChange(e, openJsonFile)}
+              className="hidden"
+            />
+            <input
+              ref={midiInputRef}
+              type="file"
+              accept={`${MIDI_FILE_EXTENSIONS.join(',')},audio/midi`}
+              onChange={(e) => handleFileChange(e, openMidiFile)}
+              className="hidden"
+            />
+            <input
+              ref={hydrogenInputRef}
+              type="file"
+              accept={HYDROGEN_FILE_EXTENSIONS.join(',')}
+              onChange={(e) => handleFileChange(e, openHydrogenFile)}
+              className="hidden"
+            />
+          </div>
+        </div>
+      )}
+
+      {isAudioExportOpen && (
+        <AudioExportDialog onClose={() => setIsAudioExportOpen(false)} isDark={isDark} />
+      )}
+
+      {isPrintOpen && (
+        <PrintSheetDialog onClose={() => setIsPrintOpen(false)} isDark={isDark} />
+      )}
+    </>
+  );
+}
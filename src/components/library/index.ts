@@ -0,0 +1,7 @@
+/**
+ * Library Components
+ *
+ * Patterns saved in the browser
+ */
+
+export { PatternLibrary } from './PatternLibrary';
@@ -0,0 +1,7 @@
+/**
+ * MIDI Components
+ *
+ * Standard MIDI File drum import
+ */
+
+export { MidiImportDialog } from './MidiImportDialog';
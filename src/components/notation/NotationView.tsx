@@ -0,0 +1,764 @@
+/**
+ * NotationView - Drum staff notation of the current pattern
+ *
+ * Renders the pattern as SVG (laid out by utils/drumNotation.ts):
+ * - Noteheads on drum staff positions per pad, x noteheads for cymbals
+ * - Beams per beat, 3:2 brackets for triplet grids, rests and dots
+ * - Accents, ghost notes (parenthesized), flam/drag grace notes
+ * - Finger numbers above the hands and below the kick:
+ *   "2" = right hand, "(2)" = left hand
+ * - Highlights the notes at the playhead and keeps its bar in view
+ * NotationLines draws the same notation statically, line by line, for print.
+ */
+
+import { memo, useEffect, useMemo, useRef } from 'react';
+import { usePatternStore } from '../../stores/usePatternStore';
+import { usePlaybackStore } from '../../stores/usePlaybackStore';
+import { useThemeStore } from '../../stores/useThemeStore';
+import type { DrumPattern, Subdivision, TimeSignature } from '../../types/pattern';
+import { formatFingerDesignation, getStepsPerBeat } from '../../types/pattern';
+import type {
+  DrumNotation,
+  NotationEvent,
+  NotationMeasure,
+  NotationVoiceNumber,
+  NoteType,
+} from '../../types/notation';
+import { DRUM_STAFF_POSITIONS, getStaffIndex, type NoteheadShape } from '../../config/drumNotation';
+import { createDrumNotation, getNotationEventsAt } from '../../utils/drumNotation';
+
+/** Distance between a staff line and the next space */
+const HALF_SPACE = 4;
+/** Staff indexes of the five lines, bottom to top (E4 G4 B4 D5 F5) */
+const STAFF_LINES = [30, 32, 34, 36, 38];
+const BOTTOM_LINE = 30;
+const MIDDLE_LINE = 34;
+const TOP_LINE = 38;
+const STAFF_HEIGHT = (TOP_LINE - BOTTOM_LINE) * HALF_SPACE;
+
+const NOTEHEAD_RX = 4.5;
+const NOTEHEAD_RY = 3.5;
+const STEM_LENGTH = 28;
+const BEAM_THICKNESS = 3;
+const BEAM_SPACING = 5;
+const BEAM_STUB = 6;
+const LEDGER_OVERHANG = 3;
+
+/** Room above the staff for cymbals, stems, accents and brackets (fingers go above it) */
+const ABOVE_STAFF = 76;
+/** Room below the staff for kick stems, brackets and fingers */
+const BELOW_STAFF = 64;
+const FINGER_ROW = 10;
+const TOP_PADDING = 8;
+
+const HEADER_WIDTH = 48;
+const BAR_PADDING = 20;
+const QUARTER_WIDTH = 64;
+const MIN_STEP_WIDTH = 16;
+const END_PADDING = 8;
+
+/** Beams (or flags) per note value */
+const BEAM_COUNTS: Record<NoteType, number> = {
+  '32nd': 3,
+  '16th': 2,
+  eighth: 1,
+  quarter: 0,
+  half: 0,
+  whole: 0,
+};
+
+/** Grace notes drawn before a hit */
+const GRACE_COUNTS = { flam: 1, drag: 2 } as const;
+
+const NO_EVENTS: NotationEvent[] = [];
+
+/**
+ * Vertical and horizontal metrics shared by all bars
+ */
+interface StaffGeometry {
+  /** Y of the top staff line */
+  staffTop: number;
+  stepWidth: number;
+  barWidth: number;
+}
+
+function getStaffY(geometry: StaffGeometry, staffIndex: number): number {
+  return geometry.staffTop + (TOP_LINE - staffIndex) * HALF_SPACE;
+}
+
+/**
+ * Where an event is drawn: notehead column, stem and beam count
+ */
+interface EventLayout {
+  event: NotationEvent;
+  /** Center of the notehead column */
+  x: number;
+  stemX: number;
+  /** Y of the stem tip (beamed stems end on the beam); undefined without a stem */
+  stemEnd?: number;
+  beams: number;
+}
+
+function layoutVoice(
+  events: NotationEvent[],
+  voice: NotationVoiceNumber,
+  geometry: StaffGeometry,
+  barX: number
+): EventLayout[] {
+  const up = voice === 1;
+  const layouts = events.map((event): EventLayout => {
+    const x = barX + BAR_PADDING + event.step * geometry.stepWidth + NOTEHEAD_RX;
+    const stemX = up ? x + NOTEHEAD_RX : x - NOTEHEAD_RX;
+    if (event.notes.length === 0 || event.type === 'whole') {
+      return { event, x, stemX, beams: 0 };
+    }
+
+    const ys = event.notes.map((note) => getStaffY(geometry, getStaffIndex(DRUM_STAFF_POSITIONS[note.padId])));
+    const stemEnd = up ? Math.min(...ys) - STEM_LENGTH : Math.max(...ys) + STEM_LENGTH;
+    return { event, x, stemX, stemEnd, beams: BEAM_COUNTS[event.type] };
+  });
+
+  // Stems of a beam group end on one horizontal beam
+  let groupStart = -1;
+  layouts.forEach((layout, i) => {
+    if (layout.event.beam === 'begin') groupStart = i;
+    if (layout.event.beam === 'end' && groupStart >= 0) {
+      const group = layouts.slice(groupStart, i + 1).filter((l) => l.event.beam);
+      const ends = group.map((l) => l.stemEnd ?? 0);
+      const end = up ? Math.min(...ends) : Math.max(...ends);
+      group.forEach((l) => {
+        l.stemEnd = end;
+      });
+      groupStart = -1;
+    }
+  });
+
+  return layouts;
+}
+
+/**
+ * Runs of consecutive layouts between a start and an end marker
+ */
+function getRuns(
+  layouts: EventLayout[],
+  isStart: (event: NotationEvent) => boolean,
+  isEnd: (event: NotationEvent) => boolean
+): EventLayout[][] {
+  const runs: EventLayout[][] = [];
+  let run: EventLayout[] | null = null;
+  for (const layout of layouts) {
+    if (isStart(layout.event)) run = [];
+    run?.push(layout);
+    if (run && isEnd(layout.event)) {
+      runs.push(run);
+      run = null;
+    }
+  }
+  return runs;
+}
+
+interface NoteheadProps {
+  shape: NoteheadShape;
+  x: number;
+  y: number;
+  open?: boolean;
+  scale?: number;
+}
+
+function Notehead({ shape, x, y, open = false, scale = 1 }: NoteheadProps) {
+  const rx = NOTEHEAD_RX * scale;
+  const ry = NOTEHEAD_RY * scale;
+  const cross = `M ${x - ry} ${y - ry} L ${x + ry} ${y + ry} M ${x - ry} ${y + ry} L ${x + ry} ${y - ry}`;
+
+  switch (shape) {
+    case 'x':
+      return <path d={cross} stroke="currentColor" strokeWidth={1.4} />;
+    case 'circle-x':
+      return (
+        <g stroke="currentColor" strokeWidth={1.1} fill="none">
+          <circle cx={x} cy={y} r={rx} />
+          <path d={cross} />
+        </g>
+      );
+    case 'diamond':
+      return (
+        <polygon
+          points={`${x - rx},${y} ${x},${y - rx} ${x + rx},${y} ${x},${y + rx}`}
+          fill={open ? 'none' : 'currentColor'}
+          stroke="currentColor"
+          strokeWidth={1.1}
+        />
+      );
+    default:
+      return (
+        <ellipse
+          cx={x}
+          cy={y}
+          rx={rx}
+          ry={ry}
+          transform={`rotate(-20 ${x} ${y})`}
+          fill={open ? 'none' : 'currentColor'}
+          stroke="currentColor"
+          strokeWidth={open ? 1.3 : 0}
+        />
+      );
+  }
+}
+
+interface RestProps {
+  type: NoteType;
+  dots: number;
+  x: number;
+  y: number;
+}
+
+function Rest({ type, dots, x, y }: RestProps) {
+  const beams = BEAM_COUNTS[type];
+  let glyph;
+  if (type === 'whole') {
+    // Hangs from the line above the center
+    glyph = <rect x={x - 5} y={y - 2 * HALF_SPACE} width={10} height={4} fill="currentColor" />;
+  } else if (type === 'half') {
+    // Sits on the center line
+    glyph = <rect x={x - 5} y={y - 4} width={10} height={4} fill="currentColor" />;
+  } else if (type === 'quarter') {
+    glyph = (
+      <path
+        d={`M ${x - 2} ${y - 11} L ${x + 3} ${y - 5} L ${x - 1} ${y} L ${x + 3} ${y + 5} C ${x - 3} ${y + 3} ${x - 3} ${y + 8} ${x + 1} ${y + 11}`}
+        stroke="currentColor"
+        strokeWidth={1.8}
+        fill="none"
+      />
+    );
+  } else {
+    // Slanted stem with one hooked flag per beam
+    const top = y - 9;
+    const bottom = y + 7 + (beams - 1) * 6;
+    glyph = (
+      <g stroke="currentColor" strokeWidth={1.2} fill="none">
+        <path d={`M ${x + 4} ${top} L ${x} ${bottom}`} />
+        {Array.from({ length: beams }, (_, i) => {
+          const flagY = y - 7 + i * 6;
+          const stemX = x + 4 - ((flagY - 2 - top) / (bottom - top)) * 4;
+          return (
+            <g key={i}>
+              <circle cx={x - 2} cy={flagY} r={1.8} fill="currentColor" stroke="none" />
+              <path d={`M ${x - 2} ${flagY + 1} Q ${x + 1} ${flagY + 2} ${stemX} ${flagY - 2}`} />
+            </g>
+          );
+        })}
+      </g>
+    );
+  }
+
+  return (
+    <g>
+      {glyph}
+      {dots > 0 && <circle cx={x + 8} cy={y - HALF_SPACE} r={1.5} fill="currentColor" />}
+    </g>
+  );
+}
+
+interface ChordProps {
+  layout: EventLayout;
+  voice: NotationVoiceNumber;
+  geometry: StaffGeometry;
+  /** Baseline of the finger row nearest the staff */
+  fingerY: number;
+}
+
+function Chord({ layout, voice, geometry, fingerY }: ChordProps) {
+  const { event, x, stemX, stemEnd, beams } = layout;
+  const up = voice === 1;
+  const open = event.type === 'half' || event.type === 'whole';
+  const indexes = event.notes.map((note) => getStaffIndex(DRUM_STAFF_POSITIONS[note.padId]));
+  const ys = indexes.map((index) => getStaffY(geometry, index));
+
+  // Seconds in a chord: every other note moves to the far side of the stem
+  const shifts: number[] = [];
+  indexes.forEach((index, i) => {
+    const clash = i > 0 && shifts[i - 1] === 0 && index - indexes[i - 1] === 1;
+    shifts.push(clash ? (up ? 2 * NOTEHEAD_RX : -2 * NOTEHEAD_RX) : 0);
+  });
+
+  // Ledger lines above and below the staff
+  const highest = Math.max(...indexes);
+  const lowest = Math.min(...indexes);
+  const ledgers: number[] = [];
+  for (let index = TOP_LINE + 2; index <= highest; index += 2) ledgers.push(index);
+  for (let index = BOTTOM_LINE - 2; index >= lowest; index -= 2) ledgers.push(index);
+
+  const stemStart = up ? Math.max(...ys) : Math.min(...ys);
+  const hasAccent = event.notes.some((note) => note.articulation === 'accent');
+
+  return (
+    <g>
+      {ledgers.map((index) => (
+        <line
+          key={index}
+          x1={x - NOTEHEAD_RX - LEDGER_OVERHANG}
+          x2={x + NOTEHEAD_RX + LEDGER_OVERHANG}
+          y1={getStaffY(geometry, index)}
+          y2={getStaffY(geometry, index)}
+          stroke="currentColor"
+          strokeWidth={1}
+        />
+      ))}
+
+      {event.notes.map((note, i) => {
+        const noteX = x + shifts[i];
+        const y = ys[i];
+        const grace = note.articulation === 'flam' || note.articulation === 'drag'
+          ? GRACE_COUNTS[note.articulation]
+          : 0;
+        return (
+          <g key={`${note.padId}-${i}`}>
+            <Notehead shape={DRUM_STAFF_POSITIONS[note.padId].notehead} x={noteX} y={y} open={open} />
+            {note.articulation === 'ghost' && (
+              <g fontSize={11} textAnchor="middle" dominantBaseline="central" fill="currentColor">
+                <text x={noteX - NOTEHEAD_RX - 3} y={y}>(</text>
+                <text x={noteX + NOTEHEAD_RX + 3} y={y}>)</text>
+              </g>
+            )}
+            {Array.from({ length: event.dots }, (_, dot) => (
+              <circle
+                key={dot}
+                cx={noteX + NOTEHEAD_RX + 4}
+                cy={indexes[i] % 2 === 0 ? y - HALF_SPACE : y}
+                r={1.5}
+                fill="currentColor"
+              />
+            ))}
+            {Array.from({ length: grace }, (_, g) => {
+              const graceX = x - 10 - (grace - 1 - g) * 6;
+              const graceStemX = up ? graceX + 2.7 : graceX - 2.7;
+              const graceEnd = up ? y - 14 : y + 14;
+              return (
+                <g key={g} stroke="currentColor" strokeWidth={0.9}>
+                  <Notehead shape={DRUM_STAFF_POSITIONS[note.padId].notehead} x={graceX} y={y} scale={0.6} />
+                  <line x1={graceStemX} x2={graceStemX} y1={y} y2={graceEnd} />
+                  {grace === 1 && (
+                    <line x1={graceStemX - 3} x2={graceStemX + 3} y1={graceEnd + (up ? 7 : -7)} y2={graceEnd + (up ? 3 : -3)} />
+                  )}
+                  {grace > 1 && g === 0 && (
+                    <line x1={graceStemX} x2={graceStemX + 6} y1={graceEnd} y2={graceEnd} strokeWidth={2} />
+                  )}
+                </g>
+              );
+            })}
+            <text
+              x={x}
+              y={up ? fingerY - i * FINGER_ROW : fingerY + i * FINGER_ROW}
+              fontSize={9}
+              textAnchor="middle"
+              fill="currentColor"
+            >
+              {formatFingerDesignation(note.finger)}
+            </text>
+          </g>
+        );
+      })}
+
+      {stemEnd !== undefined && (
+        <line x1={stemX} x2={stemX} y1={stemStart} y2={stemEnd} stroke="currentColor" strokeWidth={1.1} />
+      )}
+
+      {/* Flags on unbeamed short notes */}
+      {stemEnd !== undefined && !event.beam && Array.from({ length: beams }, (_, level) => {
+        const flagY = up ? stemEnd + level * BEAM_SPACING : stemEnd - level * BEAM_SPACING;
+        const d = up
+          ? `M ${stemX} ${flagY} c 2 4 7 5 5 12`
+          : `M ${stemX} ${flagY} c 2 -4 7 -5 5 -12`;
+        return <path key={level} d={d} stroke="currentColor" strokeWidth={1.3} fill="none" />;
+      })}
+
+      {hasAccent && stemEnd !== undefined && (
+        <path
+          d={`M ${x - 4} ${stemEnd + (up ? -9 : 4)} l 8 2.5 l -8 2.5`}
+          stroke="currentColor"
+          strokeWidth={1.2}
+          fill="none"
+        />
+      )}
+    </g>
+  );
+}
+
+interface BeamsProps {
+  group: EventLayout[];
+  up: boolean;
+}
+
+function Beams({ group, up }: BeamsProps) {
+  const rects: { x: number; width: number; level: number }[] = [];
+  const maxBeams = Math.max(...group.map((l) => l.beams));
+
+  for (let level = 0; level < maxBeams; level++) {
+    group.forEach((layout, i) => {
+      if (layout.beams <= level) return;
+      const next = group[i + 1];
+      const prev = group[i - 1];
+      if (next && next.beams > level) {
+        rects.push({ x: layout.stemX, width: next.stemX - layout.stemX, level });
+      } else if (!prev || prev.beams <= level) {
+        // Partial beam towards the neighbor
+        rects.push(next || !prev
+          ? { x: layout.stemX, width: BEAM_STUB, level }
+          : { x: layout.stemX - BEAM_STUB, width: BEAM_STUB, level });
+      }
+    });
+  }
+
+  const end = group[0].stemEnd ?? 0;
+  return (
+    <g fill="currentColor">
+      {rects.map((rect, i) => (
+        <rect
+          key={i}
+          x={rect.x - 0.5}
+          y={up ? end + rect.level * BEAM_SPACING : end - BEAM_THICKNESS - rect.level * BEAM_SPACING}
+          width={rect.width + 1}
+          height={BEAM_THICKNESS}
+        />
+      ))}
+    </g>
+  );
+}
+
+interface TupletBracketProps {
+  group: EventLayout[];
+  up: boolean;
+  geometry: StaffGeometry;
+}
+
+function TupletBracket({ group, up, geometry }: TupletBracketProps) {
+  const x1 = group[0].x - NOTEHEAD_RX - 1;
+  const x2 = group[group.length - 1].x + NOTEHEAD_RX + 1;
+  const mid = (x1 + x2) / 2;
+  const ends = group.flatMap((l) => (l.stemEnd === undefined ? [] : [l.stemEnd]));
+  const y = up
+    ? Math.min(...ends, geometry.staffTop) - 14
+    : Math.max(...ends, geometry.staffTop + STAFF_HEIGHT) + 14;
+  const hook = up ? 4 : -4;
+
+  return (
+    <g>
+      <path
+        d={`M ${x1} ${y + hook} L ${x1} ${y} L ${mid - 5} ${y} M ${mid + 5} ${y} L ${x2} ${y} L ${x2} ${y + hook}`}
+        stroke="currentColor"
+        strokeWidth={0.9}
+        fill="none"
+      />
+      <text x={mid} y={y} fontSize={10} fontStyle="italic" textAnchor="middle" dominantBaseline="central" fill="currentColor">
+        3
+      </text>
+    </g>
+  );
+}
+
+interface NotationBarProps {
+  measure: NotationMeasure;
+  index: number;
+  isLast: boolean;
+  geometry: StaffGeometry;
+  /** Events at the playhead (empty when the playhead is in another bar) */
+  currentEvents: NotationEvent[];
+  /** Playhead step within this bar, or null */
+  currentStep: number | null;
+  highlightClass: string;
+}
+
+const NotationBar = memo(function NotationBar({
+  measure,
+  index,
+  isLast,
+  geometry,
+  currentEvents,
+  currentStep,
+  highlightClass,
+}: NotationBarProps) {
+  const { staffTop, stepWidth, barWidth } = geometry;
+  const barX = HEADER_WIDTH + index * barWidth;
+  const barEnd = barX + barWidth;
+  const staffBottom = staffTop + STAFF_HEIGHT;
+  const hasKick = measure.voices.length > 1;
+
+  return (
+    <g>
+      {currentStep !== null && (
+        <rect
+          className={highlightClass}
+          x={barX + BAR_PADDING + currentStep * stepWidth - 3}
+          y={TOP_PADDING}
+          width={stepWidth}
+          height={staffBottom + BELOW_STAFF - TOP_PADDING}
+          fill="currentColor"
+          opacity={0.12}
+        />
+      )}
+
+      {measure.voices.map(({ voice, events }) => {
+        const up = voice === 1;
+        const layouts = layoutVoice(events, voice, geometry, barX);
+        const fingerY = up ? staffTop - ABOVE_STAFF + 4 : staffBottom + BELOW_STAFF - 6;
+        // With a kick voice, hand rests move up and kick rests move down
+        const restIndex = !hasKick ? MIDDLE_LINE : up ? MIDDLE_LINE + 2 : MIDDLE_LINE - 4;
+
+        return (
+          <g key={voice}>
+            {layouts.map((layout) => (
+              <g
+                key={layout.event.step}
+                className={currentEvents.includes(layout.event) ? highlightClass : undefined}
+              >
+                {layout.event.notes.length === 0 ? (
+                  <Rest
+                    type={layout.event.type}
+                    dots={layout.event.dots}
+                    x={layout.x}
+                    y={getStaffY(geometry, restIndex)}
+                  />
+                ) : (
+                  <Chord layout={layout} voice={voice} geometry={geometry} fingerY={fingerY} />
+                )}
+              </g>
+            ))}
+            {getRuns(layouts, (e) => e.beam === 'begin', (e) => e.beam === 'end').map((group) => (
+              <Beams
+                key={`beam-${group[0].event.step}`}
+                group={group.filter((l) => l.event.beam)}
+                up={up}
+              />
+            ))}
+            {getRuns(layouts, (e) => e.tuplet === 'start', (e) => e.tuplet === 'stop').map((group) => (
+              <TupletBracket key={`tuplet-${group[0].event.step}`} group={group} up={up} geometry={geometry} />
+            ))}
+          </g>
+        );
+      })}
+
+      {/* Barline; the last bar ends with a repeat sign */}
+      {isLast ? (
+        <g fill="currentColor">
+          <circle cx={barEnd - 11} cy={getStaffY(geometry, MIDDLE_LINE + 1)} r={1.6} />
+          <circle cx={barEnd - 11} cy={getStaffY(geometry, MIDDLE_LINE - 1)} r={1.6} />
+          <rect x={barEnd - 7} y={staffTop} width={1} height={STAFF_HEIGHT} />
+          <rect x={barEnd - 4} y={staffTop} width={3.5} height={STAFF_HEIGHT} />
+        </g>
+      ) : (
+        <line x1={barEnd} x2={barEnd} y1={staffTop} y2={staffBottom} stroke="currentColor" strokeWidth={1} />
+      )}
+    </g>
+  );
+});
+
+/**
+ * Finger rows above the staff: one per note of the largest hand chord
+ */
+function getFingerRows(notation: DrumNotation): number {
+  const sizes = notation.measures.flatMap((measure) =>
+    measure.voices[0]?.events.map((event) => event.notes.length) ?? []
+  );
+  return Math.max(1, ...sizes);
+}
+
+/**
+ * Staff metrics for a pattern's notation
+ */
+function getPatternGeometry(notation: DrumNotation, subdivision: Subdivision): StaffGeometry {
+  const stepWidth = Math.max(MIN_STEP_WIDTH, QUARTER_WIDTH / getStepsPerBeat(subdivision));
+  return {
+    staffTop: TOP_PADDING + getFingerRows(notation) * FINGER_ROW + ABOVE_STAFF,
+    stepWidth,
+    barWidth: BAR_PADDING + notation.stepsPerBar * stepWidth,
+  };
+}
+
+interface StaffStartProps {
+  geometry: StaffGeometry;
+  /** Staff lines end here */
+  width: number;
+  /** Time signature to show after the clef, if any */
+  timeSignature?: TimeSignature;
+  lineColor: string;
+}
+
+/**
+ * Staff lines, opening barline, percussion clef and time signature
+ */
+function StaffStart({ geometry, width, timeSignature, lineColor }: StaffStartProps) {
+  const { staffTop } = geometry;
+  return (
+    <>
+      {/* Staff lines */}
+      <g className={lineColor}>
+        {STAFF_LINES.map((line) => (
+          <line
+            key={line}
+            x1={8}
+            x2={width - END_PADDING}
+            y1={getStaffY(geometry, line)}
+            y2={getStaffY(geometry, line)}
+            stroke="currentColor"
+            strokeWidth={1}
+          />
+        ))}
+        <line x1={8} x2={8} y1={staffTop} y2={staffTop + STAFF_HEIGHT} stroke="currentColor" strokeWidth={1} />
+      </g>
+
+      {/* Percussion clef and time signature */}
+      <g fill="currentColor">
+        <rect x={14} y={getStaffY(geometry, MIDDLE_LINE + 2)} width={3} height={4 * HALF_SPACE} />
+        <rect x={20} y={getStaffY(geometry, MIDDLE_LINE + 2)} width={3} height={4 * HALF_SPACE} />
+        {timeSignature && (
+          <g fontSize={16} fontWeight="bold" textAnchor="middle" dominantBaseline="central">
+            <text x={36} y={getStaffY(geometry, MIDDLE_LINE + 2)}>{timeSignature.numerator}</text>
+            <text x={36} y={getStaffY(geometry, MIDDLE_LINE - 2)}>{timeSignature.denominator}</text>
+          </g>
+        )}
+      </g>
+    </>
+  );
+}
+
+interface PatternNotationProps {
+  pattern: DrumPattern;
+  isDark: boolean;
+}
+
+const PatternNotation = memo(function PatternNotation({ pattern, isDark }: PatternNotationProps) {
+  const currentStep = usePlaybackStore((state) => state.currentStep);
+  const isPlaying = usePlaybackStore((state) => state.isPlaying);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const notation = useMemo(() => createDrumNotation(pattern), [pattern]);
+  const geometry = useMemo(
+    () => getPatternGeometry(notation, pattern.subdivision),
+    [notation, pattern.subdivision]
+  );
+
+  const current = useMemo(() => getNotationEventsAt(notation, currentStep), [notation, currentStep]);
+
+  // Keep the playing bar in view
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !isPlaying) return;
+    const left = HEADER_WIDTH + current.measure * geometry.barWidth;
+    if (left < container.scrollLeft || left + geometry.barWidth > container.scrollLeft + container.clientWidth) {
+      container.scrollLeft = left - HEADER_WIDTH;
+    }
+  }, [current.measure, isPlaying, geometry.barWidth]);
+
+  const width = HEADER_WIDTH + notation.measures.length * geometry.barWidth + END_PADDING;
+  const height = geometry.staffTop + STAFF_HEIGHT + BELOW_STAFF;
+  const highlightClass = isPlaying ? 'text-emerald-400' : 'text-sky-500';
+  const inkColor = isDark ? 'text-slate-200' : 'text-slate-800';
+  const lineColor = isDark ? 'text-slate-500' : 'text-slate-400';
+  const mutedText = isDark ? 'text-slate-400' : 'text-slate-500';
+
+  return (
+    <div className="flex flex-col">
+      <div className={`px-3 pt-2 text-xs ${mutedText}`}>
+        Fingers: 2 = right hand, (2) = left hand
+      </div>
+      <div ref={containerRef} className="overflow-x-auto">
+        <svg
+          width={width}
+          height={height}
+          viewBox={`0 0 ${width} ${height}`}
+          role="img"
+          aria-label={`Drum notation of ${pattern.name}`}
+          className={inkColor}
+        >
+          <StaffStart
+            geometry={geometry}
+            width={width}
+            timeSignature={notation.timeSignature}
+            lineColor={lineColor}
+          />
+
+          {notation.measures.map((measure, index) => {
+            const isCurrent = index === current.measure;
+            return (
+              <NotationBar
+                key={index}
+                measure={measure}
+                index={index}
+                isLast={index === notation.measures.length - 1}
+                geometry={geometry}
+                currentEvents={isCurrent ? current.events : NO_EVENTS}
+                currentStep={isCurrent ? currentStep % notation.stepsPerBar : null}
+                highlightClass={highlightClass}
+              />
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+});
+
+interface NotationLinesProps {
+  pattern: DrumPattern;
+  /** Bar indices on each line (see getSheetLines) */
+  lines: number[][];
+}
+
+/**
+ * Static notation in black ink, one staff per line of bars, scaled to the
+ * container width (used by the practice sheet)
+ */
+export const NotationLines = memo(function NotationLines({ pattern, lines }: NotationLinesProps) {
+  const notation = useMemo(() => createDrumNotation(pattern), [pattern]);
+  const geometry = useMemo(
+    () => getPatternGeometry(notation, pattern.subdivision),
+    [notation, pattern.subdivision]
+  );
+
+  // Every line shares the widest line's scale
+  const maxBars = Math.max(1, ...lines.map((bars) => bars.length));
+  const width = HEADER_WIDTH + maxBars * geometry.barWidth + END_PADDING;
+  const height = geometry.staffTop + STAFF_HEIGHT + BELOW_STAFF;
+
+  return (
+    <div className="space-y-1 text-black">
+      {lines.map((bars, lineIndex) => (
+        <svg
+          key={lineIndex}
+          viewBox={`0 0 ${width} ${height}`}
+          className="block w-full h-auto break-inside-avoid"
+          role="img"
+          aria-label={`Drum notation of ${pattern.name}, bars ${bars[0] + 1}-${bars[bars.length - 1] + 1}`}
+        >
+          <StaffStart
+            geometry={geometry}
+            width={HEADER_WIDTH + bars.length * geometry.barWidth + END_PADDING}
+            timeSignature={lineIndex === 0 ? notation.timeSignature : undefined}
+            lineColor="text-neutral-500"
+          />
+          {bars.map((bar, index) => (
+            <NotationBar
+              key={bar}
+              measure={notation.measures[bar]}
+              index={index}
+              isLast={bar === notation.measures.length - 1}
+              geometry={geometry}
+              currentEvents={NO_EVENTS}
+              currentStep={null}
+              highlightClass=""
+            />
+          ))}
+        </svg>
+      ))}
+    </div>
+  );
+});
+
+export const NotationView = memo(function NotationView() {
+  const currentPattern = usePatternStore((state) => state.currentPattern);
+  const theme = useThemeStore((state) => state.theme);
+  const isDark = theme === 'fgdp-50';
+
+  if (!currentPattern) return null;
+  return <PatternNotation pattern={currentPattern} isDark={isDark} />;
+});
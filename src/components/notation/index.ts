@@ -0,0 +1,7 @@
+/**
+ * Notation Components
+ *
+ * Drum staff notation of the current pattern
+ */
+
+export { NotationView, NotationLines } from './NotationView';
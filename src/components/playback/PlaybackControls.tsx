@@ -3,11 +3,15 @@
  *
  * Story 3.2: Play/Stop Controls
  * Story 3.3: BPM Control
+ *
+ * The BPM control edits the pattern's tempo, or the practice tempo while
+ * practice mode is on.
  */
 
 import { memo, useCallback, type ChangeEvent, type KeyboardEvent } from 'react';
 import { usePlaybackStore, MIN_BPM, MAX_BPM } from '../../stores/usePlaybackStore';
 import { useAudioStore } from '../../stores/useAudioStore';
+import { usePatternStore } from '../../stores/usePatternStore';
 import { useThemeStore } from '../../stores/useThemeStore';
 
 /**
@@ -119,13 +123,16 @@ export const PlaybackControls = memo(function PlaybackControls() {
     pause,
     stop,
     bpm,
+    practiceBpm,
     setBpm,
     adjustBpm,
+    setPracticeBpm,
     seekForward,
     seekBackward,
     toggleLoop
   } = usePlaybackStore();
   const { isAudioReady, isLoading: isAudioLoading, initAudio } = useAudioStore();
+  const patternBpm = usePatternStore((state) => state.currentPattern?.bpm);
   const theme = useThemeStore((state) => state.theme);
   const isDark = theme === 'fgdp-50';
 
@@ -162,6 +169,12 @@ export const PlaybackControls = memo(function PlaybackControls() {
     [setBpm]
   );
 
+  // Practice mode starts at the current tempo; leaving it returns to the pattern's
+  const isPracticing = practiceBpm !== null;
+  const handlePracticeToggle = useCallback(() => {
+    setPracticeBpm(isPracticing ? null : bpm);
+  }, [setPracticeBpm, isPracticing, bpm]);
+
   // Handle BPM keyboard navigation
   const handleBpmKeyDown = useCallback(
     (e: KeyboardEvent<HTMLInputElement>) => {
@@ -322,7 +335,10 @@ export const PlaybackControls = memo(function PlaybackControls() {
         </button>
 
         <div className="flex items-center gap-1">
-          <label htmlFor="bpm-input" className={`text-sm ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+          <label
+            htmlFor="bpm-input"
+            className={`text-sm ${isPracticing ? 'text-amber-400' : isDark ? 'text-slate-400' : 'text-slate-500'}`}
+          >
             BPM:
           </label>
           <input
@@ -342,7 +358,7 @@ export const PlaybackControls = memo(function PlaybackControls() {
                 : 'bg-white border border-slate-300 text-slate-800 focus:border-slate-400'
               }
             `}
-            aria-label={`BPM: ${bpm}. Use arrow keys to adjust.`}
+            aria-label={`${isPracticing ? 'Practice BPM' : 'BPM'}: ${bpm}. Use arrow keys to adjust.`}
           />
         </div>
 
@@ -358,6 +374,25 @@ export const PlaybackControls = memo(function PlaybackControls() {
         >
           +
         </button>
+
+        {/* Practice tempo toggle - overrides playback tempo without changing the pattern */}
+        <button
+          type="button"
+          onClick={handlePracticeToggle}
+          className={`
+            px-2 h-6 rounded text-xs font-medium
+            focus:outline-none focus:ring-2 focus:ring-slate-400
+            ${isPracticing ? 'bg-amber-500 text-white hover:bg-amber-400' : buttonBase}
+          `}
+          aria-pressed={isPracticing}
+          title={
+            isPracticing
+              ? `Practice tempo on (pattern: ${patternBpm ?? bpm} BPM). Click to return to the pattern tempo.`
+              : 'Practice at a different tempo without changing the pattern'
+          }
+        >
+          {isPracticing ? `Practice (${patternBpm ?? bpm})` : 'Practice'}
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,164 @@
+/**
+ * PracticeSheet - Printable page for a pattern
+ *
+ * Black-on-white layout sized by the page, not the screen:
+ * - Title with tempo, time signature, grid and length
+ * - Pad diagram with the fingers each pad is played with
+ * - Compact grid, one row per track that plays, finger per hit
+ *   ("2" = right hand, "(2)" = left hand)
+ * - Optional drum notation
+ * Bars are split into lines (see getSheetLines) that don't break across pages.
+ */
+
+import { memo, useMemo } from 'react';
+import type { DrumPattern } from '../../types/pattern';
+import {
+  formatFingerDesignation,
+  formatTimeSignature,
+  getPatternTimeSignature,
+  getStepsPerBar,
+  getStepsPerCountedBeat,
+  getSubdivisionLabel,
+} from '../../types/pattern';
+import { PadDiagram } from '../visualization/PadDiagram';
+import { NotationLines } from '../notation';
+import { getPadFingerings, getSheetLines, getSheetRows, type SheetHit } from '../../utils/practiceSheet';
+
+/** Lines wider than this many steps get a smaller font */
+const COMPACT_LINE_STEPS = 32;
+
+/** Marks after the finger for flams and drags */
+const GRACE_MARKS = { flam: 'f', drag: 'd' } as const;
+
+interface SheetCellProps {
+  hit: SheetHit | null;
+  /** Cell starts a beat (thin rule) or a bar (thick rule) */
+  boundary: 'bar' | 'beat' | null;
+}
+
+function SheetCell({ hit, boundary }: SheetCellProps) {
+  const rule =
+    boundary === 'bar' ? 'border-l-2 border-l-black' : boundary === 'beat' ? 'border-l border-l-neutral-500' : '';
+  const articulation = hit?.articulation;
+  return (
+    <td
+      className={`border-y border-neutral-300 text-center whitespace-nowrap ${rule} ${
+        articulation === 'accent' ? 'font-bold' : ''
+      } ${articulation === 'ghost' ? 'text-neutral-400' : ''}`}
+    >
+      {hit && (
+        <>
+          {articulation === 'accent' && '>'}
+          {formatFingerDesignation(hit.finger)}
+          {(articulation === 'flam' || articulation === 'drag') && (
+            <sup>{GRACE_MARKS[articulation]}</sup>
+          )}
+        </>
+      )}
+    </td>
+  );
+}
+
+interface PracticeSheetProps {
+  pattern: DrumPattern;
+  showNotation: boolean;
+}
+
+export const PracticeSheet = memo(function PracticeSheet({ pattern, showNotation }: PracticeSheetProps) {
+  const rows = useMemo(() => getSheetRows(pattern), [pattern]);
+  const lines = useMemo(() => getSheetLines(pattern), [pattern]);
+  const fingerings = useMemo(() => getPadFingerings(pattern), [pattern]);
+
+  const timeSignature = getPatternTimeSignature(pattern);
+  const stepsPerBar = getStepsPerBar(pattern.subdivision, timeSignature);
+  const stepsPerBeat = getStepsPerCountedBeat(pattern.subdivision, timeSignature);
+
+  return (
+    <div className="bg-white text-black text-[10pt] leading-snug">
+      <header className="flex items-baseline justify-between gap-4 border-b-2 border-black pb-1 mb-3">
+        <h1 className="text-[18pt] font-bold truncate">{pattern.name}</h1>
+        <p className="shrink-0">
+          {pattern.bpm} BPM · {formatTimeSignature(timeSignature)} · {getSubdivisionLabel(pattern.subdivision)} ·{' '}
+          {pattern.bars} bar{pattern.bars > 1 ? 's' : ''}
+        </p>
+      </header>
+
+      <div className="flex items-start gap-6 mb-4 break-inside-avoid">
+        <div className="w-1/2">
+          <PadDiagram fingerings={fingerings} />
+        </div>
+        <dl className="text-[9pt] space-y-1">
+          <div>
+            <dt className="inline font-bold">2</dt> <dd className="inline">right hand, finger 2</dd>
+          </div>
+          <div>
+            <dt className="inline font-bold">(2)</dt> <dd className="inline">left hand, finger 2</dd>
+          </div>
+          <div>
+            <dt className="inline font-bold">&gt;2</dt> <dd className="inline">accent</dd>
+          </div>
+          <div>
+            <dt className="inline font-bold text-neutral-400">2</dt> <dd className="inline">ghost note</dd>
+          </div>
+          <div>
+            <dt className="inline font-bold">
+              2<sup>f</sup> 2<sup>d</sup>
+            </dt>{' '}
+            <dd className="inline">flam, drag</dd>
+          </div>
+        </dl>
+      </div>
+
+      <section aria-label="Grid" className="mb-4">
+        {rows.length === 0 && <p className="text-neutral-500">This pattern has no notes.</p>}
+        {rows.length > 0 &&
+          lines.map((bars) => {
+            const firstStep = bars[0] * stepsPerBar;
+            const lineSteps = bars.length * stepsPerBar;
+            return (
+              <table
+                key={bars[0]}
+                className={`w-full table-fixed border-collapse mb-2 break-inside-avoid ${
+                  lineSteps > COMPACT_LINE_STEPS ? 'text-[6pt]' : 'text-[8pt]'
+                }`}
+              >
+                <colgroup>
+                  <col className="w-24" />
+                </colgroup>
+                <thead>
+                  <tr>
+                    <th className="text-left font-normal text-neutral-500">Bar {bars[0] + 1}</th>
+                    {Array.from({ length: lineSteps }, (_, i) => (
+                      <th key={i} className="font-normal text-neutral-500">
+                        {i % stepsPerBeat === 0 ? (i % stepsPerBar) / stepsPerBeat + 1 : ''}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.padId}>
+                      <th className="text-left font-normal truncate pr-1">{row.label}</th>
+                      {row.cells.slice(firstStep, firstStep + lineSteps).map((hit, i) => (
+                        <SheetCell
+                          key={i}
+                          hit={hit}
+                          boundary={i % stepsPerBar === 0 ? 'bar' : i % stepsPerBeat === 0 ? 'beat' : null}
+                        />
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            );
+          })}
+      </section>
+
+      {showNotation && (
+        <section aria-label="Notation">
+          <NotationLines pattern={pattern} lines={lines} />
+        </section>
+      )}
+    </div>
+  );
+});
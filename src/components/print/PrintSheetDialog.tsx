@@ -0,0 +1,134 @@
+/**
+ * PrintSheetDialog - Options for printing the practice sheet
+ *
+ * - Paper size (A4 or Letter) and whether to include notation
+ * - Printing goes through the browser's print dialog ("Save as PDF" makes
+ *   a PDF); while this dialog is open the sheet is mounted outside the app
+ *   root and the print stylesheet shows only the sheet
+ */
+
+import { memo, useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { usePatternStore } from '../../stores/usePatternStore';
+import { useLayoutStore } from '../../stores/useLayoutStore';
+import { PAPER_SIZES, type PaperSize } from '../../utils/practiceSheet';
+import { PracticeSheet } from './PracticeSheet';
+
+/** Page margin on all sides */
+const PAGE_MARGIN = '12mm';
+
+interface PrintSheetDialogProps {
+  onClose: () => void;
+  isDark: boolean;
+}
+
+export const PrintSheetDialog = memo(function PrintSheetDialog({ onClose, isDark }: PrintSheetDialogProps) {
+  const pattern = usePatternStore((state) => state.currentPattern);
+  const [paperSize, setPaperSize] = useState<PaperSize>('a4');
+  // Notation starts on when the notation view is showing
+  const [showNotation, setShowNotation] = useState(() => useLayoutStore.getState().showNotation);
+
+  // Close on ESC key
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handlePrint = () => {
+    window.addEventListener('afterprint', onClose, { once: true });
+    window.print();
+  };
+
+  const panelStyle = isDark
+    ? 'bg-slate-800 border-slate-600 text-slate-200'
+    : 'bg-white border-slate-300 text-slate-700';
+  const mutedText = isDark ? 'text-slate-400' : 'text-slate-500';
+  const inputStyle = isDark
+    ? 'bg-slate-700 border-slate-600 text-slate-200'
+    : 'bg-white border-slate-300 text-slate-700';
+  const cancelStyle = isDark
+    ? 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+    : 'bg-slate-100 text-slate-600 hover:bg-slate-200';
+
+  const pageSize = PAPER_SIZES.find((size) => size.value === paperSize)?.pageSize ?? 'A4';
+
+  return (
+    <>
+      <div
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+        onMouseDown={(e) => {
+          if (e.target === e.currentTarget) onClose();
+        }}
+      >
+        <div
+          className={`border rounded-lg shadow-xl w-full max-w-xs p-4 ${panelStyle}`}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="print-sheet-title"
+        >
+          <h2 id="print-sheet-title" className="text-sm font-semibold mb-1">
+            Print practice sheet
+          </h2>
+          <p className={`text-xs mb-3 ${mutedText}`}>
+            One page with the pad fingering, a grid with finger numbers and optional notation. Choose
+            “Save as PDF” in the print dialog for a PDF.
+          </p>
+
+          <div className="space-y-2 text-xs">
+            <label className="flex items-center justify-between gap-2">
+              <span>Paper</span>
+              <select
+                value={paperSize}
+                onChange={(e) => setPaperSize(e.target.value as PaperSize)}
+                className={`px-2 py-1 rounded border ${inputStyle}`}
+              >
+                {PAPER_SIZES.map((size) => (
+                  <option key={size.value} value={size.value}>
+                    {size.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={showNotation} onChange={(e) => setShowNotation(e.target.checked)} />
+              Include notation
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-2 mt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className={`px-3 py-1 rounded text-xs font-medium transition-colors ${cancelStyle}`}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handlePrint}
+              disabled={!pattern}
+              autoFocus
+              className="px-3 py-1 rounded text-xs font-medium bg-sky-600 text-white hover:bg-sky-500 disabled:opacity-50 transition-colors"
+            >
+              Print…
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {pattern &&
+        createPortal(
+          <div className="print-sheet hidden print:block">
+            <style>{`@page { size: ${pageSize}; margin: ${PAGE_MARGIN}; }`}</style>
+            <PracticeSheet pattern={pattern} showNotation={showNotation} />
+          </div>,
+          document.body
+        )}
+    </>
+  );
+});
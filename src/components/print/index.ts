@@ -0,0 +1,8 @@
+/**
+ * Print Components
+ *
+ * Printable practice sheet of the current pattern
+ */
+
+export { PracticeSheet } from './PracticeSheet';
+export { PrintSheetDialog } from './PrintSheetDialog';
@@ -0,0 +1,172 @@
+/**
+ * ConditionEditor - Popover for editing a step's trigger condition
+ *
+ * Sets how often an active step fires: a probability and/or a loop
+ * cycle such as 1:4 (first of every four loops).
+ */
+
+import { memo, useEffect, useRef } from 'react';
+import type { StepCondition } from '../../types/pattern';
+import { MIN_CYCLE, MAX_CYCLE } from '../../utils/stepConditions';
+
+interface ConditionEditorProps {
+  /** Current condition (undefined = every loop) */
+  currentCondition?: StepCondition;
+  /** Callback when the condition is changed */
+  onConditionChange: (condition: StepCondition | undefined) => void;
+  /** Callback to close the editor */
+  onClose: () => void;
+  /** Position for the popover */
+  position: { x: number; y: number };
+  /** Dark theme mode */
+  isDark?: boolean;
+}
+
+const PROBABILITIES = [100, 75, 50, 25, 10];
+const CYCLES = Array.from({ length: MAX_CYCLE - MIN_CYCLE + 2 }, (_, i) => i + 1);
+
+/**
+ * ConditionEditor popover component
+ */
+export const ConditionEditor = memo(function ConditionEditor({
+  currentCondition,
+  onConditionChange,
+  onClose,
+  position,
+  isDark = true,
+}: ConditionEditorProps) {
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  const probability = currentCondition?.probability ?? 100;
+  const cycle = currentCondition?.cycle ?? 1;
+  const iteration = currentCondition?.iteration ?? 1;
+
+  // Close on ESC key
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Close on outside click
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) {
+        onClose();
+      }
+    };
+    // Use setTimeout to avoid immediate close from the triggering click
+    const timer = setTimeout(() => {
+      document.addEventListener('mousedown', handleClickOutside);
+    }, 0);
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [onClose]);
+
+  const update = (changes: StepCondition) => {
+    onConditionChange({ probability, cycle, iteration, ...changes });
+  };
+
+  // Theme-aware styles
+  const popoverStyle = isDark
+    ? 'bg-slate-800 border-slate-600'
+    : 'bg-white border-slate-300';
+  const labelStyle = isDark ? 'text-slate-400' : 'text-slate-500';
+  const inactiveButtonStyle = isDark
+    ? 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+    : 'bg-slate-100 text-slate-600 hover:bg-slate-200';
+  const selectStyle = isDark
+    ? 'bg-slate-700 border-slate-600 text-slate-200'
+    : 'bg-white border-slate-300 text-slate-700';
+
+  return (
+    <div
+      ref={popoverRef}
+      className={`
+        fixed z-50
+        border rounded-lg shadow-xl
+        p-3 min-w-[180px]
+        ${popoverStyle}
+      `}
+      style={{
+        left: `${position.x}px`,
+        top: `${position.y}px`,
+      }}
+      role="dialog"
+      aria-label="Edit step condition"
+    >
+      {/* Probability */}
+      <div className="mb-3">
+        <div className={`text-xs mb-1 ${labelStyle}`}>Probability</div>
+        <div className="flex gap-1">
+          {PROBABILITIES.map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => update({ probability: value })}
+              aria-pressed={probability === value}
+              className={`
+                flex-1 py-1 px-1 rounded text-xs font-medium
+                transition-colors
+                ${probability === value ? 'bg-violet-500 text-white' : inactiveButtonStyle}
+              `}
+            >
+              {value}%
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Loop cycle */}
+      <div className="mb-3">
+        <div className={`text-xs mb-1 ${labelStyle}`}>Loop</div>
+        <div className={`flex items-center gap-1 text-xs ${labelStyle}`}>
+          <span>Play on</span>
+          <select
+            value={Math.min(iteration, cycle)}
+            onChange={(e) => update({ iteration: Number(e.target.value) })}
+            disabled={cycle === 1}
+            aria-label="Loop to play on"
+            className={`border rounded px-1 py-0.5 disabled:opacity-50 ${selectStyle}`}
+          >
+            {Array.from({ length: cycle }, (_, i) => i + 1).map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+          <span>of</span>
+          <select
+            value={cycle}
+            onChange={(e) => update({ cycle: Number(e.target.value) })}
+            aria-label="Loop cycle length"
+            className={`border rounded px-1 py-0.5 ${selectStyle}`}
+          >
+            {CYCLES.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => {
+          onConditionChange(undefined);
+          onClose();
+        }}
+        className={`w-full py-1 rounded text-xs font-medium transition-colors ${inactiveButtonStyle}`}
+      >
+        Always play
+      </button>
+    </div>
+  );
+});
@@ -0,0 +1,224 @@
+/**
+ * EuclideanDialog - Generate a Euclidean rhythm for a track
+ *
+ * Spreads hits evenly over a number of steps (optionally rotated) and
+ * previews the result, repeated across the track, before applying it.
+ * Merged Simplified-layout rows pick which source pad (L or R) gets the notes.
+ */
+
+import { memo, useEffect, useMemo, useState } from 'react';
+import { generateEuclideanRhythm, tileRhythm, formatRhythm } from '../../utils/euclidean';
+
+/** Longest rhythm offered, in steps */
+const MAX_RHYTHM_STEPS = 32;
+
+interface EuclideanSource {
+  trackIndex: number;
+  label: string;
+}
+
+interface EuclideanDialogProps {
+  /** Row label shown in the title */
+  label: string;
+  /** Tracks the rhythm can be written to (two for merged L/R rows) */
+  sources: EuclideanSource[];
+  /** Number of steps in the pattern */
+  stepCount: number;
+  /** Steps per beat for grouping the preview */
+  stepsPerBeat: number;
+  onApply: (trackIndex: number, rhythm: boolean[]) => void;
+  onCancel: () => void;
+  isDark: boolean;
+}
+
+interface NumberFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+  inputStyle: string;
+}
+
+function NumberField({ id, label, value, min, max, onChange, inputStyle }: NumberFieldProps) {
+  return (
+    <label htmlFor={id} className="flex flex-col gap-1 text-xs">
+      {label}
+      <input
+        id={id}
+        type="number"
+        value={value}
+        min={min}
+        max={max}
+        onChange={(e) => {
+          const parsed = parseInt(e.target.value, 10);
+          if (!isNaN(parsed)) onChange(Math.max(min, Math.min(max, parsed)));
+        }}
+        className={`w-16 border rounded px-1 py-0.5 font-mono ${inputStyle}`}
+      />
+    </label>
+  );
+}
+
+export const EuclideanDialog = memo(function EuclideanDialog({
+  label,
+  sources,
+  stepCount,
+  stepsPerBeat,
+  onApply,
+  onCancel,
+  isDark,
+}: EuclideanDialogProps) {
+  const maxSteps = Math.min(MAX_RHYTHM_STEPS, stepCount);
+  const [steps, setSteps] = useState(Math.min(8, maxSteps));
+  const [hits, setHits] = useState(Math.min(3, steps));
+  const [rotation, setRotation] = useState(0);
+  const [sourceIndex, setSourceIndex] = useState(0);
+
+  // Close on ESC key
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onCancel();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const rhythm = useMemo(
+    () => generateEuclideanRhythm(hits, steps, rotation),
+    [hits, steps, rotation]
+  );
+  const preview = useMemo(() => tileRhythm(rhythm, stepCount), [rhythm, stepCount]);
+
+  const handleStepsChange = (value: number) => {
+    setSteps(value);
+    setHits((current) => Math.min(current, value));
+    setRotation((current) => Math.min(current, value - 1));
+  };
+
+  const panelStyle = isDark
+    ? 'bg-slate-800 border-slate-600 text-slate-200'
+    : 'bg-white border-slate-300 text-slate-700';
+  const mutedText = isDark ? 'text-slate-400' : 'text-slate-500';
+  const inputStyle = isDark
+    ? 'bg-slate-700 border-slate-600 text-slate-200'
+    : 'bg-white border-slate-300 text-slate-700';
+  const inactiveButtonStyle = isDark
+    ? 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+    : 'bg-slate-100 text-slate-600 hover:bg-slate-200';
+  const emptyCell = isDark ? 'bg-slate-700' : 'bg-slate-200';
+  const beatBorderColor = isDark ? 'border-slate-500' : 'border-slate-400';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onCancel();
+      }}
+    >
+      <div
+        className={`border rounded-lg shadow-xl w-full max-w-md p-4 ${panelStyle}`}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="euclidean-title"
+      >
+        <h2 id="euclidean-title" className="text-sm font-semibold mb-1">
+          Euclidean rhythm – {label}
+        </h2>
+        <p className={`text-xs mb-3 ${mutedText}`}>
+          Spreads the hits as evenly as possible. Replaces the track&apos;s notes.
+        </p>
+
+        {/* Source pad for merged L/R rows */}
+        {sources.length > 1 && (
+          <div className="flex gap-1 mb-3" role="radiogroup" aria-label="Source pad">
+            {sources.map((source, index) => (
+              <button
+                key={source.trackIndex}
+                type="button"
+                role="radio"
+                aria-checked={sourceIndex === index}
+                onClick={() => setSourceIndex(index)}
+                className={`
+                  flex-1 py-1 rounded text-xs font-medium transition-colors
+                  ${sourceIndex === index ? 'bg-purple-500 text-white' : inactiveButtonStyle}
+                `}
+              >
+                {source.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-3 mb-3">
+          <NumberField
+            id="euclidean-hits"
+            label="Hits"
+            value={hits}
+            min={0}
+            max={steps}
+            onChange={setHits}
+            inputStyle={inputStyle}
+          />
+          <NumberField
+            id="euclidean-steps"
+            label="Steps"
+            value={steps}
+            min={1}
+            max={maxSteps}
+            onChange={handleStepsChange}
+            inputStyle={inputStyle}
+          />
+          <NumberField
+            id="euclidean-rotation"
+            label="Rotation"
+            value={rotation}
+            min={0}
+            max={steps - 1}
+            onChange={setRotation}
+            inputStyle={inputStyle}
+          />
+        </div>
+
+        {/* Preview across the whole track */}
+        <div className={`text-xs mb-1 ${mutedText}`}>
+          E({hits}, {steps}) <span className="font-mono">{formatRhythm(rhythm)}</span>
+        </div>
+        <div className="flex flex-wrap gap-0.5 mb-4" aria-label="Preview">
+          {preview.map((hit, stepIndex) => (
+            <div
+              key={stepIndex}
+              className={`
+                w-3 h-3 rounded-sm
+                ${hit ? 'bg-purple-500' : emptyCell}
+                ${stepIndex % stepsPerBeat === 0 ? `border-l-2 ${beatBorderColor}` : ''}
+                ${stepIndex >= steps ? 'opacity-60' : ''}
+              `}
+            />
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className={`px-3 py-1 rounded text-xs font-medium transition-colors ${inactiveButtonStyle}`}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onApply(sources[sourceIndex].trackIndex, rhythm)}
+            autoFocus
+            className="px-3 py-1 rounded text-xs font-medium bg-purple-500 text-white hover:bg-purple-400 transition-colors"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
@@ -2,11 +2,13 @@
  * FingerEditor - Popover for editing finger designation
  *
  * Allows users to change the hand (L/R) and finger number (1-5)
- * for an active step cell.
+ * for an active step cell, and optionally its articulation.
+ * Also links to the step's ConditionEditor when a handler is given.
  */
 
 import { memo, useCallback, useEffect, useRef } from 'react';
-import type { FingerDesignation } from '../../types/pattern';
+import type { Articulation, FingerDesignation } from '../../types/pattern';
+import { ARTICULATIONS } from '../../config/articulations';
 
 interface FingerEditorProps {
   /** Current finger designation */
@@ -19,6 +21,14 @@ interface FingerEditorProps {
   position: { x: number; y: number };
   /** Dark theme mode */
   isDark?: boolean;
+  /** Current articulation (section hidden when no change handler is given) */
+  currentArticulation?: Articulation;
+  /** Callback when articulation is changed */
+  onArticulationChange?: (articulation: Articulation) => void;
+  /** Opens the step condition editor (button hidden when not given) */
+  onEditCondition?: () => void;
+  /** Current condition label shown on the button, e.g. "1:4" */
+  conditionLabel?: string;
 }
 
 const HANDS: Array<'L' | 'R'> = ['L', 'R'];
@@ -33,6 +43,10 @@ export const FingerEditor = memo(function FingerEditor({
   onClose,
   position,
   isDark = true,
+  currentArticulation = 'normal',
+  onArticulationChange,
+  onEditCondition,
+  conditionLabel,
 }: FingerEditorProps) {
   const popoverRef = useRef<HTMLDivElement>(null);
 
@@ -132,7 +146,7 @@ export const FingerEditor = memo(function FingerEditor({
       </div>
 
       {/* Finger selection */}
-      <div>
+      <div className={onArticulationChange || onEditCondition ? 'mb-3' : undefined}>
         <div className={`text-xs mb-1 ${labelStyle}`}>Finger</div>
         <div className="flex gap-1">
           {FINGERS.map((finger) => (
@@ -157,6 +171,51 @@ export const FingerEditor = memo(function FingerEditor({
           ))}
         </div>
       </div>
+
+      {/* Articulation selection */}
+      {onArticulationChange && (
+        <div className={onEditCondition ? 'mb-3' : undefined}>
+          <div className={`text-xs mb-1 ${labelStyle}`}>Articulation</div>
+          <div className="grid grid-cols-3 gap-1">
+            {ARTICULATIONS.map(({ id, label }) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => onArticulationChange(id)}
+                aria-pressed={currentArticulation === id}
+                className={`
+                  py-1 px-1.5 rounded text-xs font-medium
+                  transition-colors
+                  ${
+                    currentArticulation === id
+                      ? 'bg-amber-500 text-white'
+                      : inactiveButtonStyle
+                  }
+                `}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Condition editor link */}
+      {onEditCondition && (
+        <button
+          type="button"
+          onClick={onEditCondition}
+          className={`
+            w-full py-1 px-2 rounded text-xs font-medium
+            flex justify-between
+            transition-colors
+            ${inactiveButtonStyle}
+          `}
+        >
+          <span>Condition…</span>
+          <span>{conditionLabel || 'Always'}</span>
+        </button>
+      )}
     </div>
   );
 });
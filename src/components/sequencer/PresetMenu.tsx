@@ -0,0 +1,165 @@
+/**
+ * PresetMenu - "New from preset" dropdown of built-in grooves
+ *
+ * Browse the groove library by genre and difficulty; choosing a preset
+ * replaces the current pattern (undoable).
+ */
+
+import { memo, useEffect, useRef, useState } from 'react';
+import { usePatternStore } from '../../stores/usePatternStore';
+import {
+  GROOVE_PRESETS,
+  GENRE_LABELS,
+  DIFFICULTY_LABELS,
+  type GrooveGenre,
+  type GrooveDifficulty,
+  type GroovePreset,
+} from '../../config/groovePresets';
+import { getSubdivisionLabel } from '../../types/pattern';
+
+interface PresetMenuProps {
+  disabled: boolean;
+  isDark: boolean;
+}
+
+const GENRES = Object.keys(GENRE_LABELS) as GrooveGenre[];
+const DIFFICULTIES = Object.keys(DIFFICULTY_LABELS) as GrooveDifficulty[];
+
+export const PresetMenu = memo(function PresetMenu({ disabled, isDark }: PresetMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [genre, setGenre] = useState<GrooveGenre | 'all'>('all');
+  const [difficulty, setDifficulty] = useState<GrooveDifficulty | 'all'>('all');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close on ESC key
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen]);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    // Use setTimeout to avoid immediate close from the triggering click
+    const timer = setTimeout(() => {
+      document.addEventListener('mousedown', handleClickOutside);
+    }, 0);
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const handleSelect = (preset: GroovePreset) => {
+    usePatternStore.getState().loadPreset(preset);
+    setIsOpen(false);
+  };
+
+  const presets = GROOVE_PRESETS.filter(
+    (preset) =>
+      (genre === 'all' || preset.genre === genre) &&
+      (difficulty === 'all' || preset.difficulty === difficulty)
+  );
+
+  const buttonStyle = isDark
+    ? 'bg-slate-800 border-slate-600 text-slate-200 hover:bg-slate-700'
+    : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-100';
+  const menuStyle = isDark
+    ? 'bg-slate-800 border-slate-600'
+    : 'bg-white border-slate-300';
+  const itemStyle = isDark
+    ? 'text-slate-200 hover:bg-slate-700'
+    : 'text-slate-700 hover:bg-slate-100';
+  const selectStyle = isDark
+    ? 'bg-slate-700 border-slate-600 text-slate-200'
+    : 'bg-white border-slate-300 text-slate-700';
+  const labelColor = isDark ? 'text-slate-400' : 'text-slate-500';
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={disabled}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className={`border rounded text-xs px-1.5 py-0.5 disabled:opacity-50 ${buttonStyle}`}
+      >
+        New from preset ▾
+      </button>
+
+      {isOpen && (
+        <div
+          className={`absolute left-0 z-50 mt-1 w-64 border rounded-lg shadow-xl ${menuStyle}`}
+        >
+          {/* Filters */}
+          <div className="flex items-center gap-1 px-3 py-2">
+            <select
+              value={genre}
+              onChange={(e) => setGenre(e.target.value as GrooveGenre | 'all')}
+              aria-label="Genre"
+              className={`border rounded text-xs px-1 py-0.5 ${selectStyle}`}
+            >
+              <option value="all">All genres</option>
+              {GENRES.map((value) => (
+                <option key={value} value={value}>
+                  {GENRE_LABELS[value]}
+                </option>
+              ))}
+            </select>
+            <select
+              value={difficulty}
+              onChange={(e) => setDifficulty(e.target.value as GrooveDifficulty | 'all')}
+              aria-label="Difficulty"
+              className={`border rounded text-xs px-1 py-0.5 ${selectStyle}`}
+            >
+              <option value="all">All levels</option>
+              {DIFFICULTIES.map((value) => (
+                <option key={value} value={value}>
+                  {DIFFICULTY_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <ul role="menu" className="max-h-72 overflow-y-auto pb-1">
+            {presets.map((preset) => (
+              <li key={preset.id}>
+                <button
+                  type="button"
+                  role="menuitem"
+                  onClick={() => handleSelect(preset)}
+                  className={`block w-full text-left px-3 py-1 transition-colors ${itemStyle}`}
+                >
+                  <div className="text-xs">{preset.name}</div>
+                  <div className={`text-[10px] ${labelColor}`}>
+                    {GENRE_LABELS[preset.genre]} · {DIFFICULTY_LABELS[preset.difficulty]} ·{' '}
+                    {preset.bpm} BPM · {getSubdivisionLabel(preset.subdivision)}
+                  </div>
+                </button>
+              </li>
+            ))}
+            {presets.length === 0 && (
+              <li className={`px-3 py-1 text-xs ${labelColor}`}>No presets match</li>
+            )}
+          </ul>
+
+          <div className={`px-3 py-1.5 text-[10px] border-t ${isDark ? 'border-slate-700' : 'border-slate-200'} ${labelColor}`}>
+            Replaces the current pattern (undo with Ctrl/Cmd+Z)
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
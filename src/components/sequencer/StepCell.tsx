@@ -7,14 +7,36 @@
  * Story 2.3: Finger designation display with hand-based colors
  * Story 2.4: Right-click to edit finger designation
  * Story 2.6: Sound preview on cell activation
+ *
+ * Drag-paint: press on a cell and drag across others to set them all to the
+ * same state. The whole gesture is recorded as a single undo entry.
+ *
+ * Velocity: Alt/Option + drag vertically on an active cell to change its
+ * velocity; the cell's intensity and bottom bar reflect the value.
+ *
+ * Articulation: set from the right-click editor, shown as a corner glyph.
+ *
+ * Condition: probability / loop cycle, edited from the right-click editor's
+ * Condition… button and shown as a badge in the top-left corner.
  */
 
 import { memo, useCallback, useState } from 'react';
 import { usePatternStore } from '../../stores/usePatternStore';
 import { useAudioStore } from '../../stores/useAudioStore';
 import { useSelectionStore } from '../../stores/useSelectionStore';
-import { formatFingerDesignation, type FingerDesignation } from '../../types/pattern';
+import { useHistoryStore } from '../../stores/useHistoryStore';
+import {
+  formatFingerDesignation,
+  DEFAULT_VELOCITY,
+  MAX_VELOCITY,
+  type Articulation,
+  type FingerDesignation,
+  type StepCondition,
+} from '../../types/pattern';
+import { ARTICULATION_INFO } from '../../config/articulations';
+import { formatStepCondition } from '../../utils/stepConditions';
 import { FingerEditor } from './FingerEditor';
+import { ConditionEditor } from './ConditionEditor';
 import type { PadId } from '../../config/padMapping';
 
 interface StepCellProps {
@@ -28,6 +50,12 @@ interface StepCellProps {
   active: boolean;
   /** Finger designation for this step */
   finger?: FingerDesignation;
+  /** Velocity of this step (1-127) */
+  velocity?: number;
+  /** Articulation of this step */
+  articulation?: Articulation;
+  /** Trigger condition of this step */
+  condition?: StepCondition;
   /** Whether this is the first step in a beat (for visual separator) */
   isFirstInBeat: boolean;
   /** Steps per beat for beat grouping */
@@ -60,6 +88,50 @@ function getHandColors(hand: 'L' | 'R') {
   };
 }
 
+/**
+ * Active state being painted by the current drag gesture (null when not painting)
+ * Shared by all cells: set on mousedown, applied on mouseenter
+ */
+let paintValue: boolean | null = null;
+
+/**
+ * Finish a drag-paint gesture and close its history batch
+ */
+function endPaint() {
+  if (paintValue === null) return;
+  paintValue = null;
+  useHistoryStore.getState().endBatch();
+  document.removeEventListener('mouseup', endPaint);
+}
+
+/**
+ * Velocity drag in progress (null when not dragging)
+ * Dragging up raises velocity by one per pixel
+ */
+let velocityDrag: {
+  trackIndex: number;
+  stepIndex: number;
+  startY: number;
+  startVelocity: number;
+} | null = null;
+
+function handleVelocityDrag(e: MouseEvent) {
+  if (!velocityDrag) return;
+  const { trackIndex, stepIndex, startY, startVelocity } = velocityDrag;
+  usePatternStore.getState().setStepVelocity(trackIndex, stepIndex, startVelocity + (startY - e.clientY));
+}
+
+/**
+ * Finish a velocity drag and close its history batch
+ */
+function endVelocityDrag() {
+  if (!velocityDrag) return;
+  velocityDrag = null;
+  useHistoryStore.getState().endBatch();
+  document.removeEventListener('mousemove', handleVelocityDrag);
+  document.removeEventListener('mouseup', endVelocityDrag);
+}
+
 /**
  * StepCell component - displays a single step in the sequencer grid
  */
@@ -69,13 +141,19 @@ export const StepCell = memo(function StepCell({
   padId,
   active,
   finger,
+  velocity = DEFAULT_VELOCITY,
+  articulation = 'normal',
+  condition,
   isFirstInBeat,
   stepsPerBeat,
   cellWidth = 28,
   isDark = true,
 }: StepCellProps) {
   const toggleStep = usePatternStore((state) => state.toggleStep);
+  const setStepActive = usePatternStore((state) => state.setStepActive);
   const updateStepFinger = usePatternStore((state) => state.updateStepFinger);
+  const setStepArticulation = usePatternStore((state) => state.setStepArticulation);
+  const setStepCondition = usePatternStore((state) => state.setStepCondition);
   const playPad = useAudioStore((state) => state.playPad);
 
   // Selection store
@@ -98,40 +176,72 @@ export const StepCell = memo(function StepCell({
   const isSelected = isInSelectionBounds && active;
 
   const [editorOpen, setEditorOpen] = useState(false);
+  const [conditionEditorOpen, setConditionEditorOpen] = useState(false);
   const [editorPosition, setEditorPosition] = useState({ x: 0, y: 0 });
 
+  // Keyboard activation only (Enter on a focused cell) - mouse toggling starts in mousedown
   const handleClick = useCallback((e: React.MouseEvent) => {
-    // If Shift is held, don't toggle - selection mode will handle it
-    if (e.shiftKey) return;
-
-    // If there's an active selection, clear it instead of toggling
-    if (hasSelection) {
-      clearSelection();
-      return;
-    }
+    if (e.detail !== 0 || e.shiftKey) return;
 
-    // Play sound only when activating (not when deactivating)
     if (!active) {
       playPad(padId as PadId);
     }
     toggleStep(trackIndex, stepIndex);
-  }, [toggleStep, trackIndex, stepIndex, active, playPad, padId, hasSelection, clearSelection]);
+  }, [toggleStep, trackIndex, stepIndex, active, playPad, padId]);
 
-  // Selection handlers
+  // Selection and drag-paint handlers
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     if (e.shiftKey) {
       e.preventDefault();
       // Clear any existing selection and start new
       clearSelection();
       startSelection(trackIndex, stepIndex);
+      return;
+    }
+
+    if (e.button !== 0) return;
+
+    // Alt/Option + drag on an active cell: edit velocity
+    if (e.altKey && active) {
+      e.preventDefault();
+      useHistoryStore.getState().beginBatch();
+      velocityDrag = { trackIndex, stepIndex, startY: e.clientY, startVelocity: velocity };
+      document.addEventListener('mousemove', handleVelocityDrag);
+      document.addEventListener('mouseup', endVelocityDrag);
+      return;
+    }
+
+    // If there's an active selection, clear it instead of toggling
+    if (hasSelection) {
+      clearSelection();
+      return;
+    }
+
+    // Play sound only when activating (not when deactivating)
+    if (!active) {
+      playPad(padId as PadId);
     }
-  }, [startSelection, clearSelection, trackIndex, stepIndex]);
 
-  const handleMouseEnter = useCallback(() => {
+    // Start drag-paint: every cell entered while held gets the same state
+    useHistoryStore.getState().beginBatch();
+    paintValue = !active;
+    document.addEventListener('mouseup', endPaint);
+    toggleStep(trackIndex, stepIndex);
+  }, [startSelection, clearSelection, trackIndex, stepIndex, hasSelection, active, velocity, playPad, padId, toggleStep]);
+
+  const handleMouseEnter = useCallback((e: React.MouseEvent) => {
     if (isSelecting) {
       updateSelection(trackIndex, stepIndex);
+      return;
     }
-  }, [isSelecting, updateSelection, trackIndex, stepIndex]);
+
+    if (paintValue !== null && e.buttons === 1 && active !== paintValue) {
+      if (paintValue) {
+        playPad(padId as PadId);
+      }
+      setStepActive(trackIndex, stepIndex, paintValue);
+    }
+  }, [isSelecting, updateSelection, trackIndex, stepIndex, active, playPad, padId, setStepActive]);
 
   const handleMouseUp = useCallback(() => {
     if (isSelecting) {
@@ -158,13 +268,43 @@ export const StepCell = memo(function StepCell({
     [updateStepFinger, trackIndex, stepIndex]
   );
 
+  const handleArticulationChange = useCallback(
+    (newArticulation: Articulation) => {
+      setStepArticulation(trackIndex, stepIndex, newArticulation);
+      playPad(padId as PadId, undefined, velocity, newArticulation);
+    },
+    [setStepArticulation, trackIndex, stepIndex, playPad, padId, velocity]
+  );
+
   const handleEditorClose = useCallback(() => {
     setEditorOpen(false);
   }, []);
 
+  // Swap the finger editor for the condition editor at the same position
+  const handleEditCondition = useCallback(() => {
+    setEditorOpen(false);
+    setConditionEditorOpen(true);
+  }, []);
+
+  const handleConditionChange = useCallback(
+    (newCondition: StepCondition | undefined) => {
+      setStepCondition(trackIndex, stepIndex, newCondition);
+    },
+    [setStepCondition, trackIndex, stepIndex]
+  );
+
+  const handleConditionEditorClose = useCallback(() => {
+    setConditionEditorOpen(false);
+  }, []);
+
   // Get colors based on finger hand
   const colors = finger ? getHandColors(finger.hand) : null;
   const fingerDisplay = finger ? formatFingerDesignation(finger) : null;
+  const articulationInfo = ARTICULATION_INFO[articulation];
+  const conditionLabel = formatStepCondition(condition);
+
+  // Velocity intensity (0-1) for active cells
+  const intensity = velocity / MAX_VELOCITY;
 
   // Calculate beat index (0-based) for alternating background
   const beatIndex = Math.floor(stepIndex / stepsPerBeat);
@@ -198,6 +338,7 @@ export const StepCell = memo(function StepCell({
         onMouseUp={handleMouseUp}
         onContextMenu={handleContextMenu}
         className={`
+          relative
           h-[30px]
           rounded-sm
           border
@@ -215,14 +356,38 @@ export const StepCell = memo(function StepCell({
                 : `${inactiveBg} focus:ring-slate-400`
           }
         `}
-        style={{ width: cellWidth }}
+        style={{ width: cellWidth, opacity: active ? 0.4 + 0.6 * intensity : undefined }}
         role="gridcell"
         aria-pressed={active}
-        aria-label={`Step ${stepIndex + 1}, ${active ? `active, ${fingerDisplay}` : 'inactive'}. Right-click to edit finger. Shift+drag to select.`}
+        aria-label={`Step ${stepIndex + 1}, ${active ? `active, ${fingerDisplay}, velocity ${velocity}${articulation !== 'normal' ? `, ${articulationInfo.label.toLowerCase()}` : ''}` : 'inactive'}. Drag to paint. Alt+drag up or down to change velocity. Right-click to edit finger. Shift+drag to select.`}
+        title={active ? `Velocity ${velocity}${articulation !== 'normal' ? ` · ${articulationInfo.label}` : ''}${conditionLabel ? ` · ${conditionLabel}` : ''}` : undefined}
       >
         {active && fingerDisplay && (
           <span className="select-none">{fingerDisplay}</span>
         )}
+        {active && articulationInfo.glyph && (
+          <span
+            className="absolute top-0 right-0.5 text-[9px] leading-none font-bold select-none pointer-events-none"
+            aria-hidden="true"
+          >
+            {articulationInfo.glyph}
+          </span>
+        )}
+        {active && conditionLabel && (
+          <span
+            className="absolute top-0 left-0.5 max-w-full overflow-hidden whitespace-nowrap text-[8px] leading-none font-bold select-none pointer-events-none"
+            aria-hidden="true"
+          >
+            {conditionLabel}
+          </span>
+        )}
+        {active && (
+          <span
+            className="absolute left-0 bottom-0 h-0.5 bg-white/80 pointer-events-none"
+            style={{ width: `${intensity * 100}%` }}
+            aria-hidden="true"
+          />
+        )}
       </button>
 
       {/* Finger designation editor popover */}
@@ -233,6 +398,21 @@ export const StepCell = memo(function StepCell({
           onClose={handleEditorClose}
           position={editorPosition}
           isDark={isDark}
+          currentArticulation={articulation}
+          onArticulationChange={handleArticulationChange}
+          onEditCondition={handleEditCondition}
+          conditionLabel={conditionLabel}
+        />
+      )}
+
+      {/* Step condition editor popover */}
+      {conditionEditorOpen && active && (
+        <ConditionEditor
+          currentCondition={condition}
+          onConditionChange={handleConditionChange}
+          onClose={handleConditionEditorClose}
+          position={editorPosition}
+          isDark={isDark}
         />
       )}
     </>
@@ -6,35 +6,59 @@
  * Story 3.6: Playhead highlight for current step
  * Story 4.4: Pattern name editor
  * Story 4.5: Dynamic bars (1-4) and subdivision (8n/16n/32n)
+ * Time signatures: bar/beat labels and beat separators follow the pattern's meter
+ * Swing: amount control, playhead follows the swung timing
+ * Mute/solo: per-track toggles in the track labels
+ * Track length: drag a track's loop point for polymeters
+ * Lossy subdivision changes are confirmed with a per-track report
  */
 
 import { memo, useEffect, useState, useCallback, useRef } from 'react';
 import * as Tone from 'tone';
-import { usePatternStore } from '../../stores/usePatternStore';
+import { usePatternStore, type SubdivisionChangeReport } from '../../stores/usePatternStore';
 import { usePlaybackStore } from '../../stores/usePlaybackStore';
 import { useThemeStore } from '../../stores/useThemeStore';
-import { useLayoutStore } from '../../stores/useLayoutStore';
+import { useLayoutStore, DEFAULT_CELL_WIDTH, ZOOM_STEP } from '../../stores/useLayoutStore';
+import { useSessionStore } from '../../stores/useSessionStore';
 import { useSelectionStore } from '../../stores/useSelectionStore';
+import { useHistoryStore } from '../../stores/useHistoryStore';
+import { usePatternFile } from '../../hooks';
 import { StepCell } from './StepCell';
 import { PatternNameEditor } from './PatternNameEditor';
 import { LayoutSelector } from './LayoutSelector';
+import { TransformMenu } from './TransformMenu';
+import { PresetMenu } from './PresetMenu';
 import { SimplifiedHandSelector, type HandSelection } from './SimplifiedHandSelector';
-import { getStepsPerBeat, type FingerDesignation, type Subdivision } from '../../types/pattern';
+import { SubdivisionChangeDialog } from './SubdivisionChangeDialog';
+import { EuclideanDialog } from './EuclideanDialog';
+import {
+  getStepsPerBeat,
+  getBeatsPerBar,
+  getStepsPerCountedBeat,
+  getPatternTimeSignature,
+  isSubdivisionCompatible,
+  hasSoloTrack,
+  isTrackAudible,
+  getTrackLength,
+  formatTimeSignature,
+  TIME_SIGNATURES,
+  DEFAULT_VELOCITY,
+  MAX_VELOCITY,
+  type FingerDesignation,
+  type PatternStep,
+  type Subdivision,
+  type SwingUnit,
+  type TimeSignature,
+} from '../../types/pattern';
 import { getLayoutOrder, SIMPLIFIED_TRACKS, type SimplifiedTrackConfig } from '../../config/layoutViews';
-import { PAD_IDS, type PadId } from '../../config/padMapping';
-
-/** Zoom level constants */
-const MIN_CELL_WIDTH = 20;
-const MAX_CELL_WIDTH = 60;
-const DEFAULT_CELL_WIDTH = 28;
-const ZOOM_STEP = 4;
+import { PAD_IDS, PADS, type PadId } from '../../config/padMapping';
+import { canSwing, getPatternSwing, getSwungStepPosition, MIN_SWING, MAX_SWING } from '../../utils/swing';
 
 /**
  * Format step index as bar.beat notation
- * e.g., step 0 with 4 steps/beat = "1.1", step 4 = "1.2", step 16 = "2.1"
+ * e.g., 4/4 with 4 steps/beat: step 0 = "1.1", step 4 = "1.2", step 16 = "2.1"
  */
-function formatStepLabel(stepIndex: number, stepsPerBeat: number): string {
-  const beatsPerBar = 4;
+function formatStepLabel(stepIndex: number, stepsPerBeat: number, beatsPerBar: number): string {
   const stepsPerBar = stepsPerBeat * beatsPerBar;
 
   const bar = Math.floor(stepIndex / stepsPerBar) + 1;
@@ -56,7 +80,10 @@ function formatStepLabel(stepIndex: number, stepsPerBeat: number): string {
  */
 interface StepHeaderProps {
   totalSteps: number;
+  /** Steps per counted beat of the time signature */
   stepsPerBeat: number;
+  /** Counted beats per bar */
+  beatsPerBar: number;
   cellWidth: number;
   isDark: boolean;
   onStepClick: (step: number) => void;
@@ -69,6 +96,7 @@ interface StepHeaderProps {
 const StepHeader = memo(function StepHeader({
   totalSteps,
   stepsPerBeat,
+  beatsPerBar,
   cellWidth,
   isDark,
   onStepClick,
@@ -80,6 +108,7 @@ const StepHeader = memo(function StepHeader({
   const borderColor = isDark ? 'border-slate-600' : 'border-slate-400';
   const textColor = isDark ? 'text-slate-400' : 'text-slate-600';
   const subTextColor = isDark ? 'text-slate-600' : 'text-slate-400';
+  const stepsPerBar = stepsPerBeat * beatsPerBar;
 
   const handleMouseDown = useCallback((step: number) => {
     if (disabled) return;
@@ -107,7 +136,7 @@ const StepHeader = memo(function StepHeader({
       {/* Step number headers */}
       <div className="flex gap-x-0.5">
         {Array.from({ length: totalSteps }, (_, i) => {
-          const label = formatStepLabel(i, stepsPerBeat);
+          const label = formatStepLabel(i, stepsPerBeat, beatsPerBar);
           const isFirstInBeat = i % stepsPerBeat === 0;
 
           return (
@@ -127,7 +156,7 @@ const StepHeader = memo(function StepHeader({
                 select-none
               `}
               style={{ width: cellWidth }}
-              title={`Click to move playhead to Bar ${Math.floor(i / (stepsPerBeat * 4)) + 1}, Beat ${Math.floor((i % (stepsPerBeat * 4)) / stepsPerBeat) + 1}`}
+              title={`Click to move playhead to Bar ${Math.floor(i / stepsPerBar) + 1}, Beat ${Math.floor((i % stepsPerBar) / stepsPerBeat) + 1}`}
               aria-label={`Move playhead to step ${i + 1}`}
             >
               {label || '·'}
@@ -139,6 +168,160 @@ const StepHeader = memo(function StepHeader({
   );
 });
 
+/**
+ * Mute/solo toggle buttons shown in a track label
+ */
+interface TrackTogglesProps {
+  muted: boolean;
+  solo: boolean;
+  onMutedChange: (muted: boolean) => void;
+  onSoloChange: (solo: boolean) => void;
+  /** Opens the Euclidean rhythm generator */
+  onGenerate: () => void;
+  isDark: boolean;
+}
+
+const TrackToggles = memo(function TrackToggles({
+  muted,
+  solo,
+  onMutedChange,
+  onSoloChange,
+  onGenerate,
+  isDark,
+}: TrackTogglesProps) {
+  const inactiveStyle = isDark
+    ? 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+    : 'bg-slate-200 text-slate-500 hover:bg-slate-300';
+  const buttonBase = 'w-4 h-4 rounded-sm text-[9px] font-bold leading-none transition-colors';
+
+  return (
+    <div className="flex gap-0.5 shrink-0">
+      <button
+        type="button"
+        onClick={onGenerate}
+        title="Euclidean rhythm…"
+        aria-label="Generate Euclidean rhythm"
+        className={`${buttonBase} ${inactiveStyle}`}
+      >
+        E
+      </button>
+      <button
+        type="button"
+        onClick={() => onMutedChange(!muted)}
+        aria-pressed={muted}
+        title={muted ? 'Unmute' : 'Mute'}
+        className={`${buttonBase} ${muted ? 'bg-rose-500 text-white' : inactiveStyle}`}
+      >
+        M
+      </button>
+      <button
+        type="button"
+        onClick={() => onSoloChange(!solo)}
+        aria-pressed={solo}
+        title={solo ? 'Unsolo' : 'Solo'}
+        className={`${buttonBase} ${solo ? 'bg-amber-500 text-white' : inactiveStyle}`}
+      >
+        S
+      </button>
+    </div>
+  );
+});
+
+/**
+ * Read-only cell past a track's loop point, previewing the repeated cycle
+ */
+interface LoopGhostCellProps {
+  /** Whether the step this position repeats is active */
+  active: boolean;
+  cellWidth: number;
+  isDark: boolean;
+}
+
+const LoopGhostCell = memo(function LoopGhostCell({
+  active,
+  cellWidth,
+  isDark,
+}: LoopGhostCellProps) {
+  const inactiveBg = isDark ? 'bg-slate-800/40 border-slate-700/40' : 'bg-slate-200/50 border-slate-300/50';
+  const activeBg = isDark ? 'bg-slate-500/50 border-slate-400/50' : 'bg-slate-400/50 border-slate-400/60';
+
+  return (
+    <div
+      aria-hidden="true"
+      className={`
+        h-[30px] rounded-sm border border-dashed
+        ${active ? activeBg : inactiveBg}
+      `}
+      style={{ width: cellWidth }}
+    />
+  );
+});
+
+/**
+ * Draggable loop point marker at the end of a track's cycle
+ * Drag to change the track length, double-click to reset to the full pattern
+ */
+interface TrackLoopHandleProps {
+  trackIndex: number;
+  length: number;
+  stepCount: number;
+  cellWidth: number;
+  onLengthChange: (trackIndex: number, length: number) => void;
+}
+
+/** Horizontal gap between step cells (gap-x-0.5) */
+const CELL_GAP = 2;
+
+const TrackLoopHandle = memo(function TrackLoopHandle({
+  trackIndex,
+  length,
+  stepCount,
+  cellWidth,
+  onLengthChange,
+}: TrackLoopHandleProps) {
+  const isCustom = length < stepCount;
+
+  const handleMouseDown = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const container = e.currentTarget.parentElement;
+    if (!container) return;
+    const left = container.getBoundingClientRect().left;
+
+    // The whole drag is a single undo step
+    useHistoryStore.getState().beginBatch();
+
+    const handleMove = (event: MouseEvent) => {
+      const steps = Math.round((event.clientX - left + CELL_GAP) / (cellWidth + CELL_GAP));
+      onLengthChange(trackIndex, steps);
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      useHistoryStore.getState().endBatch();
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  }, [trackIndex, cellWidth, onLengthChange]);
+
+  return (
+    <div
+      role="separator"
+      aria-label={`Track length: ${length} steps`}
+      title={`Loop: ${length} steps (drag to change, double-click to reset)`}
+      onMouseDown={handleMouseDown}
+      onDoubleClick={() => onLengthChange(trackIndex, stepCount)}
+      className={`
+        absolute top-0 bottom-0 z-20 w-1.5 -ml-[4px]
+        cursor-ew-resize rounded-sm
+        transition-opacity
+        ${isCustom ? 'bg-amber-400 opacity-90' : 'bg-amber-400 opacity-0 hover:opacity-60'}
+      `}
+      style={{ left: length * (cellWidth + CELL_GAP) - CELL_GAP / 2 }}
+    />
+  );
+});
+
 /**
  * Track row component for a single pad
  */
@@ -147,7 +330,17 @@ interface TrackRowProps {
   padId: string;
   label: string;
   shortLabel: string;
-  steps: { active: boolean; finger?: FingerDesignation }[];
+  steps: PatternStep[];
+  /** Loop length in steps (polymeter); equals steps.length when not set */
+  length: number;
+  muted: boolean;
+  solo: boolean;
+  /** False when muted or another track is soloed */
+  audible: boolean;
+  onMutedChange: (trackIndex: number, muted: boolean) => void;
+  onSoloChange: (trackIndex: number, solo: boolean) => void;
+  onLengthChange: (trackIndex: number, length: number) => void;
+  onGenerate: (trackIndex: number) => void;
   /** Steps per beat for visual separation */
   stepsPerBeat: number;
   /** Cell width for zoom */
@@ -161,6 +354,14 @@ const TrackRow = memo(function TrackRow({
   label,
   shortLabel,
   steps,
+  length,
+  muted,
+  solo,
+  audible,
+  onMutedChange,
+  onSoloChange,
+  onLengthChange,
+  onGenerate,
   stepsPerBeat,
   cellWidth,
   isDark,
@@ -181,16 +382,33 @@ const TrackRow = memo(function TrackRow({
           text-xs ${textColor}
           border-r ${borderColor}
           w-24 shrink-0
-          truncate
+          gap-1
         `}
         title={label}
       >
-        <span className="hidden sm:inline">{label}</span>
-        <span className="sm:hidden">{shortLabel}</span>
+        <span className={`flex-1 truncate ${audible ? '' : 'opacity-50'}`}>
+          <span className="hidden sm:inline">{label}</span>
+          <span className="sm:hidden">{shortLabel}</span>
+        </span>
+        <TrackToggles
+          muted={muted}
+          solo={solo}
+          onMutedChange={(value) => onMutedChange(trackIndex, value)}
+          onSoloChange={(value) => onSoloChange(trackIndex, value)}
+          onGenerate={() => onGenerate(trackIndex)}
+          isDark={isDark}
+        />
       </div>
-      {/* Step cells */}
-      <div className="flex gap-x-0.5">
-        {steps.map((step, stepIndex) => (
+      {/* Step cells (dimmed when the track is silenced); past the loop point the cycle repeats */}
+      <div className={`relative flex gap-x-0.5 ${audible ? '' : 'opacity-40'}`}>
+        {steps.map((step, stepIndex) => stepIndex >= length ? (
+          <LoopGhostCell
+            key={stepIndex}
+            active={steps[stepIndex % length].active}
+            cellWidth={cellWidth}
+            isDark={isDark}
+          />
+        ) : (
           <StepCell
             key={stepIndex}
             trackIndex={trackIndex}
@@ -198,12 +416,22 @@ const TrackRow = memo(function TrackRow({
             padId={padId}
             active={step.active}
             finger={step.finger}
+            velocity={step.velocity}
+            articulation={step.articulation}
+            condition={step.condition}
             isFirstInBeat={stepIndex % stepsPerBeat === 0}
             stepsPerBeat={stepsPerBeat}
             cellWidth={cellWidth}
             isDark={isDark}
           />
         ))}
+        <TrackLoopHandle
+          trackIndex={trackIndex}
+          length={length}
+          stepCount={steps.length}
+          cellWidth={cellWidth}
+          onLengthChange={onLengthChange}
+        />
       </div>
     </div>
   );
@@ -216,11 +444,21 @@ const TrackRow = memo(function TrackRow({
 interface SimplifiedTrackRowProps {
   config: SimplifiedTrackConfig;
   /** The original tracks from pattern that this simplified track merges */
-  sourceTracks: { padId: PadId; trackIndex: number; steps: { active: boolean; finger?: FingerDesignation }[] }[];
+  sourceTracks: {
+    padId: PadId;
+    trackIndex: number;
+    steps: { active: boolean; finger?: FingerDesignation; velocity?: number }[];
+    muted: boolean;
+    solo: boolean;
+    audible: boolean;
+  }[];
   stepsPerBeat: number;
   cellWidth: number;
   isDark: boolean;
   onCellClick: (trackId: string, stepIndex: number, e: React.MouseEvent) => void;
+  onMutedChange: (trackIndex: number, muted: boolean) => void;
+  onSoloChange: (trackIndex: number, solo: boolean) => void;
+  onGenerate: (trackId: string) => void;
 }
 
 const SimplifiedTrackRow = memo(function SimplifiedTrackRow({
@@ -230,6 +468,9 @@ const SimplifiedTrackRow = memo(function SimplifiedTrackRow({
   cellWidth,
   isDark,
   onCellClick,
+  onMutedChange,
+  onSoloChange,
+  onGenerate,
 }: SimplifiedTrackRowProps) {
   const bgColor = isDark ? 'bg-slate-900' : 'bg-slate-50';
   const textColor = isDark ? 'text-slate-300' : 'text-slate-700';
@@ -241,6 +482,24 @@ const SimplifiedTrackRow = memo(function SimplifiedTrackRow({
   // Get step count from first source track
   const stepCount = sourceTracks[0]?.steps.length ?? 16;
 
+  // Mute/solo apply to every merged source track
+  const muted = sourceTracks.every((t) => t.muted);
+  const solo = sourceTracks.every((t) => t.solo);
+  const audible = sourceTracks.some((t) => t.audible);
+  // One click is a single undo step, so undo keeps the merged pads in sync
+  const handleMutedChange = (value: boolean) => {
+    const { beginBatch, endBatch } = useHistoryStore.getState();
+    beginBatch();
+    sourceTracks.forEach((t) => onMutedChange(t.trackIndex, value));
+    endBatch();
+  };
+  const handleSoloChange = (value: boolean) => {
+    const { beginBatch, endBatch } = useHistoryStore.getState();
+    beginBatch();
+    sourceTracks.forEach((t) => onSoloChange(t.trackIndex, value));
+    endBatch();
+  };
+
   // For each step, check if any source track has it active
   const getMergedStep = (stepIndex: number) => {
     // Find which source tracks have this step active
@@ -249,6 +508,7 @@ const SimplifiedTrackRow = memo(function SimplifiedTrackRow({
       .map(t => ({
         padId: t.padId,
         finger: t.steps[stepIndex]?.finger,
+        velocity: t.steps[stepIndex]?.velocity ?? DEFAULT_VELOCITY,
       }));
 
     return {
@@ -269,18 +529,31 @@ const SimplifiedTrackRow = memo(function SimplifiedTrackRow({
           text-xs ${textColor}
           border-r ${borderColor}
           w-24 shrink-0
-          truncate
+          gap-1
         `}
         title={config.label}
       >
-        <span className="hidden sm:inline">{config.label}</span>
-        <span className="sm:hidden">{config.label.slice(0, 3)}</span>
+        <span className={`flex-1 truncate ${audible ? '' : 'opacity-50'}`}>
+          <span className="hidden sm:inline">{config.label}</span>
+          <span className="sm:hidden">{config.label.slice(0, 3)}</span>
+        </span>
+        <TrackToggles
+          muted={muted}
+          solo={solo}
+          onMutedChange={handleMutedChange}
+          onSoloChange={handleSoloChange}
+          onGenerate={() => onGenerate(config.id)}
+          isDark={isDark}
+        />
       </div>
-      {/* Step cells */}
-      <div className="flex gap-x-0.5">
+      {/* Step cells (dimmed when all merged tracks are silenced) */}
+      <div className={`flex gap-x-0.5 ${audible ? '' : 'opacity-40'}`}>
         {Array.from({ length: stepCount }, (_, stepIndex) => {
           const { isActive, activeSources } = getMergedStep(stepIndex);
           const isFirstInBeat = stepIndex % stepsPerBeat === 0;
+          const intensity = isActive
+            ? Math.max(...activeSources.map((source) => source.velocity)) / MAX_VELOCITY
+            : 0;
 
           // Determine display for merged step
           let fingerDisplay = '';
@@ -307,7 +580,7 @@ const SimplifiedTrackRow = memo(function SimplifiedTrackRow({
                 hover:ring-2 hover:ring-purple-400/50
                 focus:outline-none focus:ring-2 focus:ring-purple-400
               `}
-              style={{ width: cellWidth, height: 24 }}
+              style={{ width: cellWidth, height: 24, opacity: isActive ? 0.4 + 0.6 * intensity : undefined }}
             >
               {fingerDisplay}
             </button>
@@ -364,13 +637,27 @@ const BarsSelector = memo(function BarsSelector({ bars, onChange, disabled, isDa
  */
 interface SubdivisionSelectorProps {
   subdivision: Subdivision;
+  /** Used to disable grids that don't fit a whole number of steps into a bar */
+  timeSignature: TimeSignature;
   onChange: (subdivision: Subdivision) => void;
   disabled?: boolean;
   isDark: boolean;
 }
 
+const SUBDIVISION_OPTIONS: { value: Subdivision; label: string }[] = [
+  { value: '4n', label: '1/4' },
+  { value: '4t', label: '1/4T' },
+  { value: '8n', label: '1/8' },
+  { value: '8t', label: '1/8T' },
+  { value: '16n', label: '1/16' },
+  { value: '16t', label: '1/16T' },
+  { value: '32n', label: '1/32' },
+  { value: '32t', label: '1/32T' },
+];
+
 const SubdivisionSelector = memo(function SubdivisionSelector({
   subdivision,
+  timeSignature,
   onChange,
   disabled,
   isDark
@@ -396,14 +683,146 @@ const SubdivisionSelector = memo(function SubdivisionSelector({
           ${selectStyle}
         `}
       >
-        <option value="4n">1/4</option>
-        <option value="4t">1/4T</option>
-        <option value="8n">1/8</option>
-        <option value="8t">1/8T</option>
-        <option value="16n">1/16</option>
-        <option value="16t">1/16T</option>
-        <option value="32n">1/32</option>
-        <option value="32t">1/32T</option>
+        {SUBDIVISION_OPTIONS.map(({ value, label }) => (
+          <option
+            key={value}
+            value={value}
+            disabled={!isSubdivisionCompatible(value, timeSignature)}
+          >
+            {label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+});
+
+/**
+ * Time signature selector component
+ */
+interface TimeSignatureSelectorProps {
+  timeSignature: TimeSignature;
+  /** Meters this grid doesn't fit are disabled (change the grid first) */
+  subdivision: Subdivision;
+  onChange: (timeSignature: TimeSignature) => void;
+  disabled?: boolean;
+  isDark: boolean;
+}
+
+const TimeSignatureSelector = memo(function TimeSignatureSelector({
+  timeSignature,
+  subdivision,
+  onChange,
+  disabled,
+  isDark,
+}: TimeSignatureSelectorProps) {
+  const labelColor = isDark ? 'text-slate-400' : 'text-slate-500';
+  const selectStyle = isDark
+    ? 'bg-slate-800 border-slate-600 text-slate-200 focus:ring-slate-500'
+    : 'bg-white border-slate-300 text-slate-700 focus:ring-slate-400';
+
+  const handleChange = (value: string) => {
+    const selected = TIME_SIGNATURES.find((ts) => formatTimeSignature(ts) === value);
+    if (selected) {
+      onChange(selected);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <span className={`text-xs ${labelColor}`}>Time:</span>
+      <select
+        value={formatTimeSignature(timeSignature)}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={disabled}
+        className={`
+          border rounded
+          text-xs
+          px-1.5 py-0.5
+          focus:outline-none focus:ring-1
+          disabled:opacity-50
+          ${selectStyle}
+        `}
+      >
+        {TIME_SIGNATURES.map((ts) => {
+          const label = formatTimeSignature(ts);
+          return (
+            <option key={label} value={label} disabled={!isSubdivisionCompatible(subdivision, ts)}>
+              {label}
+            </option>
+          );
+        })}
+      </select>
+    </div>
+  );
+});
+
+/**
+ * Swing control: amount slider and swung note value
+ */
+interface SwingControlProps {
+  swing: number;
+  unit: SwingUnit;
+  subdivision: Subdivision;
+  onSwingChange: (swing: number) => void;
+  onUnitChange: (unit: SwingUnit) => void;
+  isDark: boolean;
+}
+
+const SWING_UNIT_OPTIONS: { value: SwingUnit; label: string }[] = [
+  { value: '8n', label: '1/8' },
+  { value: '16n', label: '1/16' },
+];
+
+const SwingControl = memo(function SwingControl({
+  swing,
+  unit,
+  subdivision,
+  onSwingChange,
+  onUnitChange,
+  isDark,
+}: SwingControlProps) {
+  const labelColor = isDark ? 'text-slate-400' : 'text-slate-500';
+  const selectStyle = isDark
+    ? 'bg-slate-800 border-slate-600 text-slate-200 focus:ring-slate-500'
+    : 'bg-white border-slate-300 text-slate-700 focus:ring-slate-400';
+  const enabled = canSwing(subdivision, unit);
+
+  return (
+    <div
+      className="flex items-center gap-1"
+      title={enabled ? undefined : 'Swing needs a straight grid at least as fine as the swung note'}
+    >
+      <span className={`text-xs ${labelColor}`}>Swing:</span>
+      <input
+        type="range"
+        min={MIN_SWING}
+        max={MAX_SWING}
+        value={swing}
+        onChange={(e) => onSwingChange(Number(e.target.value))}
+        disabled={!enabled}
+        aria-label="Swing amount"
+        className="w-16 disabled:opacity-50"
+      />
+      <span className={`text-xs tabular-nums w-7 ${labelColor}`}>{swing}%</span>
+      <select
+        value={unit}
+        onChange={(e) => onUnitChange(e.target.value as SwingUnit)}
+        aria-label="Swung note value"
+        className={`
+          border rounded
+          text-xs
+          px-1.5 py-0.5
+          focus:outline-none focus:ring-1
+          disabled:opacity-50
+          ${selectStyle}
+        `}
+      >
+        {SWING_UNIT_OPTIONS.map(({ value, label }) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
       </select>
     </div>
   );
@@ -416,8 +835,15 @@ export function StepSequencer() {
   const currentPattern = usePatternStore((state) => state.currentPattern);
   const urlCheckComplete = usePatternStore((state) => state.urlCheckComplete);
   const createEmptyPattern = usePatternStore((state) => state.createEmptyPattern);
+  const restorableSession = useSessionStore((state) => state.restorableSession);
   const setBars = usePatternStore((state) => state.setBars);
   const setSubdivisionStore = usePatternStore((state) => state.setSubdivision);
+  const setTimeSignature = usePatternStore((state) => state.setTimeSignature);
+  const setSwing = usePatternStore((state) => state.setSwing);
+  const setSwingUnit = usePatternStore((state) => state.setSwingUnit);
+  const setTrackMuted = usePatternStore((state) => state.setTrackMuted);
+  const setTrackSolo = usePatternStore((state) => state.setTrackSolo);
+  const setTrackLength = usePatternStore((state) => state.setTrackLength);
   const toggleStep = usePatternStore((state) => state.toggleStep);
 
   // Story 3.6: Playhead state
@@ -441,7 +867,10 @@ export function StepSequencer() {
   const selectionEnd = useSelectionStore((state) => state.selectionEnd);
 
   // Zoom state for cell width
-  const [cellWidth, setCellWidth] = useState(DEFAULT_CELL_WIDTH);
+  const cellWidth = useLayoutStore((state) => state.cellWidth);
+  const setCellWidth = useLayoutStore((state) => state.setCellWidth);
+  const showNotation = useLayoutStore((state) => state.showNotation);
+  const setShowNotation = useLayoutStore((state) => state.setShowNotation);
   const gridContainerRef = useRef<HTMLDivElement>(null);
   const gridContentRef = useRef<HTMLDivElement>(null);
 
@@ -452,9 +881,22 @@ export function StepSequencer() {
   // Hand selection popup state for simplified view
   const [handSelection, setHandSelection] = useState<HandSelection | null>(null);
 
+  // Lossy subdivision change awaiting confirmation
+  const [pendingSubdivision, setPendingSubdivision] = useState<SubdivisionChangeReport | null>(null);
+
+  // Track (or merged Simplified row) the Euclidean generator is open for
+  const [euclideanTarget, setEuclideanTarget] = useState<{
+    label: string;
+    sources: { trackIndex: number; label: string }[];
+  } | null>(null);
+
   // Step header drag state
   const [isDraggingHeader, setIsDraggingHeader] = useState(false);
 
+  // Pattern file dragged over the sequencer
+  const [isFileOver, setIsFileOver] = useState(false);
+  const { openFile } = usePatternFile();
+
   // Header drag handlers
   const handleHeaderDragStart = useCallback(() => {
     setIsDraggingHeader(true);
@@ -465,7 +907,7 @@ export function StepSequencer() {
   }, []);
 
   // Handle subdivision change with cell width adjustment
-  const handleSubdivisionChange = useCallback((newSubdivision: Subdivision) => {
+  const applySubdivisionChange = useCallback((newSubdivision: Subdivision) => {
     if (!currentPattern) return;
 
     const oldStepsPerBeat = getStepsPerBeat(currentPattern.subdivision);
@@ -474,22 +916,70 @@ export function StepSequencer() {
 
     // Adjust cell width to keep beat width constant
     // More steps = smaller cells, fewer steps = larger cells
-    const newCellWidth = Math.round(cellWidth * ratio);
-    const clampedWidth = Math.max(MIN_CELL_WIDTH, Math.min(MAX_CELL_WIDTH, newCellWidth));
-
-    setCellWidth(clampedWidth);
+    setCellWidth(cellWidth * ratio);
     setSubdivisionStore(newSubdivision);
-  }, [currentPattern, cellWidth, setSubdivisionStore]);
+  }, [currentPattern, cellWidth, setCellWidth, setSubdivisionStore]);
+
+  // Ask for confirmation when the new grid would drop or move notes
+  const handleSubdivisionChange = useCallback((newSubdivision: Subdivision) => {
+    const report = usePatternStore.getState().getSubdivisionChangeReport(newSubdivision);
+    if (report && report.tracks.length > 0) {
+      setPendingSubdivision(report);
+      return;
+    }
+    applySubdivisionChange(newSubdivision);
+  }, [applySubdivisionChange]);
+
+  const handleConfirmSubdivision = useCallback(() => {
+    if (pendingSubdivision) {
+      applySubdivisionChange(pendingSubdivision.to);
+    }
+    setPendingSubdivision(null);
+  }, [pendingSubdivision, applySubdivisionChange]);
+
+  const handleCancelSubdivision = useCallback(() => {
+    setPendingSubdivision(null);
+  }, []);
+
+  // Slider drags produce many values; keep them as one undo step
+  const handleSwingChange = useCallback((value: number) => {
+    useHistoryStore.getState().coalesceNext('swing');
+    setSwing(value);
+  }, [setSwing]);
 
   // Handle Alt/Option + scroll for zoom
   const handleWheel = useCallback((e: WheelEvent) => {
     if (e.altKey) {
       e.preventDefault();
       const delta = e.deltaY > 0 ? -ZOOM_STEP : ZOOM_STEP;
-      setCellWidth((prev) => Math.max(MIN_CELL_WIDTH, Math.min(MAX_CELL_WIDTH, prev + delta)));
+      setCellWidth(useLayoutStore.getState().cellWidth + delta);
     }
+  }, [setCellWidth]);
+
+  // Drag-and-drop of a pattern .json, MIDI or Hydrogen file onto the sequencer
+  const handleFileDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsFileOver(true);
+  }, []);
+
+  const handleFileDragLeave = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    // Ignore moves between child elements
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsFileOver(false);
   }, []);
 
+  const handleFileDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsFileOver(false);
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      openFile(file);
+    }
+  }, [openFile]);
+
   // Attach wheel listener with passive: false to allow preventDefault
   // Re-run when currentPattern changes because the container only renders when pattern exists
   useEffect(() => {
@@ -523,12 +1013,12 @@ export function StepSequencer() {
   }, [currentPattern, cellWidth]);
 
   // Initialize empty pattern on mount if none exists
-  // Wait for URL check to complete before creating empty pattern
+  // Wait for URL check to complete and any session restore offer to be answered
   useEffect(() => {
-    if (urlCheckComplete && !currentPattern) {
+    if (urlCheckComplete && !currentPattern && !restorableSession) {
       createEmptyPattern();
     }
-  }, [urlCheckComplete, currentPattern, createEmptyPattern]);
+  }, [urlCheckComplete, currentPattern, restorableSession, createEmptyPattern]);
 
   // Real-time playhead position update using requestAnimationFrame
   // Single time source principle: Transport.position is the source of truth
@@ -543,6 +1033,7 @@ export function StepSequencer() {
 
     const stepsPerBeat = getStepsPerBeat(currentPattern.subdivision);
     const totalSteps = currentPattern.tracks[0]?.steps.length ?? 16;
+    const { swing, unit: swingUnit } = getPatternSwing(currentPattern);
     
     // Calculate step duration in seconds
     const stepDuration = (60 / bpm) / stepsPerBeat;
@@ -551,7 +1042,12 @@ export function StepSequencer() {
     if (isPaused) {
       // Use exact pausedPosition (no snapping - shows real-time position)
       const stepPosition = pausedPosition / stepDuration;
-      const normalizedPosition = stepPosition % totalSteps;
+      const normalizedPosition = getSwungStepPosition(
+        stepPosition % totalSteps,
+        currentPattern.subdivision,
+        swing,
+        swingUnit
+      );
       setPlayheadPosition(normalizedPosition);
       return;
     }
@@ -578,10 +1074,16 @@ export function StepSequencer() {
         : Tone.Time(transportPos).toSeconds();
 
       // Calculate current step position (fractional for smooth movement)
-      const stepPosition = transportPosition / stepDuration;
+      // Song mode: measured from the start of the current pattern pass
+      const stepPosition = Math.max(0, transportPosition - currentState.segmentStart) / stepDuration;
 
-      // Handle loop (modulo totalSteps)
-      const normalizedPosition = stepPosition % totalSteps;
+      // Handle loop (modulo totalSteps), then follow the swung note timing
+      const normalizedPosition = getSwungStepPosition(
+        stepPosition % totalSteps,
+        currentPattern.subdivision,
+        swing,
+        swingUnit
+      );
 
       setPlayheadPosition(normalizedPosition);
 
@@ -643,6 +1145,40 @@ export function StepSequencer() {
     setHandSelection(null);
   }, [handSelection, currentPattern, toggleStep]);
 
+  // Open the Euclidean generator for a track
+  const handleTrackGenerate = useCallback((trackIndex: number) => {
+    const track = usePatternStore.getState().currentPattern?.tracks[trackIndex];
+    if (!track) return;
+    setEuclideanTarget({ label: track.label, sources: [{ trackIndex, label: track.label }] });
+  }, []);
+
+  // Open the Euclidean generator for a Simplified row, choosing among its source pads
+  const handleSimplifiedGenerate = useCallback((trackId: string) => {
+    const config = SIMPLIFIED_TRACKS.find(t => t.id === trackId);
+    if (!config) return;
+    setEuclideanTarget({
+      label: config.label,
+      sources: config.sources.map((padId) => ({ trackIndex: PAD_IDS.indexOf(padId), label: PADS[padId].label })),
+    });
+  }, []);
+
+  // Write the rhythm to the chosen pad; other pads of a merged row are cleared
+  const handleEuclideanApply = useCallback((trackIndex: number, rhythm: boolean[]) => {
+    if (!euclideanTarget) return;
+    const { beginBatch, endBatch } = useHistoryStore.getState();
+    const { setTrackRhythm } = usePatternStore.getState();
+    beginBatch();
+    euclideanTarget.sources.forEach((source) => {
+      setTrackRhythm(source.trackIndex, source.trackIndex === trackIndex ? rhythm : []);
+    });
+    endBatch();
+    setEuclideanTarget(null);
+  }, [euclideanTarget]);
+
+  const handleCloseEuclidean = useCallback(() => {
+    setEuclideanTarget(null);
+  }, []);
+
   // Close hand selection popup
   const handleCloseHandSelection = useCallback(() => {
     setHandSelection(null);
@@ -681,16 +1217,44 @@ export function StepSequencer() {
   }
 
   const totalSteps = currentPattern.tracks[0]?.steps.length ?? 16;
-  const stepsPerBeat = getStepsPerBeat(currentPattern.subdivision);
+  const timeSignature = getPatternTimeSignature(currentPattern);
+  // Beat grouping follows the counted beat of the time signature (e.g. dotted quarters in 6/8)
+  const stepsPerBeat = getStepsPerCountedBeat(currentPattern.subdivision, timeSignature);
+  const beatsPerBar = getBeatsPerBar(timeSignature);
+  const { swing, unit: swingUnit } = getPatternSwing(currentPattern);
+  const soloActive = hasSoloTrack(currentPattern.tracks);
 
   // Calculate zoom percentage for display
   const zoomPercent = Math.round((cellWidth / DEFAULT_CELL_WIDTH) * 100);
 
   const headerBorderColor = isDark ? 'border-slate-700' : 'border-slate-300';
   const zoomTextColor = isDark ? 'text-slate-500' : 'text-slate-400';
+  const notationButtonStyle = showNotation
+    ? 'bg-sky-600 border-sky-600 text-white hover:bg-sky-500'
+    : isDark
+      ? 'bg-slate-800 border-slate-600 text-slate-200 hover:bg-slate-700'
+      : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-100';
 
   return (
-    <div className="flex flex-col h-full">
+    <div
+      className="relative flex flex-col h-full"
+      onDragOver={handleFileDragOver}
+      onDragLeave={handleFileDragLeave}
+      onDrop={handleFileDrop}
+    >
+      {/* Drop target for pattern .json, MIDI and Hydrogen files */}
+      {isFileOver && (
+        <div
+          className={`absolute inset-1 z-40 flex items-center justify-center rounded-lg border-2 border-dashed pointer-events-none text-sm font-medium ${
+            isDark
+              ? 'bg-slate-900/80 border-sky-500 text-sky-300'
+              : 'bg-white/80 border-sky-500 text-sky-600'
+          }`}
+        >
+          Drop a pattern .json, .mid or .h2song file to open it
+        </div>
+      )}
+
       {/* Header: Pattern name and controls */}
       <div className={`shrink-0 px-3 py-2 border-b ${headerBorderColor}`}>
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 sm:gap-4">
@@ -702,13 +1266,40 @@ export function StepSequencer() {
             disabled={isPlaying}
             isDark={isDark}
           />
+          <TimeSignatureSelector
+            timeSignature={timeSignature}
+            subdivision={currentPattern.subdivision}
+            onChange={setTimeSignature}
+            disabled={isPlaying}
+            isDark={isDark}
+          />
           <SubdivisionSelector
             subdivision={currentPattern.subdivision}
+            timeSignature={timeSignature}
             onChange={handleSubdivisionChange}
             disabled={isPlaying}
             isDark={isDark}
           />
+          <SwingControl
+            swing={swing}
+            unit={swingUnit}
+            subdivision={currentPattern.subdivision}
+            onSwingChange={handleSwingChange}
+            onUnitChange={setSwingUnit}
+            isDark={isDark}
+          />
+          <PresetMenu disabled={isPlaying} isDark={isDark} />
+          <TransformMenu isDark={isDark} />
           <LayoutSelector isDark={isDark} />
+          <button
+            type="button"
+            onClick={() => setShowNotation(!showNotation)}
+            aria-pressed={showNotation}
+            title={showNotation ? 'Hide staff notation' : 'Show staff notation'}
+            className={`border rounded text-xs px-1.5 py-0.5 transition-colors ${notationButtonStyle}`}
+          >
+            Notation
+          </button>
             <span className={`text-xs ${zoomTextColor} hidden sm:inline`} title="Alt/Option + Scroll to zoom">
             {zoomPercent}%
           </span>
@@ -770,6 +1361,7 @@ export function StepSequencer() {
           <StepHeader
             totalSteps={totalSteps}
             stepsPerBeat={stepsPerBeat}
+            beatsPerBar={beatsPerBar}
             cellWidth={cellWidth}
             isDark={isDark}
             onStepClick={setPlayhead}
@@ -785,10 +1377,14 @@ export function StepSequencer() {
               // Get source tracks for this simplified track
               const sourceTracks = config.sources.map(padId => {
                 const trackIndex = PAD_IDS.indexOf(padId);
+                const track = currentPattern.tracks[trackIndex];
                 return {
                   padId,
                   trackIndex,
-                  steps: currentPattern.tracks[trackIndex]?.steps ?? [],
+                  steps: track?.steps ?? [],
+                  muted: !!track?.muted,
+                  solo: !!track?.solo,
+                  audible: !!track && isTrackAudible(track, soloActive),
                 };
               });
 
@@ -801,6 +1397,9 @@ export function StepSequencer() {
                   cellWidth={cellWidth}
                   isDark={isDark}
                   onCellClick={handleSimplifiedCellClick}
+                  onMutedChange={setTrackMuted}
+                  onSoloChange={setTrackSolo}
+                  onGenerate={handleSimplifiedGenerate}
                 />
               );
             })
@@ -814,6 +1413,14 @@ export function StepSequencer() {
                 label={track.label}
                 shortLabel={track.label.slice(0, 3)}
                 steps={track.steps}
+                length={getTrackLength(track)}
+                muted={!!track.muted}
+                solo={!!track.solo}
+                audible={isTrackAudible(track, soloActive)}
+                onMutedChange={setTrackMuted}
+                onSoloChange={setTrackSolo}
+                onLengthChange={setTrackLength}
+                onGenerate={handleTrackGenerate}
                 stepsPerBeat={stepsPerBeat}
                 cellWidth={cellWidth}
                 isDark={isDark}
@@ -832,6 +1439,29 @@ export function StepSequencer() {
           isDark={isDark}
         />
       )}
+
+      {/* Euclidean rhythm generator */}
+      {euclideanTarget && (
+        <EuclideanDialog
+          label={euclideanTarget.label}
+          sources={euclideanTarget.sources}
+          stepCount={totalSteps}
+          stepsPerBeat={stepsPerBeat}
+          onApply={handleEuclideanApply}
+          onCancel={handleCloseEuclidean}
+          isDark={isDark}
+        />
+      )}
+
+      {/* Confirmation for subdivision changes that drop or move notes */}
+      {pendingSubdivision && (
+        <SubdivisionChangeDialog
+          report={pendingSubdivision}
+          onConfirm={handleConfirmSubdivision}
+          onCancel={handleCancelSubdivision}
+          isDark={isDark}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,117 @@
+/**
+ * SubdivisionChangeDialog - Confirmation before a lossy grid change
+ *
+ * Lists, per track, the notes a subdivision change would drop or move.
+ * Switching back to the original grid before editing restores them.
+ */
+
+import { memo, useEffect } from 'react';
+import { getSubdivisionLabel } from '../../types/pattern';
+import type { SubdivisionChangeReport } from '../../stores/usePatternStore';
+
+interface SubdivisionChangeDialogProps {
+  report: SubdivisionChangeReport;
+  onConfirm: () => void;
+  onCancel: () => void;
+  isDark: boolean;
+}
+
+/**
+ * Format step indices as 1-based step numbers, e.g. "2, 4, 6"
+ */
+function formatSteps(steps: number[]): string {
+  return steps.map((step) => step + 1).join(', ');
+}
+
+export const SubdivisionChangeDialog = memo(function SubdivisionChangeDialog({
+  report,
+  onConfirm,
+  onCancel,
+  isDark,
+}: SubdivisionChangeDialogProps) {
+  // Close on ESC key
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onCancel();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const panelStyle = isDark
+    ? 'bg-slate-800 border-slate-600 text-slate-200'
+    : 'bg-white border-slate-300 text-slate-700';
+  const mutedText = isDark ? 'text-slate-400' : 'text-slate-500';
+  const rowBorder = isDark ? 'border-slate-700' : 'border-slate-200';
+  const cancelStyle = isDark
+    ? 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+    : 'bg-slate-100 text-slate-600 hover:bg-slate-200';
+
+  const fromLabel = getSubdivisionLabel(report.from);
+  const toLabel = getSubdivisionLabel(report.to);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onCancel();
+      }}
+    >
+      <div
+        className={`border rounded-lg shadow-xl w-full max-w-sm p-4 ${panelStyle}`}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="subdivision-change-title"
+      >
+        <h2 id="subdivision-change-title" className="text-sm font-semibold mb-1">
+          Change grid to {toLabel}?
+        </h2>
+        <p className={`text-xs mb-3 ${mutedText}`}>
+          Some notes don&apos;t fit the {toLabel} grid.
+        </p>
+
+        <ul className="max-h-60 overflow-y-auto text-xs mb-3">
+          {report.tracks.map(({ trackIndex, label, lost, moved }) => (
+            <li key={trackIndex} className={`py-1.5 border-t ${rowBorder}`}>
+              <div className="font-medium">{label}</div>
+              {lost.length > 0 && (
+                <div className="text-rose-400">
+                  {lost.length} lost: step {formatSteps(lost)}
+                </div>
+              )}
+              {moved.length > 0 && (
+                <div className="text-amber-400">
+                  {moved.length} moved: {moved.map(({ from, to }) => `${from + 1}→${to + 1}`).join(', ')}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <p className={`text-xs mb-4 ${mutedText}`}>
+          Switch back to {fromLabel} before editing to restore the original notes.
+        </p>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className={`px-3 py-1 rounded text-xs font-medium transition-colors ${cancelStyle}`}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            autoFocus
+            className="px-3 py-1 rounded text-xs font-medium bg-amber-500 text-white hover:bg-amber-400 transition-colors"
+          >
+            Convert
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
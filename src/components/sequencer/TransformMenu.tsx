@@ -0,0 +1,121 @@
+/**
+ * TransformMenu - Dropdown of pattern transforms
+ *
+ * Applies to the current selection when there is one, otherwise to the
+ * whole pattern (see utils/patternTransforms.ts).
+ */
+
+import { memo, useEffect, useRef, useState } from 'react';
+import { usePatternStore } from '../../stores/usePatternStore';
+import { useSelectionStore } from '../../stores/useSelectionStore';
+import type { StepRange } from '../../utils/patternTransforms';
+
+interface TransformMenuProps {
+  isDark: boolean;
+}
+
+interface TransformItem {
+  label: string;
+  title: string;
+  apply: (range?: StepRange) => void;
+}
+
+export const TransformMenu = memo(function TransformMenu({ isDark }: TransformMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const hasSelection = useSelectionStore((state) => state.selectionStart !== null);
+
+  // Close on ESC key
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen]);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    // Use setTimeout to avoid immediate close from the triggering click
+    const timer = setTimeout(() => {
+      document.addEventListener('mousedown', handleClickOutside);
+    }, 0);
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const { rotateSteps, reverseSteps, mirrorHands, stretchTime } = usePatternStore.getState();
+  const items: TransformItem[] = [
+    { label: 'Shift left', title: 'Move notes one step earlier (wraps around)', apply: (range) => rotateSteps(-1, range) },
+    { label: 'Shift right', title: 'Move notes one step later (wraps around)', apply: (range) => rotateSteps(1, range) },
+    { label: 'Reverse', title: 'Play the notes backwards', apply: reverseSteps },
+    { label: 'Mirror hands', title: 'Swap left and right pads and hands', apply: mirrorHands },
+    { label: 'Half time (x2)', title: 'Spread notes twice as far apart', apply: (range) => stretchTime(2, range) },
+    { label: 'Double time (x0.5)', title: 'Squeeze notes into half the space and repeat', apply: (range) => stretchTime(0.5, range) },
+  ];
+
+  const handleSelect = (item: TransformItem) => {
+    const range = useSelectionStore.getState().getSelectionBounds() ?? undefined;
+    item.apply(range);
+    setIsOpen(false);
+  };
+
+  const buttonStyle = isDark
+    ? 'bg-slate-800 border-slate-600 text-slate-200 hover:bg-slate-700'
+    : 'bg-white border-slate-300 text-slate-700 hover:bg-slate-100';
+  const menuStyle = isDark
+    ? 'bg-slate-800 border-slate-600'
+    : 'bg-white border-slate-300';
+  const itemStyle = isDark
+    ? 'text-slate-200 hover:bg-slate-700'
+    : 'text-slate-700 hover:bg-slate-100';
+  const labelColor = isDark ? 'text-slate-500' : 'text-slate-400';
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className={`border rounded text-xs px-1.5 py-0.5 ${buttonStyle}`}
+      >
+        Transform ▾
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className={`absolute right-0 z-50 mt-1 min-w-[160px] border rounded-lg shadow-xl py-1 ${menuStyle}`}
+        >
+          <div className={`px-3 py-1 text-xs ${labelColor}`}>
+            {hasSelection ? 'Selection' : 'Whole pattern'}
+          </div>
+          {items.map((item) => (
+            <button
+              key={item.label}
+              type="button"
+              role="menuitem"
+              onClick={() => handleSelect(item)}
+              title={item.title}
+              className={`block w-full text-left px-3 py-1 text-xs transition-colors ${itemStyle}`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
@@ -5,15 +5,20 @@
  * - Encodes current pattern to URL
  * - Copies to clipboard
  * - Shows toast notification on success
+ *
+ * The menu next to it copies the pattern as an ASCII drum tab or opens
+ * the drum tab paste-in dialog.
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { usePatternStore } from '../../stores/usePatternStore';
 import { useToastStore } from '../../stores/useToastStore';
 import { useThemeStore } from '../../stores/useThemeStore';
+import { useTabImportStore } from '../../stores/useTabImportStore';
 import { encodePattern } from '../../utils/patternUrl';
+import { createDrumTab } from '../../utils/drumTab';
 
-type ShareState = 'idle' | 'copied' | 'show-url';
+type ShareState = 'idle' | 'copied' | 'show-text';
 
 /**
  * Share icon (link/share symbol)
@@ -64,8 +69,44 @@ export function ShareButton() {
   const showToast = useToastStore((state) => state.showToast);
   const theme = useThemeStore((state) => state.theme);
   const isDark = theme === 'fgdp-50';
+  const openTabImport = useTabImportStore((state) => state.openImport);
   const [state, setState] = useState<ShareState>('idle');
-  const [shareUrl, setShareUrl] = useState<string>('');
+  const [shareText, setShareText] = useState<string>('');
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the menu on outside click
+  useEffect(() => {
+    if (!isMenuOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsMenuOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isMenuOpen]);
+
+  /**
+   * Copy text to the clipboard, or show it for manual copying
+   */
+  const copyText = useCallback(async (text: string, message: string) => {
+    if (navigator.clipboard && navigator.clipboard.writeText) {
+      try {
+        await navigator.clipboard.writeText(text);
+        showToast(message, 'success');
+        setState('copied');
+        setTimeout(() => setState('idle'), 2000);
+        return;
+      } catch {
+        // Clipboard API failed, fall through to modal
+      }
+    }
+
+    // Fallback: show text in modal-like state
+    setShareText(text);
+    setState('show-text');
+  }, [showToast]);
 
   const handleShare = useCallback(async () => {
     if (!currentPattern) {
@@ -82,28 +123,26 @@ export function ShareButton() {
 
     // Build URL
     const url = `${window.location.origin}${window.location.pathname}?pattern=${encoded}`;
+    await copyText(url, 'Pattern URL copied to clipboard!');
+  }, [currentPattern, showToast, copyText]);
 
-    // Try clipboard API
-    if (navigator.clipboard && navigator.clipboard.writeText) {
-      try {
-        await navigator.clipboard.writeText(url);
-        showToast('Pattern URL copied to clipboard!', 'success');
-        setState('copied');
-        setTimeout(() => setState('idle'), 2000);
-        return;
-      } catch {
-        // Clipboard API failed, fall through to modal
-      }
+  const handleCopyTab = useCallback(async () => {
+    setIsMenuOpen(false);
+    if (!currentPattern) {
+      showToast('No pattern to share', 'error');
+      return;
     }
+    await copyText(createDrumTab(currentPattern), 'Drum tab copied to clipboard!');
+  }, [currentPattern, showToast, copyText]);
 
-    // Fallback: show URL in modal-like state
-    setShareUrl(url);
-    setState('show-url');
-  }, [currentPattern, showToast]);
+  const handlePasteTab = useCallback(() => {
+    setIsMenuOpen(false);
+    openTabImport();
+  }, [openTabImport]);
 
-  const handleCloseUrl = useCallback(() => {
+  const handleCloseText = useCallback(() => {
     setState('idle');
-    setShareUrl('');
+    setShareText('');
   }, []);
 
   // Theme-aware styles
@@ -111,28 +150,48 @@ export function ShareButton() {
     ? 'bg-slate-800 border-slate-700 hover:bg-slate-700 hover:border-slate-600'
     : 'bg-white border-slate-300 hover:bg-slate-50 hover:border-slate-400 text-slate-700';
 
-  // Show URL fallback modal
-  if (state === 'show-url') {
+  const fieldStyle = isDark
+    ? 'bg-slate-900 border border-slate-600 text-slate-200'
+    : 'bg-slate-100 border border-slate-300 text-slate-800';
+  const menuStyle = isDark
+    ? 'bg-slate-800 border-slate-700'
+    : 'bg-white border-slate-300';
+  const itemStyle = isDark
+    ? 'text-slate-200 hover:bg-slate-700'
+    : 'text-slate-700 hover:bg-slate-100';
+
+  // Show copy fallback modal (a URL, or a multi-line drum tab)
+  if (state === 'show-text') {
+    const isMultiline = shareText.includes('\n');
     return (
       <div className="relative">
-        <div className={`absolute right-0 top-full mt-2 p-3 rounded-lg shadow-xl z-50 w-72 ${
+        <div className={`absolute right-0 top-full mt-2 p-3 rounded-lg shadow-xl z-50 ${isMultiline ? 'w-96' : 'w-72'} ${
           isDark ? 'bg-slate-800 border border-slate-700' : 'bg-white border border-slate-300'
         }`}>
-          <p className={`text-xs mb-2 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>Copy this URL:</p>
-          <input
-            type="text"
-            value={shareUrl}
-            readOnly
-            className={`w-full px-2 py-1 text-xs rounded font-mono ${
-              isDark
-                ? 'bg-slate-900 border border-slate-600 text-slate-200'
-                : 'bg-slate-100 border border-slate-300 text-slate-800'
-            }`}
-            onFocus={(e) => e.target.select()}
-            autoFocus
-          />
+          <p className={`text-xs mb-2 ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>
+            {isMultiline ? 'Copy this drum tab:' : 'Copy this URL:'}
+          </p>
+          {isMultiline ? (
+            <textarea
+              value={shareText}
+              readOnly
+              rows={8}
+              className={`w-full px-2 py-1 text-xs rounded font-mono whitespace-pre ${fieldStyle}`}
+              onFocus={(e) => e.target.select()}
+              autoFocus
+            />
+          ) : (
+            <input
+              type="text"
+              value={shareText}
+              readOnly
+              className={`w-full px-2 py-1 text-xs rounded font-mono ${fieldStyle}`}
+              onFocus={(e) => e.target.select()}
+              autoFocus
+            />
+          )}
           <button
-            onClick={handleCloseUrl}
+            onClick={handleCloseText}
             className={`mt-2 w-full px-2 py-1 text-xs rounded transition-colors ${
               isDark ? 'bg-slate-700 hover:bg-slate-600' : 'bg-slate-200 hover:bg-slate-300 text-slate-700'
             }`}
@@ -154,23 +213,74 @@ export function ShareButton() {
   const isCopied = state === 'copied';
 
   return (
-    <button
-      onClick={handleShare}
-      disabled={!currentPattern}
-      className={`
-        flex items-center justify-center gap-1.5
-        w-24 py-1.5 text-sm rounded-lg border
-        transition-all duration-200
-        ${isCopied
-          ? 'bg-emerald-600 border-emerald-500 text-white'
-          : baseButtonStyle
-        }
-        disabled:opacity-50
-      `}
-      title={currentPattern ? 'Copy pattern URL' : 'No pattern'}
-    >
-      {isCopied ? <CheckIcon className="w-4 h-4" /> : <ShareIcon className="w-4 h-4" />}
-      <span>{isCopied ? 'Copied!' : 'Share'}</span>
-    </button>
+    <div ref={menuRef} className="relative flex">
+      <button
+        onClick={handleShare}
+        disabled={!currentPattern}
+        className={`
+          flex items-center justify-center gap-1.5
+          w-20 py-1.5 text-sm rounded-l-lg border
+          transition-all duration-200
+          ${isCopied
+            ? 'bg-emerald-600 border-emerald-500 text-white'
+            : baseButtonStyle
+          }
+          disabled:opacity-50
+        `}
+        title={currentPattern ? 'Copy pattern URL' : 'No pattern'}
+      >
+        {isCopied ? <CheckIcon className="w-4 h-4" /> : <ShareIcon className="w-4 h-4" />}
+        <span>{isCopied ? 'Copied!' : 'Share'}</span>
+      </button>
+      <button
+        type="button"
+        onClick={() => setIsMenuOpen((open) => !open)}
+        aria-haspopup="menu"
+        aria-expanded={isMenuOpen}
+        aria-label="More share options"
+        className={`px-1.5 py-1.5 text-xs rounded-r-lg border border-l-0 transition-all duration-200 ${baseButtonStyle}`}
+      >
+        ▾
+      </button>
+
+      {isMenuOpen && (
+        <div
+          className={`absolute right-0 top-full z-50 mt-1 min-w-[170px] border rounded-lg shadow-xl py-1 ${menuStyle}`}
+          role="menu"
+        >
+          <button
+            type="button"
+            role="menuitem"
+            onClick={() => {
+              setIsMenuOpen(false);
+              handleShare();
+            }}
+            disabled={!currentPattern}
+            className={`block w-full text-left px-3 py-1 text-xs transition-colors disabled:opacity-50 ${itemStyle}`}
+          >
+            Copy link
+          </button>
+          <button
+            type="button"
+            role="menuitem"
+            onClick={handleCopyTab}
+            disabled={!currentPattern}
+            className={`block w-full text-left px-3 py-1 text-xs transition-colors disabled:opacity-50 ${itemStyle}`}
+            title="Copy the pattern as a plain-text drum tab"
+          >
+            Copy as drum tab
+          </button>
+          <button
+            type="button"
+            role="menuitem"
+            onClick={handlePasteTab}
+            className={`block w-full text-left px-3 py-1 text-xs transition-colors ${itemStyle}`}
+            title="Import a pattern from a plain-text drum tab"
+          >
+            Paste drum tab…
+          </button>
+        </div>
+      )}
+    </div>
   );
 }
@@ -0,0 +1,255 @@
+/**
+ * SongTimeline - Arrangement strip for song mode
+ *
+ * Shows the song's entries in play order:
+ * - Click an entry to edit its pattern in the sequencer (while stopped)
+ * - Drag entries to reorder them
+ * - Set repeat counts, duplicate an entry's pattern, or remove it
+ * - Highlights the entry (and repeat) currently playing
+ */
+
+import { memo, useCallback, useState, type DragEvent } from 'react';
+import { useSongStore } from '../../stores/useSongStore';
+import { usePlaybackStore } from '../../stores/usePlaybackStore';
+import { useThemeStore } from '../../stores/useThemeStore';
+import { MIN_SONG_REPEATS, MAX_SONG_REPEATS, type SongEntry } from '../../types/song';
+
+interface SongEntryChipProps {
+  entry: SongEntry;
+  index: number;
+  name: string;
+  isActive: boolean;
+  isPlaying: boolean;
+  activeRepeat: number;
+  isDragTarget: boolean;
+  isDark: boolean;
+  onSelect: (index: number) => void;
+  onDragStart: (index: number) => void;
+  onDragOver: (index: number) => void;
+  onDrop: (index: number) => void;
+  onDragEnd: () => void;
+}
+
+/**
+ * A single entry in the timeline
+ */
+const SongEntryChip = memo(function SongEntryChip({
+  entry,
+  index,
+  name,
+  isActive,
+  isPlaying,
+  activeRepeat,
+  isDragTarget,
+  isDark,
+  onSelect,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd,
+}: SongEntryChipProps) {
+  const setEntryRepeats = useSongStore((state) => state.setEntryRepeats);
+  const duplicateEntry = useSongStore((state) => state.duplicateEntry);
+  const removeEntry = useSongStore((state) => state.removeEntry);
+
+  const handleDragOver = useCallback((e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    onDragOver(index);
+  }, [index, onDragOver]);
+
+  const handleDrop = useCallback((e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    onDrop(index);
+  }, [index, onDrop]);
+
+  const smallButton = `w-5 h-5 rounded text-xs leading-none focus:outline-none focus:ring-2 focus:ring-sky-400 ${
+    isDark ? 'hover:bg-slate-600 text-slate-300' : 'hover:bg-slate-300 text-slate-600'
+  }`;
+
+  return (
+    <div
+      draggable
+      onDragStart={() => onDragStart(index)}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+      onDragEnd={onDragEnd}
+      className={`
+        flex items-center gap-1 pl-2 pr-1 py-1 rounded border shrink-0 cursor-grab
+        ${isActive
+          ? 'border-sky-500 bg-sky-500/20'
+          : isDark ? 'border-slate-700 bg-slate-800' : 'border-slate-300 bg-slate-50'
+        }
+        ${isDragTarget ? 'ring-2 ring-sky-400' : ''}
+      `}
+    >
+      <button
+        type="button"
+        onClick={() => onSelect(index)}
+        disabled={isPlaying}
+        className="flex items-center gap-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-sky-400 rounded"
+        aria-label={`Edit ${name} (entry ${index + 1})`}
+        aria-current={isActive ? 'true' : undefined}
+      >
+        <span className={isDark ? 'text-slate-500' : 'text-slate-400'}>{index + 1}</span>
+        <span className="max-w-[8rem] truncate font-medium">{name}</span>
+        {isActive && isPlaying && entry.repeats > 1 && (
+          <span className="font-mono text-sky-500">{activeRepeat + 1}/{entry.repeats}</span>
+        )}
+      </button>
+
+      {/* Repeat count */}
+      <div className="flex items-center ml-1">
+        <button
+          type="button"
+          onClick={() => setEntryRepeats(entry.id, entry.repeats - 1)}
+          disabled={entry.repeats <= MIN_SONG_REPEATS}
+          className={`${smallButton} disabled:opacity-40`}
+          aria-label={`Decrease repeats of ${name}`}
+        >
+          -
+        </button>
+        <span className="w-6 text-center text-xs font-mono" title="Repeats">×{entry.repeats}</span>
+        <button
+          type="button"
+          onClick={() => setEntryRepeats(entry.id, entry.repeats + 1)}
+          disabled={entry.repeats >= MAX_SONG_REPEATS}
+          className={`${smallButton} disabled:opacity-40`}
+          aria-label={`Increase repeats of ${name}`}
+        >
+          +
+        </button>
+      </div>
+
+      <button
+        type="button"
+        onClick={() => duplicateEntry(entry.id)}
+        className={smallButton}
+        aria-label={`Duplicate ${name} as a new pattern`}
+        title="Duplicate as new pattern"
+      >
+        ⧉
+      </button>
+      <button
+        type="button"
+        onClick={() => removeEntry(entry.id)}
+        className={smallButton}
+        aria-label={`Remove entry ${index + 1}`}
+        title="Remove from song"
+      >
+        ×
+      </button>
+    </div>
+  );
+});
+
+/**
+ * SongTimeline component
+ */
+export const SongTimeline = memo(function SongTimeline() {
+  const {
+    isSongMode,
+    entries,
+    patterns,
+    activeEntryIndex,
+    activeRepeat,
+    setSongMode,
+    addCurrentPattern,
+    addNewPattern,
+    moveEntry,
+    selectEntry,
+  } = useSongStore();
+  const isPlaying = usePlaybackStore((state) => state.isPlaying);
+  const theme = useThemeStore((state) => state.theme);
+  const isDark = theme === 'fgdp-50';
+
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const handleDrop = useCallback((index: number) => {
+    if (dragIndex !== null) {
+      moveEntry(dragIndex, index);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  }, [dragIndex, moveEntry]);
+
+  const handleDragEnd = useCallback(() => {
+    setDragIndex(null);
+    setDropIndex(null);
+  }, []);
+
+  const buttonClass = `px-2 py-1 text-xs rounded shrink-0 focus:outline-none focus:ring-2 focus:ring-sky-400 ${
+    isDark
+      ? 'bg-slate-700 hover:bg-slate-600 text-slate-300'
+      : 'bg-slate-200 hover:bg-slate-300 text-slate-700'
+  }`;
+
+  return (
+    <div className="flex items-center gap-2 min-w-0" aria-label="Song arrangement">
+      <div className="flex items-center gap-1.5 shrink-0">
+        <span className={`text-sm ${isDark ? 'text-slate-400' : 'text-slate-500'}`}>Song:</span>
+        <button
+          type="button"
+          role="switch"
+          aria-checked={isSongMode}
+          aria-label="Toggle song mode"
+          title={isSongMode ? 'Song mode: On' : 'Song mode: Off'}
+          onClick={() => setSongMode(!isSongMode)}
+          className={`
+            relative inline-flex h-5 w-9 items-center rounded-full shrink-0
+            transition-colors focus:outline-none focus:ring-2 focus:ring-sky-400
+            ${isSongMode ? 'bg-sky-500' : isDark ? 'bg-slate-600' : 'bg-slate-300'}
+          `}
+        >
+          <span
+            className={`
+              inline-block h-3.5 w-3.5 rounded-full bg-white shadow transition-transform
+              ${isSongMode ? 'translate-x-[18px]' : 'translate-x-[3px]'}
+            `}
+          />
+        </button>
+      </div>
+
+      {isSongMode && (
+        <>
+          <div className="flex items-center gap-1.5 overflow-x-auto min-w-0 py-0.5">
+            {entries.map((entry, index) => (
+              <SongEntryChip
+                key={entry.id}
+                entry={entry}
+                index={index}
+                name={patterns.find((p) => p.id === entry.patternId)?.name ?? 'Untitled'}
+                isActive={index === activeEntryIndex}
+                isPlaying={isPlaying}
+                activeRepeat={activeRepeat}
+                isDragTarget={dropIndex === index && dragIndex !== index}
+                isDark={isDark}
+                onSelect={selectEntry}
+                onDragStart={setDragIndex}
+                onDragOver={setDropIndex}
+                onDrop={handleDrop}
+                onDragEnd={handleDragEnd}
+              />
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={addCurrentPattern}
+            className={buttonClass}
+            title="Play the current pattern again at the end of the song"
+          >
+            + Current
+          </button>
+          <button
+            type="button"
+            onClick={addNewPattern}
+            className={buttonClass}
+            title="Add a new empty pattern to the song"
+          >
+            + New
+          </button>
+        </>
+      )}
+    </div>
+  );
+});
@@ -0,0 +1 @@
+export { SongTimeline } from './SongTimeline';
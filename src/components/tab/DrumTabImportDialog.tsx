@@ -0,0 +1,331 @@
+/**
+ * DrumTabImportDialog - Paste an ASCII drum tab and import it as a pattern
+ *
+ * - Grid and time signature: detected from the tab or chosen
+ * - Mapping: pad (or skip) for every line label; changes are remembered
+ *   for later imports
+ * - Live preview grid of the pattern the import creates
+ */
+
+import { memo, useEffect, useMemo, useState } from 'react';
+import { useTabImportStore, getTabAssignment } from '../../stores/useTabImportStore';
+import { useThemeStore } from '../../stores/useThemeStore';
+import { useToastStore } from '../../stores/useToastStore';
+import {
+  TIME_SIGNATURES,
+  formatTimeSignature,
+  getPatternTimeSignature,
+  getStepsPerBar,
+  getSubdivisionLabel,
+  isSubdivisionCompatible,
+  type DrumPattern,
+  type Subdivision,
+  type TimeSignature,
+} from '../../types/pattern';
+import { PAD_IDS, PADS, isValidPadId, type PadId } from '../../config/padMapping';
+import { MAX_BARS } from '../../utils/midiImport';
+import {
+  buildTabPattern,
+  countTabHits,
+  detectTabSubdivision,
+  getTabTimeSignature,
+  parseDrumTab,
+  type DrumTabImportResult,
+} from '../../utils/drumTab';
+
+const SUBDIVISIONS: Subdivision[] = ['4n', '4t', '8n', '8t', '16n', '16t', '32n', '32t'];
+
+/** Select value for lines that are not imported */
+const SKIP_VALUE = '';
+
+const PLACEHOLDER = ['HH|x-x-x-x-x-x-x-x-|', 'SD|----o-------o---|', 'BD|o-------o-o-----|'].join('\n');
+
+/**
+ * Describe what an import skips or drops, e.g. "3 unmapped hits skipped"
+ */
+function describeLosses(result: DrumTabImportResult): string[] {
+  const unmappedCount = result.unmapped.reduce((sum, line) => sum + line.count, 0);
+  const losses: string[] = [];
+  if (unmappedCount > 0) losses.push(`${unmappedCount} unmapped hits skipped`);
+  if (result.truncated > 0) losses.push(`${result.truncated} hits after bar ${MAX_BARS} dropped`);
+  if (result.merged > 0) losses.push(`${result.merged} hits merged on shared steps`);
+  return losses;
+}
+
+interface TabPreviewGridProps {
+  pattern: DrumPattern;
+  isDark: boolean;
+}
+
+/**
+ * Compact grid of the pads the import plays
+ */
+const TabPreviewGrid = memo(function TabPreviewGrid({ pattern, isDark }: TabPreviewGridProps) {
+  const stepsPerBar = getStepsPerBar(pattern.subdivision, getPatternTimeSignature(pattern));
+  const tracks = pattern.tracks.filter((track) => track.steps.some((step) => step.active));
+  const labelColor = isDark ? 'text-slate-400' : 'text-slate-500';
+  const emptyCell = isDark ? 'bg-slate-700' : 'bg-slate-200';
+
+  if (tracks.length === 0) {
+    return <p className={`text-xs ${labelColor}`}>No hits on mapped lines</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      {tracks.map((track) => (
+        <div key={track.padId} className="flex items-center gap-1 mb-px">
+          <span className={`w-8 shrink-0 text-[10px] ${labelColor}`}>{PADS[track.padId as PadId].shortLabel}</span>
+          <div className="flex gap-px">
+            {track.steps.map((step, i) => (
+              <span
+                key={i}
+                className={`w-1.5 h-3 rounded-sm shrink-0 ${step.active ? 'bg-sky-500' : emptyCell} ${
+                  i > 0 && i % stepsPerBar === 0 ? 'ml-1' : ''
+                }`}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+});
+
+export function DrumTabImportDialog() {
+  const isOpen = useTabImportStore((state) => state.isOpen);
+  const overrides = useTabImportStore((state) => state.overrides);
+  const setLabelPad = useTabImportStore((state) => state.setLabelPad);
+  const resetMapping = useTabImportStore((state) => state.resetMapping);
+  const closeImport = useTabImportStore((state) => state.closeImport);
+  const showToast = useToastStore((state) => state.showToast);
+  const theme = useThemeStore((state) => state.theme);
+  const isDark = theme === 'fgdp-50';
+
+  const [text, setText] = useState('');
+  // undefined = detected from the tab
+  const [subdivision, setSubdivision] = useState<Subdivision | undefined>(undefined);
+  const [timeSignature, setTimeSignature] = useState<TimeSignature | undefined>(undefined);
+
+  // Each opening starts empty
+  useEffect(() => {
+    if (!isOpen) return;
+    setText('');
+    setSubdivision(undefined);
+    setTimeSignature(undefined);
+  }, [isOpen]);
+
+  // Close on ESC key
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        closeImport();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, closeImport]);
+
+  const assignment = useMemo(() => getTabAssignment(overrides), [overrides]);
+  const parsed = useMemo(() => (text.trim() ? parseDrumTab(text) : null), [text]);
+  const tab = parsed?.ok ? parsed.tab : null;
+
+  const details = useMemo(() => {
+    if (!tab) return null;
+    const tabTimeSignature = getTabTimeSignature(tab);
+    const effectiveTimeSignature = timeSignature ?? tabTimeSignature;
+    return {
+      tabTimeSignature,
+      timeSignature: effectiveTimeSignature,
+      detected: detectTabSubdivision(tab, effectiveTimeSignature),
+      hitCounts: countTabHits(tab),
+      subdivisions: SUBDIVISIONS.filter((s) => isSubdivisionCompatible(s, effectiveTimeSignature)),
+    };
+  }, [tab, timeSignature]);
+
+  const preview = useMemo(() => {
+    if (!tab) return null;
+    return buildTabPattern(tab, { subdivision, timeSignature, assignment });
+  }, [tab, subdivision, timeSignature, assignment]);
+
+  if (!isOpen) return null;
+
+  const handleImport = () => {
+    if (!tab) return;
+    const result = useTabImportStore.getState().completeImport(tab, { subdivision, timeSignature });
+
+    const losses = describeLosses(result);
+    showToast(
+      `Imported "${result.pattern.name}"${losses.length > 0 ? ` (${losses.join(', ')})` : ''}`,
+      losses.length > 0 ? 'warning' : 'success'
+    );
+  };
+
+  const handleTimeSignatureChange = (value: string) => {
+    const next = TIME_SIGNATURES.find((ts) => formatTimeSignature(ts) === value);
+    setTimeSignature(next);
+    // A chosen grid may not fit the new bar
+    if (next && subdivision && !isSubdivisionCompatible(subdivision, next)) {
+      setSubdivision(undefined);
+    }
+  };
+
+  const panelStyle = isDark
+    ? 'bg-slate-800 border-slate-600 text-slate-200'
+    : 'bg-white border-slate-300 text-slate-700';
+  const mutedText = isDark ? 'text-slate-400' : 'text-slate-500';
+  const rowBorder = isDark ? 'border-slate-700' : 'border-slate-200';
+  const inputStyle = isDark
+    ? 'bg-slate-700 border-slate-600 text-slate-200'
+    : 'bg-white border-slate-300 text-slate-700';
+  const cancelStyle = isDark
+    ? 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+    : 'bg-slate-100 text-slate-600 hover:bg-slate-200';
+
+  const losses = preview ? describeLosses(preview) : [];
+  const noteCount = preview
+    ? preview.pattern.tracks.reduce((sum, track) => sum + track.steps.filter((step) => step.active).length, 0)
+    : 0;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) closeImport();
+      }}
+    >
+      <div
+        className={`border rounded-lg shadow-xl w-full max-w-lg p-4 ${panelStyle}`}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="tab-import-title"
+      >
+        <h2 id="tab-import-title" className="text-sm font-semibold mb-1">
+          Paste drum tab
+        </h2>
+        <p className={`text-xs mb-2 ${mutedText}`}>
+          One line per instrument, one character per step: - rest, x/o hit, X/O accent, g ghost, f flam, d drag.
+        </p>
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={PLACEHOLDER}
+          rows={7}
+          spellCheck={false}
+          autoFocus
+          className={`w-full px-2 py-1 mb-2 rounded border font-mono text-xs whitespace-pre ${inputStyle}`}
+          aria-label="Drum tab text"
+        />
+        {parsed && !parsed.ok && <p className="text-xs text-amber-400 mb-2">{parsed.error}</p>}
+
+        {details && preview && (
+          <>
+            <div className="flex items-center gap-3 text-xs mb-3">
+              <label className="flex items-center gap-2">
+                <span className={mutedText}>Grid</span>
+                <select
+                  value={subdivision ?? ''}
+                  onChange={(e) => setSubdivision((e.target.value || undefined) as Subdivision | undefined)}
+                  className={`px-2 py-1 rounded border ${inputStyle}`}
+                >
+                  <option value="">Auto ({getSubdivisionLabel(details.detected)})</option>
+                  {details.subdivisions.map((s) => (
+                    <option key={s} value={s}>
+                      {getSubdivisionLabel(s)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <span className={mutedText}>Time</span>
+                <select
+                  value={timeSignature ? formatTimeSignature(timeSignature) : ''}
+                  onChange={(e) => handleTimeSignatureChange(e.target.value)}
+                  className={`px-2 py-1 rounded border ${inputStyle}`}
+                >
+                  <option value="">Auto ({formatTimeSignature(details.tabTimeSignature)})</option>
+                  {TIME_SIGNATURES.map((ts) => (
+                    <option key={formatTimeSignature(ts)} value={formatTimeSignature(ts)}>
+                      {formatTimeSignature(ts)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="flex items-center justify-between mb-1">
+              <span className={`text-xs ${mutedText}`}>Line mapping</span>
+              {Object.keys(overrides).length > 0 && (
+                <button
+                  type="button"
+                  onClick={resetMapping}
+                  className={`text-xs underline ${mutedText}`}
+                >
+                  Reset to defaults
+                </button>
+              )}
+            </div>
+            <ul className="max-h-40 overflow-y-auto text-xs mb-3">
+              {details.hitCounts.map(({ label, count }) => {
+                const padId = assignment[label] ?? null;
+                return (
+                  <li
+                    key={label}
+                    className={`flex items-center gap-2 py-1 border-t ${rowBorder} ${padId ? '' : 'text-amber-400'}`}
+                  >
+                    <span className="flex-1 font-mono truncate">{label}</span>
+                    <span className={`w-10 text-right ${mutedText}`}>×{count}</span>
+                    <select
+                      value={padId ?? SKIP_VALUE}
+                      onChange={(e) => {
+                        const value = e.target.value;
+                        setLabelPad(label, isValidPadId(value) ? value : null);
+                      }}
+                      className={`w-32 px-1 py-0.5 rounded border ${inputStyle}`}
+                      aria-label={`Pad for line ${label}`}
+                    >
+                      <option value={SKIP_VALUE}>— skip —</option>
+                      {PAD_IDS.map((id) => (
+                        <option key={id} value={id}>
+                          {PADS[id].label}
+                        </option>
+                      ))}
+                    </select>
+                  </li>
+                );
+              })}
+            </ul>
+
+            <TabPreviewGrid pattern={preview.pattern} isDark={isDark} />
+            <p className={`text-xs mt-2 ${mutedText}`}>
+              {noteCount} notes, {preview.pattern.bars} bar{preview.pattern.bars > 1 ? 's' : ''} of{' '}
+              {getSubdivisionLabel(preview.pattern.subdivision)} in {formatTimeSignature(details.timeSignature)}
+            </p>
+            {losses.length > 0 && (
+              <p className="text-xs text-amber-400 mt-1">{losses.join(' · ')}</p>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end gap-2 mt-4">
+          <button
+            type="button"
+            onClick={closeImport}
+            className={`px-3 py-1 rounded text-xs font-medium transition-colors ${cancelStyle}`}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={!tab}
+            className="px-3 py-1 rounded text-xs font-medium bg-sky-600 text-white hover:bg-sky-500 disabled:opacity-50 transition-colors"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+/**
+ * Drum Tab Components
+ *
+ * Plain-text drum tab import
+ */
+
+export { DrumTabImportDialog } from './DrumTabImportDialog';
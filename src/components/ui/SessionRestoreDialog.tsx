@@ -0,0 +1,85 @@
+/**
+ * SessionRestoreDialog - Offer to restore the last autosaved session
+ *
+ * Shown on a start without a ?pattern= URL when the previous session
+ * had notes. Declining starts with an empty pattern.
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useSessionStore } from '../../stores/useSessionStore';
+import { useThemeStore } from '../../stores/useThemeStore';
+import { decodePattern } from '../../utils/patternUrl';
+
+export function SessionRestoreDialog() {
+  const session = useSessionStore((state) => state.restorableSession);
+  const restoreSession = useSessionStore((state) => state.restoreSession);
+  const dismissSession = useSessionStore((state) => state.dismissSession);
+  const theme = useThemeStore((state) => state.theme);
+  const isDark = theme === 'fgdp-50';
+
+  const pattern = useMemo(() => (session ? decodePattern(session.pattern) : null), [session]);
+
+  // Close on ESC key
+  useEffect(() => {
+    if (!session) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        dismissSession();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [session, dismissSession]);
+
+  if (!session || !pattern) return null;
+
+  const panelStyle = isDark
+    ? 'bg-slate-800 border-slate-600 text-slate-200'
+    : 'bg-white border-slate-300 text-slate-700';
+  const mutedText = isDark ? 'text-slate-400' : 'text-slate-500';
+  const cancelStyle = isDark
+    ? 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+    : 'bg-slate-100 text-slate-600 hover:bg-slate-200';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) dismissSession();
+      }}
+    >
+      <div
+        className={`border rounded-lg shadow-xl w-full max-w-sm p-4 ${panelStyle}`}
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="session-restore-title"
+      >
+        <h2 id="session-restore-title" className="text-sm font-semibold mb-1">
+          Restore your last session?
+        </h2>
+        <p className={`text-xs mb-4 ${mutedText}`}>
+          &quot;{pattern.name}&quot; ({pattern.bpm} BPM) was autosaved{' '}
+          {new Date(session.savedAt).toLocaleString()}.
+        </p>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={dismissSession}
+            className={`px-3 py-1 rounded text-xs font-medium transition-colors ${cancelStyle}`}
+          >
+            Start new
+          </button>
+          <button
+            type="button"
+            onClick={restoreSession}
+            autoFocus
+            className="px-3 py-1 rounded text-xs font-medium bg-sky-600 text-white hover:bg-sky-500 transition-colors"
+          >
+            Restore
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
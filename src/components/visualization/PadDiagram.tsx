@@ -0,0 +1,71 @@
+/**
+ * PadDiagram - Static FGDP pad layout with the fingers a pattern uses
+ *
+ * Print-friendly counterpart of PadVisualizer: pads the pattern plays are
+ * shaded and labelled with every finger used on them ("2" = right hand,
+ * "(2)" = left hand); long bars put left-hand fingers on the left third
+ * and right-hand fingers on the right third.
+ */
+
+import { memo } from 'react';
+import { PAD_IDS, PADS, type PadId } from '../../config/padMapping';
+import { formatFingerDesignation, type FingerDesignation } from '../../types/pattern';
+import { PAD_PATHS, PAD_VIEW_BOX, getFingerLabelPosition } from './padGeometry';
+
+/** Widest a pad's label should get (in SVG units); longer labels shrink */
+const LABEL_WIDTH = 150;
+
+interface PadDiagramProps {
+  /** Fingers used on each pad (see getPadFingerings) */
+  fingerings: Partial<Record<PadId, FingerDesignation[]>>;
+}
+
+/**
+ * Finger labels of one pad, grouped by where they are drawn
+ */
+function getLabelGroups(padId: PadId, fingers: FingerDesignation[]): { hand: 'L' | 'R'; text: string }[] {
+  if (!PADS[padId].isLongBar) {
+    return [{ hand: 'R', text: fingers.map(formatFingerDesignation).join(' ') }];
+  }
+  return (['L', 'R'] as const)
+    .map((hand) => ({
+      hand,
+      text: fingers.filter((f) => f.hand === hand).map(formatFingerDesignation).join(' '),
+    }))
+    .filter((group) => group.text);
+}
+
+export const PadDiagram = memo(function PadDiagram({ fingerings }: PadDiagramProps) {
+  return (
+    <svg viewBox={PAD_VIEW_BOX} className="w-full h-auto" role="img" aria-label="FGDP pads with fingers">
+      {PAD_PATHS.map((d, index) => (
+        <path key={index} d={d} fill={fingerings[PAD_IDS[index]] ? '#52525b' : '#e4e4e7'} />
+      ))}
+      {PAD_IDS.map((padId, index) => {
+        const fingers = fingerings[padId];
+        if (!fingers) return null;
+        return getLabelGroups(padId, fingers).map(({ hand, text }) => {
+          const pos = getFingerLabelPosition(index + 1, hand);
+          return (
+            <text
+              key={`${padId}-${hand}`}
+              x={pos.x}
+              y={pos.y}
+              textAnchor="middle"
+              dominantBaseline="central"
+              fill="#ffffff"
+              stroke="#000000"
+              strokeWidth={4}
+              paintOrder="stroke"
+              fontSize={Math.min(36, LABEL_WIDTH / text.length)}
+              fontWeight="bold"
+              fontFamily="monospace"
+            >
+              {text}
+            </text>
+          );
+        });
+      })}
+    </svg>
+  );
+});
@@ -5,7 +5,7 @@ import { PadVisualizer } from './PadVisualizer';
 // Mock the stores to avoid Tone.js issues in tests
 vi.mock('../../stores/usePlaybackStore', () => ({
   usePlaybackStore: vi.fn((selector) => {
-    const state = { isPlaying: false, currentStep: 0 };
+    const state = { isPlaying: false, currentStep: 0, currentPass: 0 };
     return selector ? selector(state) : state;
   }),
 }));
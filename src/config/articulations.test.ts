@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { getArticulationHits, ARTICULATIONS } from './articulations';
+
+describe('getArticulationHits', () => {
+  it('returns a single hit for normal steps', () => {
+    expect(getArticulationHits(100)).toEqual([{ offset: 0, velocity: 100 }]);
+  });
+
+  it('scales velocity for accents and ghost notes', () => {
+    expect(getArticulationHits(80, 'accent')[0].velocity).toBeGreaterThan(80);
+    expect(getArticulationHits(80, 'ghost')[0].velocity).toBeLessThan(80);
+  });
+
+  it('clamps accented velocity to 127', () => {
+    expect(getArticulationHits(127, 'accent')[0].velocity).toBe(127);
+  });
+
+  it('adds one softer grace note before a flam', () => {
+    const hits = getArticulationHits(100, 'flam');
+
+    expect(hits).toHaveLength(2);
+    expect(hits[0].offset).toBeLessThan(0);
+    expect(hits[0].velocity).toBeLessThan(hits[1].velocity);
+    expect(hits[1]).toEqual({ offset: 0, velocity: 100 });
+  });
+
+  it('adds two grace notes in time order before a drag', () => {
+    const hits = getArticulationHits(100, 'drag');
+
+    expect(hits).toHaveLength(3);
+    expect(hits[0].offset).toBeLessThan(hits[1].offset);
+    expect(hits[1].offset).toBeLessThan(0);
+  });
+
+  it('defines a unique glyph for every non-normal articulation', () => {
+    const glyphs = ARTICULATIONS.filter((a) => a.id !== 'normal').map((a) => a.glyph);
+
+    expect(new Set(glyphs).size).toBe(glyphs.length);
+    expect(glyphs.every((g) => g.length > 0)).toBe(true);
+  });
+});
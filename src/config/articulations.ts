@@ -0,0 +1,88 @@
+/**
+ * Articulation Configuration
+ *
+ * Display glyphs and playback rules for each articulation:
+ * - accent/ghost scale the step's velocity
+ * - flam/drag add grace notes scheduled just before the main note
+ */
+
+import type { Articulation } from '../types/pattern';
+import { MIN_VELOCITY, MAX_VELOCITY } from '../types/pattern';
+
+export interface ArticulationInfo {
+  /** Articulation identifier */
+  id: Articulation;
+  /** Display name */
+  label: string;
+  /** Short glyph shown on the step cell (empty for normal) */
+  glyph: string;
+  /** Multiplier applied to the step velocity */
+  velocityScale: number;
+  /** Grace note offsets before the main note, in seconds (earliest first) */
+  graceOffsets: number[];
+  /** Grace note velocity relative to the main note */
+  graceVelocityScale: number;
+}
+
+/**
+ * Articulation definitions in display order
+ */
+export const ARTICULATIONS: ArticulationInfo[] = [
+  { id: 'normal', label: 'Normal', glyph: '', velocityScale: 1, graceOffsets: [], graceVelocityScale: 0 },
+  { id: 'accent', label: 'Accent', glyph: '>', velocityScale: 1.3, graceOffsets: [], graceVelocityScale: 0 },
+  { id: 'ghost', label: 'Ghost', glyph: '◦', velocityScale: 0.35, graceOffsets: [], graceVelocityScale: 0 },
+  { id: 'flam', label: 'Flam', glyph: 'fl', velocityScale: 1, graceOffsets: [0.03], graceVelocityScale: 0.5 },
+  { id: 'drag', label: 'Drag', glyph: 'dr', velocityScale: 1, graceOffsets: [0.06, 0.03], graceVelocityScale: 0.45 },
+];
+
+/**
+ * Articulation lookup by ID
+ */
+export const ARTICULATION_INFO: Record<Articulation, ArticulationInfo> = Object.fromEntries(
+  ARTICULATIONS.map((info) => [info.id, info])
+) as Record<Articulation, ArticulationInfo>;
+
+/**
+ * A single hit produced by an articulated step
+ */
+export interface ArticulationHit {
+  /** Offset from the step time in seconds (negative = before) */
+  offset: number;
+  /** MIDI velocity (1-127) */
+  velocity: number;
+}
+
+/**
+ * Clamp a velocity to the MIDI range
+ */
+function clampVelocity(value: number): number {
+  return Math.max(MIN_VELOCITY, Math.min(MAX_VELOCITY, Math.round(value)));
+}
+
+/**
+ * Expand a step into the hits it produces, in time order
+ *
+ * @param velocity - Step velocity (1-127)
+ * @param articulation - Step articulation (normal when undefined)
+ * @returns Grace notes (if any) followed by the main note at offset 0
+ */
+export function getArticulationHits(
+  velocity: number,
+  articulation: Articulation = 'normal'
+): ArticulationHit[] {
+  const info = ARTICULATION_INFO[articulation] ?? ARTICULATION_INFO.normal;
+  const mainVelocity = clampVelocity(velocity * info.velocityScale);
+
+  return [
+    ...info.graceOffsets.map((offset) => ({
+      offset: -offset,
+      velocity: clampVelocity(mainVelocity * info.graceVelocityScale),
+    })),
+    { offset: 0, velocity: mainVelocity },
+  ];
+}
+
+/**
+ * Longest grace note lead time across all articulations (seconds)
+ */
+export const MAX_GRACE_OFFSET = Math.max(...ARTICULATIONS.flatMap((info) => info.graceOffsets), 0);
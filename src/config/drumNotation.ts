@@ -0,0 +1,68 @@
+/**
+ * Drum Notation Configuration
+ *
+ * Where each pad is written on a five-line percussion staff
+ * (common drum-set key):
+ * - Kick: bottom space (F4), stems down in its own voice
+ * - Snare and rims: third space (C5)
+ * - Toms: A4 (low/floor), D5 (mid), E5 (high)
+ * - Cymbals with x noteheads above the staff lines: ride F5,
+ *   hi-hat G5, crashes A5/B5, splash C6
+ */
+
+import type { PadId } from './padMapping';
+import type { NotationVoiceNumber, NoteType } from '../types/notation';
+
+/**
+ * Notehead shape (MusicXML notehead values)
+ */
+export type NoteheadShape = 'normal' | 'x' | 'circle-x' | 'diamond';
+
+export interface DrumStaffPosition {
+  /** Staff position as a treble-clef pitch letter */
+  displayStep: 'C' | 'D' | 'E' | 'F' | 'G' | 'A' | 'B';
+  displayOctave: number;
+  notehead: NoteheadShape;
+  voice: NotationVoiceNumber;
+}
+
+/**
+ * Staff position of each pad
+ */
+export const DRUM_STAFF_POSITIONS: Record<PadId, DrumStaffPosition> = {
+  kick: { displayStep: 'F', displayOctave: 4, notehead: 'normal', voice: 2 },
+  snare: { displayStep: 'C', displayOctave: 5, notehead: 'normal', voice: 1 },
+  snare_rim_open: { displayStep: 'C', displayOctave: 5, notehead: 'circle-x', voice: 1 },
+  snare_rim_closed: { displayStep: 'C', displayOctave: 5, notehead: 'x', voice: 1 },
+  hihat_close_l: { displayStep: 'G', displayOctave: 5, notehead: 'x', voice: 1 },
+  hihat_close_r: { displayStep: 'G', displayOctave: 5, notehead: 'x', voice: 1 },
+  hihat_open: { displayStep: 'G', displayOctave: 5, notehead: 'circle-x', voice: 1 },
+  crash_l: { displayStep: 'B', displayOctave: 5, notehead: 'x', voice: 1 },
+  crash_r: { displayStep: 'A', displayOctave: 5, notehead: 'x', voice: 1 },
+  ride_cup: { displayStep: 'F', displayOctave: 5, notehead: 'diamond', voice: 1 },
+  ride_bow: { displayStep: 'F', displayOctave: 5, notehead: 'x', voice: 1 },
+  splash: { displayStep: 'C', displayOctave: 6, notehead: 'x', voice: 1 },
+  tom_low_l: { displayStep: 'A', displayOctave: 4, notehead: 'normal', voice: 1 },
+  tom_low_r: { displayStep: 'A', displayOctave: 4, notehead: 'normal', voice: 1 },
+  tom_mid_l: { displayStep: 'D', displayOctave: 5, notehead: 'normal', voice: 1 },
+  tom_mid_r: { displayStep: 'D', displayOctave: 5, notehead: 'normal', voice: 1 },
+  tom_high_l: { displayStep: 'E', displayOctave: 5, notehead: 'normal', voice: 1 },
+  tom_high_r: { displayStep: 'E', displayOctave: 5, notehead: 'normal', voice: 1 },
+};
+
+/**
+ * Staff line/space index of a position (diatonic steps above C0)
+ */
+export function getStaffIndex(position: DrumStaffPosition): number {
+  return 'CDEFGAB'.indexOf(position.displayStep) + position.displayOctave * 7;
+}
+
+/**
+ * Note values from shortest to longest; each is twice the previous
+ */
+export const NOTE_TYPES: NoteType[] = ['32nd', '16th', 'eighth', 'quarter', 'half', 'whole'];
+
+/**
+ * Note values of this length or shorter are beamed
+ */
+export const LONGEST_BEAMED_TYPE: NoteType = 'eighth';
@@ -6,12 +6,15 @@
  *
  * GM (General MIDI) Standard Drum Note Mapping:
  * - Kick: 35/36 (Acoustic/Bass Drum)
- * - Snare: 38 (Acoustic Snare)
+ * - Snare: 38 (Acoustic Snare), 37 (Side Stick), 39 (rim shot stand-in)
  * - Hi-hat Closed: 42
  * - Hi-hat Open: 46
- * - Ride Cymbal: 51 (Ride Bow), 59 (Ride Cup/Bell)
+ * - Ride Cymbal: 51 (Ride Bow), 53 (Ride Bell), 59 (Ride 2)
  * - Crash Cymbal: 49, 57
- * - Toms: 41, 43, 45 (Low), 47, 48 (Mid), 50 (High)
+ * - Splash: 55
+ * - Toms: 41, 43 (Low), 45, 47 (Mid), 48, 50 (High)
+ *
+ * GM_DRUM_NOTES picks one of these per pad for MIDI export.
  */
 
 import type { PadId } from './padMapping';
@@ -82,6 +85,31 @@ export const SAMPLE_RATES: Partial<Record<PadId, number>> = {
   tom_high_r: 1.05,
 };
 
+/**
+ * GM drum note written for each pad in MIDI export
+ * L/R variants share a note; hands can be split onto separate tracks instead
+ */
+export const GM_DRUM_NOTES: Record<PadId, number> = {
+  kick: 36,
+  snare: 38,
+  snare_rim_open: 39,
+  snare_rim_closed: 37,
+  hihat_close_l: 42,
+  hihat_close_r: 42,
+  hihat_open: 46,
+  crash_l: 57,
+  crash_r: 49,
+  ride_cup: 53,
+  ride_bow: 51,
+  splash: 55,
+  tom_low_l: 41,
+  tom_low_r: 41,
+  tom_mid_l: 47,
+  tom_mid_r: 47,
+  tom_high_l: 50,
+  tom_high_r: 50,
+};
+
 /**
  * Get all unique sample URLs (for preloading)
  */
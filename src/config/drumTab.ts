@@ -0,0 +1,116 @@
+/**
+ * Drum Tab Configuration
+ *
+ * How plain-text drum tabs map onto pads:
+ * - Line labels (case-insensitive) to pads, covering the common tab
+ *   abbreviations; edits to the mapping are stored as changes to this table
+ * - Cell symbols: "-" rest, "x"/"o" hit, "X"/"O" accent,
+ *   "g" ghost, "f" flam, "d" drag
+ */
+
+import type { Articulation } from '../types/pattern';
+import type { PadId } from './padMapping';
+
+/** Tab line label (upper case) to pad assignment (null = not imported) */
+export type TabLabelAssignment = Partial<Record<string, PadId | null>>;
+
+/**
+ * Default line label to pad assignment. Two-handed pads default to the
+ * right-hand side; the labels written by the tab export map back onto
+ * their own pads.
+ */
+export const DEFAULT_TAB_ASSIGNMENT: Record<string, PadId> = {
+  // Cymbals
+  C: 'crash_r',
+  CC: 'crash_r',
+  CR: 'crash_r',
+  C2: 'crash_r',
+  C1: 'crash_l',
+  CL: 'crash_l',
+  SP: 'splash',
+  SPL: 'splash',
+  H: 'hihat_close_r',
+  HH: 'hihat_close_r',
+  HHR: 'hihat_close_r',
+  HHL: 'hihat_close_l',
+  HF: 'hihat_close_l',
+  HP: 'hihat_close_l',
+  O: 'hihat_open',
+  OH: 'hihat_open',
+  HO: 'hihat_open',
+  HHO: 'hihat_open',
+  R: 'ride_bow',
+  RD: 'ride_bow',
+  RB: 'ride_bow',
+  RC: 'ride_cup',
+  // Snare
+  S: 'snare',
+  SD: 'snare',
+  SN: 'snare',
+  RS: 'snare_rim_open',
+  XS: 'snare_rim_closed',
+  CS: 'snare_rim_closed',
+  // Toms
+  T: 'tom_high_r',
+  T1: 'tom_high_r',
+  HT: 'tom_high_r',
+  HTR: 'tom_high_r',
+  HTL: 'tom_high_l',
+  T2: 'tom_mid_r',
+  MT: 'tom_mid_r',
+  MTR: 'tom_mid_r',
+  MTL: 'tom_mid_l',
+  F: 'tom_low_r',
+  FT: 'tom_low_r',
+  T3: 'tom_low_r',
+  LT: 'tom_low_r',
+  LTR: 'tom_low_r',
+  LTL: 'tom_low_l',
+  // Kick
+  B: 'kick',
+  BD: 'kick',
+  K: 'kick',
+  KD: 'kick',
+};
+
+/**
+ * Line label written for each pad by the tab export
+ */
+export const TAB_EXPORT_LABELS: Record<PadId, string> = {
+  crash_l: 'CL',
+  hihat_close_l: 'HHL',
+  hihat_open: 'OH',
+  hihat_close_r: 'HH',
+  crash_r: 'CC',
+  ride_cup: 'RC',
+  ride_bow: 'RD',
+  snare: 'SD',
+  tom_low_l: 'LTL',
+  tom_mid_l: 'MTL',
+  tom_high_l: 'HTL',
+  snare_rim_open: 'RS',
+  tom_high_r: 'HT',
+  tom_mid_r: 'MT',
+  tom_low_r: 'FT',
+  snare_rim_closed: 'XS',
+  kick: 'BD',
+  splash: 'SP',
+};
+
+/** Cell symbols for a step without a hit */
+export const TAB_REST_SYMBOLS = '-.';
+
+/**
+ * Cell symbols for hits and the articulation each one imports as
+ */
+export const TAB_HIT_SYMBOLS: Record<string, Articulation> = {
+  x: 'normal',
+  o: 'normal',
+  '*': 'normal',
+  '#': 'normal',
+  X: 'accent',
+  O: 'accent',
+  g: 'ghost',
+  f: 'flam',
+  d: 'drag',
+};
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { GROOVE_PRESETS, parsePresetSteps } from './groovePresets';
+import { FINGER_DEFAULTS, isValidPadId, type PadId } from './padMapping';
+import { getTotalSteps } from '../types/pattern';
+
+describe('GROOVE_PRESETS', () => {
+  it('has unique IDs', () => {
+    const ids = GROOVE_PRESETS.map((preset) => preset.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it.each(GROOVE_PRESETS.map((preset) => [preset.id, preset] as const))(
+    '%s fills exactly the pattern length on known pads',
+    (_, preset) => {
+      const totalSteps = getTotalSteps(preset.bars, preset.subdivision);
+
+      Object.entries(preset.tracks).forEach(([padId, track]) => {
+        expect(isValidPadId(padId)).toBe(true);
+        expect(parsePresetSteps(track!, FINGER_DEFAULTS[padId as PadId])).toHaveLength(totalSteps);
+      });
+    }
+  );
+
+  it('keeps linear fills to one note per step', () => {
+    GROOVE_PRESETS.filter((preset) => preset.genre === 'fills').forEach((preset) => {
+      const counts = new Map<number, number>();
+      Object.entries(preset.tracks).forEach(([padId, track]) => {
+        parsePresetSteps(track!, FINGER_DEFAULTS[padId as PadId]).forEach((step, index) => {
+          if (step.active) counts.set(index, (counts.get(index) ?? 0) + 1);
+        });
+      });
+
+      expect(Math.max(...counts.values())).toBe(1);
+    });
+  });
+});
+
+describe('parsePresetSteps', () => {
+  const rightIndex = { hand: 'R', finger: 2 } as const;
+
+  it('ignores beat separators', () => {
+    const steps = parsePresetSteps({ steps: 'x.|.x' }, rightIndex);
+
+    expect(steps.map((step) => step.active)).toEqual([true, false, false, true]);
+  });
+
+  it('maps accent, ghost and flam characters', () => {
+    const steps = parsePresetSteps({ steps: '>of' }, rightIndex);
+
+    expect(steps.map((step) => step.articulation)).toEqual(['accent', 'ghost', 'flam']);
+  });
+
+  it('uses the pad default finger and the sticking hand', () => {
+    const steps = parsePresetSteps({ steps: 'xrl' }, rightIndex);
+
+    expect(steps[0]).toMatchObject({ finger: rightIndex, velocity: 100 });
+    expect(steps[1].finger).toEqual(rightIndex);
+    expect(steps[2].finger).toEqual({ hand: 'L', finger: 2 });
+  });
+
+  it('applies the track finger to every note', () => {
+    const steps = parsePresetSteps({ steps: 'x', finger: { hand: 'L', finger: 3 } }, rightIndex);
+
+    expect(steps[0].finger).toEqual({ hand: 'L', finger: 3 });
+  });
+});
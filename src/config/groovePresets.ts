@@ -0,0 +1,267 @@
+/**
+ * Groove Presets - Built-in starter grooves for new patterns
+ *
+ * Each preset lists its notes per pad as a step string, one character per step
+ * ('|' and spaces are ignored and only group beats for readability):
+ * - '.' rest
+ * - 'x' hit, '>' accent, 'o' ghost note, 'f' flam
+ * - 'r' / 'l' hit with the right / left hand (same finger number), for sticking
+ *
+ * Fingerings follow the usual FGDP split: right hand on the hi-hat/ride,
+ * left hand on the snare, right thumb on the kick bar.
+ */
+
+import type { FingerDesignation, PatternStep, Subdivision, SwingUnit } from '../types/pattern';
+import { DEFAULT_VELOCITY } from '../types/pattern';
+import type { PadId } from './padMapping';
+
+export type GrooveGenre = 'rock' | 'pop' | 'funk' | 'shuffle' | 'latin' | 'fills';
+
+export type GrooveDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+/**
+ * Notes for one pad of a preset
+ */
+export interface PresetTrack {
+  /** Step string (see notation above) */
+  steps: string;
+  /** Finger for every note; the pad's default finger when undefined */
+  finger?: FingerDesignation;
+}
+
+export interface GroovePreset {
+  /** Unique preset identifier */
+  id: string;
+  /** Display name, also used as the pattern name */
+  name: string;
+  genre: GrooveGenre;
+  difficulty: GrooveDifficulty;
+  bpm: number;
+  subdivision: Subdivision;
+  bars: 1 | 2 | 3 | 4;
+  /** Swing percentage (50-75), straight when undefined */
+  swing?: number;
+  swingUnit?: SwingUnit;
+  /** Notes per pad; pads not listed stay empty */
+  tracks: Partial<Record<PadId, PresetTrack>>;
+}
+
+/** Genre display names in menu order */
+export const GENRE_LABELS: Record<GrooveGenre, string> = {
+  rock: 'Rock',
+  pop: 'Pop',
+  funk: 'Funk',
+  shuffle: 'Shuffle',
+  latin: 'Latin',
+  fills: 'Fills',
+};
+
+/** Difficulty display names in menu order */
+export const DIFFICULTY_LABELS: Record<GrooveDifficulty, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+};
+
+/** Left index finger, for the snare under a right-hand hi-hat */
+const LEFT_INDEX: FingerDesignation = { hand: 'L', finger: 2 };
+
+/**
+ * Built-in presets (all 4/4)
+ */
+export const GROOVE_PRESETS: GroovePreset[] = [
+  {
+    id: 'rock-8beat',
+    name: 'Rock 8-Beat',
+    genre: 'rock',
+    difficulty: 'beginner',
+    bpm: 100,
+    subdivision: '16n',
+    bars: 1,
+    tracks: {
+      hihat_close_r: { steps: 'x.x.|x.x.|x.x.|x.x.' },
+      snare: { steps: '....|x...|....|x...', finger: LEFT_INDEX },
+      kick: { steps: 'x...|....|x.x.|....' },
+    },
+  },
+  {
+    id: 'rock-8beat-crash',
+    name: 'Rock 8-Beat with Crash',
+    genre: 'rock',
+    difficulty: 'intermediate',
+    bpm: 110,
+    subdivision: '16n',
+    bars: 2,
+    tracks: {
+      crash_r: { steps: 'x...|....|....|....|....|....|....|....' },
+      hihat_close_r: { steps: '..x.|x.x.|x.x.|x.x.|x.x.|x.x.|x.x.|....' },
+      crash_l: { steps: '....|....|....|....|....|....|....|..x.' },
+      snare: { steps: '....|>...|....|>...|....|>...|....|>...', finger: LEFT_INDEX },
+      kick: { steps: 'x...|...x|x.x.|....|x...|...x|x.x.|..x.' },
+    },
+  },
+  {
+    id: 'pop-four-on-the-floor',
+    name: 'Four on the Floor',
+    genre: 'pop',
+    difficulty: 'beginner',
+    bpm: 120,
+    subdivision: '16n',
+    bars: 1,
+    tracks: {
+      hihat_open: { steps: '..x.|..x.|..x.|..x.' },
+      snare: { steps: '....|x...|....|x...', finger: LEFT_INDEX },
+      kick: { steps: 'x...|x...|x...|x...' },
+    },
+  },
+  {
+    id: 'pop-half-time',
+    name: 'Half-Time Groove',
+    genre: 'pop',
+    difficulty: 'intermediate',
+    bpm: 80,
+    subdivision: '16n',
+    bars: 1,
+    tracks: {
+      hihat_close_r: { steps: 'x.x.|x.x.|x.x.|x.x.' },
+      snare: { steps: '....|....|>...|....', finger: LEFT_INDEX },
+      kick: { steps: 'x...|..x.|.x..|..x.' },
+    },
+  },
+  {
+    id: 'funk-16ths',
+    name: 'Funk 16ths with Ghost Notes',
+    genre: 'funk',
+    difficulty: 'intermediate',
+    bpm: 96,
+    subdivision: '16n',
+    bars: 1,
+    tracks: {
+      hihat_close_r: { steps: 'x.x.|x.x.|x.x.|x.x.' },
+      snare: { steps: '....|>..o|.o..|>..o', finger: LEFT_INDEX },
+      kick: { steps: 'x..x|....|..x.|.x..' },
+    },
+  },
+  {
+    id: 'funk-two-hand-hats',
+    name: 'Funk Two-Hand Hi-Hats',
+    genre: 'funk',
+    difficulty: 'advanced',
+    bpm: 92,
+    subdivision: '16n',
+    bars: 1,
+    tracks: {
+      hihat_close_r: { steps: '>.x.|..x.|>.x.|..x.' },
+      hihat_close_l: { steps: '.o.o|.o.o|.o.o|.o.o' },
+      snare: { steps: '....|x...|....|x...' },
+      kick: { steps: 'x...|...x|..x.|....' },
+    },
+  },
+  {
+    id: 'shuffle-triplet',
+    name: 'Triplet Shuffle',
+    genre: 'shuffle',
+    difficulty: 'intermediate',
+    bpm: 110,
+    subdivision: '8t',
+    bars: 1,
+    tracks: {
+      hihat_close_r: { steps: 'x.x|x.x|x.x|x.x' },
+      snare: { steps: '...|x..|...|x..', finger: LEFT_INDEX },
+      kick: { steps: 'x..|...|x.x|...' },
+    },
+  },
+  {
+    id: 'shuffle-swung-16ths',
+    name: 'Half-Time Shuffle',
+    genre: 'shuffle',
+    difficulty: 'advanced',
+    bpm: 76,
+    subdivision: '16n',
+    bars: 1,
+    swing: 66,
+    swingUnit: '16n',
+    tracks: {
+      hihat_close_r: { steps: 'x.x.|x.x.|x.x.|x.x.' },
+      snare: { steps: '...o|.o.o|>..o|.o.o', finger: LEFT_INDEX },
+      kick: { steps: 'x...|...x|..x.|....' },
+    },
+  },
+  {
+    id: 'latin-bossa-nova',
+    name: 'Bossa Nova',
+    genre: 'latin',
+    difficulty: 'intermediate',
+    bpm: 140,
+    subdivision: '8n',
+    bars: 2,
+    tracks: {
+      hihat_close_r: { steps: 'xx|xx|xx|xx|xx|xx|xx|xx' },
+      snare_rim_closed: { steps: 'x.|.x|..|x.|..|x.|.x|..' },
+      kick: { steps: 'x.|.x|x.|.x|x.|.x|x.|.x' },
+    },
+  },
+  {
+    id: 'fill-linear-16ths',
+    name: 'Linear Fill Around the Toms',
+    genre: 'fills',
+    difficulty: 'intermediate',
+    bpm: 90,
+    subdivision: '16n',
+    bars: 1,
+    tracks: {
+      snare: { steps: 'rlr.|....|....|....' },
+      tom_high_r: { steps: '....|x.x.|....|....' },
+      tom_high_l: { steps: '....|.x..|....|....' },
+      tom_mid_r: { steps: '....|....|x.x.|....' },
+      tom_mid_l: { steps: '....|....|.x..|....' },
+      tom_low_r: { steps: '....|....|....|x.x.' },
+      tom_low_l: { steps: '....|....|....|.x..' },
+      kick: { steps: '...x|...x|...x|...x' },
+    },
+  },
+  {
+    id: 'fill-linear-sixes',
+    name: 'Linear Fill in Threes (RLK)',
+    genre: 'fills',
+    difficulty: 'advanced',
+    bpm: 90,
+    subdivision: '16n',
+    bars: 1,
+    tracks: {
+      snare: { steps: 'rl..|....|....|rl..' },
+      tom_high_r: { steps: '...x|....|....|....' },
+      tom_high_l: { steps: '....|x...|....|....' },
+      tom_mid_r: { steps: '....|..x.|....|....' },
+      tom_mid_l: { steps: '....|...x|....|....' },
+      tom_low_r: { steps: '....|....|.x..|....' },
+      tom_low_l: { steps: '....|....|..x.|....' },
+      kick: { steps: '..x.|.x..|x..x|..xx' },
+    },
+  },
+];
+
+/**
+ * Convert a preset step string into pattern steps
+ *
+ * @param track - Preset notes for one pad
+ * @param defaultFinger - The pad's default finger, used when the preset sets none
+ */
+export function parsePresetSteps(track: PresetTrack, defaultFinger: FingerDesignation): PatternStep[] {
+  const finger = track.finger ?? defaultFinger;
+  const notation = track.steps.replace(/[|\s]/g, '');
+
+  return [...notation].map((char): PatternStep => {
+    if (char === '.') return { active: false };
+
+    const hand = char === 'r' ? 'R' : char === 'l' ? 'L' : finger.hand;
+    const articulation = char === '>' ? 'accent' : char === 'o' ? 'ghost' : char === 'f' ? 'flam' : undefined;
+
+    return {
+      active: true,
+      finger: { hand, finger: finger.finger },
+      velocity: DEFAULT_VELOCITY,
+      articulation,
+    };
+  });
+}
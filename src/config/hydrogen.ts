@@ -0,0 +1,87 @@
+/**
+ * Hydrogen Import Configuration
+ *
+ * How Hydrogen drumkit instruments map onto pads:
+ * - Instruments are matched by name, so any kit maps without setup;
+ *   edits to the mapping are stored per instrument name
+ * - .h2pattern files only carry instrument IDs, so the default kit's
+ *   instrument names are filled in for them
+ */
+
+import type { HydrogenInstrument } from '../types/hydrogen';
+import type { PadId } from './padMapping';
+
+/** Instrument name (lower case) to pad assignment (null = not imported) */
+export type HydrogenPadAssignment = Partial<Record<string, PadId | null>>;
+
+/**
+ * Name patterns tried in order; the first match picks the pad.
+ * Two-handed pads default to the right-hand side.
+ */
+const NAME_RULES: [RegExp, PadId | null][] = [
+  // Percussion without a matching pad
+  [/cowbell|tambourine|shaker|conga|bongo|clave|block|cabasa|guiro/i, null],
+  [/kick|bass ?drum|\bbd\b/i, 'kick'],
+  // Hi-hat: open, then pedal, then closed
+  [/open.*(hh|hat)|(hh|hat).*open/i, 'hihat_open'],
+  [/pedal|foot/i, 'hihat_close_l'],
+  [/hh|hat/i, 'hihat_close_r'],
+  // Snare and rim
+  [/rim ?shot/i, 'snare_rim_open'],
+  [/stick|rim/i, 'snare_rim_closed'],
+  [/snare|clap|\bsd\b/i, 'snare'],
+  // Cymbals
+  [/splash|china/i, 'splash'],
+  [/crash/i, 'crash_r'],
+  [/bell|cup/i, 'ride_cup'],
+  [/ride/i, 'ride_bow'],
+  // Toms
+  [/floor|tom.*\blow?\b|\blow?\b.*tom/i, 'tom_low_r'],
+  [/tom.*\bhi(gh)?\b|\bhi(gh)?\b.*tom/i, 'tom_high_r'],
+  [/tom/i, 'tom_mid_r'],
+];
+
+/**
+ * Instruments of GMRockKit, Hydrogen's default drumkit
+ */
+export const DEFAULT_KIT_INSTRUMENTS: HydrogenInstrument[] = [
+  { id: 0, name: 'Kick' },
+  { id: 1, name: 'Stick' },
+  { id: 2, name: 'Snare Jazz' },
+  { id: 3, name: 'Hand Clap' },
+  { id: 4, name: 'Snare Rock' },
+  { id: 5, name: 'Tom Low' },
+  { id: 6, name: 'Closed HH' },
+  { id: 7, name: 'Tom Mid' },
+  { id: 8, name: 'Pedal HH' },
+  { id: 9, name: 'Tom Hi' },
+  { id: 10, name: 'Open HH' },
+  { id: 11, name: 'Cowbell' },
+  { id: 12, name: 'Ride Jazz' },
+  { id: 13, name: 'Crash' },
+  { id: 14, name: 'Ride Rock' },
+  { id: 15, name: 'Crash Jazz' },
+];
+
+/**
+ * Key an instrument name is stored under in HydrogenPadAssignment
+ */
+export function getInstrumentKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Default pad for an instrument name, or null when nothing matches
+ */
+export function getDefaultHydrogenPad(name: string): PadId | null {
+  const rule = NAME_RULES.find(([pattern]) => pattern.test(name));
+  return rule ? rule[1] : null;
+}
+
+/**
+ * Pad for an instrument name with mapping changes applied
+ */
+export function getHydrogenPad(name: string, overrides: HydrogenPadAssignment): PadId | null {
+  const override = overrides[getInstrumentKey(name)];
+  return override !== undefined ? override : getDefaultHydrogenPad(name);
+}
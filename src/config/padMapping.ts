@@ -135,3 +135,131 @@ export function isValidPadId(padId: string): padId is PadId {
 export function getAllPads(): PadInfo[] {
   return PAD_IDS.map((id) => PADS[id]);
 }
+
+/**
+ * General MIDI percussion note names (channel 10, notes 35-81)
+ */
+export const GM_DRUM_NAMES: Record<number, string> = {
+  35: 'Acoustic Bass Drum',
+  36: 'Bass Drum 1',
+  37: 'Side Stick',
+  38: 'Acoustic Snare',
+  39: 'Hand Clap',
+  40: 'Electric Snare',
+  41: 'Low Floor Tom',
+  42: 'Closed Hi-Hat',
+  43: 'High Floor Tom',
+  44: 'Pedal Hi-Hat',
+  45: 'Low Tom',
+  46: 'Open Hi-Hat',
+  47: 'Low-Mid Tom',
+  48: 'Hi-Mid Tom',
+  49: 'Crash Cymbal 1',
+  50: 'High Tom',
+  51: 'Ride Cymbal 1',
+  52: 'Chinese Cymbal',
+  53: 'Ride Bell',
+  54: 'Tambourine',
+  55: 'Splash Cymbal',
+  56: 'Cowbell',
+  57: 'Crash Cymbal 2',
+  58: 'Vibraslap',
+  59: 'Ride Cymbal 2',
+  60: 'Hi Bongo',
+  61: 'Low Bongo',
+  62: 'Mute Hi Conga',
+  63: 'Open Hi Conga',
+  64: 'Low Conga',
+  65: 'High Timbale',
+  66: 'Low Timbale',
+  67: 'High Agogo',
+  68: 'Low Agogo',
+  69: 'Cabasa',
+  70: 'Maracas',
+  71: 'Short Whistle',
+  72: 'Long Whistle',
+  73: 'Short Guiro',
+  74: 'Long Guiro',
+  75: 'Claves',
+  76: 'Hi Wood Block',
+  77: 'Low Wood Block',
+  78: 'Mute Cuica',
+  79: 'Open Cuica',
+  80: 'Mute Triangle',
+  81: 'Open Triangle',
+};
+
+/**
+ * Get the display name of a GM percussion note, e.g. "36 Bass Drum 1"
+ */
+export function getGmDrumLabel(midi: number): string {
+  const name = GM_DRUM_NAMES[midi];
+  return name ? `${midi} ${name}` : `${midi}`;
+}
+
+/**
+ * Pad a GM percussion note is imported onto
+ */
+export interface PadMappingEntry {
+  /** GM percussion note number */
+  gmNote: number;
+  padId: PadId;
+  /** Track index in the pattern (position in PAD_IDS) */
+  padIndex: number;
+  /** Pad display label */
+  label: string;
+}
+
+/** GM note to pad assignment (null = not imported) */
+export type GmPadAssignment = Partial<Record<number, PadId | null>>;
+
+/**
+ * Default GM note to pad assignment for MIDI import.
+ * Two-handed pads default to the right-hand side, except the pedal hi-hat
+ * (left hi-hat) and the second crash (left crash).
+ */
+export const DEFAULT_GM_ASSIGNMENT: Record<number, PadId> = {
+  35: 'kick',
+  36: 'kick',
+  37: 'snare_rim_closed',
+  38: 'snare',
+  39: 'snare_rim_open',
+  40: 'snare',
+  41: 'tom_low_r',
+  42: 'hihat_close_r',
+  43: 'tom_low_r',
+  44: 'hihat_close_l',
+  45: 'tom_mid_r',
+  46: 'hihat_open',
+  47: 'tom_mid_r',
+  48: 'tom_high_r',
+  49: 'crash_r',
+  50: 'tom_high_r',
+  51: 'ride_bow',
+  52: 'crash_l',
+  53: 'ride_cup',
+  55: 'splash',
+  57: 'crash_l',
+  59: 'ride_bow',
+};
+
+/**
+ * Build a GM note lookup from an assignment
+ *
+ * @param assignment - Pads per GM note; null leaves a note unmapped
+ */
+export function createPadMapping(assignment: GmPadAssignment): Record<number, PadMappingEntry> {
+  const mapping: Record<number, PadMappingEntry> = {};
+  for (const [note, padId] of Object.entries(assignment)) {
+    if (!padId) continue;
+    const gmNote = Number(note);
+    mapping[gmNote] = { gmNote, padId, padIndex: PAD_IDS.indexOf(padId), label: PADS[padId].label };
+  }
+  return mapping;
+}
+
+/** Default GM mapping entries */
+export const FGDP_PAD_MAPPING: PadMappingEntry[] = Object.values(createPadMapping(DEFAULT_GM_ASSIGNMENT));
+
+/** Default GM mapping keyed by note number */
+export const FGDP_PAD_MAPPING_BY_GM: Record<number, PadMappingEntry> = createPadMapping(DEFAULT_GM_ASSIGNMENT);
@@ -3,7 +3,9 @@
  *
  * Story 4.3: URL Pattern Loading
  * Story 4.6: Real-time URL Sync
+ * Pattern JSON files
  */
 
 export { useUrlPatternLoader } from './useUrlPatternLoader';
 export { useUrlSync } from './useUrlSync';
+export { usePatternFile } from './usePatternFile';
@@ -0,0 +1,224 @@
+/**
+ * usePatternFile Hook
+ *
+ * Download the current pattern as a .json, .mid, .musicxml or rendered .wav
+ * file and open pattern files (from a file picker or drag-and-drop) into the sequencer.
+ * MIDI files open the MIDI import dialog, Hydrogen files the Hydrogen import dialog.
+ */
+
+import { useCallback } from 'react';
+import { usePatternStore } from '../stores/usePatternStore';
+import { useToastStore } from '../stores/useToastStore';
+import { useMidiImportStore } from '../stores/useMidiImportStore';
+import { useHydrogenImportStore } from '../stores/useHydrogenImportStore';
+import { useAudioStore } from '../stores/useAudioStore';
+import {
+  getPatternFileName,
+  parsePatternJson,
+  serializePatternJson,
+  PATTERN_JSON_MIME,
+} from '../utils/patternJson';
+import { parseMidiFile, MIDI_FILE_EXTENSIONS } from '../utils/midiFile';
+import { parseHydrogenFile, HYDROGEN_FILE_EXTENSIONS } from '../utils/hydrogenFile';
+import { createMidiFile, MIDI_FILE_MIME } from '../utils/midiExport';
+import { encodeWav, WAV_EXTENSION, WAV_MIME } from '../utils/wav';
+import { createMusicXml, MUSICXML_EXTENSION, MUSICXML_MIME } from '../utils/musicXml';
+import type { RenderOptions } from '../utils/audioRender';
+
+/** Validation errors listed in the error toast */
+const MAX_ERRORS_SHOWN = 3;
+
+/** Error toasts stay longer so the field paths can be read */
+const ERROR_TOAST_MS = 8000;
+
+/** Example drum groove shipped with the app */
+const SAMPLE_MIDI_URL = `${import.meta.env.BASE_URL}samples/sample-8beat.mid`;
+
+/**
+ * File name without its extension, used as the pattern name
+ * (cut to the 50 characters the name editor allows)
+ */
+function getBaseName(fileName: string): string {
+  return (fileName.replace(/\.[^.]+$/, '') || fileName).slice(0, 50);
+}
+
+/**
+ * Save data as a file through a temporary download link
+ */
+function downloadFile(data: BlobPart, type: string, fileName: string): void {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+interface PatternFileActions {
+  /** Save the current pattern as a .json download */
+  downloadJson: () => void;
+  /** Save the current pattern as a .mid download (channel 10) */
+  downloadMidi: (splitHands: boolean) => void;
+  /** Render the current pattern and save it as a .wav download */
+  downloadWav: (options: RenderOptions) => Promise<void>;
+  /** Save the current pattern as drum notation (.musicxml download) */
+  downloadMusicXml: () => void;
+  /** Load a .json pattern file into the sequencer (undoable) */
+  openJsonFile: (file: File) => Promise<void>;
+  /** Read a .mid file and open the MIDI import dialog */
+  openMidiFile: (file: File) => Promise<void>;
+  /** Open the bundled sample groove in the MIDI import dialog */
+  openMidiSample: () => Promise<void>;
+  /** Read a .h2song or .h2pattern file and open the Hydrogen import dialog */
+  openHydrogenFile: (file: File) => Promise<void>;
+  /** Open a .json, .mid or Hydrogen file by its extension (drag-and-drop) */
+  openFile: (file: File) => Promise<void>;
+}
+
+export function usePatternFile(): PatternFileActions {
+  const showToast = useToastStore((state) => state.showToast);
+
+  const downloadJson = useCallback(() => {
+    const pattern = usePatternStore.getState().currentPattern;
+    if (!pattern) {
+      showToast('No pattern to download', 'error');
+      return;
+    }
+
+    downloadFile(serializePatternJson(pattern), PATTERN_JSON_MIME, getPatternFileName(pattern));
+  }, [showToast]);
+
+  const downloadMidi = useCallback((splitHands: boolean) => {
+    const pattern = usePatternStore.getState().currentPattern;
+    if (!pattern) {
+      showToast('No pattern to download', 'error');
+      return;
+    }
+
+    downloadFile(
+      createMidiFile(pattern, { splitHands }),
+      MIDI_FILE_MIME,
+      getPatternFileName(pattern, MIDI_FILE_EXTENSIONS[0])
+    );
+  }, [showToast]);
+
+  const downloadWav = useCallback(async (options: RenderOptions) => {
+    const pattern = usePatternStore.getState().currentPattern;
+    if (!pattern) {
+      showToast('No pattern to download', 'error');
+      return;
+    }
+
+    try {
+      const audio = await useAudioStore.getState().renderPattern(pattern, options);
+      downloadFile(encodeWav(audio), WAV_MIME, getPatternFileName(pattern, WAV_EXTENSION));
+    } catch {
+      showToast('Could not render audio', 'error');
+    }
+  }, [showToast]);
+
+  const downloadMusicXml = useCallback(() => {
+    const pattern = usePatternStore.getState().currentPattern;
+    if (!pattern) {
+      showToast('No pattern to download', 'error');
+      return;
+    }
+
+    downloadFile(createMusicXml(pattern), MUSICXML_MIME, getPatternFileName(pattern, MUSICXML_EXTENSION));
+  }, [showToast]);
+
+  const openJsonFile = useCallback(async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      showToast(`Could not read ${file.name}`, 'error');
+      return;
+    }
+
+    const result = parsePatternJson(text);
+    if (!result.ok) {
+      const shown = result.errors.slice(0, MAX_ERRORS_SHOWN).join('; ');
+      const more = result.errors.length - MAX_ERRORS_SHOWN;
+      showToast(
+        `Invalid pattern file: ${shown}${more > 0 ? ` (+${more} more)` : ''}`,
+        'error',
+        ERROR_TOAST_MS
+      );
+      return;
+    }
+
+    usePatternStore.getState().loadNewPattern(result.pattern);
+    showToast(`Opened "${result.pattern.name}"`, 'success');
+  }, [showToast]);
+
+  const startMidiImport = useCallback((name: string, bytes: ArrayBuffer) => {
+    const result = parseMidiFile(new Uint8Array(bytes));
+    if (!result.ok) {
+      showToast(result.error, 'error');
+      return;
+    }
+    useMidiImportStore.getState().startImport(name, result.data);
+  }, [showToast]);
+
+  const openMidiFile = useCallback(async (file: File) => {
+    let bytes: ArrayBuffer;
+    try {
+      bytes = await file.arrayBuffer();
+    } catch {
+      showToast(`Could not read ${file.name}`, 'error');
+      return;
+    }
+    startMidiImport(getBaseName(file.name), bytes);
+  }, [showToast, startMidiImport]);
+
+  const openMidiSample = useCallback(async () => {
+    try {
+      const response = await fetch(SAMPLE_MIDI_URL);
+      if (!response.ok) throw new Error(response.statusText);
+      startMidiImport('Sample 8-Beat', await response.arrayBuffer());
+    } catch {
+      showToast('Could not load the sample MIDI file', 'error');
+    }
+  }, [showToast, startMidiImport]);
+
+  const openHydrogenFile = useCallback(async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      showToast(`Could not read ${file.name}`, 'error');
+      return;
+    }
+
+    const result = parseHydrogenFile(text);
+    if (!result.ok) {
+      showToast(result.error, 'error');
+      return;
+    }
+    useHydrogenImportStore.getState().startImport(getBaseName(file.name), result.song);
+  }, [showToast]);
+
+  const openFile = useCallback(async (file: File) => {
+    const name = file.name.toLowerCase();
+    if (MIDI_FILE_EXTENSIONS.some((ext) => name.endsWith(ext))) {
+      await openMidiFile(file);
+    } else if (HYDROGEN_FILE_EXTENSIONS.some((ext) => name.endsWith(ext))) {
+      await openHydrogenFile(file);
+    } else {
+      await openJsonFile(file);
+    }
+  }, [openMidiFile, openHydrogenFile, openJsonFile]);
+
+  return {
+    downloadJson,
+    downloadMidi,
+    downloadWav,
+    downloadMusicXml,
+    openJsonFile,
+    openMidiFile,
+    openMidiSample,
+    openHydrogenFile,
+    openFile,
+  };
+}
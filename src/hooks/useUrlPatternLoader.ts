@@ -4,11 +4,13 @@
  * Story 4.3: URL Pattern Loading
  * - Loads pattern from URL query parameter on app mount
  * - Returns error state for invalid patterns
+ * - Without a URL pattern, offers the last autosaved session for restore
  */
 
 import { useState, useEffect } from 'react';
 import { decodePattern } from '../utils/patternUrl';
 import { usePatternStore } from '../stores/usePatternStore';
+import { useSessionStore } from '../stores/useSessionStore';
 
 interface UrlPatternLoaderResult {
   /** Error message if loading failed */
@@ -41,7 +43,8 @@ export function useUrlPatternLoader(): UrlPatternLoaderResult {
     const encodedPattern = urlParams.get('pattern');
 
     if (!encodedPattern) {
-      // No pattern param - normal start
+      // No pattern param - normal start, or restore offer for the last session
+      useSessionStore.getState().checkForSession();
       setUrlCheckComplete(true);
       return;
     }
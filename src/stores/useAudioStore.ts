@@ -8,11 +8,22 @@
  * Timing Fix: Uses Web Audio API's precise scheduling
  * - Optional `time` parameter for sample-accurate playback
  * - When time is provided, sounds are scheduled at exact audio clock time
+ *
+ * Velocity: playPad takes a MIDI velocity (1-127) that scales the gain of
+ * both sample and synthesis triggers
+ *
+ * Articulations: accents/ghosts scale the velocity, flams/drags trigger
+ * grace notes just before the main hit
+ *
+ * Offline rendering: renderPattern plays a pattern through fresh copies of
+ * the same voices inside an offline Tone context (see utils/audioRender.ts)
  */
 
 import { create } from 'zustand';
 import * as Tone from 'tone';
 import { PAD_IDS, type PadId } from '../config/padMapping';
+import { DEFAULT_VELOCITY, MAX_VELOCITY, type Articulation, type DrumPattern } from '../types/pattern';
+import { getArticulationHits, MAX_GRACE_OFFSET, type ArticulationHit } from '../config/articulations';
 import {
   DRUM_SAMPLE_URLS,
   SAMPLE_VOLUMES,
@@ -20,9 +31,14 @@ import {
   getUniqueSampleUrls,
   type AudioMode,
 } from '../config/drumSamples';
+import { getRenderSchedule, type RenderOptions } from '../utils/audioRender';
 
-/** Synth/Sample trigger function type - accepts optional time for precise scheduling */
-type SynthTrigger = (time?: number) => void;
+/**
+ * Synth/Sample trigger function type
+ * - time: optional audio time for precise scheduling
+ * - velocity: normalized gain (0-1)
+ */
+type SynthTrigger = (time: number | undefined, velocity: number) => void;
 
 interface AudioStore {
   /** Whether Tone.js AudioContext has been started */
@@ -40,25 +56,56 @@ interface AudioStore {
 
   /** Initialize audio context and load samples/create synths */
   initAudio: () => Promise<void>;
-  /** Play a drum sound for a specific pad */
-  playPad: (padId: PadId, time?: number) => void;
+  /** Play a drum sound for a specific pad (velocity: MIDI 1-127) */
+  playPad: (padId: PadId, time?: number, velocity?: number, articulation?: Articulation) => void;
+  /** Render loops of a pattern to an audio buffer (initializes audio if needed) */
+  renderPattern: (pattern: DrumPattern, options: RenderOptions) => Promise<AudioBuffer>;
   /** Switch audio mode */
   setAudioMode: (mode: AudioMode) => Promise<void>;
   /** Dispose all audio resources and reset state */
   dispose: () => void;
 }
 
+/**
+ * Create a sample trigger for each pad from loaded buffers (keyed by URL)
+ * Players are created in the current Tone context
+ */
+function createSampleTriggers(buffersByUrl: Map<string, Tone.ToneAudioBuffer>): Record<PadId, SynthTrigger> {
+  const triggers: Partial<Record<PadId, SynthTrigger>> = {};
+
+  for (const padId of PAD_IDS) {
+    const buffer = buffersByUrl.get(DRUM_SAMPLE_URLS[padId]);
+
+    if (buffer) {
+      const volume = SAMPLE_VOLUMES[padId] ?? 0;
+      const rate = SAMPLE_RATES[padId] ?? 1;
+
+      triggers[padId] = (time, velocity) => {
+        // New player per hit for polyphonic playback
+        const clone = new Tone.Player(buffer).toDestination();
+        clone.volume.value = volume + Tone.gainToDb(velocity);
+        clone.playbackRate = rate;
+        clone.start(time);
+        // Auto-dispose after playback
+        clone.onstop = () => clone.dispose();
+      };
+    }
+  }
+
+  return triggers as Record<PadId, SynthTrigger>;
+}
+
 /**
  * Load drum samples using Tone.Player
- * Returns triggers and disposables, or throws on error
+ * Returns triggers, disposables and the loaded buffers, or throws on error
  */
 async function loadDrumSamplers(
   onProgress: (progress: number) => void
 ): Promise<{
   triggers: Record<PadId, SynthTrigger>;
   disposables: Tone.ToneAudioNode[];
+  buffers: Map<string, Tone.ToneAudioBuffer>;
 }> {
-  const triggers: Partial<Record<PadId, SynthTrigger>> = {};
   const disposables: Tone.ToneAudioNode[] = [];
   const uniqueUrls = getUniqueSampleUrls();
 
@@ -87,28 +134,8 @@ async function loadDrumSamplers(
     })
   );
 
-  // Create trigger functions for each pad
-  for (const padId of PAD_IDS) {
-    const url = DRUM_SAMPLE_URLS[padId];
-    const player = playersByUrl.get(url);
-
-    if (player) {
-      const volume = SAMPLE_VOLUMES[padId] ?? 0;
-      const rate = SAMPLE_RATES[padId] ?? 1;
-
-      triggers[padId] = (time?: number) => {
-        // Clone the player buffer for polyphonic playback
-        const clone = new Tone.Player(player.buffer).toDestination();
-        clone.volume.value = volume;
-        clone.playbackRate = rate;
-        clone.start(time);
-        // Auto-dispose after playback
-        clone.onstop = () => clone.dispose();
-      };
-    }
-  }
-
-  return { triggers: triggers as Record<PadId, SynthTrigger>, disposables };
+  const buffers = new Map([...playersByUrl].map(([url, player]) => [url, player.buffer]));
+  return { triggers: createSampleTriggers(buffers), disposables, buffers };
 }
 
 /**
@@ -130,7 +157,7 @@ function createDrumSynths(): {
     envelope: { attack: 0.001, decay: 0.4, sustain: 0.01, release: 0.4 },
   }).toDestination();
   disposables.push(kickSynth);
-  triggers.kick = (time) => kickSynth.triggerAttackRelease('C1', '8n', time);
+  triggers.kick = (time, velocity) => kickSynth.triggerAttackRelease('C1', '8n', time, velocity);
 
   // === SNARE ===
   const snareNoise = new Tone.NoiseSynth({
@@ -145,9 +172,9 @@ function createDrumSynths(): {
   }).toDestination();
   snareMembrane.volume.value = -3;
   disposables.push(snareNoise, snareMembrane);
-  triggers.snare = (time) => {
-    snareNoise.triggerAttackRelease('8n', time);
-    snareMembrane.triggerAttackRelease('E2', '8n', time);
+  triggers.snare = (time, velocity) => {
+    snareNoise.triggerAttackRelease('8n', time, velocity);
+    snareMembrane.triggerAttackRelease('E2', '8n', time, velocity);
   };
 
   // === SNARE RIM (open) ===
@@ -161,7 +188,8 @@ function createDrumSynths(): {
   rimOpenSynth.frequency.value = 300;
   rimOpenSynth.volume.value = -12;
   disposables.push(rimOpenSynth);
-  triggers.snare_rim_open = (time) => rimOpenSynth.triggerAttackRelease('16n', time ?? Tone.now());
+  triggers.snare_rim_open = (time, velocity) =>
+    rimOpenSynth.triggerAttackRelease(rimOpenSynth.frequency.value, '16n', time, velocity);
 
   // === SNARE RIM (closed/cross-stick) ===
   const rimClosedSynth = new Tone.MetalSynth({
@@ -174,7 +202,8 @@ function createDrumSynths(): {
   rimClosedSynth.frequency.value = 400;
   rimClosedSynth.volume.value = -15;
   disposables.push(rimClosedSynth);
-  triggers.snare_rim_closed = (time) => rimClosedSynth.triggerAttackRelease('32n', time ?? Tone.now());
+  triggers.snare_rim_closed = (time, velocity) =>
+    rimClosedSynth.triggerAttackRelease(rimClosedSynth.frequency.value, '32n', time, velocity);
 
   // === HI-HAT CLOSED (Left) ===
   const hihatClosedL = new Tone.NoiseSynth({
@@ -185,7 +214,7 @@ function createDrumSynths(): {
   const hihatFilterL = new Tone.Filter(8000, 'highpass').toDestination();
   hihatClosedL.connect(hihatFilterL);
   disposables.push(hihatClosedL, hihatFilterL);
-  triggers.hihat_close_l = (time) => hihatClosedL.triggerAttackRelease('32n', time);
+  triggers.hihat_close_l = (time, velocity) => hihatClosedL.triggerAttackRelease('32n', time, velocity);
 
   // === HI-HAT CLOSED (Right) ===
   const hihatClosedR = new Tone.NoiseSynth({
@@ -196,7 +225,7 @@ function createDrumSynths(): {
   const hihatFilterR = new Tone.Filter(8000, 'highpass').toDestination();
   hihatClosedR.connect(hihatFilterR);
   disposables.push(hihatClosedR, hihatFilterR);
-  triggers.hihat_close_r = (time) => hihatClosedR.triggerAttackRelease('32n', time);
+  triggers.hihat_close_r = (time, velocity) => hihatClosedR.triggerAttackRelease('32n', time, velocity);
 
   // === HI-HAT OPEN ===
   const hihatOpen = new Tone.NoiseSynth({
@@ -207,7 +236,7 @@ function createDrumSynths(): {
   const hihatOpenFilter = new Tone.Filter(7000, 'highpass').toDestination();
   hihatOpen.connect(hihatOpenFilter);
   disposables.push(hihatOpen, hihatOpenFilter);
-  triggers.hihat_open = (time) => hihatOpen.triggerAttackRelease('8n', time);
+  triggers.hihat_open = (time, velocity) => hihatOpen.triggerAttackRelease('8n', time, velocity);
 
   // === CRASH (Left) ===
   const crashL = new Tone.MetalSynth({
@@ -220,7 +249,8 @@ function createDrumSynths(): {
   crashL.frequency.value = 300;
   crashL.volume.value = -8;
   disposables.push(crashL);
-  triggers.crash_l = (time) => crashL.triggerAttackRelease('2n', time ?? Tone.now());
+  triggers.crash_l = (time, velocity) =>
+    crashL.triggerAttackRelease(crashL.frequency.value, '2n', time, velocity);
 
   // === CRASH (Right) ===
   const crashR = new Tone.MetalSynth({
@@ -233,7 +263,8 @@ function createDrumSynths(): {
   crashR.frequency.value = 320;
   crashR.volume.value = -8;
   disposables.push(crashR);
-  triggers.crash_r = (time) => crashR.triggerAttackRelease('2n', time ?? Tone.now());
+  triggers.crash_r = (time, velocity) =>
+    crashR.triggerAttackRelease(crashR.frequency.value, '2n', time, velocity);
 
   // === RIDE CUP ===
   const rideCup = new Tone.MetalSynth({
@@ -246,7 +277,8 @@ function createDrumSynths(): {
   rideCup.frequency.value = 400;
   rideCup.volume.value = -10;
   disposables.push(rideCup);
-  triggers.ride_cup = (time) => rideCup.triggerAttackRelease('8n', time ?? Tone.now());
+  triggers.ride_cup = (time, velocity) =>
+    rideCup.triggerAttackRelease(rideCup.frequency.value, '8n', time, velocity);
 
   // === RIDE BOW ===
   const rideBow = new Tone.MetalSynth({
@@ -259,7 +291,8 @@ function createDrumSynths(): {
   rideBow.frequency.value = 350;
   rideBow.volume.value = -10;
   disposables.push(rideBow);
-  triggers.ride_bow = (time) => rideBow.triggerAttackRelease('4n', time ?? Tone.now());
+  triggers.ride_bow = (time, velocity) =>
+    rideBow.triggerAttackRelease(rideBow.frequency.value, '4n', time, velocity);
 
   // === SPLASH ===
   const splash = new Tone.MetalSynth({
@@ -272,7 +305,8 @@ function createDrumSynths(): {
   splash.frequency.value = 380;
   splash.volume.value = -8;
   disposables.push(splash);
-  triggers.splash = (time) => splash.triggerAttackRelease('4n', time ?? Tone.now());
+  triggers.splash = (time, velocity) =>
+    splash.triggerAttackRelease(splash.frequency.value, '4n', time, velocity);
 
   // === TOM LOW (Left) ===
   const tomLowL = new Tone.MembraneSynth({
@@ -282,7 +316,7 @@ function createDrumSynths(): {
   }).toDestination();
   tomLowL.volume.value = -3;
   disposables.push(tomLowL);
-  triggers.tom_low_l = (time) => tomLowL.triggerAttackRelease('G1', '8n', time);
+  triggers.tom_low_l = (time, velocity) => tomLowL.triggerAttackRelease('G1', '8n', time, velocity);
 
   // === TOM LOW (Right) ===
   const tomLowR = new Tone.MembraneSynth({
@@ -292,7 +326,7 @@ function createDrumSynths(): {
   }).toDestination();
   tomLowR.volume.value = -3;
   disposables.push(tomLowR);
-  triggers.tom_low_r = (time) => tomLowR.triggerAttackRelease('A1', '8n', time);
+  triggers.tom_low_r = (time, velocity) => tomLowR.triggerAttackRelease('A1', '8n', time, velocity);
 
   // === TOM MID (Left) ===
   const tomMidL = new Tone.MembraneSynth({
@@ -302,7 +336,7 @@ function createDrumSynths(): {
   }).toDestination();
   tomMidL.volume.value = -3;
   disposables.push(tomMidL);
-  triggers.tom_mid_l = (time) => tomMidL.triggerAttackRelease('C2', '8n', time);
+  triggers.tom_mid_l = (time, velocity) => tomMidL.triggerAttackRelease('C2', '8n', time, velocity);
 
   // === TOM MID (Right) ===
   const tomMidR = new Tone.MembraneSynth({
@@ -312,7 +346,7 @@ function createDrumSynths(): {
   }).toDestination();
   tomMidR.volume.value = -3;
   disposables.push(tomMidR);
-  triggers.tom_mid_r = (time) => tomMidR.triggerAttackRelease('D2', '8n', time);
+  triggers.tom_mid_r = (time, velocity) => tomMidR.triggerAttackRelease('D2', '8n', time, velocity);
 
   // === TOM HIGH (Left) ===
   const tomHighL = new Tone.MembraneSynth({
@@ -322,7 +356,7 @@ function createDrumSynths(): {
   }).toDestination();
   tomHighL.volume.value = -3;
   disposables.push(tomHighL);
-  triggers.tom_high_l = (time) => tomHighL.triggerAttackRelease('F2', '8n', time);
+  triggers.tom_high_l = (time, velocity) => tomHighL.triggerAttackRelease('F2', '8n', time, velocity);
 
   // === TOM HIGH (Right) ===
   const tomHighR = new Tone.MembraneSynth({
@@ -332,14 +366,44 @@ function createDrumSynths(): {
   }).toDestination();
   tomHighR.volume.value = -3;
   disposables.push(tomHighR);
-  triggers.tom_high_r = (time) => tomHighR.triggerAttackRelease('G2', '8n', time);
+  triggers.tom_high_r = (time, velocity) => tomHighR.triggerAttackRelease('G2', '8n', time, velocity);
 
   return { triggers: triggers as Record<PadId, SynthTrigger>, disposables };
 }
 
+/**
+ * Create the metronome click used in offline renders
+ * Returns a trigger taking a time and whether the click is a downbeat
+ */
+function createClickSynth(): (time: number, downbeat: boolean) => void {
+  const click = new Tone.Synth({
+    oscillator: { type: 'square' },
+    envelope: { attack: 0.001, decay: 0.03, sustain: 0, release: 0.01 },
+  }).toDestination();
+  click.volume.value = -12;
+  return (time, downbeat) => click.triggerAttackRelease(downbeat ? 'C6' : 'G5', 0.03, time, downbeat ? 1 : 0.6);
+}
+
+/**
+ * Trigger a step's hits (grace notes first) relative to a base time
+ */
+function triggerHits(trigger: SynthTrigger, baseTime: number | undefined, hits: ArticulationHit[]): void {
+  hits.forEach((hit) => {
+    // Pass time for precise scheduling (undefined = play immediately)
+    const hitTime = baseTime === undefined ? undefined : baseTime + hit.offset;
+    trigger(hitTime, hit.velocity / MAX_VELOCITY);
+  });
+}
+
 // Store the disposables outside Zustand for cleanup
 let audioDisposables: Tone.ToneAudioNode[] = [];
 
+// Loaded sample buffers (samples mode), reused by offline renders
+let sampleBuffers: Map<string, Tone.ToneAudioBuffer> | null = null;
+
+// Initialization in progress, awaited by every caller until it settles
+let initPromise: Promise<void> | null = null;
+
 export const useAudioStore = create<AudioStore>((set, get) => ({
   isAudioReady: false,
   isLoading: false,
@@ -348,61 +412,77 @@ export const useAudioStore = create<AudioStore>((set, get) => ({
   audioMode: 'synthesis', // Default to synthesis (no samples required)
   triggers: {},
 
-  initAudio: async () => {
-    const state = get();
-
-    // Already initialized or loading
-    if (state.isAudioReady || state.isLoading) {
-      return;
+  initAudio: () => {
+    // Already initialized
+    if (get().isAudioReady) {
+      return Promise.resolve();
     }
 
-    set({ isLoading: true, error: null, loadingProgress: 0 });
-
-    try {
-      // Start Tone.js AudioContext (required due to browser autoplay policy)
-      await Tone.start();
+    // Already loading: share that load, so callers such as renderPattern get its samples
+    if (initPromise) {
+      return initPromise;
+    }
 
-      // Try to load samples first, fallback to synthesis
-      let triggers: Record<PadId, SynthTrigger>;
-      let disposables: Tone.ToneAudioNode[];
-      let mode: AudioMode = 'samples';
+    initPromise = (async () => {
+      set({ isLoading: true, error: null, loadingProgress: 0 });
 
       try {
-        const result = await loadDrumSamplers((progress) => {
-          set({ loadingProgress: progress });
+        // Start Tone.js AudioContext (required due to browser autoplay policy)
+        await Tone.start();
+
+        // Try to load samples first, fallback to synthesis
+        let triggers: Record<PadId, SynthTrigger>;
+        let disposables: Tone.ToneAudioNode[];
+        let buffers: Map<string, Tone.ToneAudioBuffer> | null = null;
+        let mode: AudioMode = 'samples';
+
+        try {
+          const result = await loadDrumSamplers((progress) => {
+            set({ loadingProgress: progress });
+          });
+          triggers = result.triggers;
+          disposables = result.disposables;
+          buffers = result.buffers;
+        } catch {
+          // Samples not available, use synthesis fallback
+          console.log('Drum samples not found, using synthesis fallback');
+          const result = createDrumSynths();
+          triggers = result.triggers;
+          disposables = result.disposables;
+          mode = 'synthesis';
+        }
+
+        audioDisposables = disposables;
+        sampleBuffers = buffers;
+
+        set({
+          isAudioReady: true,
+          isLoading: false,
+          loadingProgress: 100,
+          triggers,
+          audioMode: mode,
+          error: null,
+        });
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+        set({
+          isLoading: false,
+          loadingProgress: 0,
+          error: `Audio initialization failed: ${errorMessage}`,
         });
-        triggers = result.triggers;
-        disposables = result.disposables;
-      } catch {
-        // Samples not available, use synthesis fallback
-        console.log('Drum samples not found, using synthesis fallback');
-        const result = createDrumSynths();
-        triggers = result.triggers;
-        disposables = result.disposables;
-        mode = 'synthesis';
       }
-
-      audioDisposables = disposables;
-
-      set({
-        isAudioReady: true,
-        isLoading: false,
-        loadingProgress: 100,
-        triggers,
-        audioMode: mode,
-        error: null,
-      });
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      set({
-        isLoading: false,
-        loadingProgress: 0,
-        error: `Audio initialization failed: ${errorMessage}`,
-      });
-    }
+    })().finally(() => {
+      initPromise = null;
+    });
+    return initPromise;
   },
 
-  playPad: (padId: PadId, time?: number) => {
+  playPad: (
+    padId: PadId,
+    time?: number,
+    velocity: number = DEFAULT_VELOCITY,
+    articulation?: Articulation
+  ) => {
     const { triggers, isAudioReady } = get();
 
     if (!isAudioReady) {
@@ -411,9 +491,39 @@ export const useAudioStore = create<AudioStore>((set, get) => ({
 
     const trigger = triggers[padId];
     if (trigger) {
-      // Pass time for precise scheduling (undefined = play immediately)
-      trigger(time);
+      const hits = getArticulationHits(velocity, articulation);
+      // Immediate playback with grace notes: delay the main hit so they can precede it
+      const baseTime = time ?? (hits.length > 1 ? Tone.now() + MAX_GRACE_OFFSET : undefined);
+      triggerHits(trigger, baseTime, hits);
+    }
+  },
+
+  renderPattern: async (pattern: DrumPattern, options: RenderOptions) => {
+    // Renders use the live engine's voices: samples once loaded (waiting for a
+    // load in progress), synthesis when the samples are unavailable
+    await get().initAudio();
+    const buffers = sampleBuffers;
+    const schedule = getRenderSchedule(pattern, options);
+
+    const rendered = await Tone.Offline(() => {
+      // Created inside the callback so the voices belong to the offline context
+      const triggers = buffers ? createSampleTriggers(buffers) : createDrumSynths().triggers;
+      const playClick = createClickSynth();
+
+      schedule.hits.forEach((hit) => {
+        const trigger = triggers[hit.padId];
+        if (trigger) {
+          triggerHits(trigger, hit.time, getArticulationHits(hit.velocity, hit.articulation));
+        }
+      });
+      schedule.clicks.forEach((click) => playClick(click.time, click.downbeat));
+    }, schedule.duration);
+
+    const buffer = rendered.get();
+    if (!buffer) {
+      throw new Error('Offline render produced no audio');
     }
+    return buffer;
   },
 
   setAudioMode: async (mode: AudioMode) => {
@@ -440,6 +550,7 @@ export const useAudioStore = create<AudioStore>((set, get) => ({
       }
     });
     audioDisposables = [];
+    sampleBuffers = null;
 
     set({
       isAudioReady: false,
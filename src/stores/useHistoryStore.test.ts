@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { usePatternStore } from './usePatternStore';
+import { useHistoryStore, MAX_HISTORY } from './useHistoryStore';
+import { encodePattern, decodePattern } from '../utils/patternUrl';
+
+describe('useHistoryStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+    usePatternStore.getState().resetPattern();
+    useHistoryStore.getState().clearHistory();
+    usePatternStore.getState().createEmptyPattern();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('undo/redo', () => {
+    it('undoes a step toggle', () => {
+      usePatternStore.getState().toggleStep(0, 0);
+      useHistoryStore.getState().undo();
+
+      expect(usePatternStore.getState().currentPattern!.tracks[0].steps[0].active).toBe(false);
+    });
+
+    it('redoes an undone change', () => {
+      usePatternStore.getState().toggleStep(0, 0);
+      useHistoryStore.getState().undo();
+      useHistoryStore.getState().redo();
+
+      expect(usePatternStore.getState().currentPattern!.tracks[0].steps[0].active).toBe(true);
+    });
+
+    it('restores notes lost by a subdivision change', () => {
+      usePatternStore.getState().toggleStep(0, 1);
+      usePatternStore.getState().setSubdivision('8n');
+      useHistoryStore.getState().undo();
+
+      const pattern = usePatternStore.getState().currentPattern!;
+      expect(pattern.subdivision).toBe('16n');
+      expect(pattern.tracks[0].steps[1].active).toBe(true);
+    });
+
+    it('clears redo stack on a new edit', () => {
+      usePatternStore.getState().toggleStep(0, 0);
+      useHistoryStore.getState().undo();
+      usePatternStore.getState().toggleStep(1, 0);
+
+      expect(useHistoryStore.getState().future).toHaveLength(0);
+    });
+
+    it('does nothing when there is nothing to undo', () => {
+      const before = usePatternStore.getState().currentPattern;
+      useHistoryStore.getState().undo();
+
+      expect(usePatternStore.getState().currentPattern).toBe(before);
+    });
+
+    it('does not record the initial pattern creation', () => {
+      expect(useHistoryStore.getState().past).toHaveLength(0);
+    });
+  });
+
+  describe('batching and coalescing', () => {
+    it('records a batch as a single entry', () => {
+      const { beginBatch, endBatch } = useHistoryStore.getState();
+      beginBatch();
+      usePatternStore.getState().setStepActive(0, 0, true);
+      usePatternStore.getState().setStepActive(0, 1, true);
+      usePatternStore.getState().setStepActive(0, 2, true);
+      endBatch();
+
+      expect(useHistoryStore.getState().past).toHaveLength(1);
+
+      useHistoryStore.getState().undo();
+      const steps = usePatternStore.getState().currentPattern!.tracks[0].steps;
+      expect(steps.slice(0, 3).every((s) => !s.active)).toBe(true);
+    });
+
+    it('merges edits with the same coalesce key', () => {
+      const { coalesceNext } = useHistoryStore.getState();
+      coalesceNext('name');
+      usePatternStore.getState().setPatternName('A');
+      coalesceNext('name');
+      usePatternStore.getState().setPatternName('AB');
+
+      expect(useHistoryStore.getState().past).toHaveLength(1);
+    });
+
+    it('does not merge coalesced edits after the window expires', () => {
+      const { coalesceNext } = useHistoryStore.getState();
+      coalesceNext('name');
+      usePatternStore.getState().setPatternName('A');
+      vi.advanceTimersByTime(2000);
+      coalesceNext('name');
+      usePatternStore.getState().setPatternName('AB');
+
+      expect(useHistoryStore.getState().past).toHaveLength(2);
+    });
+  });
+
+  it('bounds the undo stack', () => {
+    for (let i = 0; i < MAX_HISTORY + 10; i++) {
+      usePatternStore.getState().toggleStep(0, 0);
+    }
+
+    expect(useHistoryStore.getState().past).toHaveLength(MAX_HISTORY);
+  });
+
+  it('restores persisted history when the same pattern is reloaded', () => {
+    usePatternStore.getState().toggleStep(0, 0);
+    usePatternStore.getState().toggleStep(1, 0);
+    vi.runAllTimers();
+
+    // Simulate a page reload: the URL-synced pattern is decoded and loaded again
+    const encoded = encodePattern(usePatternStore.getState().currentPattern!)!;
+    usePatternStore.getState().resetPattern();
+    useHistoryStore.getState().clearHistory();
+    usePatternStore.getState().setPattern(decodePattern(encoded)!);
+
+    expect(useHistoryStore.getState().past).toHaveLength(2);
+    useHistoryStore.getState().undo();
+    expect(usePatternStore.getState().currentPattern!.tracks[1].steps[0].active).toBe(false);
+    expect(usePatternStore.getState().currentPattern!.tracks[0].steps[0].active).toBe(true);
+  });
+
+  it('ignores persisted history for a different pattern', () => {
+    usePatternStore.getState().toggleStep(0, 0);
+    vi.runAllTimers();
+
+    usePatternStore.getState().resetPattern();
+    useHistoryStore.getState().clearHistory();
+    usePatternStore.getState().createEmptyPattern('Other');
+
+    expect(useHistoryStore.getState().past).toHaveLength(0);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * History Store - Undo/redo for pattern editing
+ *
+ * Records every change to usePatternStore.currentPattern:
+ * - Bounded undo/redo stacks (MAX_HISTORY entries)
+ * - Batches: several mutations (e.g. a drag-paint gesture) become one entry
+ * - Coalescing: repeated edits with the same key within COALESCE_MS merge
+ * - Persistence: stacks are saved to localStorage and restored after a
+ *   page reload when the loaded (URL-synced) pattern matches
+ */
+
+import { create } from 'zustand';
+import type { DrumPattern } from '../types/pattern';
+import { usePatternStore } from './usePatternStore';
+import { encodePattern, decodePattern } from '../utils/patternUrl';
+import { getStorageItem, setStorageItem, STORAGE_KEYS } from '../utils/storage';
+
+/** Maximum number of undo steps kept */
+const MAX_HISTORY = 100;
+
+/** Edits with the same coalesce key within this window merge into one entry */
+const COALESCE_MS = 1000;
+
+/** Debounce delay for persisting history to localStorage */
+const PERSIST_DEBOUNCE_MS = 500;
+
+/**
+ * Persisted history format
+ * Patterns are stored in the compact share-URL encoding to stay small
+ */
+interface PersistedHistory {
+  /** Encoded pattern the stacks belong to */
+  present: string;
+  past: string[];
+  future: string[];
+}
+
+interface HistoryState {
+  /** Previous patterns, oldest first */
+  past: DrumPattern[];
+  /** Undone patterns, most recently undone last */
+  future: DrumPattern[];
+}
+
+interface HistoryActions {
+  /** Restore the previous pattern */
+  undo: () => void;
+  /** Re-apply the most recently undone pattern */
+  redo: () => void;
+  /** Start a batch: all changes until endBatch() form a single entry */
+  beginBatch: () => void;
+  /** End the current batch */
+  endBatch: () => void;
+  /**
+   * Merge the next change into the previous entry if it carries the same key
+   * and happens within COALESCE_MS (e.g. repeated BPM nudges)
+   */
+  coalesceNext: (key: string) => void;
+  /** Run a pattern mutation without recording it */
+  runWithoutHistory: (fn: () => void) => void;
+  /** Drop all undo/redo entries */
+  clearHistory: () => void;
+}
+
+type HistoryStore = HistoryState & HistoryActions;
+
+/** Nesting depth of open batches */
+let batchDepth = 0;
+/** Whether the open batch has already pushed its entry */
+let batchRecorded = false;
+/** Set while undo/redo or runWithoutHistory writes to the pattern store */
+let isApplying = false;
+/** Coalesce key requested for the next change */
+let pendingCoalesceKey: string | null = null;
+/** Key and time of the last recorded entry */
+let lastCoalesceKey: string | null = null;
+let lastRecordTime = 0;
+/** Pending persistence timeout */
+let persistTimeout: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Append an entry to the past stack, dropping the oldest beyond MAX_HISTORY
+ */
+function pushBounded(stack: DrumPattern[], pattern: DrumPattern): DrumPattern[] {
+  const next = [...stack, pattern];
+  return next.length > MAX_HISTORY ? next.slice(next.length - MAX_HISTORY) : next;
+}
+
+export const useHistoryStore = create<HistoryStore>((set, get) => ({
+  past: [],
+  future: [],
+
+  undo: () => {
+    const { past, future } = get();
+    const current = usePatternStore.getState().currentPattern;
+    if (past.length === 0 || !current) return;
+
+    const previous = past[past.length - 1];
+    isApplying = true;
+    usePatternStore.setState({ currentPattern: previous });
+    isApplying = false;
+    lastCoalesceKey = null;
+
+    set({ past: past.slice(0, -1), future: [...future, current] });
+  },
+
+  redo: () => {
+    const { past, future } = get();
+    const current = usePatternStore.getState().currentPattern;
+    if (future.length === 0 || !current) return;
+
+    const next = future[future.length - 1];
+    isApplying = true;
+    usePatternStore.setState({ currentPattern: next });
+    isApplying = false;
+    lastCoalesceKey = null;
+
+    set({ past: pushBounded(past, current), future: future.slice(0, -1) });
+  },
+
+  beginBatch: () => {
+    if (batchDepth === 0) {
+      batchRecorded = false;
+    }
+    batchDepth++;
+  },
+
+  endBatch: () => {
+    batchDepth = Math.max(0, batchDepth - 1);
+  },
+
+  coalesceNext: (key: string) => {
+    pendingCoalesceKey = key;
+  },
+
+  runWithoutHistory: (fn: () => void) => {
+    isApplying = true;
+    try {
+      fn();
+    } finally {
+      isApplying = false;
+    }
+  },
+
+  clearHistory: () => {
+    lastCoalesceKey = null;
+    set({ past: [], future: [] });
+  },
+}));
+
+/**
+ * Record pattern changes into the undo stack
+ */
+usePatternStore.subscribe((state, prevState) => {
+  const next = state.currentPattern;
+  const previous = prevState.currentPattern;
+  if (next === previous) return;
+
+  // Initial load or reset: nothing meaningful to undo to
+  if (!previous || !next) {
+    pendingCoalesceKey = null;
+    if (!previous && next) {
+      restorePersistedHistory(next);
+    }
+    return;
+  }
+
+  if (isApplying) {
+    schedulePersist();
+    return;
+  }
+
+  const coalesceKey = pendingCoalesceKey;
+  pendingCoalesceKey = null;
+  const now = Date.now();
+
+  const skipForBatch = batchDepth > 0 && batchRecorded;
+  const skipForCoalesce =
+    coalesceKey !== null &&
+    coalesceKey === lastCoalesceKey &&
+    now - lastRecordTime < COALESCE_MS;
+
+  if (!skipForBatch && !skipForCoalesce) {
+    useHistoryStore.setState((history) => ({
+      past: pushBounded(history.past, previous),
+      future: [],
+    }));
+  } else {
+    // Merged edit still invalidates redo
+    useHistoryStore.setState({ future: [] });
+  }
+
+  if (batchDepth > 0) {
+    batchRecorded = true;
+  }
+  lastCoalesceKey = coalesceKey;
+  lastRecordTime = now;
+
+  schedulePersist();
+});
+
+/**
+ * Persist history to localStorage (debounced)
+ */
+function schedulePersist(): void {
+  if (persistTimeout) {
+    clearTimeout(persistTimeout);
+  }
+  persistTimeout = setTimeout(() => {
+    persistTimeout = null;
+    persistHistory();
+  }, PERSIST_DEBOUNCE_MS);
+}
+
+function persistHistory(): void {
+  const current = usePatternStore.getState().currentPattern;
+  if (!current) return;
+
+  const present = encodePattern(current);
+  if (!present) return;
+
+  const { past, future } = useHistoryStore.getState();
+  const encodeAll = (patterns: DrumPattern[]) =>
+    patterns.map((p) => encodePattern(p)).filter((p): p is string => p !== null);
+
+  setStorageItem<PersistedHistory>(STORAGE_KEYS.HISTORY, {
+    present,
+    past: encodeAll(past),
+    future: encodeAll(future),
+  });
+}
+
+/**
+ * Restore persisted stacks if they belong to the pattern that was just loaded
+ */
+function restorePersistedHistory(loaded: DrumPattern): void {
+  const persisted = getStorageItem<PersistedHistory | null>(STORAGE_KEYS.HISTORY, null);
+  if (!persisted || !Array.isArray(persisted.past) || !Array.isArray(persisted.future)) {
+    return;
+  }
+  if (encodePattern(loaded) !== persisted.present) {
+    return;
+  }
+
+  // Restored entries keep the identity of the loaded pattern
+  const decodeAll = (encoded: string[]) =>
+    encoded
+      .map((e) => decodePattern(e))
+      .filter((p): p is DrumPattern => p !== null)
+      .map((p) => ({ ...p, id: loaded.id }));
+
+  useHistoryStore.setState({
+    past: decodeAll(persisted.past).slice(-MAX_HISTORY),
+    future: decodeAll(persisted.future),
+  });
+}
+
+/** Export constants for external use */
+export { MAX_HISTORY, COALESCE_MS };
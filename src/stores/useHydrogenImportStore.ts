@@ -0,0 +1,115 @@
+/**
+ * Hydrogen Import Store - Pending Hydrogen file import and the instrument-to-pad mapping
+ *
+ * - A parsed song waits here while the import dialog is open
+ * - Mapping edits are kept in localStorage per instrument name as changes
+ *   to the name-based defaults, so they apply to every later import
+ * - Completing the import loads the result as a new pattern (undoable)
+ */
+
+import { create } from 'zustand';
+import type { HydrogenSong } from '../types/hydrogen';
+import type { Subdivision } from '../types/pattern';
+import { isValidPadId, type PadId } from '../config/padMapping';
+import { getDefaultHydrogenPad, getInstrumentKey, type HydrogenPadAssignment } from '../config/hydrogen';
+import { usePatternStore } from './usePatternStore';
+import { buildHydrogenPattern, type HydrogenImportResult } from '../utils/hydrogenImport';
+import { getStorageItem, setStorageItem, STORAGE_KEYS } from '../utils/storage';
+
+/**
+ * A parsed Hydrogen file awaiting import
+ */
+export interface PendingHydrogenImport {
+  /** File name without extension */
+  fileName: string;
+  song: HydrogenSong;
+}
+
+interface HydrogenImportState {
+  /** File shown in the import dialog */
+  pending: PendingHydrogenImport | null;
+  /** Changes to the name-based mapping (null = don't import the instrument) */
+  overrides: HydrogenPadAssignment;
+}
+
+interface HydrogenImportActions {
+  /** Open the import dialog for a parsed file */
+  startImport: (fileName: string, song: HydrogenSong) => void;
+  /** Close the import dialog without importing */
+  cancelImport: () => void;
+  /** Assign an instrument (by name) to a pad, or null to skip it */
+  setInstrumentPad: (name: string, padId: PadId | null) => void;
+  /** Drop all mapping changes */
+  resetMapping: () => void;
+  /** Load one of the pending file's patterns into the sequencer */
+  completeImport: (patternIndex: number, subdivision?: Subdivision) => HydrogenImportResult | null;
+}
+
+type HydrogenImportStore = HydrogenImportState & HydrogenImportActions;
+
+/**
+ * Read saved mapping changes, dropping invalid ones
+ */
+function loadOverrides(): HydrogenPadAssignment {
+  const stored = getStorageItem<Record<string, unknown>>(STORAGE_KEYS.HYDROGEN_MAPPING, {});
+  const overrides: HydrogenPadAssignment = {};
+  if (typeof stored !== 'object' || stored === null) return overrides;
+
+  for (const [name, padId] of Object.entries(stored)) {
+    if (padId === null || (typeof padId === 'string' && isValidPadId(padId))) {
+      overrides[name] = padId;
+    }
+  }
+  return overrides;
+}
+
+export const useHydrogenImportStore = create<HydrogenImportStore>((set, get) => {
+  /**
+   * Update mapping changes and persist them
+   */
+  const setOverrides = (overrides: HydrogenPadAssignment) => {
+    setStorageItem(STORAGE_KEYS.HYDROGEN_MAPPING, overrides);
+    set({ overrides });
+  };
+
+  return {
+    pending: null,
+    overrides: loadOverrides(),
+
+    // Actions
+    startImport: (fileName: string, song: HydrogenSong) => {
+      set({ pending: { fileName, song } });
+    },
+
+    cancelImport: () => {
+      set({ pending: null });
+    },
+
+    setInstrumentPad: (name: string, padId: PadId | null) => {
+      const key = getInstrumentKey(name);
+      const overrides = { ...get().overrides };
+      if (getDefaultHydrogenPad(name) === padId) {
+        delete overrides[key];
+      } else {
+        overrides[key] = padId;
+      }
+      setOverrides(overrides);
+    },
+
+    resetMapping: () => {
+      setOverrides({});
+    },
+
+    completeImport: (patternIndex: number, subdivision?: Subdivision) => {
+      const { pending, overrides } = get();
+      const hydrogenPattern = pending?.song.patterns[patternIndex];
+      if (!pending || !hydrogenPattern) return null;
+
+      const result = buildHydrogenPattern(pending.song, hydrogenPattern, { subdivision, overrides });
+
+      usePatternStore.getState().loadNewPattern(result.pattern);
+      set({ pending: null });
+      return result;
+    },
+  };
+});
@@ -6,19 +6,36 @@
  * - Right Hand: Right-hand optimized order
  * - Left Hand: Left-hand optimized order
  * - Simplified: Merged L/R tracks (13 instead of 18)
+ *
+ * Also holds the grid zoom level (step cell width) and whether the
+ * notation view is shown.
  */
 
 import { create } from 'zustand';
 import type { LayoutView } from '../config/layoutViews';
 
+/** Zoom level constants */
+export const MIN_CELL_WIDTH = 20;
+export const MAX_CELL_WIDTH = 60;
+export const DEFAULT_CELL_WIDTH = 28;
+export const ZOOM_STEP = 4;
+
 interface LayoutState {
   /** Current layout view */
   currentLayout: LayoutView;
+  /** Step cell width in pixels (zoom level) */
+  cellWidth: number;
+  /** Whether the staff notation panel is shown below the grid */
+  showNotation: boolean;
 }
 
 interface LayoutActions {
   /** Set the layout view */
   setLayout: (layout: LayoutView) => void;
+  /** Set the step cell width (clamped to the zoom range) */
+  setCellWidth: (width: number) => void;
+  /** Show or hide the staff notation panel */
+  setShowNotation: (show: boolean) => void;
 }
 
 type LayoutStore = LayoutState & LayoutActions;
@@ -26,9 +43,19 @@ type LayoutStore = LayoutState & LayoutActions;
 export const useLayoutStore = create<LayoutStore>((set) => ({
   // Initial state - default layout
   currentLayout: 'default',
+  cellWidth: DEFAULT_CELL_WIDTH,
+  showNotation: false,
 
   // Actions
   setLayout: (layout: LayoutView) => {
     set({ currentLayout: layout });
   },
+
+  setCellWidth: (width: number) => {
+    set({ cellWidth: Math.max(MIN_CELL_WIDTH, Math.min(MAX_CELL_WIDTH, Math.round(width))) });
+  },
+
+  setShowNotation: (show: boolean) => {
+    set({ showNotation: show });
+  },
 }));
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { usePatternStore } from './usePatternStore';
+import { useLibraryStore } from './useLibraryStore';
+import { useSongStore } from './useSongStore';
+import { decodePattern } from '../utils/patternUrl';
+import { STORAGE_KEYS } from '../utils/storage';
+
+describe('useLibraryStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_000_000);
+    localStorage.clear();
+    useLibraryStore.setState({ entries: [], activeEntryId: null, activePatternId: null });
+    usePatternStore.getState().resetPattern();
+    usePatternStore.getState().createEmptyPattern();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Advance the clock so the next change gets a later timestamp */
+  const tick = () => vi.advanceTimersByTime(1000);
+
+  describe('saveAs', () => {
+    it('adds an entry named after the pattern and links it', () => {
+      usePatternStore.getState().toggleStep(0, 0);
+      useLibraryStore.getState().saveAs('Groove A');
+
+      const { entries, getActiveEntry } = useLibraryStore.getState();
+      expect(entries).toHaveLength(1);
+      expect(entries[0].name).toBe('Groove A');
+      expect(getActiveEntry()).toBe(entries[0]);
+      expect(usePatternStore.getState().currentPattern!.name).toBe('Groove A');
+      expect(decodePattern(entries[0].pattern)!.tracks[0].steps[0].active).toBe(true);
+    });
+
+    it('persists entries to localStorage', () => {
+      useLibraryStore.getState().saveAs('Groove A');
+
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEYS.LIBRARY)!);
+      expect(stored).toHaveLength(1);
+      expect(stored[0].name).toBe('Groove A');
+    });
+
+    it('reports a pattern too large to store', () => {
+      usePatternStore.getState().createEmptyPattern('Dense', 4, '32t');
+      const pattern = usePatternStore.getState().currentPattern!;
+      let seed = 1;
+      usePatternStore.getState().setPattern({
+        ...pattern,
+        tracks: pattern.tracks.map((track) => ({
+          ...track,
+          steps: track.steps.map(() => {
+            seed = (seed * 48271) % 2147483647;
+            return { active: true, velocity: (seed % 127) + 1 };
+          }),
+        })),
+      });
+
+      expect(useLibraryStore.getState().saveAs('Dense')).toBe(false);
+      expect(useLibraryStore.getState().entries).toHaveLength(0);
+    });
+  });
+
+  describe('save', () => {
+    it('saves as a new entry when the pattern has none', () => {
+      useLibraryStore.getState().save();
+
+      const { entries } = useLibraryStore.getState();
+      expect(entries).toHaveLength(1);
+      expect(entries[0].name).toBe(usePatternStore.getState().currentPattern!.name);
+    });
+
+    it('overwrites the linked entry', () => {
+      useLibraryStore.getState().saveAs('Groove A');
+      tick();
+      usePatternStore.getState().toggleStep(1, 2);
+      useLibraryStore.getState().save();
+
+      const { entries } = useLibraryStore.getState();
+      expect(entries).toHaveLength(1);
+      expect(entries[0].updatedAt).toBe(1_001_000);
+      expect(decodePattern(entries[0].pattern)!.tracks[1].steps[2].active).toBe(true);
+    });
+
+    it('does not overwrite after a different pattern replaces the current one', () => {
+      useLibraryStore.getState().saveAs('Groove A');
+      usePatternStore.getState().createEmptyPattern();
+      useLibraryStore.getState().save();
+
+      expect(useLibraryStore.getState().entries).toHaveLength(2);
+    });
+  });
+
+  describe('load', () => {
+    it('loads an entry into the sequencer as a new pattern', () => {
+      usePatternStore.getState().toggleStep(0, 0);
+      useLibraryStore.getState().saveAs('Groove A');
+      const entryId = useLibraryStore.getState().entries[0].id;
+
+      usePatternStore.getState().createEmptyPattern();
+      const patternId = usePatternStore.getState().currentPattern!.id;
+      useLibraryStore.getState().load(entryId);
+
+      const pattern = usePatternStore.getState().currentPattern!;
+      expect(pattern.id).not.toBe(patternId);
+      expect(pattern.name).toBe('Groove A');
+      expect(pattern.tracks[0].steps[0].active).toBe(true);
+      expect(useLibraryStore.getState().getActiveEntry()?.id).toBe(entryId);
+    });
+
+    it('leaves the song part open in the sequencer unchanged', () => {
+      usePatternStore.getState().toggleStep(0, 0);
+      useLibraryStore.getState().saveAs('Groove A');
+      const entryId = useLibraryStore.getState().entries[0].id;
+
+      useSongStore.getState().clearSong();
+      usePatternStore.getState().createEmptyPattern('Verse');
+      useSongStore.getState().addCurrentPattern();
+      useLibraryStore.getState().load(entryId);
+
+      const [part] = useSongStore.getState().patterns;
+      expect(part.name).toBe('Verse');
+      expect(part.tracks[0].steps[0].active).toBe(false);
+    });
+  });
+
+  describe('rename', () => {
+    it('renames the entry and its stored pattern', () => {
+      useLibraryStore.getState().saveAs('Groove A');
+      const entryId = useLibraryStore.getState().entries[0].id;
+      useLibraryStore.getState().rename(entryId, '  Groove B ');
+
+      const entry = useLibraryStore.getState().entries[0];
+      expect(entry.name).toBe('Groove B');
+      expect(decodePattern(entry.pattern)!.name).toBe('Groove B');
+    });
+
+    it('renames the current pattern when it is linked', () => {
+      useLibraryStore.getState().saveAs('Groove A');
+      const entryId = useLibraryStore.getState().entries[0].id;
+      useLibraryStore.getState().rename(entryId, 'Groove B');
+
+      expect(usePatternStore.getState().currentPattern!.name).toBe('Groove B');
+    });
+
+    it('ignores empty names', () => {
+      useLibraryStore.getState().saveAs('Groove A');
+      const entryId = useLibraryStore.getState().entries[0].id;
+      useLibraryStore.getState().rename(entryId, '   ');
+
+      expect(useLibraryStore.getState().entries[0].name).toBe('Groove A');
+    });
+  });
+
+  describe('duplicate', () => {
+    it('adds a copy without linking it', () => {
+      useLibraryStore.getState().saveAs('Groove A');
+      const entryId = useLibraryStore.getState().entries[0].id;
+      useLibraryStore.getState().duplicate(entryId);
+
+      const { entries, activeEntryId } = useLibraryStore.getState();
+      expect(entries.map((e) => e.name)).toEqual(['Groove A copy', 'Groove A']);
+      expect(entries[0].id).not.toBe(entryId);
+      expect(activeEntryId).toBe(entryId);
+    });
+  });
+
+  describe('remove', () => {
+    it('deletes the entry and unlinks it', () => {
+      useLibraryStore.getState().saveAs('Groove A');
+      const entryId = useLibraryStore.getState().entries[0].id;
+      useLibraryStore.getState().remove(entryId);
+
+      expect(useLibraryStore.getState().entries).toHaveLength(0);
+      expect(useLibraryStore.getState().getActiveEntry()).toBeNull();
+    });
+  });
+
+  describe('ordering', () => {
+    it('keeps the most recently modified entry first', () => {
+      useLibraryStore.getState().saveAs('First');
+      const firstId = useLibraryStore.getState().entries[0].id;
+      tick();
+      useLibraryStore.getState().saveAs('Second');
+      expect(useLibraryStore.getState().entries.map((e) => e.name)).toEqual(['Second', 'First']);
+
+      tick();
+      useLibraryStore.getState().rename(firstId, 'First (edited)');
+      expect(useLibraryStore.getState().entries.map((e) => e.name)).toEqual(['First (edited)', 'Second']);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Library Store - Patterns saved in the browser
+ *
+ * Keeps a local pattern library in localStorage:
+ * - Save (overwrites the entry the pattern was loaded from or last saved to),
+ *   save as, rename, duplicate and delete
+ * - Entries are kept newest first (last-modified order)
+ * - Loading an entry replaces the sequencer's pattern (undoable) under a
+ *   new ID, so a song part open in the sequencer is never overwritten
+ */
+
+import { create } from 'zustand';
+import type { LibraryEntry } from '../types/library';
+import { usePatternStore } from './usePatternStore';
+import { encodePattern, decodePattern } from '../utils/patternUrl';
+import { getStorageItem, setStorageItem, STORAGE_KEYS } from '../utils/storage';
+
+interface LibraryState {
+  /** Saved patterns, most recently modified first */
+  entries: LibraryEntry[];
+  /** Entry the current pattern was loaded from or last saved to */
+  activeEntryId: string | null;
+  /** ID of the sequencer pattern linked to activeEntryId */
+  activePatternId: string | null;
+}
+
+interface LibraryActions {
+  /** Save the current pattern to its entry, or as a new entry if it has none (false if it could not be saved) */
+  save: () => boolean;
+  /** Save the current pattern as a new entry, also renaming the pattern (false if it could not be saved) */
+  saveAs: (name: string) => boolean;
+  /** Load an entry into the sequencer */
+  load: (entryId: string) => void;
+  /** Rename an entry (and the current pattern when it is linked to it) */
+  rename: (entryId: string, name: string) => void;
+  /** Save a copy of an entry */
+  duplicate: (entryId: string) => void;
+  /** Delete an entry */
+  remove: (entryId: string) => void;
+  /** Entry the current pattern saves to, if any */
+  getActiveEntry: () => LibraryEntry | null;
+}
+
+type LibraryStore = LibraryState & LibraryActions;
+
+/**
+ * Generate a unique ID for library entries
+ */
+function generateEntryId(): string {
+  return `lib-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Read saved entries, dropping malformed ones
+ */
+function loadEntries(): LibraryEntry[] {
+  const stored = getStorageItem<unknown>(STORAGE_KEYS.LIBRARY, []);
+  if (!Array.isArray(stored)) return [];
+
+  return stored
+    .filter((item): item is LibraryEntry => {
+      const entry = item as Partial<LibraryEntry> | null;
+      return (
+        typeof entry?.id === 'string' &&
+        typeof entry.name === 'string' &&
+        typeof entry.updatedAt === 'number' &&
+        typeof entry.pattern === 'string'
+      );
+    })
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Move an entry to the front (most recently modified)
+ */
+function withEntryFirst(entries: LibraryEntry[], entry: LibraryEntry): LibraryEntry[] {
+  return [entry, ...entries.filter((e) => e.id !== entry.id)];
+}
+
+export const useLibraryStore = create<LibraryStore>((set, get) => {
+  /**
+   * Update entries and persist them
+   */
+  const setEntries = (entries: LibraryEntry[], linked?: Partial<LibraryState>) => {
+    setStorageItem(STORAGE_KEYS.LIBRARY, entries);
+    set({ entries, ...linked });
+  };
+
+  return {
+    entries: loadEntries(),
+    activeEntryId: null,
+    activePatternId: null,
+
+    save: () => {
+      const current = usePatternStore.getState().currentPattern;
+      const active = get().getActiveEntry();
+      if (!current) return false;
+      if (!active) {
+        return get().saveAs(current.name);
+      }
+
+      const encoded = encodePattern(current);
+      if (!encoded) return false;
+
+      const entry = { ...active, name: current.name, pattern: encoded, updatedAt: Date.now() };
+      setEntries(withEntryFirst(get().entries, entry));
+      return true;
+    },
+
+    saveAs: (name: string) => {
+      const { currentPattern, setPatternName } = usePatternStore.getState();
+      if (!currentPattern) return false;
+
+      const trimmed = name.trim();
+      if (trimmed && trimmed !== currentPattern.name) {
+        setPatternName(trimmed);
+      }
+
+      const current = usePatternStore.getState().currentPattern;
+      const encoded = current ? encodePattern(current) : null;
+      if (!current || !encoded) return false;
+
+      const entry: LibraryEntry = {
+        id: generateEntryId(),
+        name: current.name,
+        updatedAt: Date.now(),
+        pattern: encoded,
+      };
+      setEntries([entry, ...get().entries], {
+        activeEntryId: entry.id,
+        activePatternId: current.id,
+      });
+      return true;
+    },
+
+    load: (entryId: string) => {
+      const entry = get().entries.find((e) => e.id === entryId);
+      if (!entry) return;
+
+      const decoded = decodePattern(entry.pattern);
+      if (!decoded) return;
+
+      usePatternStore.getState().loadNewPattern({ ...decoded, name: entry.name });
+      const loaded = usePatternStore.getState().currentPattern;
+      set({ activeEntryId: entry.id, activePatternId: loaded?.id ?? null });
+    },
+
+    rename: (entryId: string, name: string) => {
+      const trimmed = name.trim();
+      const entry = get().entries.find((e) => e.id === entryId);
+      if (!entry || !trimmed || trimmed === entry.name) return;
+
+      // The name is also stored inside the encoded pattern
+      const decoded = decodePattern(entry.pattern);
+      const encoded = decoded ? encodePattern({ ...decoded, name: trimmed }) : null;
+
+      const renamed = {
+        ...entry,
+        name: trimmed,
+        pattern: encoded ?? entry.pattern,
+        updatedAt: Date.now(),
+      };
+      setEntries(withEntryFirst(get().entries, renamed));
+
+      if (get().getActiveEntry()?.id === entryId) {
+        usePatternStore.getState().setPatternName(trimmed);
+      }
+    },
+
+    duplicate: (entryId: string) => {
+      const entry = get().entries.find((e) => e.id === entryId);
+      if (!entry) return;
+
+      const name = `${entry.name} copy`;
+      const decoded = decodePattern(entry.pattern);
+      const encoded = decoded ? encodePattern({ ...decoded, name }) : null;
+
+      const copy: LibraryEntry = {
+        id: generateEntryId(),
+        name,
+        updatedAt: Date.now(),
+        pattern: encoded ?? entry.pattern,
+      };
+      setEntries([copy, ...get().entries]);
+    },
+
+    remove: (entryId: string) => {
+      const { entries, activeEntryId } = get();
+      const unlinked = activeEntryId === entryId
+        ? { activeEntryId: null, activePatternId: null }
+        : undefined;
+      setEntries(entries.filter((e) => e.id !== entryId), unlinked);
+    },
+
+    getActiveEntry: () => {
+      const { entries, activeEntryId, activePatternId } = get();
+      const current = usePatternStore.getState().currentPattern;
+      if (!activeEntryId || !current || current.id !== activePatternId) return null;
+      return entries.find((e) => e.id === activeEntryId) ?? null;
+    },
+  };
+});
@@ -0,0 +1,129 @@
+/**
+ * MIDI Import Store - Pending MIDI file import and the GM-to-pad mapping
+ *
+ * - A parsed file waits here while the import dialog is open
+ * - Mapping edits are kept in localStorage as changes to the default
+ *   GM assignment, so they apply to every later import
+ * - Completing the import loads the result as a new pattern (undoable)
+ */
+
+import { create } from 'zustand';
+import type { MidiDrumData } from '../types/midi';
+import type { Subdivision } from '../types/pattern';
+import {
+  DEFAULT_GM_ASSIGNMENT,
+  createPadMapping,
+  isValidPadId,
+  type GmPadAssignment,
+  type PadId,
+} from '../config/padMapping';
+import { usePatternStore } from './usePatternStore';
+import { buildMidiPattern, type MidiImportResult } from '../utils/midiImport';
+import { getStorageItem, setStorageItem, STORAGE_KEYS } from '../utils/storage';
+
+/**
+ * A parsed MIDI file awaiting import
+ */
+export interface PendingMidiImport {
+  /** Pattern name (the file name without extension) */
+  name: string;
+  data: MidiDrumData;
+}
+
+interface MidiImportState {
+  /** File shown in the import dialog */
+  pending: PendingMidiImport | null;
+  /** Changes to DEFAULT_GM_ASSIGNMENT (null = don't import the note) */
+  overrides: GmPadAssignment;
+}
+
+interface MidiImportActions {
+  /** Open the import dialog for a parsed file */
+  startImport: (name: string, data: MidiDrumData) => void;
+  /** Close the import dialog without importing */
+  cancelImport: () => void;
+  /** Assign a GM note to a pad, or null to skip it */
+  setNotePad: (midi: number, padId: PadId | null) => void;
+  /** Drop all mapping changes */
+  resetMapping: () => void;
+  /** Load the pending file into the sequencer */
+  completeImport: (subdivision?: Subdivision) => MidiImportResult | null;
+}
+
+type MidiImportStore = MidiImportState & MidiImportActions;
+
+/**
+ * Read saved mapping changes, dropping invalid ones
+ */
+function loadOverrides(): GmPadAssignment {
+  const stored = getStorageItem<Record<string, unknown>>(STORAGE_KEYS.MIDI_MAPPING, {});
+  const overrides: GmPadAssignment = {};
+  if (typeof stored !== 'object' || stored === null) return overrides;
+
+  for (const [note, padId] of Object.entries(stored)) {
+    if (padId === null || (typeof padId === 'string' && isValidPadId(padId))) {
+      overrides[Number(note)] = padId;
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Effective GM note to pad assignment
+ */
+export function getGmAssignment(overrides: GmPadAssignment): GmPadAssignment {
+  return { ...DEFAULT_GM_ASSIGNMENT, ...overrides };
+}
+
+export const useMidiImportStore = create<MidiImportStore>((set, get) => {
+  /**
+   * Update mapping changes and persist them
+   */
+  const setOverrides = (overrides: GmPadAssignment) => {
+    setStorageItem(STORAGE_KEYS.MIDI_MAPPING, overrides);
+    set({ overrides });
+  };
+
+  return {
+    pending: null,
+    overrides: loadOverrides(),
+
+    // Actions
+    startImport: (name: string, data: MidiDrumData) => {
+      set({ pending: { name, data } });
+    },
+
+    cancelImport: () => {
+      set({ pending: null });
+    },
+
+    setNotePad: (midi: number, padId: PadId | null) => {
+      const overrides = { ...get().overrides };
+      if ((DEFAULT_GM_ASSIGNMENT[midi] ?? null) === padId) {
+        delete overrides[midi];
+      } else {
+        overrides[midi] = padId;
+      }
+      setOverrides(overrides);
+    },
+
+    resetMapping: () => {
+      setOverrides({});
+    },
+
+    completeImport: (subdivision?: Subdivision) => {
+      const { pending, overrides } = get();
+      if (!pending) return null;
+
+      const result = buildMidiPattern(pending.data, {
+        name: pending.name,
+        subdivision,
+        mapping: createPadMapping(getGmAssignment(overrides)),
+      });
+
+      usePatternStore.getState().loadNewPattern(result.pattern);
+      set({ pending: null });
+      return result;
+    },
+  };
+});
@@ -1,6 +1,9 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { usePatternStore } from './usePatternStore';
+import { useHistoryStore } from './useHistoryStore';
+import { encodePattern, decodePattern } from '../utils/patternUrl';
 import { PAD_IDS, FINGER_DEFAULTS } from '../config/padMapping';
+import { GROOVE_PRESETS } from '../config/groovePresets';
 
 describe('usePatternStore', () => {
   beforeEach(() => {
@@ -166,6 +169,97 @@ describe('usePatternStore', () => {
     });
   });
 
+  describe('setStepVelocity', () => {
+    beforeEach(() => {
+      usePatternStore.getState().createEmptyPattern();
+      usePatternStore.getState().toggleStep(0, 0);
+    });
+
+    it('activating a step sets the default velocity', () => {
+      expect(usePatternStore.getState().currentPattern!.tracks[0].steps[0].velocity).toBe(100);
+    });
+
+    it('sets and clamps velocity on an active step', () => {
+      usePatternStore.getState().setStepVelocity(0, 0, 64);
+      expect(usePatternStore.getState().currentPattern!.tracks[0].steps[0].velocity).toBe(64);
+
+      usePatternStore.getState().setStepVelocity(0, 0, 500);
+      expect(usePatternStore.getState().currentPattern!.tracks[0].steps[0].velocity).toBe(127);
+
+      usePatternStore.getState().setStepVelocity(0, 0, -5);
+      expect(usePatternStore.getState().currentPattern!.tracks[0].steps[0].velocity).toBe(1);
+    });
+
+    it('ignores inactive steps', () => {
+      usePatternStore.getState().setStepVelocity(0, 1, 64);
+
+      expect(usePatternStore.getState().currentPattern!.tracks[0].steps[1].velocity).toBeUndefined();
+    });
+
+    it('clears velocity when deactivating', () => {
+      usePatternStore.getState().setStepVelocity(0, 0, 64);
+      usePatternStore.getState().toggleStep(0, 0);
+
+      expect(usePatternStore.getState().currentPattern!.tracks[0].steps[0].velocity).toBeUndefined();
+    });
+  });
+
+  describe('setStepArticulation', () => {
+    beforeEach(() => {
+      usePatternStore.getState().createEmptyPattern();
+      usePatternStore.getState().toggleStep(0, 0);
+    });
+
+    it('sets an articulation on an active step', () => {
+      usePatternStore.getState().setStepArticulation(0, 0, 'flam');
+
+      expect(usePatternStore.getState().currentPattern!.tracks[0].steps[0].articulation).toBe('flam');
+    });
+
+    it('stores normal as undefined', () => {
+      usePatternStore.getState().setStepArticulation(0, 0, 'accent');
+      usePatternStore.getState().setStepArticulation(0, 0, 'normal');
+
+      expect(usePatternStore.getState().currentPattern!.tracks[0].steps[0].articulation).toBeUndefined();
+    });
+
+    it('clears the articulation when deactivating', () => {
+      usePatternStore.getState().setStepArticulation(0, 0, 'ghost');
+      usePatternStore.getState().toggleStep(0, 0);
+
+      expect(usePatternStore.getState().currentPattern!.tracks[0].steps[0].articulation).toBeUndefined();
+    });
+  });
+
+  describe('setStepCondition', () => {
+    beforeEach(() => {
+      usePatternStore.getState().createEmptyPattern();
+      usePatternStore.getState().toggleStep(0, 0);
+    });
+
+    it('sets a condition on an active step', () => {
+      usePatternStore.getState().setStepCondition(0, 0, { cycle: 4, iteration: 1 });
+
+      expect(usePatternStore.getState().currentPattern!.tracks[0].steps[0].condition).toEqual({ cycle: 4, iteration: 1 });
+    });
+
+    it('ignores inactive steps', () => {
+      usePatternStore.getState().setStepCondition(0, 1, { probability: 50 });
+
+      expect(usePatternStore.getState().currentPattern!.tracks[0].steps[1].condition).toBeUndefined();
+    });
+
+    it('clears the condition when it always passes or the step is deactivated', () => {
+      usePatternStore.getState().setStepCondition(0, 0, { probability: 50 });
+      usePatternStore.getState().setStepCondition(0, 0, { probability: 100 });
+      expect(usePatternStore.getState().currentPattern!.tracks[0].steps[0].condition).toBeUndefined();
+
+      usePatternStore.getState().setStepCondition(0, 0, { probability: 50 });
+      usePatternStore.getState().toggleStep(0, 0);
+      expect(usePatternStore.getState().currentPattern!.tracks[0].steps[0].condition).toBeUndefined();
+    });
+  });
+
   describe('setPattern', () => {
     it('sets the current pattern', () => {
       const customPattern = {
@@ -192,4 +286,294 @@ describe('usePatternStore', () => {
       expect(usePatternStore.getState().currentPattern).toBeNull();
     });
   });
+
+  describe('setSubdivision', () => {
+    beforeEach(() => {
+      usePatternStore.getState().createEmptyPattern('Grid', 1, '16n');
+      usePatternStore.getState().toggleStep(0, 0);
+      usePatternStore.getState().toggleStep(0, 1);
+      usePatternStore.getState().toggleStep(0, 2);
+    });
+
+    it('reports notes lost when combining steps', () => {
+      const report = usePatternStore.getState().getSubdivisionChangeReport('8n')!;
+
+      expect(report.tracks).toEqual([
+        { trackIndex: 0, label: usePatternStore.getState().currentPattern!.tracks[0].label, lost: [1], moved: [] },
+      ]);
+    });
+
+    it('reports moved notes for triplet conversions', () => {
+      const report = usePatternStore.getState().getSubdivisionChangeReport('16t')!;
+
+      // 16n step 1 (beat 0.25) lands on 16t step 2 (beat 0.333)
+      expect(report.tracks[0].moved).toEqual([{ from: 1, to: 2 }]);
+      expect(report.tracks[0].lost).toEqual([]);
+    });
+
+    it('reports nothing for lossless changes', () => {
+      expect(usePatternStore.getState().getSubdivisionChangeReport('32n')!.tracks).toEqual([]);
+    });
+
+    it('restores the original notes when switching back before editing', () => {
+      const original = usePatternStore.getState().currentPattern!.tracks;
+      usePatternStore.getState().setSubdivision('8n');
+      usePatternStore.getState().setSubdivision('16t');
+      usePatternStore.getState().setSubdivision('16n');
+
+      expect(usePatternStore.getState().currentPattern!.tracks).toBe(original);
+    });
+
+    it('converts from the edited grid once the converted pattern changes', () => {
+      usePatternStore.getState().setSubdivision('8n');
+      usePatternStore.getState().toggleStep(1, 0);
+      usePatternStore.getState().setSubdivision('16n');
+      const steps = usePatternStore.getState().currentPattern!.tracks[0].steps;
+
+      expect(steps[1].active).toBe(false);
+      expect(steps[2].active).toBe(true);
+    });
+
+    it('restores the original notes when switching back after undo and redo', () => {
+      useHistoryStore.getState().clearHistory();
+      usePatternStore.getState().setSubdivision('8n');
+      usePatternStore.getState().setSubdivision('32n');
+      useHistoryStore.getState().undo();
+      useHistoryStore.getState().undo();
+      useHistoryStore.getState().redo();
+      usePatternStore.getState().setSubdivision('16n');
+      const steps = usePatternStore.getState().currentPattern!.tracks[0].steps;
+
+      expect(steps.slice(0, 3).map((step) => step.active)).toEqual([true, true, true]);
+    });
+
+    it('restores the original notes when switching back after a link round trip', () => {
+      usePatternStore.getState().setSubdivision('8n');
+      const shared = decodePattern(encodePattern(usePatternStore.getState().currentPattern!)!)!;
+      usePatternStore.getState().setPattern(shared);
+      usePatternStore.getState().setSubdivision('16n');
+      const steps = usePatternStore.getState().currentPattern!.tracks[0].steps;
+
+      expect(steps.slice(0, 3).map((step) => step.active)).toEqual([true, true, true]);
+    });
+
+    it('converts from the current grid after the length changes', () => {
+      usePatternStore.getState().createEmptyPattern('Long', 4, '16n');
+      usePatternStore.getState().toggleStep(0, 1);
+      usePatternStore.getState().setSubdivision('8n');
+      usePatternStore.getState().setBars(1);
+      usePatternStore.getState().setSubdivision('16n');
+      const pattern = usePatternStore.getState().currentPattern!;
+
+      expect(pattern.bars).toBe(1);
+      expect(pattern.tracks[0].steps).toHaveLength(16);
+      expect(pattern.subdivisionSource?.bars).toBe(1);
+      expect(decodePattern(encodePattern(pattern)!)!.tracks[0].steps).toHaveLength(16);
+    });
+  });
+
+  describe('setTimeSignature', () => {
+    it('resizes each track to the new bar length', () => {
+      usePatternStore.getState().createEmptyPattern('Waltz', 2, '16n');
+      usePatternStore.getState().setTimeSignature({ numerator: 3, denominator: 4 });
+      const pattern = usePatternStore.getState().currentPattern!;
+
+      expect(pattern.timeSignature).toEqual({ numerator: 3, denominator: 4 });
+      expect(pattern.tracks[0].steps).toHaveLength(24);
+    });
+
+    it('keeps notes at the same position within their bar', () => {
+      usePatternStore.getState().createEmptyPattern('Waltz', 2, '16n');
+      usePatternStore.getState().toggleStep(0, 16); // bar 2, beat 1
+      usePatternStore.getState().setTimeSignature({ numerator: 3, denominator: 4 });
+
+      expect(usePatternStore.getState().currentPattern!.tracks[0].steps[12].active).toBe(true);
+    });
+
+    it('ignores meters the subdivision does not fit', () => {
+      usePatternStore.getState().createEmptyPattern('Odd', 1, '4n');
+      usePatternStore.getState().toggleStep(0, 3);
+      const before = usePatternStore.getState().currentPattern;
+      usePatternStore.getState().setTimeSignature({ numerator: 7, denominator: 8 });
+
+      expect(usePatternStore.getState().currentPattern).toBe(before);
+    });
+  });
+
+  describe('loadPreset', () => {
+    it('builds the pattern from the preset as a new pattern', () => {
+      usePatternStore.getState().createEmptyPattern();
+      const id = usePatternStore.getState().currentPattern!.id;
+      const preset = GROOVE_PRESETS.find((p) => p.id === 'latin-bossa-nova')!;
+
+      usePatternStore.getState().loadPreset(preset);
+      const pattern = usePatternStore.getState().currentPattern!;
+      const kick = pattern.tracks[PAD_IDS.indexOf('kick')];
+
+      expect(pattern.id).not.toBe(id);
+      expect(pattern.name).toBe('Bossa Nova');
+      expect(pattern.bpm).toBe(140);
+      expect(pattern.subdivision).toBe('8n');
+      expect(kick.steps).toHaveLength(16);
+      expect(kick.steps.filter((step) => step.active)).toHaveLength(8);
+    });
+  });
+
+  describe('setBpm', () => {
+    beforeEach(() => {
+      usePatternStore.getState().createEmptyPattern();
+    });
+
+    it('stores the tempo in the pattern', () => {
+      usePatternStore.getState().setBpm(92);
+
+      expect(usePatternStore.getState().currentPattern!.bpm).toBe(92);
+    });
+
+    it('clamps and rounds the tempo', () => {
+      usePatternStore.getState().setBpm(300);
+      expect(usePatternStore.getState().currentPattern!.bpm).toBe(200);
+
+      usePatternStore.getState().setBpm(87.6);
+      expect(usePatternStore.getState().currentPattern!.bpm).toBe(88);
+    });
+
+    it('keeps the pattern reference when the tempo is unchanged', () => {
+      const before = usePatternStore.getState().currentPattern;
+      usePatternStore.getState().setBpm(120);
+
+      expect(usePatternStore.getState().currentPattern).toBe(before);
+    });
+  });
+
+  describe('setTrackRhythm', () => {
+    beforeEach(() => {
+      usePatternStore.getState().createEmptyPattern();
+    });
+
+    it('repeats the rhythm across the track and replaces its notes', () => {
+      usePatternStore.getState().setStepVelocity(0, 1, 50);
+      usePatternStore.getState().setTrackRhythm(0, [true, false, false, false]);
+      const steps = usePatternStore.getState().currentPattern!.tracks[0].steps;
+
+      expect(steps.filter((step) => step.active)).toHaveLength(4);
+      expect(steps[12].active).toBe(true);
+      expect(steps[1]).toMatchObject({ active: false, velocity: undefined });
+      expect(steps[0]).toMatchObject({
+        finger: FINGER_DEFAULTS[PAD_IDS[0]],
+        velocity: 100,
+      });
+    });
+  });
+
+  describe('transforms', () => {
+    beforeEach(() => {
+      usePatternStore.getState().createEmptyPattern();
+    });
+
+    it('rotates the whole pattern without a range', () => {
+      usePatternStore.getState().toggleStep(0, 0);
+      usePatternStore.getState().toggleStep(5, 15);
+      usePatternStore.getState().rotateSteps(1);
+      const tracks = usePatternStore.getState().currentPattern!.tracks;
+
+      expect(tracks[0].steps[1].active).toBe(true);
+      expect(tracks[5].steps[0].active).toBe(true);
+    });
+
+    it('reverses only the given range', () => {
+      usePatternStore.getState().toggleStep(0, 0);
+      usePatternStore.getState().toggleStep(1, 0);
+      usePatternStore.getState().reverseSteps({ startTrack: 0, endTrack: 0, startStep: 0, endStep: 3 });
+      const tracks = usePatternStore.getState().currentPattern!.tracks;
+
+      expect(tracks[0].steps[3].active).toBe(true);
+      expect(tracks[1].steps[0].active).toBe(true);
+    });
+  });
+
+  describe('setSwing', () => {
+    beforeEach(() => {
+      usePatternStore.getState().createEmptyPattern();
+    });
+
+    it('sets a clamped swing amount', () => {
+      usePatternStore.getState().setSwing(62);
+      expect(usePatternStore.getState().currentPattern!.swing).toBe(62);
+
+      usePatternStore.getState().setSwing(90);
+      expect(usePatternStore.getState().currentPattern!.swing).toBe(75);
+    });
+
+    it('stores straight timing as undefined', () => {
+      usePatternStore.getState().setSwing(60);
+      usePatternStore.getState().setSwing(50);
+
+      expect(usePatternStore.getState().currentPattern!.swing).toBeUndefined();
+    });
+
+    it('sets the swung note value', () => {
+      usePatternStore.getState().setSwingUnit('8n');
+
+      expect(usePatternStore.getState().currentPattern!.swingUnit).toBe('8n');
+    });
+  });
+
+  describe('track mute/solo', () => {
+    beforeEach(() => {
+      usePatternStore.getState().createEmptyPattern();
+    });
+
+    it('mutes and unmutes a track', () => {
+      usePatternStore.getState().setTrackMuted(2, true);
+      expect(usePatternStore.getState().currentPattern!.tracks[2].muted).toBe(true);
+
+      usePatternStore.getState().setTrackMuted(2, false);
+      expect(usePatternStore.getState().currentPattern!.tracks[2].muted).toBeUndefined();
+    });
+
+    it('solos a track without touching the others', () => {
+      usePatternStore.getState().setTrackSolo(0, true);
+      const tracks = usePatternStore.getState().currentPattern!.tracks;
+
+      expect(tracks[0].solo).toBe(true);
+      expect(tracks[1].solo).toBeUndefined();
+    });
+  });
+
+  describe('setTrackLength', () => {
+    beforeEach(() => {
+      usePatternStore.getState().createEmptyPattern('Poly', 1, '16n');
+    });
+
+    it('sets a shorter loop length', () => {
+      usePatternStore.getState().setTrackLength(4, 3);
+
+      expect(usePatternStore.getState().currentPattern!.tracks[4].length).toBe(3);
+      expect(usePatternStore.getState().currentPattern!.tracks[4].steps).toHaveLength(16);
+    });
+
+    it('clamps to the pattern length and stores full length as undefined', () => {
+      usePatternStore.getState().setTrackLength(4, 3);
+      usePatternStore.getState().setTrackLength(4, 40);
+      expect(usePatternStore.getState().currentPattern!.tracks[4].length).toBeUndefined();
+
+      usePatternStore.getState().setTrackLength(4, 0);
+      expect(usePatternStore.getState().currentPattern!.tracks[4].length).toBe(1);
+    });
+
+    it('keeps the loop duration when the subdivision changes', () => {
+      usePatternStore.getState().setTrackLength(4, 6);
+      usePatternStore.getState().setSubdivision('32n');
+
+      expect(usePatternStore.getState().currentPattern!.tracks[4].length).toBe(12);
+    });
+
+    it('keeps the loop length when bars are added', () => {
+      usePatternStore.getState().setTrackLength(4, 3);
+      usePatternStore.getState().setBars(2);
+
+      expect(usePatternStore.getState().currentPattern!.tracks[4].length).toBe(3);
+    });
+  });
 });
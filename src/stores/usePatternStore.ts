@@ -2,9 +2,14 @@
  * Pattern Store - Zustand store for drum pattern state management
  *
  * Manages the current pattern state including:
- * - Pattern creation and reset
+ * - Pattern creation and reset, or loading a built-in groove preset
  * - Step toggling (active/inactive)
  * - Finger designation updates
+ * - Per-step velocity and articulation
+ * - Transforms (rotate, reverse, hand-mirror, time-stretch) on the whole
+ *   pattern or a selected block
+ *
+ * Undo/redo for every mutation is recorded by useHistoryStore.
  */
 
 import { create } from 'zustand';
@@ -14,9 +19,59 @@ import type {
   PatternStep,
   FingerDesignation,
   Subdivision,
+  TimeSignature,
+  Articulation,
+  StepCondition,
+  SubdivisionSource,
+  SwingUnit,
+} from '../types/pattern';
+import {
+  getTotalSteps,
+  getStepsPerBeat,
+  getStepsPerBar,
+  getPatternTimeSignature,
+  getStepVelocity,
+  getTrackLength,
+  isSubdivisionCompatible,
+  DEFAULT_TIME_SIGNATURE,
+  DEFAULT_VELOCITY,
+  MIN_VELOCITY,
+  MAX_VELOCITY,
+  DEFAULT_BPM,
+  clampBpm,
 } from '../types/pattern';
-import { getTotalSteps, getStepsPerBeat } from '../types/pattern';
 import { PAD_IDS, PADS, FINGER_DEFAULTS, type PadId } from '../config/padMapping';
+import { clampSwing, DEFAULT_SWING } from '../utils/swing';
+import { normalizeStepCondition } from '../utils/stepConditions';
+import {
+  rotateSteps,
+  reverseSteps,
+  stretchSteps,
+  transformTrackSteps,
+  mirrorTrackHands,
+  type StepRange,
+  type TimeStretch,
+} from '../utils/patternTransforms';
+import { tileRhythm } from '../utils/euclidean';
+import { parsePresetSteps, type GroovePreset } from '../config/groovePresets';
+
+/**
+ * Notes affected by a subdivision change, per track
+ */
+export interface SubdivisionChangeReport {
+  /** Subdivision the conversion starts from (the original grid if the pattern was converted before) */
+  from: Subdivision;
+  to: Subdivision;
+  /** Tracks with lost or moved notes, in pattern order */
+  tracks: Array<{
+    trackIndex: number;
+    label: string;
+    /** Source step indices of notes that would be dropped */
+    lost: number[];
+    /** Notes that would be quantized to another step (source → new index) */
+    moved: Array<{ from: number; to: number }>;
+  }>;
+}
 
 /**
  * Pattern store state interface
@@ -36,24 +91,65 @@ interface PatternActions {
   createEmptyPattern: (name?: string, bars?: 1 | 2 | 3 | 4, subdivision?: Subdivision) => void;
   /** Set the current pattern to a specific pattern */
   setPattern: (pattern: DrumPattern) => void;
+  /**
+   * Load a pattern as a new one (presets, imports) under a fresh ID, so the
+   * song part or library entry that was open is never overwritten
+   */
+  loadNewPattern: (pattern: DrumPattern) => void;
+  /** Replace the current pattern with a groove preset, as a new pattern */
+  loadPreset: (preset: GroovePreset) => void;
   /** Reset the current pattern to null */
   resetPattern: () => void;
   /** Set the pattern name (Story 4.4) */
   setPatternName: (name: string) => void;
   /** Mark URL pattern check as complete */
   setUrlCheckComplete: (complete: boolean) => void;
+  /** Set the pattern tempo (clamped to 40-200 BPM) */
+  setBpm: (bpm: number) => void;
   /** Set the number of bars (1-4) */
   setBars: (bars: 1 | 2 | 3 | 4) => void;
-  /** Set the subdivision (8n, 16n, 32n) */
+  /** Set the subdivision (8n, 16n, 32n); switching back after a lossy change restores the notes */
   setSubdivision: (subdivision: Subdivision) => void;
+  /** Preview which notes a subdivision change would drop or move */
+  getSubdivisionChangeReport: (subdivision: Subdivision) => SubdivisionChangeReport | null;
+  /** Set the time signature (keeps each bar's notes in the same bar; ignored if the grid doesn't fit it) */
+  setTimeSignature: (timeSignature: TimeSignature) => void;
+  /** Set the swing percentage (clamped to 50-75) */
+  setSwing: (swing: number) => void;
+  /** Set which note value is swung (8n or 16n pairs) */
+  setSwingUnit: (unit: SwingUnit) => void;
   /** Toggle a step's active state */
   toggleStep: (trackIndex: number, stepIndex: number) => void;
+  /** Set a step's active state explicitly (used by drag-paint) */
+  setStepActive: (trackIndex: number, stepIndex: number, active: boolean) => void;
   /** Update a step's finger designation */
   updateStepFinger: (
     trackIndex: number,
     stepIndex: number,
     finger: FingerDesignation
   ) => void;
+  /** Set an active step's velocity (clamped to 1-127) */
+  setStepVelocity: (trackIndex: number, stepIndex: number, velocity: number) => void;
+  /** Set an active step's articulation */
+  setStepArticulation: (trackIndex: number, stepIndex: number, articulation: Articulation) => void;
+  /** Set an active step's trigger condition (undefined = every loop) */
+  setStepCondition: (trackIndex: number, stepIndex: number, condition: StepCondition | undefined) => void;
+  /** Mute or unmute a track */
+  setTrackMuted: (trackIndex: number, muted: boolean) => void;
+  /** Solo or unsolo a track */
+  setTrackSolo: (trackIndex: number, solo: boolean) => void;
+  /** Set a track's loop length in steps (clamped to 1 - pattern length) */
+  setTrackLength: (trackIndex: number, length: number) => void;
+  /** Replace a track's notes with a rhythm, repeated across its steps (e.g. a Euclidean rhythm) */
+  setTrackRhythm: (trackIndex: number, rhythm: boolean[]) => void;
+  /** Rotate steps by `amount` (positive = later) within the range, or each track's loop */
+  rotateSteps: (amount: number, range?: StepRange) => void;
+  /** Reverse steps within the range, or each track's loop */
+  reverseSteps: (range?: StepRange) => void;
+  /** Swap left/right pads and hands within the range, or the whole pattern */
+  mirrorHands: (range?: StepRange) => void;
+  /** Stretch (x2) or squeeze (x0.5) steps within the range, or each track's loop */
+  stretchTime: (factor: TimeStretch, range?: StepRange) => void;
 }
 
 type PatternStore = PatternState & PatternActions;
@@ -109,13 +205,25 @@ function createPattern(
   return {
     id: generatePatternId(),
     name: name ?? 'New Pattern',
-    bpm: 120,
+    bpm: DEFAULT_BPM,
     subdivision,
     bars,
+    timeSignature: { ...DEFAULT_TIME_SIGNATURE },
     tracks: PAD_IDS.map((padId) => createTrack(padId, totalSteps)),
   };
 }
 
+/**
+ * Apply a loop length to a track, clamped to its step count
+ * A length covering every step is stored as undefined (full length)
+ */
+function withTrackLength(track: PatternTrack, length: number | undefined): PatternTrack {
+  const clamped = length === undefined
+    ? undefined
+    : Math.max(1, Math.min(track.steps.length, Math.round(length)));
+  return { ...track, length: clamped === track.steps.length ? undefined : clamped };
+}
+
 /**
  * Resize track steps when bars changes (simple extend/truncate)
  * Preserves existing step data where possible
@@ -132,7 +240,40 @@ function resizeTrackSteps(track: PatternTrack, newStepCount: number): PatternTra
     }
   }
 
-  return { ...track, steps: newSteps };
+  return withTrackLength({ ...track, steps: newSteps }, track.length);
+}
+
+/**
+ * Re-flow track steps bar by bar when the bar length changes (time signature change)
+ * Each bar keeps its own notes; notes beyond the new bar length are dropped
+ */
+function reflowTrackBars(
+  track: PatternTrack,
+  oldStepsPerBar: number,
+  newStepsPerBar: number,
+  bars: number
+): PatternTrack {
+  const newSteps: PatternStep[] = [];
+
+  for (let bar = 0; bar < bars; bar++) {
+    for (let i = 0; i < newStepsPerBar; i++) {
+      const oldStep = i < oldStepsPerBar ? track.steps[bar * oldStepsPerBar + i] : undefined;
+      newSteps.push(oldStep ? { ...oldStep } : { active: false, velocity: undefined, finger: undefined });
+    }
+  }
+
+  return withTrackLength({ ...track, steps: newSteps }, track.length);
+}
+
+/**
+ * Result of converting one track to another subdivision
+ */
+interface TrackConversion {
+  track: PatternTrack;
+  /** Old step indices of notes dropped by the conversion */
+  lost: number[];
+  /** Notes that had to be quantized to a different time (old → new step index) */
+  moved: Array<{ from: number; to: number }>;
 }
 
 /**
@@ -140,82 +281,150 @@ function resizeTrackSteps(track: PatternTrack, newStepCount: number): PatternTra
  *
  * For integer ratios (e.g., 8n→16n):
  *   Spread steps out with gaps (0→0, 1→2, 2→4...)
+ *   When combining (e.g., 16n→8n), notes between the coarser steps are lost
  *
  * For triplet conversions (e.g., 8n→8t, 16n→16t):
  *   Uses time-based quantization to map steps to nearest positions
- *   Some data loss may occur when converting between straight and triplet
+ *   Notes may move, and are lost when two land on the same step
  */
-function convertTrackSubdivision(
+function planTrackConversion(
   track: PatternTrack,
   fromSubdivision: Subdivision,
   toSubdivision: Subdivision,
-  bars: number
-): PatternTrack {
+  bars: number,
+  timeSignature: TimeSignature
+): TrackConversion {
   const fromStepsPerBeat = getStepsPerBeat(fromSubdivision);
   const toStepsPerBeat = getStepsPerBeat(toSubdivision);
-  const newTotalSteps = getTotalSteps(bars, toSubdivision);
-  const oldTotalSteps = track.steps.length;
+  const newTotalSteps = getTotalSteps(bars, toSubdivision, timeSignature);
 
   const newSteps: PatternStep[] = Array.from({ length: newTotalSteps }, () => ({
     active: false,
     velocity: undefined,
     finger: undefined,
   }));
+  const lost: number[] = [];
+  const moved: Array<{ from: number; to: number }> = [];
 
   const ratio = toStepsPerBeat / fromStepsPerBeat;
 
   // Check if this is a clean integer ratio conversion
   const isCleanRatio = Number.isInteger(ratio) || Number.isInteger(1 / ratio);
 
-  if (isCleanRatio) {
-    // Clean ratio conversion (e.g., 8n→16n, 16n→32n)
-    if (ratio > 1) {
-      // Subdividing: spread steps out
-      track.steps.forEach((step, oldIndex) => {
-        const newIndex = Math.round(oldIndex * ratio);
-        if (newIndex < newTotalSteps && step.active) {
-          newSteps[newIndex] = { ...step };
-        }
-      });
-    } else {
-      // Combining: keep every Nth step
-      const step = 1 / ratio;
-      for (let newIndex = 0; newIndex < newTotalSteps; newIndex++) {
-        const oldIndex = Math.round(newIndex * step);
-        if (oldIndex < oldTotalSteps && track.steps[oldIndex]?.active) {
-          newSteps[newIndex] = { ...track.steps[oldIndex] };
-        }
-      }
+  track.steps.forEach((step, oldIndex) => {
+    if (!step.active) return;
+
+    // Time-based mapping: beat position of this step on the new grid
+    const exactIndex = (oldIndex / fromStepsPerBeat) * toStepsPerBeat;
+    const newIndex = Math.round(exactIndex);
+    const isExact = Math.abs(exactIndex - newIndex) < 1e-9;
+
+    // Clean ratios never quantize; only triplet conversions may move notes
+    if (
+      (isCleanRatio && !isExact) ||
+      newIndex >= newTotalSteps ||
+      newSteps[newIndex].active
+    ) {
+      lost.push(oldIndex);
+      return;
+    }
+
+    newSteps[newIndex] = { ...step };
+    if (!isExact) {
+      moved.push({ from: oldIndex, to: newIndex });
     }
-  } else {
-    // Non-integer ratio (triplet conversion)
-    // Use time-based mapping: calculate beat position and map to new grid
-    const beatsPerBar = 4;
-    const totalBeats = bars * beatsPerBar;
+  });
+
+  // Loop length keeps its duration on the new grid
+  const length = track.length === undefined ? undefined : track.length * ratio;
+  return {
+    track: withTrackLength({ ...track, steps: newSteps }, length),
+    lost,
+    moved,
+  };
+}
 
-    track.steps.forEach((step, oldIndex) => {
-      if (!step.active) return;
+/**
+ * Convert track steps when subdivision changes (see planTrackConversion)
+ */
+function convertTrackSubdivision(
+  track: PatternTrack,
+  fromSubdivision: Subdivision,
+  toSubdivision: Subdivision,
+  bars: number,
+  timeSignature: TimeSignature
+): PatternTrack {
+  return planTrackConversion(track, fromSubdivision, toSubdivision, bars, timeSignature).track;
+}
 
-      // Calculate beat position of this step
-      const beatPosition = oldIndex / fromStepsPerBeat;
+/**
+ * Check if two steps play the same note (data of inactive steps is ignored)
+ */
+function isSameStep(a: PatternStep, b: PatternStep): boolean {
+  if (a.active !== b.active) return false;
+  if (!a.active) return true;
+  const conditionA = normalizeStepCondition(a.condition);
+  const conditionB = normalizeStepCondition(b.condition);
+  return (
+    getStepVelocity(a) === getStepVelocity(b) &&
+    a.finger?.hand === b.finger?.hand &&
+    a.finger?.finger === b.finger?.finger &&
+    (a.articulation ?? 'normal') === (b.articulation ?? 'normal') &&
+    conditionA?.probability === conditionB?.probability &&
+    conditionA?.iteration === conditionB?.iteration &&
+    conditionA?.cycle === conditionB?.cycle
+  );
+}
 
-      // Calculate new step index based on beat position
-      const newIndex = Math.round(beatPosition * toStepsPerBeat);
+/**
+ * Check if two tracks hold the same notes and settings
+ */
+function isSameTrack(a: PatternTrack, b: PatternTrack): boolean {
+  return (
+    a.padId === b.padId &&
+    getTrackLength(a) === getTrackLength(b) &&
+    !!a.muted === !!b.muted &&
+    !!a.solo === !!b.solo &&
+    a.steps.length === b.steps.length &&
+    a.steps.every((step, i) => isSameStep(step, b.steps[i]))
+  );
+}
 
-      // Only copy if within bounds and cell is not already filled
-      if (newIndex < newTotalSteps && !newSteps[newIndex].active) {
-        newSteps[newIndex] = { ...step };
-      }
+/**
+ * Get the subdivision and tracks a conversion of the pattern should start from
+ *
+ * The notes from before the last subdivision change are used while the
+ * pattern still holds exactly what converting them produced, so switching
+ * back (or on to another grid) starts from the original notes instead of
+ * the lossy result. The check is by content, so it holds across undo/redo,
+ * song part switches and patterns restored from a link or storage.
+ */
+function getConversionSource(pattern: DrumPattern): Pick<SubdivisionSource, 'subdivision' | 'tracks'> {
+  const source = pattern.subdivisionSource;
+  if (!source) return pattern;
+
+  const timeSignature = getPatternTimeSignature(pattern);
+  const sourceSteps = getTotalSteps(source.bars, source.subdivision, source.timeSignature);
+  const isSameGrid =
+    source.bars === pattern.bars &&
+    source.timeSignature.numerator === timeSignature.numerator &&
+    source.timeSignature.denominator === timeSignature.denominator &&
+    source.tracks.every((track) => track.steps.length === sourceSteps);
+  if (!isSameGrid) return pattern;
+
+  const isUnedited =
+    source.tracks.length === pattern.tracks.length &&
+    source.tracks.every((track, i) => {
+      const converted = convertTrackSubdivision(track, source.subdivision, pattern.subdivision, pattern.bars, timeSignature);
+      return isSameTrack(converted, pattern.tracks[i]);
     });
-  }
-
-  return { ...track, steps: newSteps };
+  return isUnedited ? source : pattern;
 }
 
 /**
  * Pattern store for managing drum patterns
  */
-export const usePatternStore = create<PatternStore>((set) => ({
+export const usePatternStore = create<PatternStore>((set, get) => ({
   // Initial state
   currentPattern: null,
   urlCheckComplete: false,
@@ -229,6 +438,27 @@ export const usePatternStore = create<PatternStore>((set) => ({
     set({ currentPattern: pattern });
   },
 
+  loadNewPattern: (pattern: DrumPattern) => {
+    set({ currentPattern: { ...pattern, id: generatePatternId() } });
+  },
+
+  loadPreset: (preset: GroovePreset) => {
+    const pattern = createPattern(preset.name, preset.bars, preset.subdivision);
+
+    get().loadNewPattern({
+      ...pattern,
+      bpm: clampBpm(preset.bpm),
+      swing: preset.swing,
+      swingUnit: preset.swingUnit,
+      tracks: pattern.tracks.map((track) => {
+        const presetTrack = preset.tracks[track.padId as PadId];
+        return presetTrack
+          ? { ...track, steps: parsePresetSteps(presetTrack, track.defaultFinger) }
+          : track;
+      }),
+    });
+  },
+
   resetPattern: () => {
     set({ currentPattern: null });
   },
@@ -255,12 +485,32 @@ export const usePatternStore = create<PatternStore>((set) => ({
     });
   },
 
+  setBpm: (bpm: number) => {
+    set((state) => {
+      if (!state.currentPattern) return state;
+
+      const clamped = clampBpm(bpm);
+      if (state.currentPattern.bpm === clamped) return state;
+
+      return {
+        currentPattern: {
+          ...state.currentPattern,
+          bpm: clamped,
+        },
+      };
+    });
+  },
+
   // Set number of bars (resizes all tracks)
   setBars: (bars: 1 | 2 | 3 | 4) => {
     set((state) => {
       if (!state.currentPattern) return state;
 
-      const newStepCount = getTotalSteps(bars, state.currentPattern.subdivision);
+      const newStepCount = getTotalSteps(
+        bars,
+        state.currentPattern.subdivision,
+        getPatternTimeSignature(state.currentPattern)
+      );
       const resizedTracks = state.currentPattern.tracks.map((track) =>
         resizeTrackSteps(track, newStepCount)
       );
@@ -270,6 +520,8 @@ export const usePatternStore = create<PatternStore>((set) => ({
           ...state.currentPattern,
           bars,
           tracks: resizedTracks,
+          // Notes kept from before a subdivision change belong to the old length
+          subdivisionSource: undefined,
         },
       };
     });
@@ -280,19 +532,123 @@ export const usePatternStore = create<PatternStore>((set) => ({
     set((state) => {
       if (!state.currentPattern) return state;
 
-      const fromSubdivision = state.currentPattern.subdivision;
+      if (subdivision === state.currentPattern.subdivision) return state;
+
       const bars = state.currentPattern.bars;
+      const timeSignature = getPatternTimeSignature(state.currentPattern);
 
-      // Convert tracks with proper interleaving
-      const convertedTracks = state.currentPattern.tracks.map((track) =>
-        convertTrackSubdivision(track, fromSubdivision, subdivision, bars)
-      );
+      // Grid must fit a whole number of steps into each bar
+      if (!isSubdivisionCompatible(subdivision, timeSignature)) return state;
+
+      // Convert from the original notes if this pattern was converted before
+      const source = getConversionSource(state.currentPattern);
+      const isBackToSource = subdivision === source.subdivision;
+      const convertedTracks = isBackToSource
+        ? source.tracks
+        : source.tracks.map((track) =>
+          convertTrackSubdivision(track, source.subdivision, subdivision, bars, timeSignature)
+        );
 
       return {
         currentPattern: {
           ...state.currentPattern,
           subdivision,
           tracks: convertedTracks,
+          subdivisionSource: isBackToSource
+            ? undefined
+            : { subdivision: source.subdivision, bars, timeSignature: { ...timeSignature }, tracks: source.tracks },
+        },
+      };
+    });
+  },
+
+  getSubdivisionChangeReport: (subdivision: Subdivision) => {
+    const pattern = get().currentPattern;
+    if (!pattern) return null;
+
+    const source = getConversionSource(pattern);
+    const timeSignature = getPatternTimeSignature(pattern);
+    const tracks: SubdivisionChangeReport['tracks'] = [];
+
+    if (subdivision !== source.subdivision) {
+      source.tracks.forEach((track, trackIndex) => {
+        const { lost, moved } = planTrackConversion(
+          track,
+          source.subdivision,
+          subdivision,
+          pattern.bars,
+          timeSignature
+        );
+        if (lost.length > 0 || moved.length > 0) {
+          tracks.push({ trackIndex, label: track.label, lost, moved });
+        }
+      });
+    }
+
+    return { from: source.subdivision, to: subdivision, tracks };
+  },
+
+  // Set time signature (re-flows each bar on the current grid)
+  setTimeSignature: (timeSignature: TimeSignature) => {
+    set((state) => {
+      if (!state.currentPattern) return state;
+
+      const pattern = state.currentPattern;
+      const { subdivision } = pattern;
+
+      // Grid must fit a whole number of steps into each bar; changing it
+      // here would drop notes without the subdivision change confirmation
+      if (!isSubdivisionCompatible(subdivision, timeSignature)) return state;
+
+      const fromTimeSignature = getPatternTimeSignature(pattern);
+      const tracks = pattern.tracks.map((track) =>
+        reflowTrackBars(
+          track,
+          getStepsPerBar(subdivision, fromTimeSignature),
+          getStepsPerBar(subdivision, timeSignature),
+          pattern.bars
+        )
+      );
+
+      return {
+        currentPattern: {
+          ...pattern,
+          timeSignature: { ...timeSignature },
+          tracks,
+          // Notes kept from before a subdivision change belong to the old meter
+          subdivisionSource: undefined,
+        },
+      };
+    });
+  },
+
+  setSwing: (swing: number) => {
+    set((state) => {
+      if (!state.currentPattern) return state;
+
+      // Straight timing is stored as undefined to keep patterns compact
+      const clamped = clampSwing(swing);
+      const value = clamped === DEFAULT_SWING ? undefined : clamped;
+      if (state.currentPattern.swing === value) return state;
+
+      return {
+        currentPattern: {
+          ...state.currentPattern,
+          swing: value,
+        },
+      };
+    });
+  },
+
+  setSwingUnit: (unit: SwingUnit) => {
+    set((state) => {
+      if (!state.currentPattern) return state;
+      if (state.currentPattern.swingUnit === unit) return state;
+
+      return {
+        currentPattern: {
+          ...state.currentPattern,
+          swingUnit: unit,
         },
       };
     });
@@ -310,11 +666,15 @@ export const usePatternStore = create<PatternStore>((set) => ({
       // Toggle active state
       step.active = !step.active;
 
-      // If activating, set default finger; if deactivating, clear finger
+      // If activating, set default finger and velocity; if deactivating, clear them
       if (step.active) {
         step.finger = { ...track.defaultFinger };
+        step.velocity = DEFAULT_VELOCITY;
       } else {
         step.finger = undefined;
+        step.velocity = undefined;
+        step.articulation = undefined;
+        step.condition = undefined;
       }
 
       steps[stepIndex] = step;
@@ -330,6 +690,36 @@ export const usePatternStore = create<PatternStore>((set) => ({
     });
   },
 
+  setStepActive: (trackIndex: number, stepIndex: number, active: boolean) => {
+    set((state) => {
+      if (!state.currentPattern) return state;
+
+      const track = state.currentPattern.tracks[trackIndex];
+      const current = track?.steps[stepIndex];
+      // No-op if the step is missing or already in the requested state
+      if (!current || current.active === active) return state;
+
+      const tracks = [...state.currentPattern.tracks];
+      const steps = [...track.steps];
+      steps[stepIndex] = {
+        ...current,
+        active,
+        velocity: active ? DEFAULT_VELOCITY : undefined,
+        finger: active ? { ...track.defaultFinger } : undefined,
+        articulation: undefined,
+        condition: undefined,
+      };
+      tracks[trackIndex] = { ...track, steps };
+
+      return {
+        currentPattern: {
+          ...state.currentPattern,
+          tracks,
+        },
+      };
+    });
+  },
+
   updateStepFinger: (
     trackIndex: number,
     stepIndex: number,
@@ -360,6 +750,229 @@ export const usePatternStore = create<PatternStore>((set) => ({
       };
     });
   },
+
+  setStepVelocity: (trackIndex: number, stepIndex: number, velocity: number) => {
+    set((state) => {
+      if (!state.currentPattern) return state;
+
+      const track = state.currentPattern.tracks[trackIndex];
+      const current = track?.steps[stepIndex];
+      const clamped = Math.max(MIN_VELOCITY, Math.min(MAX_VELOCITY, Math.round(velocity)));
+      // Only active steps carry a velocity
+      if (!current?.active || current.velocity === clamped) return state;
+
+      const tracks = [...state.currentPattern.tracks];
+      const steps = [...track.steps];
+      steps[stepIndex] = { ...current, velocity: clamped };
+      tracks[trackIndex] = { ...track, steps };
+
+      return {
+        currentPattern: {
+          ...state.currentPattern,
+          tracks,
+        },
+      };
+    });
+  },
+
+  setStepArticulation: (trackIndex: number, stepIndex: number, articulation: Articulation) => {
+    set((state) => {
+      if (!state.currentPattern) return state;
+
+      const track = state.currentPattern.tracks[trackIndex];
+      const current = track?.steps[stepIndex];
+      if (!current?.active) return state;
+
+      // 'normal' is stored as undefined to keep patterns compact
+      const value = articulation === 'normal' ? undefined : articulation;
+      if (current.articulation === value) return state;
+
+      const tracks = [...state.currentPattern.tracks];
+      const steps = [...track.steps];
+      steps[stepIndex] = { ...current, articulation: value };
+      tracks[trackIndex] = { ...track, steps };
+
+      return {
+        currentPattern: {
+          ...state.currentPattern,
+          tracks,
+        },
+      };
+    });
+  },
+
+  setStepCondition: (trackIndex: number, stepIndex: number, condition: StepCondition | undefined) => {
+    set((state) => {
+      if (!state.currentPattern) return state;
+
+      const track = state.currentPattern.tracks[trackIndex];
+      const current = track?.steps[stepIndex];
+      if (!current?.active) return state;
+
+      const value = normalizeStepCondition(condition);
+      if (!value && !current.condition) return state;
+
+      const tracks = [...state.currentPattern.tracks];
+      const steps = [...track.steps];
+      steps[stepIndex] = { ...current, condition: value };
+      tracks[trackIndex] = { ...track, steps };
+
+      return {
+        currentPattern: {
+          ...state.currentPattern,
+          tracks,
+        },
+      };
+    });
+  },
+
+  setTrackMuted: (trackIndex: number, muted: boolean) => {
+    set((state) => {
+      if (!state.currentPattern) return state;
+
+      const track = state.currentPattern.tracks[trackIndex];
+      if (!track || !!track.muted === muted) return state;
+
+      // Flags are stored only while set to keep patterns compact
+      const tracks = [...state.currentPattern.tracks];
+      tracks[trackIndex] = { ...track, muted: muted || undefined };
+
+      return {
+        currentPattern: {
+          ...state.currentPattern,
+          tracks,
+        },
+      };
+    });
+  },
+
+  setTrackSolo: (trackIndex: number, solo: boolean) => {
+    set((state) => {
+      if (!state.currentPattern) return state;
+
+      const track = state.currentPattern.tracks[trackIndex];
+      if (!track || !!track.solo === solo) return state;
+
+      const tracks = [...state.currentPattern.tracks];
+      tracks[trackIndex] = { ...track, solo: solo || undefined };
+
+      return {
+        currentPattern: {
+          ...state.currentPattern,
+          tracks,
+        },
+      };
+    });
+  },
+
+  setTrackLength: (trackIndex: number, length: number) => {
+    set((state) => {
+      if (!state.currentPattern) return state;
+
+      const track = state.currentPattern.tracks[trackIndex];
+      if (!track) return state;
+
+      const updated = withTrackLength(track, length);
+      if (updated.length === track.length) return state;
+
+      const tracks = [...state.currentPattern.tracks];
+      tracks[trackIndex] = updated;
+
+      return {
+        currentPattern: {
+          ...state.currentPattern,
+          tracks,
+        },
+      };
+    });
+  },
+
+  setTrackRhythm: (trackIndex: number, rhythm: boolean[]) => {
+    set((state) => {
+      if (!state.currentPattern) return state;
+      const track = state.currentPattern.tracks[trackIndex];
+      if (!track) return state;
+
+      // New notes play with the track's default finger and velocity
+      const hits = tileRhythm(rhythm, track.steps.length);
+      const newTracks = [...state.currentPattern.tracks];
+      newTracks[trackIndex] = {
+        ...track,
+        steps: createEmptySteps(hits.length).map((step, i) =>
+          hits[i]
+            ? { ...step, active: true, finger: { ...track.defaultFinger }, velocity: DEFAULT_VELOCITY }
+            : step
+        ),
+      };
+
+      return {
+        currentPattern: {
+          ...state.currentPattern,
+          tracks: newTracks,
+        },
+      };
+    });
+  },
+
+  rotateSteps: (amount: number, range?: StepRange) => {
+    set((state) => {
+      if (!state.currentPattern) return state;
+
+      return {
+        currentPattern: {
+          ...state.currentPattern,
+          tracks: transformTrackSteps(
+            state.currentPattern.tracks,
+            (steps) => rotateSteps(steps, amount),
+            range
+          ),
+        },
+      };
+    });
+  },
+
+  reverseSteps: (range?: StepRange) => {
+    set((state) => {
+      if (!state.currentPattern) return state;
+
+      return {
+        currentPattern: {
+          ...state.currentPattern,
+          tracks: transformTrackSteps(state.currentPattern.tracks, reverseSteps, range),
+        },
+      };
+    });
+  },
+
+  mirrorHands: (range?: StepRange) => {
+    set((state) => {
+      if (!state.currentPattern) return state;
+
+      return {
+        currentPattern: {
+          ...state.currentPattern,
+          tracks: mirrorTrackHands(state.currentPattern.tracks, range),
+        },
+      };
+    });
+  },
+
+  stretchTime: (factor: TimeStretch, range?: StepRange) => {
+    set((state) => {
+      if (!state.currentPattern) return state;
+
+      return {
+        currentPattern: {
+          ...state.currentPattern,
+          tracks: transformTrackSteps(
+            state.currentPattern.tracks,
+            (steps) => stretchSteps(steps, factor),
+            range
+          ),
+        },
+      };
+    });
+  },
 }));
 
 // Expose store to window for browser console debugging (development only)
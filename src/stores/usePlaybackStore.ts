@@ -6,6 +6,10 @@
  * - Manages current step position (0-N based on bars/subdivision)
  * - Syncs BPM with Tone.Transport
  *
+ * Tempo: the current pattern's bpm drives the Transport, so loading a
+ * pattern sets the tempo and BPM edits are saved with the pattern.
+ * A practice tempo temporarily overrides it without changing the pattern.
+ *
  * Story 3.5: Sequenced Audio Playback
  * - Plays drum sounds for active notes on each step
  * - Synchronized with Transport timing
@@ -13,6 +17,13 @@
  * Story 4.5: Dynamic subdivision support
  * - Supports 8n, 16n, 32n subdivisions
  * - Step count varies based on bars and subdivision
+ *
+ * Time signatures: step count follows the pattern's bar length,
+ * seeking moves by one counted beat of the time signature
+ *
+ * Song mode: plays through useSongStore's arrangement, switching the
+ * sequencer to each entry's pattern as it starts and rescheduling
+ * when consecutive patterns use different subdivisions
  */
 
 import { create } from 'zustand';
@@ -20,16 +31,27 @@ import * as Tone from 'tone';
 import { Draw } from 'tone';
 import { usePatternStore } from './usePatternStore';
 import { useAudioStore } from './useAudioStore';
-import { getStepsPerBeat } from '../types/pattern';
+import { useSongStore, advanceSongPosition } from './useSongStore';
+import { useHistoryStore } from './useHistoryStore';
+import {
+  getStepsPerBeat,
+  getStepsPerCountedBeat,
+  getPatternTimeSignature,
+  getStepVelocity,
+  getTrackLength,
+  getTrackStepIndex,
+  hasSoloTrack,
+  isTrackAudible,
+  clampBpm,
+  DEFAULT_BPM,
+  MIN_BPM,
+  MAX_BPM,
+} from '../types/pattern';
 import type { PadId } from '../config/padMapping';
-import type { Subdivision } from '../types/pattern';
-
-/** Default BPM */
-const DEFAULT_BPM = 120;
-
-/** BPM range limits */
-const MIN_BPM = 40;
-const MAX_BPM = 200;
+import type { DrumPattern, Subdivision } from '../types/pattern';
+import type { SongPosition } from '../types/song';
+import { getPatternSwing, getSwingOffset } from '../utils/swing';
+import { shouldStepFire } from '../utils/stepConditions';
 
 interface PlaybackStore {
   /** Whether pattern is currently playing */
@@ -38,12 +60,18 @@ interface PlaybackStore {
   isPaused: boolean;
   /** Current step position (0-15) */
   currentStep: number;
-  /** Tempo in BPM */
+  /** Completed passes of the current pattern, for wrapping tracks with their own length */
+  currentPass: number;
+  /** Tempo the Transport runs at: the practice tempo if set, otherwise the pattern's */
   bpm: number;
+  /** Temporary practice tempo overriding the pattern's (not saved), null when off */
+  practiceBpm: number | null;
   /** Saved Transport position when paused (in seconds) */
   pausedPosition: number;
   /** Whether looping is enabled */
   isLooping: boolean;
+  /** Transport position (seconds) where the current pattern pass started (song mode) */
+  segmentStart: number;
 
   /** Start playback */
   play: () => void;
@@ -53,11 +81,13 @@ interface PlaybackStore {
   stop: () => void;
   /** Toggle play/stop */
   toggle: () => void;
-  /** Set BPM (clamped to 40-200) */
+  /** Set BPM (clamped to 40-200); changes the practice tempo while one is set, otherwise the pattern's */
   setBpm: (bpm: number) => void;
   /** Increment BPM by delta */
   adjustBpm: (delta: number) => void;
-  /** Reset playback state */
+  /** Set or clear (null) the practice tempo */
+  setPracticeBpm: (bpm: number | null) => void;
+  /** Reset playback state and clear the practice tempo */
   reset: () => void;
   /** Seek forward by one beat */
   seekForward: () => void;
@@ -72,24 +102,82 @@ interface PlaybackStore {
 /** ID for scheduled transport event */
 let scheduleId: number | null = null;
 
+/** Set while song playback loads the next entry into the sequencer */
+let isSongAdvance = false;
+
 /**
- * Clamp BPM to valid range
+ * Get the pattern to play at a song position (falls back to the sequencer's pattern)
  */
-function clampBpm(value: number): number {
-  return Math.max(MIN_BPM, Math.min(MAX_BPM, Math.round(value)));
+function getSongPattern(position: SongPosition): DrumPattern | null {
+  const { entries, getPattern } = useSongStore.getState();
+  const entry = entries[position.entryIndex];
+  return (entry && getPattern(entry.patternId)) ?? usePatternStore.getState().currentPattern;
+}
+
+/**
+ * Read Transport.position in seconds
+ */
+function getTransportSeconds(): number {
+  const transportPos = Tone.getTransport().position;
+  return typeof transportPos === 'number'
+    ? transportPos
+    : Tone.Time(transportPos).toSeconds();
+}
+
+/**
+ * Delay of a step caused by the pattern's swing, in seconds
+ */
+function getStepSwingOffset(pattern: DrumPattern, stepIndex: number): number {
+  const { swing, unit } = getPatternSwing(pattern);
+  const stepDuration = Tone.Time(pattern.subdivision).toSeconds();
+  return getSwingOffset(stepIndex, pattern.subdivision, swing, unit, stepDuration);
+}
+
+/**
+ * Get the tempo of the sequencer's pattern
+ */
+function getPatternBpm(): number {
+  const pattern = usePatternStore.getState().currentPattern;
+  return pattern ? clampBpm(pattern.bpm) : DEFAULT_BPM;
 }
 
 export const usePlaybackStore = create<PlaybackStore>((set, get) => {
+  /**
+   * Apply the effective tempo to the Transport
+   */
+  const applyTempo = (practiceBpm: number | null) => {
+    const bpm = practiceBpm ?? getPatternBpm();
+    Tone.getTransport().bpm.value = bpm;
+    set({ bpm, practiceBpm });
+  };
+
+  // Follow the pattern's tempo as patterns are loaded (URL, song entries) or edited
+  usePatternStore.subscribe((state, prevState) => {
+    if (state.currentPattern?.bpm === prevState.currentPattern?.bpm) return;
+
+    // Song playback already scheduled the Transport change at the pass
+    // boundary; setting it now would cancel that and switch early
+    if (isSongAdvance) {
+      set({ bpm: get().practiceBpm ?? getPatternBpm() });
+      return;
+    }
+    applyTempo(get().practiceBpm);
+  });
+
   // Initialize Transport BPM
-  Tone.getTransport().bpm.value = DEFAULT_BPM;
+  const initialBpm = getPatternBpm();
+  Tone.getTransport().bpm.value = initialBpm;
 
   return {
     isPlaying: false,
     isPaused: false,
     currentStep: 0,
-    bpm: DEFAULT_BPM,
+    currentPass: 0,
+    bpm: initialBpm,
+    practiceBpm: null,
     pausedPosition: 0,
     isLooping: true,
+    segmentStart: 0,
 
     play: () => {
       const state = get();
@@ -101,6 +189,17 @@ export const usePlaybackStore = create<PlaybackStore>((set, get) => {
         scheduleId = null;
       }
 
+      // Song mode: start from the entry loaded in the sequencer
+      const song = useSongStore.getState();
+      const isSongMode = song.isSongMode && song.entries.length > 0;
+      let songPosition: SongPosition = {
+        entryIndex: Math.min(song.activeEntryIndex, Math.max(0, song.entries.length - 1)),
+        repeat: state.isPaused ? song.activeRepeat : 0,
+      };
+      if (isSongMode) {
+        song.selectEntry(songPosition.entryIndex, songPosition.repeat);
+      }
+
       // Get pattern subdivision for scheduling interval
       const pattern = usePatternStore.getState().currentPattern;
       const subdivision: Subdivision = pattern?.subdivision ?? '16n';
@@ -110,6 +209,12 @@ export const usePlaybackStore = create<PlaybackStore>((set, get) => {
 
       // Calculate step duration in seconds
       const stepDuration = (60 / bpm) / stepsPerBeat;
+
+      // Keep Transport bar/beat positions in line with the pattern's meter
+      if (pattern) {
+        const { numerator, denominator } = getPatternTimeSignature(pattern);
+        Tone.getTransport().timeSignature = [numerator, denominator];
+      }
       
       // Restore Transport.position if resuming from pause
       let transportPosition: number;
@@ -119,10 +224,7 @@ export const usePlaybackStore = create<PlaybackStore>((set, get) => {
         transportPosition = state.pausedPosition;
       } else {
         // Get current Transport.position (should be 0 for fresh start)
-        const transportPos = Tone.getTransport().position;
-        transportPosition = typeof transportPos === 'number' 
-          ? transportPos 
-          : Tone.Time(transportPos).toSeconds();
+        transportPosition = getTransportSeconds();
       }
       
       // Calculate current step from transport position
@@ -137,54 +239,123 @@ export const usePlaybackStore = create<PlaybackStore>((set, get) => {
       // Determine which step to play first
       // If at step boundary, play current step; otherwise, wait for next step
       let nextStepToPlay = isAtStepBoundary ? calculatedStep : (calculatedStep + 1) % totalSteps;
+
+      // Passes already played, so tracks with their own length resume mid-cycle
+      const firstElapsedStep = Math.floor(currentStepFloat) + (isAtStepBoundary ? 0 : 1);
+      let passCount = Math.floor(firstElapsedStep / totalSteps);
       
       // Update state
-      set({ currentStep: calculatedStep, pausedPosition: 0 });
+      set({ currentStep: calculatedStep, currentPass: passCount, pausedPosition: 0, segmentStart: 0 });
 
       // Schedule step playback based on pattern subdivision
       // State-based step tracking for consistency with Transport.position
-      scheduleId = Tone.getTransport().scheduleRepeat(
-        (time) => {
-          const currentPattern = usePatternStore.getState().currentPattern;
-          const currentTotalSteps = currentPattern?.tracks[0]?.steps.length ?? 16;
-          const { isLooping } = get();
-
-          // Use tracked step (not calculated from time)
-          const stepToPlay = nextStepToPlay;
-
-          // Play sounds for active notes in this step
-          const { playPad, isAudioReady } = useAudioStore.getState();
-
-          if (currentPattern && isAudioReady) {
-            currentPattern.tracks.forEach((track) => {
-              const step = track.steps[stepToPlay];
-              if (step?.active) {
-                playPad(track.padId as PadId, time);
-              }
-            });
-          }
-
-          // Update step for next callback
-          const nextStep = stepToPlay + 1;
+      const playStep = (time: number) => {
+        const currentPattern = isSongMode
+          ? getSongPattern(songPosition)
+          : usePatternStore.getState().currentPattern;
+        const currentTotalSteps = currentPattern?.tracks[0]?.steps.length ?? 16;
+        const { isLooping } = get();
+
+        // Use tracked step (not calculated from time)
+        const stepToPlay = nextStepToPlay;
+        const pass = passCount;
+        const elapsedSteps = pass * currentTotalSteps + stepToPlay;
+
+        // Swing delays off-beat steps; the repeating event itself stays on the straight grid
+        const stepTime = currentPattern ? time + getStepSwingOffset(currentPattern, stepToPlay) : time;
+
+        // Play sounds for active notes in this step
+        const { playPad, isAudioReady } = useAudioStore.getState();
+
+        if (currentPattern && isAudioReady) {
+          const soloActive = hasSoloTrack(currentPattern.tracks);
+          currentPattern.tracks.forEach((track) => {
+            // Each track wraps at its own length (polymeter) and counts its own loops
+            const step = track.steps[getTrackStepIndex(track, elapsedSteps)];
+            const loopIndex = Math.floor(elapsedSteps / getTrackLength(track));
+            if (
+              step?.active &&
+              isTrackAudible(track, soloActive) &&
+              shouldStepFire(step.condition, loopIndex)
+            ) {
+              playPad(track.padId as PadId, stepTime, getStepVelocity(step), step.articulation);
+            }
+          });
+        }
+
+        // Update step for next callback
+        const nextStep = stepToPlay + 1;
+        const isPassComplete = nextStep >= currentTotalSteps;
+
+        // Song mode: move to the next repeat or entry at the end of each pass
+        if (isSongMode && isPassComplete) {
+          const nextPosition = advanceSongPosition(
+            useSongStore.getState().entries,
+            songPosition,
+            isLooping
+          );
+          if (nextPosition) {
+            const nextPattern = getSongPattern(nextPosition);
+            const currentSubdivision = currentPattern?.subdivision ?? '16n';
+            const nextSubdivision = nextPattern?.subdivision ?? '16n';
+            const passEnd = time + Tone.Time(currentSubdivision).toSeconds();
+            const passEndPosition = Tone.getTransport().getSecondsAtTime(passEnd);
+
+            // Switch to the next pattern's tempo exactly at the pass boundary
+            if (nextPattern && get().practiceBpm === null) {
+              Tone.getTransport().bpm.setValueAtTime(clampBpm(nextPattern.bpm), passEnd);
+            }
+
+            // Track cycles continue across repeats, restart with the next entry
+            passCount = nextPosition.entryIndex === songPosition.entryIndex ? pass + 1 : 0;
+            songPosition = nextPosition;
+            nextStepToPlay = 0;
+
+            // Different grid: restart the repeating event at the next pass boundary
+            if (nextSubdivision !== currentSubdivision && scheduleId !== null) {
+              Tone.getTransport().clear(scheduleId);
+              scheduleId = Tone.getTransport().scheduleRepeat(
+                playStep,
+                nextSubdivision,
+                passEndPosition
+              );
+            }
 
-          // If not looping and we've reached the end, stop playback
-          const shouldStop = !isLooping && nextStep >= currentTotalSteps;
-          if (shouldStop) {
-            // Schedule stop after this step plays
-            // Note: Don't update currentStep here - stop() will reset it to 0
             Draw.schedule(() => {
-              get().stop();
-            }, time);
-            nextStepToPlay = 0; // Reset for next play
-          } else {
-            nextStepToPlay = nextStep % currentTotalSteps;
-            // Use Tone.Draw to sync visual updates with audio timing
-            // Only update currentStep if we're not stopping
+              set({ currentStep: stepToPlay, currentPass: pass });
+            }, stepTime);
             Draw.schedule(() => {
-              set({ currentStep: stepToPlay });
-            }, time);
+              isSongAdvance = true;
+              useSongStore.getState().selectEntry(nextPosition.entryIndex, nextPosition.repeat);
+              isSongAdvance = false;
+              set({ segmentStart: passEndPosition });
+            }, passEnd);
+            return;
           }
-        },
+        }
+
+        // If not looping and we've reached the end, stop playback
+        const shouldStop = !isLooping && isPassComplete;
+        if (shouldStop) {
+          // Schedule stop after this step plays
+          // Note: Don't update currentStep here - stop() will reset it to 0
+          Draw.schedule(() => {
+            get().stop();
+          }, time);
+          nextStepToPlay = 0; // Reset for next play
+        } else {
+          nextStepToPlay = nextStep % currentTotalSteps;
+          if (isPassComplete) passCount = pass + 1;
+          // Use Tone.Draw to sync visual updates with audio timing
+          // Only update currentStep if we're not stopping
+          Draw.schedule(() => {
+            set({ currentStep: stepToPlay, currentPass: pass });
+          }, stepTime);
+        }
+      };
+
+      scheduleId = Tone.getTransport().scheduleRepeat(
+        playStep,
         subdivision,
         timeUntilNextStep // Start at next step boundary (0 if at boundary)
       );
@@ -200,10 +371,8 @@ export const usePlaybackStore = create<PlaybackStore>((set, get) => {
       if (!state.isPlaying) return;
 
       // Get current Transport.position (no snapping - store exact position)
-      const transportPos = Tone.getTransport().position;
-      const transportPosition = typeof transportPos === 'number' 
-        ? transportPos 
-        : Tone.Time(transportPos).toSeconds();
+      // Song mode: relative to the start of the current pattern pass
+      const transportPosition = getTransportSeconds() - state.segmentStart;
 
       // Stop transport
       Tone.getTransport().stop();
@@ -219,7 +388,8 @@ export const usePlaybackStore = create<PlaybackStore>((set, get) => {
       set({ 
         isPlaying: false, 
         isPaused: true, 
-        pausedPosition: transportPosition
+        pausedPosition: transportPosition,
+        segmentStart: 0,
       });
     },
 
@@ -246,7 +416,7 @@ export const usePlaybackStore = create<PlaybackStore>((set, get) => {
       // Reset position
       Tone.getTransport().position = 0;
 
-      set({ isPlaying: false, isPaused: false, currentStep: 0, pausedPosition: 0 });
+      set({ isPlaying: false, isPaused: false, currentStep: 0, currentPass: 0, pausedPosition: 0, segmentStart: 0 });
     },
 
     toggle: () => {
@@ -260,8 +430,25 @@ export const usePlaybackStore = create<PlaybackStore>((set, get) => {
 
     setBpm: (newBpm: number) => {
       const clampedBpm = clampBpm(newBpm);
-      Tone.getTransport().bpm.value = clampedBpm;
-      set({ bpm: clampedBpm });
+      const { practiceBpm } = get();
+      if (practiceBpm !== null) {
+        applyTempo(clampedBpm);
+        return;
+      }
+
+      // Without a pattern there is nothing to save the tempo into
+      const pattern = usePatternStore.getState().currentPattern;
+      if (!pattern) {
+        Tone.getTransport().bpm.value = clampedBpm;
+        set({ bpm: clampedBpm });
+        return;
+      }
+
+      // Saved with the pattern; the subscription above updates the Transport
+      if (pattern.bpm !== clampedBpm) {
+        useHistoryStore.getState().coalesceNext('bpm');
+        usePatternStore.getState().setBpm(clampedBpm);
+      }
     },
 
     adjustBpm: (delta: number) => {
@@ -269,11 +456,14 @@ export const usePlaybackStore = create<PlaybackStore>((set, get) => {
       setBpm(bpm + delta);
     },
 
+    setPracticeBpm: (practiceBpm: number | null) => {
+      applyTempo(practiceBpm === null ? null : clampBpm(practiceBpm));
+    },
+
     reset: () => {
       const { stop } = get();
       stop();
-      Tone.getTransport().bpm.value = DEFAULT_BPM;
-      set({ bpm: DEFAULT_BPM });
+      applyTempo(null);
     },
 
     seekForward: () => {
@@ -282,10 +472,11 @@ export const usePlaybackStore = create<PlaybackStore>((set, get) => {
       if (!pattern) return;
 
       const stepsPerBeat = getStepsPerBeat(pattern.subdivision);
+      const stepsPerCountedBeat = getStepsPerCountedBeat(pattern.subdivision, getPatternTimeSignature(pattern));
       const totalSteps = pattern.tracks[0]?.steps.length ?? 16;
 
-      // Calculate new step (move forward by one beat)
-      const newStep = (state.currentStep + stepsPerBeat) % totalSteps;
+      // Calculate new step (move forward by one counted beat)
+      const newStep = (state.currentStep + stepsPerCountedBeat) % totalSteps;
 
       // Update position
       const stepDuration = (60 / state.bpm) / stepsPerBeat;
@@ -301,10 +492,11 @@ export const usePlaybackStore = create<PlaybackStore>((set, get) => {
       if (!pattern) return;
 
       const stepsPerBeat = getStepsPerBeat(pattern.subdivision);
+      const stepsPerCountedBeat = getStepsPerCountedBeat(pattern.subdivision, getPatternTimeSignature(pattern));
       const totalSteps = pattern.tracks[0]?.steps.length ?? 16;
 
-      // Calculate new step (move backward by one beat)
-      let newStep = state.currentStep - stepsPerBeat;
+      // Calculate new step (move backward by one counted beat)
+      let newStep = state.currentStep - stepsPerCountedBeat;
       if (newStep < 0) {
         newStep = totalSteps + newStep; // Wrap around
       }
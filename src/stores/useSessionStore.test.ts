@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { usePatternStore } from './usePatternStore';
+import { useLayoutStore, DEFAULT_CELL_WIDTH, MAX_CELL_WIDTH } from './useLayoutStore';
+import { useSessionStore, AUTOSAVE_DEBOUNCE_MS, type SavedSession } from './useSessionStore';
+import { STORAGE_KEYS } from '../utils/storage';
+
+/** Read the saved session straight from localStorage */
+function readSaved(): SavedSession | null {
+  const item = localStorage.getItem(STORAGE_KEYS.SESSION);
+  return item ? JSON.parse(item) : null;
+}
+
+describe('useSessionStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    usePatternStore.getState().resetPattern();
+    useLayoutStore.setState({ currentLayout: 'default', cellWidth: DEFAULT_CELL_WIDTH });
+    useSessionStore.setState({ restorableSession: null });
+    vi.runAllTimers();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('autosave', () => {
+    it('saves the pattern, layout and zoom after changes settle', () => {
+      usePatternStore.getState().createEmptyPattern();
+      usePatternStore.getState().toggleStep(0, 0);
+      usePatternStore.getState().setBpm(90);
+      useLayoutStore.getState().setLayout('simplified');
+      useLayoutStore.getState().setCellWidth(40);
+
+      expect(readSaved()).toBeNull();
+      vi.advanceTimersByTime(AUTOSAVE_DEBOUNCE_MS);
+
+      const saved = readSaved();
+      expect(saved).not.toBeNull();
+      expect(saved!.layout).toBe('simplified');
+      expect(saved!.cellWidth).toBe(40);
+    });
+
+    it('does not save while the last session is on offer', () => {
+      useSessionStore.setState({
+        restorableSession: { pattern: 'x', layout: 'default', cellWidth: 28, savedAt: 0 },
+      });
+      usePatternStore.getState().createEmptyPattern();
+      vi.advanceTimersByTime(AUTOSAVE_DEBOUNCE_MS);
+
+      expect(readSaved()).toBeNull();
+    });
+  });
+
+  describe('checkForSession / restoreSession', () => {
+    /** Autosave a pattern with a note, then simulate a fresh start */
+    const saveSessionWithNote = () => {
+      usePatternStore.getState().createEmptyPattern('Saved groove');
+      usePatternStore.getState().toggleStep(2, 4);
+      usePatternStore.getState().setBpm(88);
+      useLayoutStore.getState().setLayout('right-hand');
+      useLayoutStore.getState().setCellWidth(36);
+      vi.advanceTimersByTime(AUTOSAVE_DEBOUNCE_MS);
+
+      usePatternStore.getState().resetPattern();
+      useLayoutStore.setState({ currentLayout: 'default', cellWidth: DEFAULT_CELL_WIDTH });
+      vi.runAllTimers();
+    };
+
+    it('offers a saved session with notes', () => {
+      saveSessionWithNote();
+
+      expect(useSessionStore.getState().checkForSession()).toBe(true);
+      expect(useSessionStore.getState().restorableSession).not.toBeNull();
+    });
+
+    it('does not offer a session without notes', () => {
+      usePatternStore.getState().createEmptyPattern();
+      vi.advanceTimersByTime(AUTOSAVE_DEBOUNCE_MS);
+
+      expect(useSessionStore.getState().checkForSession()).toBe(false);
+    });
+
+    it('ignores a malformed saved session', () => {
+      localStorage.setItem(STORAGE_KEYS.SESSION, JSON.stringify({ pattern: 42 }));
+
+      expect(useSessionStore.getState().checkForSession()).toBe(false);
+    });
+
+    it('restores the pattern, BPM, layout and zoom', () => {
+      saveSessionWithNote();
+      useSessionStore.getState().checkForSession();
+      useSessionStore.getState().restoreSession();
+
+      const pattern = usePatternStore.getState().currentPattern!;
+      expect(pattern.name).toBe('Saved groove');
+      expect(pattern.bpm).toBe(88);
+      expect(pattern.tracks[2].steps[4].active).toBe(true);
+      expect(useLayoutStore.getState().currentLayout).toBe('right-hand');
+      expect(useLayoutStore.getState().cellWidth).toBe(36);
+      expect(useSessionStore.getState().restorableSession).toBeNull();
+    });
+
+    it('leaves the sequencer empty when dismissed', () => {
+      saveSessionWithNote();
+      useSessionStore.getState().checkForSession();
+      useSessionStore.getState().dismissSession();
+
+      expect(useSessionStore.getState().restorableSession).toBeNull();
+      expect(usePatternStore.getState().currentPattern).toBeNull();
+    });
+  });
+
+  describe('setCellWidth', () => {
+    it('clamps the zoom level', () => {
+      useLayoutStore.getState().setCellWidth(500);
+      expect(useLayoutStore.getState().cellWidth).toBe(MAX_CELL_WIDTH);
+    });
+  });
+});
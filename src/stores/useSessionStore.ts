@@ -0,0 +1,162 @@
+/**
+ * Session Store - Autosave and recovery of the working pattern
+ *
+ * - Autosave: the current pattern (including its BPM), layout view and zoom
+ *   are saved to localStorage shortly after every change and when the page
+ *   is hidden
+ * - Recovery: on a start without a ?pattern= URL, the last session is
+ *   offered for restore before an empty pattern is created
+ */
+
+import { create } from 'zustand';
+import type { LayoutView } from '../config/layoutViews';
+import { LAYOUT_NAMES } from '../config/layoutViews';
+import { usePatternStore } from './usePatternStore';
+import { useLayoutStore } from './useLayoutStore';
+import { encodePattern, decodePattern } from '../utils/patternUrl';
+import { getStorageItem, setStorageItem, STORAGE_KEYS } from '../utils/storage';
+
+/** Debounce delay for autosaving the session */
+const AUTOSAVE_DEBOUNCE_MS = 1000;
+
+/**
+ * Saved session format
+ */
+export interface SavedSession {
+  /** Pattern in the compact share-URL encoding */
+  pattern: string;
+  layout: LayoutView;
+  /** Step cell width (zoom level) */
+  cellWidth: number;
+  /** Save time (ms since epoch) */
+  savedAt: number;
+}
+
+interface SessionState {
+  /** Last session awaiting a restore/discard decision */
+  restorableSession: SavedSession | null;
+}
+
+interface SessionActions {
+  /**
+   * Offer the last saved session for restore if it has any notes
+   * @returns Whether a session is now awaiting a decision
+   */
+  checkForSession: () => boolean;
+  /** Load the offered session into the sequencer */
+  restoreSession: () => void;
+  /** Decline the offered session (the next autosave replaces it) */
+  dismissSession: () => void;
+}
+
+type SessionStore = SessionState & SessionActions;
+
+/** Pending autosave timeout */
+let autosaveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Read the saved session, or null if missing or malformed
+ */
+function loadSession(): SavedSession | null {
+  const stored = getStorageItem<Partial<SavedSession> | null>(STORAGE_KEYS.SESSION, null);
+  if (
+    !stored ||
+    typeof stored.pattern !== 'string' ||
+    typeof stored.cellWidth !== 'number' ||
+    typeof stored.savedAt !== 'number' ||
+    !stored.layout ||
+    !(stored.layout in LAYOUT_NAMES)
+  ) {
+    return null;
+  }
+  return stored as SavedSession;
+}
+
+export const useSessionStore = create<SessionStore>((set, get) => ({
+  restorableSession: null,
+
+  // Actions
+  checkForSession: () => {
+    const session = loadSession();
+    const pattern = session ? decodePattern(session.pattern) : null;
+    const hasNotes = pattern?.tracks.some((track) => track.steps.some((step) => step.active)) ?? false;
+
+    set({ restorableSession: hasNotes ? session : null });
+    return hasNotes;
+  },
+
+  restoreSession: () => {
+    const session = get().restorableSession;
+    if (!session) return;
+
+    const pattern = decodePattern(session.pattern);
+    const { setLayout, setCellWidth } = useLayoutStore.getState();
+    setLayout(session.layout);
+    setCellWidth(session.cellWidth);
+    set({ restorableSession: null });
+    if (pattern) {
+      usePatternStore.getState().setPattern(pattern);
+    }
+  },
+
+  dismissSession: () => {
+    set({ restorableSession: null });
+  },
+}));
+
+/**
+ * Save the current session to localStorage
+ */
+function saveSession(): void {
+  if (autosaveTimeout) {
+    clearTimeout(autosaveTimeout);
+    autosaveTimeout = null;
+  }
+
+  // Nothing to save yet, or the last session is still on offer
+  const current = usePatternStore.getState().currentPattern;
+  if (!current || useSessionStore.getState().restorableSession) return;
+
+  const pattern = encodePattern(current);
+  if (!pattern) return;
+
+  const { currentLayout, cellWidth } = useLayoutStore.getState();
+  setStorageItem<SavedSession>(STORAGE_KEYS.SESSION, {
+    pattern,
+    layout: currentLayout,
+    cellWidth,
+    savedAt: Date.now(),
+  });
+}
+
+/**
+ * Autosave (debounced)
+ */
+function scheduleAutosave(): void {
+  if (autosaveTimeout) {
+    clearTimeout(autosaveTimeout);
+  }
+  autosaveTimeout = setTimeout(saveSession, AUTOSAVE_DEBOUNCE_MS);
+}
+
+usePatternStore.subscribe((state, prevState) => {
+  if (state.currentPattern !== prevState.currentPattern) {
+    scheduleAutosave();
+  }
+});
+
+useLayoutStore.subscribe((state, prevState) => {
+  if (state.currentLayout !== prevState.currentLayout || state.cellWidth !== prevState.cellWidth) {
+    scheduleAutosave();
+  }
+});
+
+// Flush a pending autosave when the page is closed or backgrounded
+if (typeof window !== 'undefined') {
+  window.addEventListener('pagehide', () => {
+    if (autosaveTimeout) saveSession();
+  });
+}
+
+/** Export constants for external use */
+export { AUTOSAVE_DEBOUNCE_MS };
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { usePatternStore } from './usePatternStore';
+import { useHistoryStore } from './useHistoryStore';
+import { useSongStore, advanceSongPosition } from './useSongStore';
+import type { SongEntry } from '../types/song';
+
+describe('useSongStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    usePatternStore.getState().resetPattern();
+    useHistoryStore.getState().clearHistory();
+    useSongStore.getState().clearSong();
+    useSongStore.setState({ isSongMode: false });
+    usePatternStore.getState().createEmptyPattern('Verse');
+  });
+
+  describe('arrangement', () => {
+    it('adds the current pattern when song mode is enabled', () => {
+      useSongStore.getState().setSongMode(true);
+      const { entries, patterns } = useSongStore.getState();
+
+      expect(entries).toHaveLength(1);
+      expect(patterns[0].name).toBe('Verse');
+    });
+
+    it('reuses the same pattern for repeated entries', () => {
+      useSongStore.getState().addCurrentPattern();
+      useSongStore.getState().addCurrentPattern();
+      const { entries, patterns } = useSongStore.getState();
+
+      expect(entries).toHaveLength(2);
+      expect(patterns).toHaveLength(1);
+      expect(entries[0].patternId).toBe(entries[1].patternId);
+    });
+
+    it('adds a new empty pattern and loads it into the sequencer', () => {
+      useSongStore.getState().addCurrentPattern();
+      useSongStore.getState().addNewPattern();
+      const { entries, activeEntryIndex } = useSongStore.getState();
+
+      expect(entries).toHaveLength(2);
+      expect(activeEntryIndex).toBe(1);
+      expect(usePatternStore.getState().currentPattern!.id).toBe(entries[1].patternId);
+      expect(useHistoryStore.getState().past).toHaveLength(0);
+    });
+
+    it('duplicates an entry as an independent pattern', () => {
+      usePatternStore.getState().toggleStep(0, 0);
+      useSongStore.getState().addCurrentPattern();
+      const [original] = useSongStore.getState().entries;
+      useSongStore.getState().duplicateEntry(original.id);
+      usePatternStore.getState().toggleStep(0, 0);
+
+      const { entries, getPattern } = useSongStore.getState();
+      expect(entries[1].patternId).not.toBe(original.patternId);
+      expect(getPattern(original.patternId)!.tracks[0].steps[0].active).toBe(true);
+      expect(getPattern(entries[1].patternId)!.tracks[0].steps[0].active).toBe(false);
+    });
+
+    it('moves entries and keeps the active entry', () => {
+      useSongStore.getState().addCurrentPattern();
+      useSongStore.getState().addNewPattern();
+      const [first, second] = useSongStore.getState().entries;
+      useSongStore.getState().moveEntry(1, 0);
+
+      const { entries, activeEntryIndex } = useSongStore.getState();
+      expect(entries.map((e) => e.id)).toEqual([second.id, first.id]);
+      expect(activeEntryIndex).toBe(0);
+    });
+
+    it('clamps repeat counts', () => {
+      useSongStore.getState().addCurrentPattern();
+      const [entry] = useSongStore.getState().entries;
+      useSongStore.getState().setEntryRepeats(entry.id, 0);
+      expect(useSongStore.getState().entries[0].repeats).toBe(1);
+
+      useSongStore.getState().setEntryRepeats(entry.id, 99);
+      expect(useSongStore.getState().entries[0].repeats).toBe(16);
+    });
+
+    it('drops patterns that are no longer used', () => {
+      useSongStore.getState().addCurrentPattern();
+      useSongStore.getState().addNewPattern();
+      const [, second] = useSongStore.getState().entries;
+      useSongStore.getState().removeEntry(second.id);
+
+      const { entries, patterns } = useSongStore.getState();
+      expect(entries).toHaveLength(1);
+      expect(patterns).toHaveLength(1);
+      expect(usePatternStore.getState().currentPattern!.name).toBe('Verse');
+    });
+  });
+
+  describe('editing', () => {
+    it('mirrors sequencer edits into the song pattern', () => {
+      useSongStore.getState().addCurrentPattern();
+      usePatternStore.getState().toggleStep(2, 4);
+
+      const { entries, getPattern } = useSongStore.getState();
+      expect(getPattern(entries[0].patternId)!.tracks[2].steps[4].active).toBe(true);
+    });
+
+    it('loads the selected entry without recording history', () => {
+      useSongStore.getState().addCurrentPattern();
+      useSongStore.getState().addNewPattern();
+      useSongStore.getState().selectEntry(0);
+
+      expect(usePatternStore.getState().currentPattern!.name).toBe('Verse');
+      expect(useHistoryStore.getState().past).toHaveLength(0);
+    });
+
+    it('keeps the undo history of each pattern across entry switches', () => {
+      useSongStore.getState().addCurrentPattern();
+      usePatternStore.getState().toggleStep(2, 4);
+      useSongStore.getState().addNewPattern();
+      expect(useHistoryStore.getState().past).toHaveLength(0);
+
+      useSongStore.getState().selectEntry(0);
+      expect(useHistoryStore.getState().past).toHaveLength(1);
+
+      useHistoryStore.getState().undo();
+      expect(usePatternStore.getState().currentPattern!.tracks[2].steps[4].active).toBe(false);
+    });
+  });
+
+  describe('advanceSongPosition', () => {
+    const entries: SongEntry[] = [
+      { id: 'a', patternId: 'p1', repeats: 2 },
+      { id: 'b', patternId: 'p2', repeats: 1 },
+    ];
+
+    it('repeats an entry before moving on', () => {
+      expect(advanceSongPosition(entries, { entryIndex: 0, repeat: 0 }, true))
+        .toEqual({ entryIndex: 0, repeat: 1 });
+      expect(advanceSongPosition(entries, { entryIndex: 0, repeat: 1 }, true))
+        .toEqual({ entryIndex: 1, repeat: 0 });
+    });
+
+    it('wraps to the first entry when looping', () => {
+      expect(advanceSongPosition(entries, { entryIndex: 1, repeat: 0 }, true))
+        .toEqual({ entryIndex: 0, repeat: 0 });
+    });
+
+    it('ends the song when not looping', () => {
+      expect(advanceSongPosition(entries, { entryIndex: 1, repeat: 0 }, false)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Song Store - Arranges multiple patterns into a playable sequence
+ *
+ * Sits above usePatternStore:
+ * - Holds the song's patterns and an ordered list of entries with repeat counts
+ * - The pattern of the active entry is the one loaded in usePatternStore;
+ *   edits made in the sequencer are mirrored back into the song by pattern ID
+ * - Switching entries loads the entry's pattern without recording history;
+ *   each pattern keeps its own undo/redo stacks, so switching parts (by hand
+ *   or during song playback) doesn't lose the edits of another part
+ */
+
+import { create } from 'zustand';
+import type { DrumPattern } from '../types/pattern';
+import type { SongEntry, SongPosition } from '../types/song';
+import { MIN_SONG_REPEATS, MAX_SONG_REPEATS } from '../types/song';
+import { usePatternStore } from './usePatternStore';
+import { useHistoryStore } from './useHistoryStore';
+
+interface SongState {
+  /** Whether playback runs through the arrangement instead of looping one pattern */
+  isSongMode: boolean;
+  /** Patterns used by the song */
+  patterns: DrumPattern[];
+  /** Ordered arrangement */
+  entries: SongEntry[];
+  /** Entry whose pattern is loaded in the sequencer */
+  activeEntryIndex: number;
+  /** Repeat of the active entry currently playing (0-based) */
+  activeRepeat: number;
+}
+
+interface SongActions {
+  /** Enable/disable song mode (adds the current pattern to an empty song) */
+  setSongMode: (enabled: boolean) => void;
+  /** Append an entry playing the pattern currently in the sequencer */
+  addCurrentPattern: () => void;
+  /** Append an entry with a new empty pattern and load it into the sequencer */
+  addNewPattern: () => void;
+  /** Append an entry with a copy of an entry's pattern (e.g. to write a fill) */
+  duplicateEntry: (entryId: string) => void;
+  /** Remove an entry (patterns no longer referenced are dropped) */
+  removeEntry: (entryId: string) => void;
+  /** Move an entry to a new index */
+  moveEntry: (fromIndex: number, toIndex: number) => void;
+  /** Set how many times an entry repeats */
+  setEntryRepeats: (entryId: string, repeats: number) => void;
+  /** Load an entry's pattern into the sequencer */
+  selectEntry: (index: number, repeat?: number) => void;
+  /** Look up a song pattern by ID */
+  getPattern: (patternId: string) => DrumPattern | undefined;
+  /** Remove all entries and patterns */
+  clearSong: () => void;
+}
+
+type SongStore = SongState & SongActions;
+
+/**
+ * Generate a unique ID for entries and duplicated patterns
+ */
+function generateId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Clamp a repeat count to the valid range
+ */
+function clampRepeats(value: number): number {
+  return Math.max(MIN_SONG_REPEATS, Math.min(MAX_SONG_REPEATS, Math.round(value)));
+}
+
+/** Undo/redo stacks of song patterns not loaded in the sequencer, by pattern ID */
+const patternHistories = new Map<string, { past: DrumPattern[]; future: DrumPattern[] }>();
+
+/**
+ * Put away the undo/redo stacks of the pattern leaving the sequencer and
+ * bring back those of the pattern being loaded
+ */
+function swapHistory(fromId: string | undefined, toId: string): void {
+  const { past, future, clearHistory } = useHistoryStore.getState();
+  if (fromId && useSongStore.getState().patterns.some((p) => p.id === fromId)) {
+    patternHistories.set(fromId, { past, future });
+  }
+  clearHistory();
+
+  const saved = patternHistories.get(toId);
+  if (saved) {
+    patternHistories.delete(toId);
+    useHistoryStore.setState(saved);
+  }
+}
+
+/**
+ * Load a pattern into the sequencer without recording an undo entry
+ */
+function loadIntoEditor(pattern: DrumPattern): void {
+  const current = usePatternStore.getState().currentPattern;
+  if (current === pattern) return;
+  useHistoryStore.getState().runWithoutHistory(() => usePatternStore.getState().setPattern(pattern));
+  swapHistory(current?.id, pattern.id);
+}
+
+/**
+ * Compute the playback position after the current pass of a pattern ends
+ *
+ * @param entries - Song arrangement
+ * @param position - Position of the pass that just finished
+ * @param isLooping - Whether to wrap to the first entry after the last one
+ * @returns Next position, or null when the song has finished
+ */
+export function advanceSongPosition(
+  entries: SongEntry[],
+  position: SongPosition,
+  isLooping: boolean
+): SongPosition | null {
+  if (entries.length === 0) return null;
+
+  const entry = entries[position.entryIndex];
+  if (entry && position.repeat + 1 < entry.repeats) {
+    return { entryIndex: position.entryIndex, repeat: position.repeat + 1 };
+  }
+
+  const nextIndex = position.entryIndex + 1;
+  if (nextIndex < entries.length) {
+    return { entryIndex: nextIndex, repeat: 0 };
+  }
+  return isLooping ? { entryIndex: 0, repeat: 0 } : null;
+}
+
+export const useSongStore = create<SongStore>((set, get) => ({
+  // Initial state - song mode off, empty arrangement
+  isSongMode: false,
+  patterns: [],
+  entries: [],
+  activeEntryIndex: 0,
+  activeRepeat: 0,
+
+  // Actions
+  setSongMode: (enabled: boolean) => {
+    set({ isSongMode: enabled });
+    if (enabled && get().entries.length === 0) {
+      get().addCurrentPattern();
+    }
+  },
+
+  addCurrentPattern: () => {
+    const current = usePatternStore.getState().currentPattern;
+    if (!current) return;
+
+    set((state) => {
+      const hasPattern = state.patterns.some((p) => p.id === current.id);
+      return {
+        patterns: hasPattern ? state.patterns : [...state.patterns, current],
+        entries: [
+          ...state.entries,
+          { id: generateId('entry'), patternId: current.id, repeats: 1 },
+        ],
+        activeEntryIndex: state.entries.length === 0 ? 0 : state.activeEntryIndex,
+      };
+    });
+  },
+
+  addNewPattern: () => {
+    const current = usePatternStore.getState().currentPattern;
+
+    useHistoryStore.getState().runWithoutHistory(() => {
+      usePatternStore.getState().createEmptyPattern(
+        `Part ${get().patterns.length + 1}`,
+        current?.bars,
+        current?.subdivision
+      );
+      if (current?.timeSignature) {
+        usePatternStore.getState().setTimeSignature(current.timeSignature);
+      }
+    });
+
+    const created = usePatternStore.getState().currentPattern;
+    if (!created) return;
+    swapHistory(current?.id, created.id);
+
+    set((state) => ({
+      patterns: [...state.patterns, created],
+      entries: [
+        ...state.entries,
+        { id: generateId('entry'), patternId: created.id, repeats: 1 },
+      ],
+      activeEntryIndex: state.entries.length,
+      activeRepeat: 0,
+    }));
+  },
+
+  duplicateEntry: (entryId: string) => {
+    const { entries, getPattern } = get();
+    const index = entries.findIndex((e) => e.id === entryId);
+    const source = index >= 0 ? getPattern(entries[index].patternId) : undefined;
+    if (!source) return;
+
+    const copy: DrumPattern = {
+      ...structuredClone(source),
+      id: generateId('pattern'),
+      name: `${source.name} (copy)`,
+    };
+
+    set((state) => {
+      const newEntries = [...state.entries];
+      newEntries.splice(index + 1, 0, {
+        id: generateId('entry'),
+        patternId: copy.id,
+        repeats: 1,
+      });
+      return {
+        patterns: [...state.patterns, copy],
+        entries: newEntries,
+        activeEntryIndex: index + 1,
+        activeRepeat: 0,
+      };
+    });
+    loadIntoEditor(copy);
+  },
+
+  removeEntry: (entryId: string) => {
+    const { entries, activeEntryIndex } = get();
+    const index = entries.findIndex((e) => e.id === entryId);
+    if (index === -1) return;
+
+    const newEntries = entries.filter((e) => e.id !== entryId);
+    const usedIds = new Set(newEntries.map((e) => e.patternId));
+    for (const patternId of patternHistories.keys()) {
+      if (!usedIds.has(patternId)) patternHistories.delete(patternId);
+    }
+    const newActiveIndex = Math.max(
+      0,
+      Math.min(index < activeEntryIndex ? activeEntryIndex - 1 : activeEntryIndex, newEntries.length - 1)
+    );
+
+    set((state) => ({
+      entries: newEntries,
+      patterns: state.patterns.filter((p) => usedIds.has(p.id)),
+      activeEntryIndex: newActiveIndex,
+      activeRepeat: 0,
+    }));
+
+    // The removed entry was being edited: show its successor instead
+    if (index === activeEntryIndex && newEntries.length > 0) {
+      get().selectEntry(newActiveIndex);
+    }
+  },
+
+  moveEntry: (fromIndex: number, toIndex: number) => {
+    const { entries, activeEntryIndex } = get();
+    if (
+      fromIndex === toIndex ||
+      fromIndex < 0 || fromIndex >= entries.length ||
+      toIndex < 0 || toIndex >= entries.length
+    ) {
+      return;
+    }
+
+    const newEntries = [...entries];
+    const [moved] = newEntries.splice(fromIndex, 1);
+    newEntries.splice(toIndex, 0, moved);
+
+    // Keep the active entry pointing at the same slot
+    const activeId = entries[activeEntryIndex]?.id;
+    const newActiveIndex = Math.max(0, newEntries.findIndex((e) => e.id === activeId));
+
+    set({ entries: newEntries, activeEntryIndex: newActiveIndex });
+  },
+
+  setEntryRepeats: (entryId: string, repeats: number) => {
+    set((state) => ({
+      entries: state.entries.map((e) =>
+        e.id === entryId ? { ...e, repeats: clampRepeats(repeats) } : e
+      ),
+    }));
+  },
+
+  selectEntry: (index: number, repeat: number = 0) => {
+    const { entries, getPattern } = get();
+    const entry = entries[index];
+    if (!entry) return;
+
+    const pattern = getPattern(entry.patternId);
+    if (!pattern) return;
+
+    set({ activeEntryIndex: index, activeRepeat: repeat });
+    loadIntoEditor(pattern);
+  },
+
+  getPattern: (patternId: string) => {
+    return get().patterns.find((p) => p.id === patternId);
+  },
+
+  clearSong: () => {
+    patternHistories.clear();
+    set({ patterns: [], entries: [], activeEntryIndex: 0, activeRepeat: 0 });
+  },
+}));
+
+/**
+ * Mirror sequencer edits into the song's copy of the pattern
+ */
+usePatternStore.subscribe((state, prevState) => {
+  const next = state.currentPattern;
+  if (!next || next === prevState.currentPattern) return;
+
+  const { patterns } = useSongStore.getState();
+  const index = patterns.findIndex((p) => p.id === next.id);
+  if (index === -1 || patterns[index] === next) return;
+
+  const newPatterns = [...patterns];
+  newPatterns[index] = next;
+  useSongStore.setState({ patterns: newPatterns });
+});
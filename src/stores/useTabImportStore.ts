@@ -0,0 +1,114 @@
+/**
+ * Tab Import Store - Drum tab paste-in dialog and the label-to-pad mapping
+ *
+ * - Opens and closes the paste-in dialog
+ * - Mapping edits are kept in localStorage as changes to the default
+ *   label assignment, so they apply to every later import
+ * - Completing the import loads the result as a new pattern (undoable)
+ */
+
+import { create } from 'zustand';
+import type { DrumTab } from '../types/drumTab';
+import { isValidPadId, type PadId } from '../config/padMapping';
+import { DEFAULT_TAB_ASSIGNMENT, type TabLabelAssignment } from '../config/drumTab';
+import { usePatternStore } from './usePatternStore';
+import { buildTabPattern, type DrumTabImportOptions, type DrumTabImportResult } from '../utils/drumTab';
+import { getStorageItem, setStorageItem, STORAGE_KEYS } from '../utils/storage';
+
+interface TabImportState {
+  /** Whether the paste-in dialog is open */
+  isOpen: boolean;
+  /** Changes to DEFAULT_TAB_ASSIGNMENT (null = don't import the line) */
+  overrides: TabLabelAssignment;
+}
+
+interface TabImportActions {
+  /** Open the paste-in dialog */
+  openImport: () => void;
+  /** Close the paste-in dialog without importing */
+  closeImport: () => void;
+  /** Assign a line label to a pad, or null to skip it */
+  setLabelPad: (label: string, padId: PadId | null) => void;
+  /** Drop all mapping changes */
+  resetMapping: () => void;
+  /** Load a parsed tab into the sequencer and close the dialog */
+  completeImport: (
+    tab: DrumTab,
+    options: Omit<DrumTabImportOptions, 'assignment'>
+  ) => DrumTabImportResult;
+}
+
+type TabImportStore = TabImportState & TabImportActions;
+
+/**
+ * Read saved mapping changes, dropping invalid ones
+ */
+function loadOverrides(): TabLabelAssignment {
+  const stored = getStorageItem<Record<string, unknown>>(STORAGE_KEYS.TAB_MAPPING, {});
+  const overrides: TabLabelAssignment = {};
+  if (typeof stored !== 'object' || stored === null) return overrides;
+
+  for (const [label, padId] of Object.entries(stored)) {
+    if (padId === null || (typeof padId === 'string' && isValidPadId(padId))) {
+      overrides[label] = padId;
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Effective line label to pad assignment
+ */
+export function getTabAssignment(overrides: TabLabelAssignment): TabLabelAssignment {
+  return { ...DEFAULT_TAB_ASSIGNMENT, ...overrides };
+}
+
+export const useTabImportStore = create<TabImportStore>((set, get) => {
+  /**
+   * Update mapping changes and persist them
+   */
+  const setOverrides = (overrides: TabLabelAssignment) => {
+    setStorageItem(STORAGE_KEYS.TAB_MAPPING, overrides);
+    set({ overrides });
+  };
+
+  return {
+    isOpen: false,
+    overrides: loadOverrides(),
+
+    // Actions
+    openImport: () => {
+      set({ isOpen: true });
+    },
+
+    closeImport: () => {
+      set({ isOpen: false });
+    },
+
+    setLabelPad: (label: string, padId: PadId | null) => {
+      const key = label.toUpperCase();
+      const overrides = { ...get().overrides };
+      if ((DEFAULT_TAB_ASSIGNMENT[key] ?? null) === padId) {
+        delete overrides[key];
+      } else {
+        overrides[key] = padId;
+      }
+      setOverrides(overrides);
+    },
+
+    resetMapping: () => {
+      setOverrides({});
+    },
+
+    completeImport: (tab: DrumTab, options: Omit<DrumTabImportOptions, 'assignment'>) => {
+      const result = buildTabPattern(tab, {
+        ...options,
+        assignment: getTabAssignment(get().overrides),
+      });
+
+      usePatternStore.getState().loadNewPattern(result.pattern);
+      set({ isOpen: false });
+      return result;
+    },
+  };
+});
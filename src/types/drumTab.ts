@@ -0,0 +1,35 @@
+/**
+ * Drum Tab Types
+ *
+ * Plain-text drum tabs read for pattern import, e.g.
+ *   HH|x-x-x-x-x-x-x-x-|
+ *   SD|----o-------o---|
+ *   BD|o-------o-o-----|
+ */
+
+import type { TimeSignature } from './pattern';
+
+/**
+ * One instrument line of a tab (lines repeated in later systems are joined)
+ */
+export interface DrumTabLine {
+  /** Line label as written, e.g. "HH" */
+  label: string;
+  /** One character per step, bar lines removed */
+  cells: string;
+}
+
+/**
+ * Contents of a pasted drum tab
+ */
+export interface DrumTab {
+  /** First line of text that is not a tab line */
+  title?: string;
+  /** Tempo written as "120 BPM" */
+  bpm?: number;
+  /** Time signature written as e.g. "3/4" */
+  timeSignature?: TimeSignature;
+  /** Steps between bar lines (the most common bar length); undefined without bar lines */
+  barLength?: number;
+  lines: DrumTabLine[];
+}
@@ -0,0 +1,55 @@
+/**
+ * Hydrogen Types
+ *
+ * Data read from Hydrogen drum machine files (.h2song songs and
+ * .h2pattern drumkit patterns) for pattern import.
+ */
+
+/** Hydrogen's timing resolution: ticks per quarter note */
+export const HYDROGEN_TICKS_PER_QUARTER = 48;
+
+/**
+ * An instrument of the song's drumkit
+ */
+export interface HydrogenInstrument {
+  /** ID referenced by notes */
+  id: number;
+  name: string;
+}
+
+/**
+ * A hit in a Hydrogen pattern
+ */
+export interface HydrogenNote {
+  /** Instrument ID */
+  instrument: number;
+  /** Start time in ticks from the beginning of the pattern */
+  position: number;
+  /** Hit strength (0-1) */
+  velocity: number;
+}
+
+/**
+ * A pattern of a Hydrogen song
+ */
+export interface HydrogenPattern {
+  name: string;
+  /** Length in ticks (192 = one 4/4 bar) */
+  size: number;
+  /** Note value of a beat (4 = quarter note) */
+  denominator: number;
+  /** Notes sorted by position */
+  notes: HydrogenNote[];
+}
+
+/**
+ * Contents of a Hydrogen file relevant to pattern import
+ */
+export interface HydrogenSong {
+  /** Song or drumkit name, if any */
+  name?: string;
+  /** Song tempo, if any */
+  bpm?: number;
+  instruments: HydrogenInstrument[];
+  patterns: HydrogenPattern[];
+}
@@ -0,0 +1,19 @@
+/**
+ * Pattern Library Types
+ *
+ * Patterns saved in the browser's local library.
+ */
+
+/**
+ * A saved pattern
+ */
+export interface LibraryEntry {
+  /** Unique identifier of the saved copy */
+  id: string;
+  /** Display name (kept in sync with the pattern's name) */
+  name: string;
+  /** Last save or rename time (ms since epoch) */
+  updatedAt: number;
+  /** Pattern in the compact share-URL encoding */
+  pattern: string;
+}
@@ -0,0 +1,49 @@
+/**
+ * MIDI Types
+ *
+ * Data read from Standard MIDI Files for drum pattern import.
+ */
+
+import type { PadId } from '../config/padMapping';
+import type { TimeSignature } from './pattern';
+
+/** MIDI channel used for drums (channel 10, 0-based 9) */
+export const MIDI_DRUM_CHANNEL = 9;
+
+/**
+ * A drum hit read from a MIDI file
+ */
+export interface DrumNote {
+  /** GM percussion note number (e.g. 36 = Bass Drum 1) */
+  midi: number;
+  /** Start time in ticks from the beginning of the file */
+  ticks: number;
+  /** Note-on velocity (1-127) */
+  velocity: number;
+}
+
+/**
+ * A drum hit assigned to an FGDP pad
+ */
+export interface MappedDrumNote extends DrumNote {
+  padId: PadId;
+  /** Track index in the pattern (position in PAD_IDS) */
+  padIndex: number;
+  padLabel: string;
+}
+
+/**
+ * Contents of a Standard MIDI File relevant to drum import
+ */
+export interface MidiDrumData {
+  /** Ticks per quarter note */
+  ticksPerQuarter: number;
+  /** First tempo in the file, if any */
+  bpm?: number;
+  /** First time signature in the file, if any */
+  timeSignature?: TimeSignature;
+  /** First track or sequence name in the file, if any */
+  name?: string;
+  /** Channel-10 note-ons, sorted by time */
+  drumNotes: DrumNote[];
+}
@@ -0,0 +1,72 @@
+/**
+ * Drum Notation Types
+ *
+ * A pattern laid out as drum notation (see utils/drumNotation.ts):
+ * bars of two voices, each a sequence of rests and chords with note values,
+ * tuplet brackets and beams. Shared by the MusicXML export and the
+ * notation view.
+ */
+
+import type { Articulation, FingerDesignation, TimeSignature } from './pattern';
+import type { PadId } from '../config/padMapping';
+
+/**
+ * Written note value (MusicXML type names)
+ */
+export type NoteType = '32nd' | '16th' | 'eighth' | 'quarter' | 'half' | 'whole';
+
+/**
+ * Voice 1 = hands (stems up), voice 2 = kick (stems down)
+ */
+export type NotationVoiceNumber = 1 | 2;
+
+/**
+ * One drum hit in a chord
+ */
+export interface NotationNote {
+  padId: PadId;
+  /** MIDI velocity (1-127) */
+  velocity: number;
+  articulation?: Articulation;
+  finger: FingerDesignation;
+}
+
+/**
+ * A rest (no notes) or a chord of hits
+ */
+export interface NotationEvent {
+  /** Grid step within the bar where the event starts */
+  step: number;
+  /** Length in grid steps */
+  steps: number;
+  type: NoteType;
+  /** Augmentation dots (0 or 1) */
+  dots: number;
+  /** Position in a triplet bracket; not a tuplet when undefined */
+  tuplet?: 'start' | 'middle' | 'stop';
+  /** Position in a beam group; unbeamed when undefined */
+  beam?: 'begin' | 'continue' | 'end';
+  /** Hits of a chord; empty for a rest */
+  notes: NotationNote[];
+}
+
+export interface NotationVoice {
+  voice: NotationVoiceNumber;
+  events: NotationEvent[];
+}
+
+export interface NotationMeasure {
+  voices: NotationVoice[];
+}
+
+/**
+ * A whole pattern as notation
+ */
+export interface DrumNotation {
+  timeSignature: TimeSignature;
+  /** Grid steps per bar */
+  stepsPerBar: number;
+  /** Whether the grid is a triplet grid (notes sit in 3:2 brackets) */
+  triplet: boolean;
+  measures: NotationMeasure[];
+}
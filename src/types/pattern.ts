@@ -27,10 +27,48 @@ export interface FingerDesignation {
 export interface PatternStep {
   /** Whether this step has a note active */
   active: boolean;
-  /** MIDI velocity (0-127), optional for future expansion */
+  /** MIDI velocity (1-127); DEFAULT_VELOCITY when undefined */
   velocity?: number;
   /** Finger designation for this specific step (overrides track default when active) */
   finger?: FingerDesignation;
+  /** How the note is played; 'normal' when undefined */
+  articulation?: Articulation;
+  /** When the note fires; every loop when undefined */
+  condition?: StepCondition;
+}
+
+/**
+ * Conditional trigger for a step (see utils/stepConditions.ts)
+ * Both parts must pass for the note to fire.
+ */
+export interface StepCondition {
+  /** Chance to fire in percent (1-99); always when undefined */
+  probability?: number;
+  /** Fire only on loop `iteration` of every `cycle` loops, e.g. 1:4 (1-based) */
+  iteration?: number;
+  /** Cycle length in loops (2-8); every loop when undefined */
+  cycle?: number;
+}
+
+/**
+ * Playing technique for a step
+ * - accent: louder hit
+ * - ghost: very soft hit
+ * - flam: one grace note just before the main note
+ * - drag: two grace notes just before the main note
+ */
+export type Articulation = 'normal' | 'accent' | 'ghost' | 'flam' | 'drag';
+
+/** Velocity range and default for active steps (MIDI scale) */
+export const MIN_VELOCITY = 1;
+export const MAX_VELOCITY = 127;
+export const DEFAULT_VELOCITY = 100;
+
+/**
+ * Get the effective velocity of a step
+ */
+export function getStepVelocity(step: PatternStep): number {
+  return step.velocity ?? DEFAULT_VELOCITY;
 }
 
 /**
@@ -46,6 +84,52 @@ export interface PatternTrack {
   defaultFinger: FingerDesignation;
   /** Array of 16 steps (16th notes in one bar) */
   steps: PatternStep[];
+  /**
+   * Loop length in steps for polymeters (e.g. 3 over a 16-step pattern).
+   * The track cycles through its first `length` steps independently of the
+   * pattern; the full step count when undefined.
+   */
+  length?: number;
+  /** Silenced during playback */
+  muted?: boolean;
+  /** When any track is soloed, only soloed tracks play */
+  solo?: boolean;
+}
+
+/**
+ * Get the loop length of a track in steps
+ */
+export function getTrackLength(track: PatternTrack): number {
+  return track.length ?? track.steps.length;
+}
+
+/**
+ * Map a step count since playback start to the step a track plays,
+ * wrapping at the track's own loop length
+ *
+ * @param track - Track to read
+ * @param elapsedSteps - Steps played since the pattern started (not wrapped at the pattern end)
+ */
+export function getTrackStepIndex(track: PatternTrack, elapsedSteps: number): number {
+  return elapsedSteps % getTrackLength(track);
+}
+
+/**
+ * Check if any track in a pattern is soloed
+ */
+export function hasSoloTrack(tracks: PatternTrack[]): boolean {
+  return tracks.some((track) => track.solo);
+}
+
+/**
+ * Check if a track is heard during playback, given its mute/solo state
+ *
+ * @param track - Track to check
+ * @param soloActive - Whether any track in the pattern is soloed (see hasSoloTrack)
+ */
+export function isTrackAudible(track: PatternTrack, soloActive: boolean): boolean {
+  if (track.muted) return false;
+  return !soloActive || !!track.solo;
 }
 
 /**
@@ -59,6 +143,7 @@ export type Subdivision = '4n' | '4t' | '8n' | '8t' | '16n' | '16t' | '32n' | '3
 
 /**
  * Get steps per beat for a subdivision.
+ * A beat here is always a quarter note, independent of the time signature.
  * Triplet values return 1.5x the base note value (3 in the time of 2).
  */
 export function getStepsPerBeat(subdivision: Subdivision): number {
@@ -97,13 +182,113 @@ export function getSubdivisionLabel(subdivision: Subdivision): string {
   }
 }
 
+/**
+ * Time signature of a pattern.
+ * The numerator counts notes of the denominator's value per bar
+ * (e.g. 3/4 = three quarter notes, 7/8 = seven eighth notes).
+ */
+export interface TimeSignature {
+  /** Number of notes per bar (1-16) */
+  numerator: number;
+  /** Note value of one count */
+  denominator: 2 | 4 | 8 | 16;
+}
+
+/** Default time signature (4/4), also used for patterns saved before time signatures existed */
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = { numerator: 4, denominator: 4 };
+
+/**
+ * Time signatures offered in the sequencer
+ */
+export const TIME_SIGNATURES: TimeSignature[] = [
+  { numerator: 2, denominator: 4 },
+  { numerator: 3, denominator: 4 },
+  { numerator: 4, denominator: 4 },
+  { numerator: 5, denominator: 4 },
+  { numerator: 6, denominator: 4 },
+  { numerator: 7, denominator: 4 },
+  { numerator: 3, denominator: 8 },
+  { numerator: 5, denominator: 8 },
+  { numerator: 6, denominator: 8 },
+  { numerator: 7, denominator: 8 },
+  { numerator: 9, denominator: 8 },
+  { numerator: 12, denominator: 8 },
+];
+
+/**
+ * Format a time signature for display, e.g. "6/8"
+ */
+export function formatTimeSignature(timeSignature: TimeSignature): string {
+  return `${timeSignature.numerator}/${timeSignature.denominator}`;
+}
+
+/**
+ * Get the time signature of a pattern, defaulting to 4/4 for older patterns.
+ */
+export function getPatternTimeSignature(pattern: { timeSignature?: TimeSignature }): TimeSignature {
+  return pattern.timeSignature ?? DEFAULT_TIME_SIGNATURE;
+}
+
+/**
+ * Check if a time signature is compound (6/8, 9/8, 12/8).
+ * Compound meters are counted in dotted quarters (groups of three eighths).
+ */
+export function isCompoundMeter(timeSignature: TimeSignature): boolean {
+  return (
+    timeSignature.denominator === 8 &&
+    timeSignature.numerator > 3 &&
+    timeSignature.numerator % 3 === 0
+  );
+}
+
+/**
+ * Get the length of one bar in quarter notes (e.g. 3/4 = 3, 7/8 = 3.5).
+ */
+export function getQuarterNotesPerBar(timeSignature: TimeSignature): number {
+  return (timeSignature.numerator * 4) / timeSignature.denominator;
+}
+
+/**
+ * Get the number of counted beats per bar (e.g. 3/4 = 3, 6/8 = 2, 7/8 = 7).
+ */
+export function getBeatsPerBar(timeSignature: TimeSignature): number {
+  return isCompoundMeter(timeSignature)
+    ? timeSignature.numerator / 3
+    : timeSignature.numerator;
+}
+
+/**
+ * Get the number of grid steps in one bar.
+ */
+export function getStepsPerBar(subdivision: Subdivision, timeSignature: TimeSignature): number {
+  return getStepsPerBeat(subdivision) * getQuarterNotesPerBar(timeSignature);
+}
+
+/**
+ * Get the number of grid steps in one counted beat of the time signature.
+ * Used for beat separators, bar.beat labels and beat-wise seeking.
+ */
+export function getStepsPerCountedBeat(subdivision: Subdivision, timeSignature: TimeSignature): number {
+  return getStepsPerBar(subdivision, timeSignature) / getBeatsPerBar(timeSignature);
+}
+
+/**
+ * Check if a subdivision fits a whole number of steps into one bar.
+ * e.g. quarter triplets (4t) cannot be used in 3/4, quarter notes (4n) not in 7/8.
+ */
+export function isSubdivisionCompatible(subdivision: Subdivision, timeSignature: TimeSignature): boolean {
+  return Number.isInteger(getStepsPerBar(subdivision, timeSignature));
+}
+
 /**
  * Calculate total steps for a pattern.
  */
-export function getTotalSteps(bars: number, subdivision: Subdivision): number {
-  const stepsPerBeat = getStepsPerBeat(subdivision);
-  const beatsPerBar = 4; // 4/4 time signature
-  return bars * beatsPerBar * stepsPerBeat;
+export function getTotalSteps(
+  bars: number,
+  subdivision: Subdivision,
+  timeSignature: TimeSignature = DEFAULT_TIME_SIGNATURE
+): number {
+  return bars * getStepsPerBar(subdivision, timeSignature);
 }
 
 /**
@@ -121,8 +306,47 @@ export interface DrumPattern {
   subdivision: Subdivision;
   /** Number of bars in the pattern (1-4) */
   bars: 1 | 2 | 3 | 4;
+  /** Time signature, 4/4 when absent */
+  timeSignature?: TimeSignature;
+  /** Swing percentage (50 = straight, up to 75), straight when absent */
+  swing?: number;
+  /** Note value whose pairs are swung, 16n when absent */
+  swingUnit?: SwingUnit;
   /** Array of tracks (18 for FGDP-50) */
   tracks: PatternTrack[];
+  /**
+   * Grid and tracks from before the last subdivision change, so switching
+   * back restores the original notes; ignored once the tracks are edited
+   */
+  subdivisionSource?: SubdivisionSource;
+}
+
+/**
+ * Notes of a pattern on the grid they were written on
+ */
+export interface SubdivisionSource {
+  subdivision: Subdivision;
+  /** Length and meter the notes were written in; the source is stale once these change */
+  bars: DrumPattern['bars'];
+  timeSignature: TimeSignature;
+  tracks: PatternTrack[];
+}
+
+/**
+ * Note value whose pairs are swung (see utils/swing.ts)
+ */
+export type SwingUnit = '8n' | '16n';
+
+/** Tempo range and default for patterns (BPM) */
+export const MIN_BPM = 40;
+export const MAX_BPM = 200;
+export const DEFAULT_BPM = 120;
+
+/**
+ * Clamp a tempo to the supported range, rounded to whole BPM
+ */
+export function clampBpm(bpm: number): number {
+  return Math.max(MIN_BPM, Math.min(MAX_BPM, Math.round(bpm)));
 }
 
 /**
@@ -0,0 +1,33 @@
+/**
+ * Song Data Model Types
+ *
+ * A song arranges several DrumPatterns into a playable sequence
+ * (intro groove, verse, fill, chorus, ...).
+ */
+
+/**
+ * One slot in the song arrangement.
+ * The same pattern may appear in several entries (e.g. verse, chorus, verse).
+ */
+export interface SongEntry {
+  /** Unique identifier of this slot */
+  id: string;
+  /** ID of the DrumPattern played in this slot */
+  patternId: string;
+  /** How many times the pattern plays before moving on (1-16) */
+  repeats: number;
+}
+
+/**
+ * Playback position within a song
+ */
+export interface SongPosition {
+  /** Index into the song's entries */
+  entryIndex: number;
+  /** Zero-based repeat of the current entry */
+  repeat: number;
+}
+
+/** Repeat count limits for a song entry */
+export const MIN_SONG_REPEATS = 1;
+export const MAX_SONG_REPEATS = 16;
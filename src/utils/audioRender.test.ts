@@ -0,0 +1,108 @@
+/**
+ * Tests for the offline render schedule
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getRenderSchedule, clampRenderLoops } from './audioRender';
+import { MAX_GRACE_OFFSET } from '../config/articulations';
+import { PAD_IDS, PADS, FINGER_DEFAULTS, type PadId } from '../config/padMapping';
+import type { DrumPattern, PatternTrack } from '../types/pattern';
+
+/** 1-bar 16th-note pattern at 120 BPM (a step is 0.125 s) */
+function createTestPattern(): DrumPattern {
+  return {
+    id: 'test-pattern',
+    name: 'Exercise 1',
+    bpm: 120,
+    subdivision: '16n',
+    bars: 1,
+    tracks: PAD_IDS.map((padId) => ({
+      padId,
+      label: PADS[padId].label,
+      defaultFinger: FINGER_DEFAULTS[padId],
+      steps: Array.from({ length: 16 }, () => ({ active: false })),
+    })),
+  };
+}
+
+function getTrack(pattern: DrumPattern, padId: PadId): PatternTrack {
+  return pattern.tracks[PAD_IDS.indexOf(padId)];
+}
+
+const START = MAX_GRACE_OFFSET;
+const NO_EXTRAS = { loops: 1, countIn: false, metronome: false };
+
+describe('getRenderSchedule', () => {
+  it('repeats the pattern for each loop', () => {
+    const pattern = createTestPattern();
+    getTrack(pattern, 'kick').steps[0] = { active: true, velocity: 110 };
+    getTrack(pattern, 'snare').steps[4] = { active: true, articulation: 'flam' };
+
+    const { hits, clicks, duration } = getRenderSchedule(pattern, { ...NO_EXTRAS, loops: 2 });
+
+    expect(hits).toEqual([
+      { time: START, padId: 'kick', velocity: 110, articulation: undefined },
+      { time: START + 0.5, padId: 'snare', velocity: 100, articulation: 'flam' },
+      { time: START + 2, padId: 'kick', velocity: 110, articulation: undefined },
+      { time: START + 2.5, padId: 'snare', velocity: 100, articulation: 'flam' },
+    ]);
+    expect(clicks).toEqual([]);
+    expect(duration).toBeCloseTo(START + 4 + 2);
+  });
+
+  it('adds a count-in bar before the pattern', () => {
+    const pattern = createTestPattern();
+    getTrack(pattern, 'kick').steps[0] = { active: true };
+
+    const { hits, clicks } = getRenderSchedule(pattern, { ...NO_EXTRAS, countIn: true });
+
+    expect(clicks.map((c) => c.time)).toEqual([START, START + 0.5, START + 1, START + 1.5]);
+    expect(clicks.map((c) => c.downbeat)).toEqual([true, false, false, false]);
+    expect(hits[0].time).toBe(START + 2);
+  });
+
+  it('clicks on counted beats while the metronome is on', () => {
+    const pattern = createTestPattern();
+    pattern.subdivision = '8n';
+    pattern.timeSignature = { numerator: 6, denominator: 8 };
+    pattern.tracks.forEach((track) => {
+      track.steps = Array.from({ length: 6 }, () => ({ active: false }));
+    });
+
+    const { clicks } = getRenderSchedule(pattern, { loops: 2, countIn: false, metronome: true });
+
+    // 6/8 is counted in two dotted quarters (0.75 s at 120 BPM)
+    expect(clicks.map((c) => c.time)).toEqual([START, START + 0.75, START + 1.5, START + 2.25]);
+    expect(clicks.filter((c) => c.downbeat)).toHaveLength(2);
+  });
+
+  it('follows swing, polymetric tracks, mute and step conditions', () => {
+    const pattern = createTestPattern();
+    pattern.swing = 75;
+    getTrack(pattern, 'hihat_close_r').steps[1] = { active: true };
+    const kick = getTrack(pattern, 'kick');
+    kick.steps[0] = { active: true };
+    kick.length = 12;
+    getTrack(pattern, 'snare').steps[0] = { active: true };
+    getTrack(pattern, 'snare').muted = true;
+    getTrack(pattern, 'crash_r').steps[0] = { active: true, condition: { cycle: 2, iteration: 2 } };
+
+    const { hits } = getRenderSchedule(pattern, { ...NO_EXTRAS, loops: 2 });
+    const timesOf = (padId: PadId) => hits.filter((h) => h.padId === padId).map((h) => h.time);
+
+    // Swung 16th off-beat lands at 75% of the pair
+    expect(timesOf('hihat_close_r')[0]).toBeCloseTo(START + 0.1875);
+    // 12-step kick loop restarts every 1.5 s
+    expect(timesOf('kick')).toEqual([START, START + 1.5, START + 3]);
+    expect(timesOf('snare')).toEqual([]);
+    expect(timesOf('crash_r')).toEqual([START + 2]);
+  });
+});
+
+describe('clampRenderLoops', () => {
+  it('keeps loop counts in range', () => {
+    expect(clampRenderLoops(0)).toBe(1);
+    expect(clampRenderLoops(3.4)).toBe(3);
+    expect(clampRenderLoops(100)).toBe(16);
+  });
+});
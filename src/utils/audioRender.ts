@@ -0,0 +1,156 @@
+/**
+ * Audio Render Schedule
+ *
+ * Works out what an offline render of a pattern plays and when:
+ * - N loops of the pattern, timed like live playback (swing, polymetric
+ *   tracks, mute/solo, step conditions counted per loop)
+ * - Optional one-bar count-in and metronome clicks on the counted beats
+ *
+ * The audio itself is rendered by useAudioStore.renderPattern.
+ */
+
+import type { Articulation, DrumPattern } from '../types/pattern';
+import {
+  getBeatsPerBar,
+  getPatternTimeSignature,
+  getQuarterNotesPerBar,
+  getStepsPerBeat,
+  getStepVelocity,
+  getTrackLength,
+  getTrackStepIndex,
+  hasSoloTrack,
+  isTrackAudible,
+} from '../types/pattern';
+import type { PadId } from '../config/padMapping';
+import { MAX_GRACE_OFFSET } from '../config/articulations';
+import { getPatternSwing, getSwingOffset } from './swing';
+import { shouldStepFire } from './stepConditions';
+
+/** Loop count range */
+export const MIN_RENDER_LOOPS = 1;
+export const MAX_RENDER_LOOPS = 16;
+
+/** Silence after the last loop so cymbals can ring out (seconds) */
+const RENDER_TAIL = 2;
+
+export interface RenderOptions {
+  /** Number of times the pattern plays */
+  loops: number;
+  /** Play one bar of clicks before the pattern */
+  countIn: boolean;
+  /** Click on every counted beat while the pattern plays */
+  metronome: boolean;
+}
+
+/**
+ * A drum hit in the render (before articulations are expanded)
+ */
+export interface RenderHit {
+  /** Seconds from the start of the render */
+  time: number;
+  padId: PadId;
+  velocity: number;
+  articulation?: Articulation;
+}
+
+/**
+ * A metronome click in the render
+ */
+export interface RenderClick {
+  /** Seconds from the start of the render */
+  time: number;
+  /** First beat of a bar */
+  downbeat: boolean;
+}
+
+export interface RenderSchedule {
+  hits: RenderHit[];
+  clicks: RenderClick[];
+  /** Total length of the render in seconds */
+  duration: number;
+}
+
+/**
+ * Clamp a loop count to the valid range
+ */
+export function clampRenderLoops(loops: number): number {
+  return Math.max(MIN_RENDER_LOOPS, Math.min(MAX_RENDER_LOOPS, Math.round(loops)));
+}
+
+/**
+ * List the hits and clicks of a render
+ *
+ * @param random - Random source for step probabilities (for tests)
+ */
+export function getRenderSchedule(
+  pattern: DrumPattern,
+  options: RenderOptions,
+  random: () => number = Math.random
+): RenderSchedule {
+  const timeSignature = getPatternTimeSignature(pattern);
+  const quarterSeconds = 60 / pattern.bpm;
+  const stepSeconds = quarterSeconds / getStepsPerBeat(pattern.subdivision);
+  const barSeconds = quarterSeconds * getQuarterNotesPerBar(timeSignature);
+  const beatsPerBar = getBeatsPerBar(timeSignature);
+  const beatSeconds = barSeconds / beatsPerBar;
+
+  const loops = clampRenderLoops(options.loops);
+  const totalSteps = pattern.tracks[0]?.steps.length ?? 0;
+  const loopSeconds = totalSteps * stepSeconds;
+
+  // Leave room for grace notes before the first hit
+  const countInStart = MAX_GRACE_OFFSET;
+  const patternStart = countInStart + (options.countIn ? barSeconds : 0);
+  const { swing, unit } = getPatternSwing(pattern);
+  const soloActive = hasSoloTrack(pattern.tracks);
+
+  const hits: RenderHit[] = [];
+  for (let loop = 0; loop < loops; loop++) {
+    for (let stepIndex = 0; stepIndex < totalSteps; stepIndex++) {
+      const elapsedSteps = loop * totalSteps + stepIndex;
+      const time = patternStart
+        + elapsedSteps * stepSeconds
+        + getSwingOffset(stepIndex, pattern.subdivision, swing, unit, stepSeconds);
+
+      for (const track of pattern.tracks) {
+        // Each track wraps at its own length (polymeter) and counts its own loops
+        const step = track.steps[getTrackStepIndex(track, elapsedSteps)];
+        const loopIndex = Math.floor(elapsedSteps / getTrackLength(track));
+        if (
+          step?.active &&
+          isTrackAudible(track, soloActive) &&
+          shouldStepFire(step.condition, loopIndex, random)
+        ) {
+          hits.push({
+            time,
+            padId: track.padId as PadId,
+            velocity: getStepVelocity(step),
+            articulation: step.articulation,
+          });
+        }
+      }
+    }
+  }
+
+  const clicks: RenderClick[] = [];
+  const addBarClicks = (barStart: number) => {
+    for (let beat = 0; beat < beatsPerBar; beat++) {
+      clicks.push({ time: barStart + beat * beatSeconds, downbeat: beat === 0 });
+    }
+  };
+  if (options.countIn) {
+    addBarClicks(countInStart);
+  }
+  if (options.metronome) {
+    const bars = Math.round((loops * loopSeconds) / barSeconds);
+    for (let bar = 0; bar < bars; bar++) {
+      addBarClicks(patternStart + bar * barSeconds);
+    }
+  }
+
+  return {
+    hits,
+    clicks,
+    duration: patternStart + loops * loopSeconds + RENDER_TAIL,
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Tests for drum notation layout
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createDrumNotation, getNoteValue, getNotationEventsAt, getNotationGroupSteps } from './drumNotation';
+import { PAD_IDS, PADS, FINGER_DEFAULTS, type PadId } from '../config/padMapping';
+import type { DrumPattern, PatternTrack, Subdivision } from '../types/pattern';
+import type { NotationEvent } from '../types/notation';
+
+function createTestPattern(subdivision: Subdivision = '16n', steps = 16): DrumPattern {
+  return {
+    id: 'test-pattern',
+    name: 'Exercise 1',
+    bpm: 100,
+    subdivision,
+    bars: 1,
+    tracks: PAD_IDS.map((padId) => ({
+      padId,
+      label: PADS[padId].label,
+      defaultFinger: FINGER_DEFAULTS[padId],
+      steps: Array.from({ length: steps }, () => ({ active: false })),
+    })),
+  };
+}
+
+function getTrack(pattern: DrumPattern, padId: PadId): PatternTrack {
+  return pattern.tracks[PAD_IDS.indexOf(padId)];
+}
+
+function activate(pattern: DrumPattern, padId: PadId, steps: number[]): void {
+  for (const step of steps) {
+    getTrack(pattern, padId).steps[step] = { active: true, finger: FINGER_DEFAULTS[padId], velocity: 100 };
+  }
+}
+
+/** Compact rhythm summary: "n" = chord, "r" = rest, with type and dot */
+function rhythm(events: NotationEvent[]): string[] {
+  return events.map((e) => `${e.notes.length > 0 ? 'n' : 'r'}:${e.type}${e.dots ? '.' : ''}`);
+}
+
+describe('getNoteValue', () => {
+  it('finds plain and dotted values', () => {
+    expect(getNoteValue(1, '16th')).toEqual({ type: '16th', dots: 0 });
+    expect(getNoteValue(2, '16th')).toEqual({ type: 'eighth', dots: 0 });
+    expect(getNoteValue(3, '16th')).toEqual({ type: 'eighth', dots: 1 });
+    expect(getNoteValue(4, '16th')).toEqual({ type: 'quarter', dots: 0 });
+    expect(getNoteValue(5, '16th')).toBeNull();
+  });
+});
+
+describe('getNotationGroupSteps', () => {
+  it('groups by counted beat, or by bracket for triplets', () => {
+    expect(getNotationGroupSteps('16n', { numerator: 4, denominator: 4 })).toBe(4);
+    expect(getNotationGroupSteps('8n', { numerator: 6, denominator: 8 })).toBe(3);
+    expect(getNotationGroupSteps('16n', { numerator: 7, denominator: 8 })).toBe(2);
+    expect(getNotationGroupSteps('4n', { numerator: 6, denominator: 8 })).toBe(1);
+    expect(getNotationGroupSteps('8t', { numerator: 4, denominator: 4 })).toBe(3);
+  });
+});
+
+describe('createDrumNotation', () => {
+  it('writes a rock beat as beamed 8ths over quarter-note kicks', () => {
+    const pattern = createTestPattern();
+    activate(pattern, 'hihat_close_r', [0, 2, 4, 6, 8, 10, 12, 14]);
+    activate(pattern, 'snare', [4, 12]);
+    activate(pattern, 'kick', [0, 8]);
+
+    const { measures } = createDrumNotation(pattern);
+    const [hands, kick] = measures[0].voices;
+
+    expect(measures).toHaveLength(1);
+    expect(hands.voice).toBe(1);
+    expect(rhythm(hands.events)).toEqual(Array(8).fill('n:eighth'));
+    expect(hands.events.map((e) => e.beam)).toEqual(['begin', 'end', 'begin', 'end', 'begin', 'end', 'begin', 'end']);
+    expect(hands.events[2].notes.map((n) => n.padId)).toEqual(['snare', 'hihat_close_r']);
+
+    expect(kick.voice).toBe(2);
+    expect(rhythm(kick.events)).toEqual(['n:quarter', 'r:quarter', 'n:quarter', 'r:quarter']);
+  });
+
+  it('fills gaps with rests on beat subdivisions', () => {
+    const pattern = createTestPattern();
+    activate(pattern, 'snare', [3, 5]);
+
+    const [hands] = createDrumNotation(pattern).measures[0].voices;
+
+    // Beat 1: 8th rest, 16th rest, 16th; beat 2: 16th rest, dotted 8th
+    expect(rhythm(hands.events.slice(0, 5))).toEqual(['r:eighth', 'r:16th', 'n:16th', 'r:16th', 'n:eighth.']);
+    expect(hands.events.slice(0, 5).map((e) => e.step)).toEqual([0, 2, 3, 4, 5]);
+  });
+
+  it('leaves out the kick voice when the kick is silent', () => {
+    const pattern = createTestPattern();
+    activate(pattern, 'snare', [4]);
+
+    expect(createDrumNotation(pattern).measures[0].voices.map((v) => v.voice)).toEqual([1]);
+  });
+
+  it('brackets triplets and writes full brackets as plain values', () => {
+    const pattern = createTestPattern('8t', 12);
+    activate(pattern, 'ride_bow', [0, 2, 3, 4, 5, 6]);
+
+    const [hands] = createDrumNotation(pattern).measures[0].voices;
+
+    expect(rhythm(hands.events)).toEqual([
+      'n:quarter', 'n:eighth',
+      'n:eighth', 'n:eighth', 'n:eighth',
+      'n:quarter',
+      'r:quarter',
+    ]);
+    expect(hands.events.map((e) => e.tuplet)).toEqual([
+      'start', 'stop',
+      'start', 'middle', 'stop',
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it('splits bars and unrolls polymetric tracks', () => {
+    const pattern = createTestPattern('16n', 32);
+    pattern.bars = 2;
+    activate(pattern, 'snare', [0]);
+    getTrack(pattern, 'snare').length = 12;
+
+    const { measures } = createDrumNotation(pattern);
+    const starts = measures.map((m) => m.voices[0].events.filter((e) => e.notes.length > 0).map((e) => e.step));
+
+    // Hits at 0, 12 and 24 (bar 2, step 8)
+    expect(starts).toEqual([[0, 12], [8]]);
+  });
+});
+
+describe('getNotationEventsAt', () => {
+  it('finds the event sounding at a step in each voice', () => {
+    const pattern = createTestPattern('16n', 32);
+    pattern.bars = 2;
+    activate(pattern, 'snare', [16, 20]);
+    activate(pattern, 'kick', [16]);
+    const notation = createDrumNotation(pattern);
+
+    const atHit = getNotationEventsAt(notation, 16);
+    expect(atHit.measure).toBe(1);
+    expect(atHit.events.map((e) => [e.step, e.notes[0]?.padId])).toEqual([[0, 'snare'], [0, 'kick']]);
+
+    // Step 18 is still inside the snare quarter note started at step 16
+    const between = getNotationEventsAt(notation, 18);
+    expect(between.events[0]).toBe(atHit.events[0]);
+  });
+});
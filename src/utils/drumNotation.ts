@@ -0,0 +1,261 @@
+/**
+ * Drum Notation Layout
+ *
+ * Turns a pattern into drum notation (one pass, as played: polymetric
+ * tracks unrolled, muted tracks left out, step conditions ignored):
+ * - Hands in voice 1 (stems up), kick in voice 2 (stems down)
+ * - Each bar is split into beam groups: the counted beat for straight
+ *   grids, three steps (one 3:2 bracket) for triplet grids
+ * - Within a group a chord lasts until the next chord (the longest single
+ *   note value that fits); the rest of the gap is filled with rests
+ */
+
+import type { DrumPattern, Subdivision, TimeSignature } from '../types/pattern';
+import {
+  getPatternTimeSignature,
+  getStepsPerBar,
+  getStepsPerBeat,
+  getStepsPerCountedBeat,
+  getStepVelocity,
+  getTrackStepIndex,
+  hasSoloTrack,
+  isTrackAudible,
+  isTriplet,
+} from '../types/pattern';
+import type {
+  DrumNotation,
+  NotationEvent,
+  NotationMeasure,
+  NotationNote,
+  NotationVoiceNumber,
+  NoteType,
+} from '../types/notation';
+import type { PadId } from '../config/padMapping';
+import { DRUM_STAFF_POSITIONS, LONGEST_BEAMED_TYPE, NOTE_TYPES, getStaffIndex } from '../config/drumNotation';
+
+/** Written value of one grid step (triplet steps are written inside 3:2 brackets) */
+const STEP_TYPES: Record<Subdivision, NoteType> = {
+  '4n': 'quarter',
+  '4t': 'quarter',
+  '8n': 'eighth',
+  '8t': 'eighth',
+  '16n': '16th',
+  '16t': '16th',
+  '32n': '32nd',
+  '32t': '32nd',
+};
+
+/** Steps in one triplet bracket */
+const TUPLET_STEPS = 3;
+
+/**
+ * Steps per beam group: the counted beat (or a quarter note when the beat
+ * isn't a whole number of steps), or one bracket for triplet grids
+ */
+export function getNotationGroupSteps(subdivision: Subdivision, timeSignature: TimeSignature): number {
+  if (isTriplet(subdivision)) return TUPLET_STEPS;
+  const stepsPerCountedBeat = getStepsPerCountedBeat(subdivision, timeSignature);
+  return Number.isInteger(stepsPerCountedBeat) ? stepsPerCountedBeat : getStepsPerBeat(subdivision);
+}
+
+/**
+ * Note value of a length in steps, if one (possibly dotted) note can show it
+ */
+export function getNoteValue(
+  steps: number,
+  stepType: NoteType
+): { type: NoteType; dots: number } | null {
+  const base = NOTE_TYPES.indexOf(stepType);
+  const plain = Math.log2(steps);
+  if (Number.isInteger(plain) && NOTE_TYPES[base + plain]) {
+    return { type: NOTE_TYPES[base + plain], dots: 0 };
+  }
+  const dotted = Math.log2(steps / 3);
+  if (Number.isInteger(dotted) && NOTE_TYPES[base + dotted + 1]) {
+    return { type: NOTE_TYPES[base + dotted + 1], dots: 1 };
+  }
+  return null;
+}
+
+function createEvent(step: number, steps: number, stepType: NoteType, notes: NotationNote[]): NotationEvent {
+  const value = getNoteValue(steps, stepType) ?? { type: stepType, dots: 0 };
+  return { step, steps, ...value, notes };
+}
+
+/**
+ * Lay out one straight beam group
+ *
+ * @param start - First step of the group in the bar
+ * @param length - Group length in steps
+ * @param chords - Chords by step offset within the group
+ */
+function layoutStraightGroup(
+  start: number,
+  length: number,
+  chords: Map<number, NotationNote[]>,
+  stepType: NoteType
+): NotationEvent[] {
+  const events: NotationEvent[] = [];
+  const offsets = [...chords.keys()].sort((a, b) => a - b);
+
+  // Whole-group rest, or rests on power-of-two boundaries
+  const pushRests = (from: number, to: number) => {
+    if (from === 0 && to === length && getNoteValue(length, stepType)) {
+      events.push(createEvent(start, length, stepType, []));
+      return;
+    }
+    let pos = from;
+    while (pos < to) {
+      let steps = 1;
+      while (pos % (steps * 2) === 0 && pos + steps * 2 <= to) steps *= 2;
+      events.push(createEvent(start + pos, steps, stepType, []));
+      pos += steps;
+    }
+  };
+
+  pushRests(0, offsets[0] ?? length);
+  offsets.forEach((offset, i) => {
+    const next = offsets[i + 1] ?? length;
+    let steps = next - offset;
+    while (!getNoteValue(steps, stepType)) steps--;
+    events.push(createEvent(start + offset, steps, stepType, chords.get(offset) ?? []));
+    pushRests(offset + steps, next);
+  });
+
+  return events;
+}
+
+/**
+ * Lay out one triplet bracket (three steps)
+ * A bracket with no hit or a single hit on its first step is written as
+ * one plain note value instead
+ */
+function layoutTripletGroup(
+  start: number,
+  chords: Map<number, NotationNote[]>,
+  stepType: NoteType
+): NotationEvent[] {
+  const offsets = [...chords.keys()].sort((a, b) => a - b);
+  if (offsets.length === 0 || (offsets.length === 1 && offsets[0] === 0)) {
+    const value = getNoteValue(2, stepType) ?? { type: stepType, dots: 0 };
+    return [{ step: start, steps: TUPLET_STEPS, ...value, notes: chords.get(0) ?? [] }];
+  }
+
+  const events: NotationEvent[] = [];
+  if (offsets[0] > 0) {
+    events.push(createEvent(start, offsets[0], stepType, []));
+  }
+  offsets.forEach((offset, i) => {
+    const next = offsets[i + 1] ?? TUPLET_STEPS;
+    events.push(createEvent(start + offset, next - offset, stepType, chords.get(offset) ?? []));
+  });
+
+  events.forEach((event, i) => {
+    event.tuplet = i === 0 ? 'start' : i === events.length - 1 ? 'stop' : 'middle';
+  });
+  return events;
+}
+
+/**
+ * Beam the chords of a group that are short enough to take beams
+ */
+function beamGroup(events: NotationEvent[]): void {
+  const longest = NOTE_TYPES.indexOf(LONGEST_BEAMED_TYPE);
+  const beamed = events.filter(
+    (event) => event.notes.length > 0 && NOTE_TYPES.indexOf(event.type) <= longest
+  );
+  if (beamed.length < 2) return;
+
+  beamed.forEach((event, i) => {
+    event.beam = i === 0 ? 'begin' : i === beamed.length - 1 ? 'end' : 'continue';
+  });
+}
+
+/**
+ * Lay out a pattern as drum notation
+ */
+export function createDrumNotation(pattern: DrumPattern): DrumNotation {
+  const timeSignature = getPatternTimeSignature(pattern);
+  const stepsPerBar = getStepsPerBar(pattern.subdivision, timeSignature);
+  const groupSteps = getNotationGroupSteps(pattern.subdivision, timeSignature);
+  const stepType = STEP_TYPES[pattern.subdivision];
+  const triplet = isTriplet(pattern.subdivision);
+  const totalSteps = pattern.tracks[0]?.steps.length ?? 0;
+  const soloActive = hasSoloTrack(pattern.tracks);
+
+  // Chords per voice by absolute step
+  const chordsByVoice: Record<NotationVoiceNumber, Map<number, NotationNote[]>> = {
+    1: new Map(),
+    2: new Map(),
+  };
+  for (const track of pattern.tracks) {
+    const position = DRUM_STAFF_POSITIONS[track.padId as PadId];
+    if (!position || !isTrackAudible(track, soloActive)) continue;
+
+    for (let stepIndex = 0; stepIndex < totalSteps; stepIndex++) {
+      const step = track.steps[getTrackStepIndex(track, stepIndex)];
+      if (!step?.active) continue;
+
+      const chords = chordsByVoice[position.voice];
+      const chord = chords.get(stepIndex) ?? [];
+      chord.push({
+        padId: track.padId as PadId,
+        velocity: getStepVelocity(step),
+        articulation: step.articulation,
+        finger: step.finger ?? track.defaultFinger,
+      });
+      chords.set(stepIndex, chord);
+    }
+  }
+
+  // Chord notes from the bottom of the staff up
+  for (const chords of Object.values(chordsByVoice)) {
+    for (const chord of chords.values()) {
+      chord.sort((a, b) => getStaffIndex(DRUM_STAFF_POSITIONS[a.padId]) - getStaffIndex(DRUM_STAFF_POSITIONS[b.padId]));
+    }
+  }
+
+  // The kick voice is only written when the kick plays
+  const voices: NotationVoiceNumber[] = chordsByVoice[2].size > 0 ? [1, 2] : [1];
+
+  const measures: NotationMeasure[] = [];
+  for (let barStart = 0; barStart < totalSteps; barStart += stepsPerBar) {
+    measures.push({
+      voices: voices.map((voice) => {
+        const events: NotationEvent[] = [];
+        for (let start = 0; start < stepsPerBar; start += groupSteps) {
+          const length = Math.min(groupSteps, stepsPerBar - start);
+          const chords = new Map<number, NotationNote[]>();
+          for (let offset = 0; offset < length; offset++) {
+            const chord = chordsByVoice[voice].get(barStart + start + offset);
+            if (chord) chords.set(offset, chord);
+          }
+
+          const groupEvents = triplet
+            ? layoutTripletGroup(start, chords, stepType)
+            : layoutStraightGroup(start, length, chords, stepType);
+          beamGroup(groupEvents);
+          events.push(...groupEvents);
+        }
+        return { voice, events };
+      }),
+    });
+  }
+
+  return { timeSignature, stepsPerBar, triplet, measures };
+}
+
+/**
+ * Events (one per voice) sounding at a pattern step, with their bar index
+ */
+export function getNotationEventsAt(
+  notation: DrumNotation,
+  step: number
+): { measure: number; events: NotationEvent[] } {
+  const measure = Math.floor(step / notation.stepsPerBar);
+  const stepInBar = step % notation.stepsPerBar;
+  const events = (notation.measures[measure]?.voices ?? []).flatMap((voice) =>
+    voice.events.filter((event) => event.step <= stepInBar && stepInBar < event.step + event.steps)
+  );
+  return { measure, events };
+}
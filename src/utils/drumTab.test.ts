@@ -0,0 +1,234 @@
+/**
+ * Tests for ASCII drum tab import and export
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { DrumPattern, PatternTrack, Subdivision } from '../types/pattern';
+import { DEFAULT_TIME_SIGNATURE } from '../types/pattern';
+import type { DrumTab } from '../types/drumTab';
+import { PAD_IDS, PADS, FINGER_DEFAULTS, type PadId } from '../config/padMapping';
+import { DEFAULT_TAB_ASSIGNMENT, TAB_EXPORT_LABELS } from '../config/drumTab';
+import {
+  buildTabPattern,
+  countTabHits,
+  createDrumTab,
+  detectTabSubdivision,
+  parseDrumTab,
+  DEFAULT_TAB_NAME,
+} from './drumTab';
+
+const BASIC_ROCK = [
+  'Basic Rock',
+  'HH|x-x-x-x-x-x-x-x-|',
+  'SD|----o-------o---|',
+  'BD|o-------o-o-----|',
+].join('\n');
+
+function parse(text: string): DrumTab {
+  const result = parseDrumTab(text);
+  if (!result.ok) throw new Error(result.error);
+  return result.tab;
+}
+
+function createTestPattern(subdivision: Subdivision = '16n', steps = 16): DrumPattern {
+  return {
+    id: 'test-pattern',
+    name: 'Exercise 1',
+    bpm: 100,
+    subdivision,
+    bars: 1,
+    tracks: PAD_IDS.map((padId) => ({
+      padId,
+      label: PADS[padId].label,
+      defaultFinger: FINGER_DEFAULTS[padId],
+      steps: Array.from({ length: steps }, () => ({ active: false })),
+    })),
+  };
+}
+
+function getTrack(pattern: DrumPattern, padId: PadId): PatternTrack {
+  return pattern.tracks[PAD_IDS.indexOf(padId)];
+}
+
+function getActiveSteps(pattern: DrumPattern, padId: PadId): number[] {
+  return getTrack(pattern, padId).steps.flatMap((step, i) => (step.active ? [i] : []));
+}
+
+describe('parseDrumTab', () => {
+  it('reads labelled lines and the title', () => {
+    const tab = parse(BASIC_ROCK);
+
+    expect(tab.title).toBe('Basic Rock');
+    expect(tab.barLength).toBe(16);
+    expect(tab.lines.map((line) => line.label)).toEqual(['HH', 'SD', 'BD']);
+    expect(tab.lines[2].cells).toBe('o-------o-o-----');
+  });
+
+  it('joins lines repeated in later systems and accepts ":" separators', () => {
+    const tab = parse(['HH: x-x-x-x-|', 'BD: o-------|', '', 'HH: xxxxxxxx|', 'BD: o---o---|'].join('\n'));
+
+    expect(tab.lines).toEqual([
+      { label: 'HH', cells: 'x-x-x-x-xxxxxxxx' },
+      { label: 'BD', cells: 'o-------o---o---' },
+    ]);
+    expect(tab.barLength).toBe(8);
+  });
+
+  it('keeps lines that start in a later system on their beats', () => {
+    const tab = parse(['HH|x-x-x-x-|', 'BD|o-------|', '', 'HH|x-x-x-x-|', 'SD|----o---|', 'BD|o-------|'].join('\n'));
+
+    expect(tab.lines).toEqual([
+      { label: 'HH', cells: 'x-x-x-x-x-x-x-x-' },
+      { label: 'BD', cells: 'o-------o-------' },
+      { label: 'SD', cells: '------------o---' },
+    ]);
+  });
+
+  it('rests on lines missing from a later system', () => {
+    const tab = parse(['HH|x-x-x-x-|', 'SD|----o---|', 'HH|xxxxxxxx|', 'BD|o-------|'].join('\n'));
+
+    expect(tab.lines).toEqual([
+      { label: 'HH', cells: 'x-x-x-x-xxxxxxxx' },
+      { label: 'SD', cells: '----o-----------' },
+      { label: 'BD', cells: '--------o-------' },
+    ]);
+  });
+
+  it('reads tempo and time signature from text lines', () => {
+    const tab = parse(['Waltz', '90 BPM · 1/8 · 3/4', 'BD|o-----|'].join('\n'));
+
+    expect(tab.title).toBe('Waltz');
+    expect(tab.bpm).toBe(90);
+    expect(tab.timeSignature).toEqual({ numerator: 3, denominator: 4 });
+  });
+
+  it('rejects text without tab lines', () => {
+    const result = parseDrumTab('Tempo: 120\nplay it loud');
+    expect(result.ok).toBe(false);
+  });
+});
+
+describe('detectTabSubdivision', () => {
+  const fourFour = DEFAULT_TIME_SIGNATURE;
+
+  it('matches the bar length to a grid', () => {
+    expect(detectTabSubdivision(parse('HH|x-x-x-x-|'), fourFour)).toBe('8n');
+    expect(detectTabSubdivision(parse('HH|x-xx-xx-xx-x|'), fourFour)).toBe('8t');
+    expect(detectTabSubdivision(parse(BASIC_ROCK), fourFour)).toBe('16n');
+  });
+
+  it('fits lines without bar lines into whole bars', () => {
+    expect(detectTabSubdivision(parse('HH|x-x-x-x-x-x-x-x-x-x-x-x-x-x-x-x-'), fourFour)).toBe('16n');
+  });
+});
+
+describe('buildTabPattern', () => {
+  it('places hits on their pads', () => {
+    const { pattern, unmapped } = buildTabPattern(parse(BASIC_ROCK), { assignment: DEFAULT_TAB_ASSIGNMENT });
+
+    expect(pattern.name).toBe('Basic Rock');
+    expect(pattern.subdivision).toBe('16n');
+    expect(pattern.bars).toBe(1);
+    expect(getActiveSteps(pattern, 'hihat_close_r')).toEqual([0, 2, 4, 6, 8, 10, 12, 14]);
+    expect(getActiveSteps(pattern, 'snare')).toEqual([4, 12]);
+    expect(getActiveSteps(pattern, 'kick')).toEqual([0, 8, 10]);
+    expect(getTrack(pattern, 'kick').steps[0]).toEqual({
+      active: true,
+      finger: FINGER_DEFAULTS.kick,
+      velocity: 100,
+    });
+    expect(unmapped).toEqual([]);
+  });
+
+  it('reads articulation symbols', () => {
+    const { pattern } = buildTabPattern(parse('SD|Xgfd|'), { subdivision: '4n', assignment: DEFAULT_TAB_ASSIGNMENT });
+    expect(getTrack(pattern, 'snare').steps.map((step) => step.articulation)).toEqual([
+      'accent',
+      'ghost',
+      'flam',
+      'drag',
+    ]);
+  });
+
+  it('reports unmapped, truncated and merged hits', () => {
+    const tab = parse(['ZZ|x-x-|', 'BD|o---|o---|o---|o---|o---|', 'K |o-o-|'].join('\n'));
+    const result = buildTabPattern(tab, { subdivision: '4n', assignment: DEFAULT_TAB_ASSIGNMENT });
+
+    expect(result.unmapped).toEqual([{ label: 'ZZ', count: 2 }]);
+    expect(result.pattern.bars).toBe(4);
+    expect(result.truncated).toBe(1);
+    expect(result.merged).toBe(1);
+    expect(getActiveSteps(result.pattern, 'kick')).toEqual([0, 2, 4, 8, 12]);
+  });
+
+  it('follows mapping changes and skipped labels', () => {
+    const { pattern, unmapped } = buildTabPattern(parse(BASIC_ROCK), {
+      assignment: { ...DEFAULT_TAB_ASSIGNMENT, HH: 'ride_bow', SD: null },
+    });
+    expect(getActiveSteps(pattern, 'ride_bow')).toHaveLength(8);
+    expect(getActiveSteps(pattern, 'snare')).toEqual([]);
+    expect(unmapped).toEqual([{ label: 'SD', count: 2 }]);
+  });
+
+  it('names untitled tabs', () => {
+    const { pattern } = buildTabPattern(parse('BD|o---|'), { assignment: DEFAULT_TAB_ASSIGNMENT });
+    expect(pattern.name).toBe(DEFAULT_TAB_NAME);
+  });
+});
+
+describe('countTabHits', () => {
+  it('counts hits per line', () => {
+    expect(countTabHits(parse(BASIC_ROCK))).toEqual([
+      { label: 'HH', count: 8 },
+      { label: 'SD', count: 2 },
+      { label: 'BD', count: 3 },
+    ]);
+  });
+});
+
+describe('createDrumTab', () => {
+  it('maps every export label back to its own pad', () => {
+    for (const padId of PAD_IDS) {
+      expect(DEFAULT_TAB_ASSIGNMENT[TAB_EXPORT_LABELS[padId]]).toBe(padId);
+    }
+  });
+
+  it('writes cymbals above drums with bar lines and articulation symbols', () => {
+    const pattern = createTestPattern('8n', 16);
+    pattern.bars = 2;
+    getTrack(pattern, 'kick').steps[0] = { active: true, velocity: 100 };
+    getTrack(pattern, 'snare').steps[4] = { active: true, velocity: 100, articulation: 'accent' };
+    getTrack(pattern, 'snare').steps[7] = { active: true, velocity: 100, articulation: 'ghost' };
+    getTrack(pattern, 'hihat_close_r').steps[2] = { active: true, velocity: 100 };
+
+    const lines = createDrumTab(pattern).split('\n');
+    expect(lines.slice(0, 2)).toEqual(['Exercise 1', '100 BPM · 1/8 · 4/4']);
+    expect(lines.slice(3, 6)).toEqual([
+      'HH|--x-----|--------|',
+      'SD|----O--g|--------|',
+      'BD|o-------|--------|',
+    ]);
+  });
+
+  it('round-trips through the importer', () => {
+    const pattern = createTestPattern('16t', 36);
+    pattern.bpm = 132;
+    pattern.timeSignature = { numerator: 3, denominator: 4 };
+    pattern.bars = 2;
+    getTrack(pattern, 'crash_l').steps[0] = { active: true, velocity: 100 };
+    getTrack(pattern, 'tom_low_l').steps[5] = { active: true, velocity: 100, articulation: 'flam' };
+    getTrack(pattern, 'kick').steps[13] = { active: true, velocity: 100 };
+
+    const tab = parse(createDrumTab(pattern));
+    const { pattern: imported } = buildTabPattern(tab, { assignment: DEFAULT_TAB_ASSIGNMENT });
+
+    expect(imported.name).toBe('Exercise 1');
+    expect(imported.bpm).toBe(132);
+    expect(imported.timeSignature).toEqual({ numerator: 3, denominator: 4 });
+    expect(imported.subdivision).toBe('16t');
+    expect(imported.bars).toBe(2);
+    expect(getActiveSteps(imported, 'crash_l')).toEqual([0]);
+    expect(getTrack(imported, 'tom_low_l').steps[5].articulation).toBe('flam');
+    expect(getActiveSteps(imported, 'kick')).toEqual([13]);
+  });
+});
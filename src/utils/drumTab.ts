@@ -0,0 +1,361 @@
+/**
+ * ASCII Drum Tab Import and Export
+ *
+ * Converts between patterns and plain-text drum tabs:
+ *   HH|x-x-x-x-x-x-x-x-|
+ *   SD|----o-------o---|
+ *   BD|o-------o-o-----|
+ * - One character per grid step, "|" bar lines (optional on import)
+ * - Lines are matched to pads by label (see config/drumTab.ts); lines
+ *   repeated in later systems continue the earlier ones, and a line missing
+ *   from a system rests for its length
+ * - Accents, ghost notes, flams and drags have their own symbols
+ * - Import keeps up to 4 bars; later hits are reported, as are hits on
+ *   unmapped lines
+ */
+
+import type { DrumPattern, PatternStep, Subdivision, TimeSignature } from '../types/pattern';
+import {
+  DEFAULT_BPM,
+  DEFAULT_TIME_SIGNATURE,
+  DEFAULT_VELOCITY,
+  TIME_SIGNATURES,
+  clampBpm,
+  formatTimeSignature,
+  getPatternTimeSignature,
+  getStepsPerBar,
+  getSubdivisionLabel,
+  getTrackStepIndex,
+  hasSoloTrack,
+  isSubdivisionCompatible,
+  isTrackAudible,
+} from '../types/pattern';
+import type { Articulation } from '../types/pattern';
+import type { DrumTab, DrumTabLine } from '../types/drumTab';
+import { PAD_IDS, PADS, FINGER_DEFAULTS, type PadId } from '../config/padMapping';
+import { DRUM_STAFF_POSITIONS, getStaffIndex } from '../config/drumNotation';
+import {
+  TAB_EXPORT_LABELS,
+  TAB_HIT_SYMBOLS,
+  TAB_REST_SYMBOLS,
+  type TabLabelAssignment,
+} from '../config/drumTab';
+import { MAX_BARS } from './midiImport';
+
+/** Pattern name when the tab has no title */
+export const DEFAULT_TAB_NAME = 'Drum Tab';
+
+/** Longest pattern name (as in the name editor) */
+const MAX_NAME_LENGTH = 50;
+
+/** Subdivisions tried by detection, most common first */
+const TAB_SUBDIVISIONS: Subdivision[] = ['16n', '8n', '8t', '16t', '32n', '4n', '4t', '32t'];
+
+/** Label, separator ("|" or ":") and cells of a tab line */
+const TAB_LINE_PATTERN = /^\s*([A-Za-z][A-Za-z0-9]{0,5})\s*[|:](.*)$/;
+
+/** Cells of a tab line: rests, hits, bar lines and spacing only */
+const TAB_CELLS_PATTERN = new RegExp(
+  `^[${escapeClass(TAB_REST_SYMBOLS + Object.keys(TAB_HIT_SYMBOLS).join(''))}|\\s]*$`
+);
+
+const BPM_PATTERN = /(\d+(?:\.\d+)?)\s*BPM/i;
+const TIME_SIGNATURE_PATTERN = /\b(\d{1,2})\/(\d{1,2})\b/g;
+
+function escapeClass(chars: string): string {
+  return chars.replace(/[-\\\]^]/g, '\\$&');
+}
+
+/**
+ * Hits on one tab line label
+ */
+export interface TabLabelCount {
+  /** Label in upper case */
+  label: string;
+  count: number;
+}
+
+export interface DrumTabImportOptions {
+  /** Grid to read the cells on; detected when undefined */
+  subdivision?: Subdivision;
+  /** Time signature; the tab's (or 4/4) when undefined */
+  timeSignature?: TimeSignature;
+  /** Line label lookup (upper-case labels) */
+  assignment: TabLabelAssignment;
+}
+
+export interface DrumTabImportResult {
+  pattern: DrumPattern;
+  /** Hits on lines without a pad, per label */
+  unmapped: TabLabelCount[];
+  /** Hits beyond the last bar that fits in a pattern */
+  truncated: number;
+  /** Hits that landed on a step the same pad already plays */
+  merged: number;
+}
+
+export type DrumTabParseResult =
+  | { ok: true; tab: DrumTab }
+  | { ok: false; error: string };
+
+/**
+ * Whether a cell holds a hit
+ */
+function isHitCell(cell: string): boolean {
+  return cell in TAB_HIT_SYMBOLS;
+}
+
+/**
+ * Read the tab lines, title, tempo and time signature from pasted text
+ */
+export function parseDrumTab(text: string): DrumTabParseResult {
+  const linesByLabel = new Map<string, DrumTabLine>();
+  const barLengths = new Map<number, number>();
+  const textLines: string[] = [];
+
+  // Systems end at a non-tab line or when a label comes round again
+  const systemLabels = new Set<string>();
+  let systemStart = 0;
+  let systemLength = 0;
+  const endSystem = () => {
+    systemStart += systemLength;
+    systemLength = 0;
+    systemLabels.clear();
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const match = TAB_LINE_PATTERN.exec(rawLine);
+    if (!match || !TAB_CELLS_PATTERN.test(match[2]) || !/[^|\s]/.test(match[2])) {
+      if (rawLine.trim()) textLines.push(rawLine.trim());
+      endSystem();
+      continue;
+    }
+
+    // Bars between bar lines; a trailing bar line closes the last one
+    const content = match[2].replace(/\s+/g, '');
+    const bars = content.split('|');
+    bars.forEach((bar, i) => {
+      const isClosed = i < bars.length - 1;
+      if (bar && isClosed) barLengths.set(bar.length, (barLengths.get(bar.length) ?? 0) + 1);
+    });
+
+    const label = match[1].toUpperCase();
+    if (systemLabels.has(label)) endSystem();
+    systemLabels.add(label);
+
+    // Lines missing from earlier systems rest until this one starts
+    const cells = bars.join('');
+    const line = linesByLabel.get(label) ?? { label: match[1], cells: '' };
+    line.cells = line.cells.padEnd(systemStart, TAB_REST_SYMBOLS[0]) + cells;
+    linesByLabel.set(label, line);
+    systemLength = Math.max(systemLength, cells.length);
+  }
+  endSystem();
+
+  // Lines missing from the last systems rest until the end
+  linesByLabel.forEach((line) => {
+    line.cells = line.cells.padEnd(systemStart, TAB_REST_SYMBOLS[0]);
+  });
+
+  if (linesByLabel.size === 0) {
+    return { ok: false, error: 'No drum tab lines found (expected lines like "HH|x-x-x-x-|")' };
+  }
+
+  const info = textLines.join(' ');
+  const bpmMatch = BPM_PATTERN.exec(info);
+  const timeSignature = [...info.matchAll(TIME_SIGNATURE_PATTERN)]
+    .map((m) => TIME_SIGNATURES.find((ts) => ts.numerator === Number(m[1]) && ts.denominator === Number(m[2])))
+    .find((ts) => ts !== undefined);
+  const title = textLines.find((line) => !BPM_PATTERN.test(line));
+
+  // The most common bar length
+  const [barLength] = [...barLengths.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+
+  return {
+    ok: true,
+    tab: {
+      title: title?.slice(0, MAX_NAME_LENGTH),
+      bpm: bpmMatch ? clampBpm(Number(bpmMatch[1])) : undefined,
+      timeSignature: timeSignature && { ...timeSignature },
+      barLength,
+      lines: [...linesByLabel.values()],
+    },
+  };
+}
+
+/**
+ * Count the hits on each line label, in tab order
+ */
+export function countTabHits(tab: DrumTab): TabLabelCount[] {
+  return tab.lines.map((line) => ({
+    label: line.label.toUpperCase(),
+    count: [...line.cells].filter(isHitCell).length,
+  }));
+}
+
+/**
+ * Time signature to import with: the tab's, or 4/4
+ */
+export function getTabTimeSignature(tab: DrumTab): TimeSignature {
+  return tab.timeSignature ?? DEFAULT_TIME_SIGNATURE;
+}
+
+/**
+ * Pick the grid whose bar matches the tab's bar lines, or (without bar
+ * lines) that fits the longest line in whole bars
+ */
+export function detectTabSubdivision(tab: DrumTab, timeSignature: TimeSignature): Subdivision {
+  const candidates = TAB_SUBDIVISIONS.filter((s) => isSubdivisionCompatible(s, timeSignature));
+  const length = Math.max(...tab.lines.map((line) => line.cells.length));
+
+  const match = candidates.find((subdivision) => {
+    const stepsPerBar = getStepsPerBar(subdivision, timeSignature);
+    return tab.barLength !== undefined
+      ? stepsPerBar === tab.barLength
+      : length % stepsPerBar === 0 && length / stepsPerBar <= MAX_BARS;
+  });
+  return match ?? candidates[0] ?? '16n';
+}
+
+/**
+ * Build a pattern from a parsed tab
+ */
+export function buildTabPattern(tab: DrumTab, options: DrumTabImportOptions): DrumTabImportResult {
+  const timeSignature = options.timeSignature ?? getTabTimeSignature(tab);
+  const subdivision = options.subdivision ?? detectTabSubdivision(tab, timeSignature);
+  const stepsPerBar = getStepsPerBar(subdivision, timeSignature);
+
+  const length = Math.max(...tab.lines.map((line) => line.cells.length));
+  const bars = Math.max(1, Math.min(MAX_BARS, Math.ceil(length / stepsPerBar))) as DrumPattern['bars'];
+  const totalSteps = bars * stepsPerBar;
+
+  // Articulation per step for each track; the first line wins a shared step
+  const hits = PAD_IDS.map(() => new Map<number, Articulation>());
+  const unmapped: TabLabelCount[] = [];
+  let truncated = 0;
+  let merged = 0;
+
+  for (const line of tab.lines) {
+    const label = line.label.toUpperCase();
+    const padId = options.assignment[label];
+    const trackHits = padId ? hits[PAD_IDS.indexOf(padId)] : null;
+
+    [...line.cells].forEach((cell, step) => {
+      if (!isHitCell(cell)) return;
+      if (!trackHits) {
+        const entry = unmapped.find((u) => u.label === label);
+        if (entry) entry.count++;
+        else unmapped.push({ label, count: 1 });
+        return;
+      }
+      if (step >= totalSteps) {
+        truncated++;
+        return;
+      }
+      if (trackHits.has(step)) {
+        merged++;
+        return;
+      }
+      trackHits.set(step, TAB_HIT_SYMBOLS[cell]);
+    });
+  }
+
+  const pattern: DrumPattern = {
+    id: `tab-${Date.now()}`,
+    name: tab.title || DEFAULT_TAB_NAME,
+    bpm: tab.bpm ?? DEFAULT_BPM,
+    subdivision,
+    bars,
+    timeSignature: { ...timeSignature },
+    tracks: PAD_IDS.map((padId, trackIndex) => ({
+      padId,
+      label: PADS[padId].label,
+      defaultFinger: { ...FINGER_DEFAULTS[padId] },
+      steps: Array.from({ length: totalSteps }, (_, step): PatternStep => {
+        const articulation = hits[trackIndex].get(step);
+        if (articulation === undefined) return { active: false };
+        return {
+          active: true,
+          finger: { ...FINGER_DEFAULTS[padId] },
+          velocity: DEFAULT_VELOCITY,
+          ...(articulation !== 'normal' && { articulation }),
+        };
+      }),
+    })),
+  };
+
+  return { pattern, unmapped, truncated, merged };
+}
+
+/**
+ * Tab line order: top of the drum staff first (cymbals down to kick)
+ */
+const TAB_LINE_ORDER: PadId[] = [...PAD_IDS].sort(
+  (a, b) => getStaffIndex(DRUM_STAFF_POSITIONS[b]) - getStaffIndex(DRUM_STAFF_POSITIONS[a])
+);
+
+/**
+ * Cell written for a hit: "x" on cymbals, "o" on drums
+ */
+function getTabCell(padId: PadId, articulation: Articulation = 'normal'): string {
+  const base = DRUM_STAFF_POSITIONS[padId].notehead === 'normal' ? 'o' : 'x';
+  switch (articulation) {
+    case 'accent':
+      return base.toUpperCase();
+    case 'ghost':
+      return 'g';
+    case 'flam':
+      return 'f';
+    case 'drag':
+      return 'd';
+    default:
+      return base;
+  }
+}
+
+/**
+ * Write a pattern as an ASCII drum tab (one pass, as played: polymetric
+ * tracks unrolled, muted tracks left out, step conditions ignored)
+ */
+export function createDrumTab(pattern: DrumPattern): string {
+  const timeSignature = getPatternTimeSignature(pattern);
+  const stepsPerBar = getStepsPerBar(pattern.subdivision, timeSignature);
+  const totalSteps = pattern.tracks[0]?.steps.length ?? 0;
+  const soloActive = hasSoloTrack(pattern.tracks);
+
+  const rows = TAB_LINE_ORDER.flatMap((padId) => {
+    const track = pattern.tracks.find((t) => t.padId === padId);
+    if (!track || !isTrackAudible(track, soloActive)) return [];
+
+    let cells = '';
+    let hasHits = false;
+    for (let stepIndex = 0; stepIndex < totalSteps; stepIndex++) {
+      const step = track.steps[getTrackStepIndex(track, stepIndex)];
+      cells += step?.active ? getTabCell(padId, step.articulation) : TAB_REST_SYMBOLS[0];
+      hasHits ||= !!step?.active;
+    }
+    return hasHits ? [{ padId, cells }] : [];
+  });
+
+  // An empty pattern still gets a (silent) kick line
+  if (rows.length === 0) {
+    rows.push({ padId: 'kick', cells: TAB_REST_SYMBOLS[0].repeat(totalSteps) });
+  }
+
+  const labelWidth = Math.max(...rows.map(({ padId }) => TAB_EXPORT_LABELS[padId].length));
+  const lines = rows.map(({ padId, cells }) => {
+    const bars: string[] = [];
+    for (let start = 0; start < cells.length; start += stepsPerBar) {
+      bars.push(cells.slice(start, start + stepsPerBar));
+    }
+    return `${TAB_EXPORT_LABELS[padId].padEnd(labelWidth)}|${bars.join('|')}|`;
+  });
+
+  return [
+    pattern.name,
+    `${pattern.bpm} BPM · ${getSubdivisionLabel(pattern.subdivision)} · ${formatTimeSignature(timeSignature)}`,
+    '',
+    ...lines,
+    '',
+  ].join('\n');
+}
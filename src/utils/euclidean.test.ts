@@ -0,0 +1,47 @@
+/**
+ * Tests for Euclidean rhythm generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatRhythm, generateEuclideanRhythm, tileRhythm } from './euclidean';
+
+describe('euclidean', () => {
+  describe('generateEuclideanRhythm', () => {
+    it('should produce the classic Bjorklund rhythms', () => {
+      expect(formatRhythm(generateEuclideanRhythm(3, 8))).toBe('x..x..x.');
+      expect(formatRhythm(generateEuclideanRhythm(5, 8))).toBe('x.xx.xx.');
+      expect(formatRhythm(generateEuclideanRhythm(4, 16))).toBe('x...x...x...x...');
+    });
+
+    it('should place the requested number of hits', () => {
+      for (let steps = 1; steps <= 16; steps++) {
+        for (let hits = 0; hits <= steps; hits++) {
+          const rhythm = generateEuclideanRhythm(hits, steps);
+          expect(rhythm).toHaveLength(steps);
+          expect(rhythm.filter(Boolean)).toHaveLength(hits);
+        }
+      }
+    });
+
+    it('should handle empty and full rhythms', () => {
+      expect(formatRhythm(generateEuclideanRhythm(0, 4))).toBe('....');
+      expect(formatRhythm(generateEuclideanRhythm(6, 4))).toBe('xxxx');
+      expect(generateEuclideanRhythm(3, 0)).toEqual([]);
+    });
+
+    it('should rotate the rhythm later', () => {
+      expect(formatRhythm(generateEuclideanRhythm(3, 8, 1))).toBe('.x..x..x');
+      expect(formatRhythm(generateEuclideanRhythm(3, 8, -1))).toBe('..x..x.x');
+    });
+  });
+
+  describe('tileRhythm', () => {
+    it('should repeat the rhythm to fill the steps', () => {
+      expect(formatRhythm(tileRhythm([true, false, false], 8))).toBe('x..x..x.');
+    });
+
+    it('should fill with rests for an empty rhythm', () => {
+      expect(formatRhythm(tileRhythm([], 4))).toBe('....');
+    });
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Euclidean rhythms - spread N hits as evenly as possible over M steps
+ *
+ * Uses Bjorklund's algorithm, so E(3, 8) gives the tresillo x..x..x.
+ * and E(5, 8) the cinquillo x.xx.xx.
+ */
+
+/**
+ * Generate a Euclidean rhythm
+ *
+ * @param hits - Number of notes (clamped to 0..steps)
+ * @param steps - Length of the rhythm in steps
+ * @param rotation - Steps to shift the rhythm later, wrapping around
+ * @returns One entry per step, true where a note falls
+ */
+export function generateEuclideanRhythm(hits: number, steps: number, rotation = 0): boolean[] {
+  const length = Math.max(0, Math.floor(steps));
+  const count = Math.max(0, Math.min(length, Math.floor(hits)));
+  if (length === 0) return [];
+
+  let groups: boolean[][] = Array.from({ length: count }, () => [true]);
+  let remainders: boolean[][] = Array.from({ length: length - count }, () => [false]);
+
+  // Pair groups with remainders until at most one remainder is left
+  while (groups.length > 0 && remainders.length > 1) {
+    const pairs = Math.min(groups.length, remainders.length);
+    const paired = groups.slice(0, pairs).map((group, i) => [...group, ...remainders[i]]);
+    remainders = groups.length > pairs ? groups.slice(pairs) : remainders.slice(pairs);
+    groups = paired;
+  }
+
+  const rhythm = [...groups, ...remainders].flat();
+  const shift = ((Math.floor(rotation) % length) + length) % length;
+  return rhythm.map((_, i) => rhythm[(i - shift + length) % length]);
+}
+
+/**
+ * Repeat a rhythm to fill a number of steps
+ */
+export function tileRhythm(rhythm: boolean[], stepCount: number): boolean[] {
+  if (rhythm.length === 0) return Array.from({ length: stepCount }, () => false);
+  return Array.from({ length: stepCount }, (_, i) => rhythm[i % rhythm.length]);
+}
+
+/**
+ * Format a rhythm as text, e.g. "x..x..x."
+ */
+export function formatRhythm(rhythm: boolean[]): string {
+  return rhythm.map((hit) => (hit ? 'x' : '.')).join('');
+}
@@ -0,0 +1,106 @@
+/**
+ * Tests for the Hydrogen file reader
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { HydrogenSong } from '../types/hydrogen';
+import { DEFAULT_KIT_INSTRUMENTS } from '../config/hydrogen';
+import { parseHydrogenFile } from './hydrogenFile';
+
+function note(instrument: number, position: number, velocity = 0.8): string {
+  return `<note><position>${position}</position><leadlag>0</leadlag><velocity>${velocity}</velocity>` +
+    `<pitch>0</pitch><length>-1</length><instrument>${instrument}</instrument></note>`;
+}
+
+const SONG = `<?xml version="1.0" encoding="UTF-8"?>
+<song>
+  <version>1.1.1</version>
+  <bpm>96</bpm>
+  <name>Old Grooves</name>
+  <instrumentList>
+    <instrument><id>0</id><name>Kick</name></instrument>
+    <instrument><id>1</id><name>Snare</name></instrument>
+  </instrumentList>
+  <patternList>
+    <pattern>
+      <name>Verse</name>
+      <size>192</size>
+      <denominator>4</denominator>
+      <noteList>${note(1, 48)}${note(0, 0, 1)}${note(0, 96)}</noteList>
+    </pattern>
+    <pattern>
+      <name>Fill</name>
+      <size>96</size>
+      <noteList>${note(1, 0)}</noteList>
+    </pattern>
+  </patternList>
+  <virtualPatternList>
+    <pattern><name>Verse</name><virtual>Fill</virtual></pattern>
+  </virtualPatternList>
+  <patternSequence><group><patternID>Verse</patternID></group></patternSequence>
+</song>`;
+
+function parse(text: string): HydrogenSong {
+  const result = parseHydrogenFile(text);
+  if (!result.ok) throw new Error(result.error);
+  return result.song;
+}
+
+describe('parseHydrogenFile', () => {
+  it('reads the song, its instruments and patterns', () => {
+    const song = parse(SONG);
+
+    expect(song.name).toBe('Old Grooves');
+    expect(song.bpm).toBe(96);
+    expect(song.instruments).toEqual([
+      { id: 0, name: 'Kick' },
+      { id: 1, name: 'Snare' },
+    ]);
+    expect(song.patterns.map((pattern) => pattern.name)).toEqual(['Verse', 'Fill']);
+    expect(song.patterns[0]).toMatchObject({ size: 192, denominator: 4 });
+    expect(song.patterns[0].notes).toEqual([
+      { instrument: 0, position: 0, velocity: 1 },
+      { instrument: 1, position: 48, velocity: 0.8 },
+      { instrument: 0, position: 96, velocity: 0.8 },
+    ]);
+    expect(song.patterns[1]).toMatchObject({ size: 96, denominator: 4 });
+  });
+
+  it('reads notes in the older sequence layout and skips note-offs', () => {
+    const song = parse(`<song>
+      <instrumentList><instrument><id>3</id><name>Ride</name></instrument></instrumentList>
+      <patternList><pattern><name>Old</name><size>192</size>
+        <sequenceList><sequence><noteList>${note(3, 24)}</noteList></sequence>
+        <sequence><noteList><note><position>72</position><instrument>3</instrument><note_off>true</note_off></note></noteList></sequence></sequenceList>
+      </pattern></patternList>
+    </song>`);
+
+    expect(song.patterns[0].notes).toEqual([{ instrument: 3, position: 24, velocity: 0.8 }]);
+  });
+
+  it('names default-kit instruments in drumkit pattern files', () => {
+    const song = parse(`<drumkit_pattern xmlns="http://www.hydrogen-music.org/drumkit_pattern">
+      <drumkit_name>GMRockKit</drumkit_name>
+      <pattern><pattern_name>Shuffle</pattern_name><size>144</size><noteList>${note(6, 0)}</noteList></pattern>
+    </drumkit_pattern>`);
+
+    expect(song.name).toBe('GMRockKit');
+    expect(song.patterns[0].name).toBe('Shuffle');
+    expect(song.instruments).toEqual(DEFAULT_KIT_INSTRUMENTS);
+  });
+
+  it('names instruments the file does not list after their IDs', () => {
+    const song = parse(`<drumkit_pattern><drumkit_name>MyKit</drumkit_name>
+      <pattern><name>A</name><noteList>${note(2, 0)}</noteList></pattern>
+    </drumkit_pattern>`);
+
+    expect(song.instruments).toEqual([{ id: 2, name: 'Instrument 2' }]);
+    expect(song.patterns[0].size).toBe(192);
+  });
+
+  it('rejects files that are not Hydrogen XML', () => {
+    expect(parseHydrogenFile('not xml <').ok).toBe(false);
+    expect(parseHydrogenFile('<score-partwise/>').ok).toBe(false);
+    expect(parseHydrogenFile('<song><patternList/></song>').ok).toBe(false);
+  });
+});
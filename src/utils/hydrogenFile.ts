@@ -0,0 +1,147 @@
+/**
+ * Hydrogen File Reader
+ *
+ * Reads the XML of Hydrogen songs (.h2song) and drumkit patterns (.h2pattern):
+ * - Instruments (ID and name) of the song's drumkit
+ * - Every pattern with its length and notes
+ * - Song name and tempo
+ * Note-off markers, song arrangement and sample settings are skipped.
+ */
+
+import type { HydrogenInstrument, HydrogenNote, HydrogenPattern, HydrogenSong } from '../types/hydrogen';
+import { HYDROGEN_TICKS_PER_QUARTER } from '../types/hydrogen';
+import { DEFAULT_KIT_INSTRUMENTS } from '../config/hydrogen';
+
+/** File extensions accepted by the importer */
+export const HYDROGEN_FILE_EXTENSIONS = ['.h2song', '.h2pattern'];
+
+/**
+ * Result of reading a Hydrogen file
+ */
+export type HydrogenParseResult =
+  | { ok: true; song: HydrogenSong }
+  | { ok: false; error: string };
+
+/** Pattern length when the file gives none (one 4/4 bar) */
+const DEFAULT_PATTERN_SIZE = HYDROGEN_TICKS_PER_QUARTER * 4;
+
+/** Drumkit whose instrument names fill in for .h2pattern files */
+const DEFAULT_KIT_NAME = 'gmrockkit';
+
+/**
+ * Trimmed text of the first direct child with the given tag, if any
+ */
+function getChildText(element: Element, tag: string): string | undefined {
+  for (const child of Array.from(element.children)) {
+    if (child.localName === tag) return child.textContent?.trim() ?? '';
+  }
+  return undefined;
+}
+
+/**
+ * Numeric value of a direct child, if present and finite
+ */
+function getChildNumber(element: Element, tag: string): number | undefined {
+  const text = getChildText(element, tag);
+  if (!text) return undefined;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Read a pattern's notes, including those in the older
+ * <sequenceList><sequence><noteList> layout
+ */
+function readNotes(patternElement: Element): HydrogenNote[] {
+  const notes: HydrogenNote[] = [];
+  for (const noteElement of Array.from(patternElement.getElementsByTagName('note'))) {
+    if (getChildText(noteElement, 'note_off') === 'true') continue;
+
+    const instrument = getChildNumber(noteElement, 'instrument');
+    const position = getChildNumber(noteElement, 'position');
+    if (instrument === undefined || position === undefined || position < 0) continue;
+
+    const velocity = getChildNumber(noteElement, 'velocity') ?? 0.8;
+    notes.push({ instrument, position, velocity: Math.min(1, Math.max(0, velocity)) });
+  }
+  return notes.sort((a, b) => a.position - b.position || a.instrument - b.instrument);
+}
+
+/**
+ * Read a <pattern> element
+ */
+function readPattern(patternElement: Element, index: number): HydrogenPattern {
+  const size = getChildNumber(patternElement, 'size');
+  const denominator = getChildNumber(patternElement, 'denominator');
+  const name = getChildText(patternElement, 'name') || getChildText(patternElement, 'pattern_name');
+
+  return {
+    name: name || `Pattern ${index + 1}`,
+    size: size && size > 0 ? size : DEFAULT_PATTERN_SIZE,
+    denominator: denominator && denominator > 0 ? denominator : 4,
+    notes: readNotes(patternElement),
+  };
+}
+
+/**
+ * Read the drumkit instruments listed in the file
+ */
+function readInstruments(doc: Document): HydrogenInstrument[] {
+  const instruments: HydrogenInstrument[] = [];
+  for (const element of Array.from(doc.querySelectorAll('instrumentList > instrument'))) {
+    const id = getChildNumber(element, 'id');
+    if (id === undefined || instruments.some((instrument) => instrument.id === id)) continue;
+    instruments.push({ id, name: getChildText(element, 'name') || `Instrument ${id}` });
+  }
+  return instruments;
+}
+
+/**
+ * Read patterns and instruments from a Hydrogen song or drumkit pattern file
+ */
+export function parseHydrogenFile(text: string): HydrogenParseResult {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const root = doc.documentElement;
+  if (!root || doc.getElementsByTagName('parsererror').length > 0) {
+    return { ok: false, error: 'Invalid Hydrogen file (not XML)' };
+  }
+  if (root.localName !== 'song' && root.localName !== 'drumkit_pattern') {
+    return { ok: false, error: 'Not a Hydrogen song or pattern file' };
+  }
+
+  // Virtual patterns and the arrangement also use <pattern>, so only the
+  // pattern list (or a pattern file's own pattern) is read
+  const patternElements = Array.from(
+    doc.querySelectorAll('song > patternList > pattern, drumkit_pattern > pattern')
+  );
+  const patterns = patternElements.map(readPattern);
+  if (patterns.length === 0) {
+    return { ok: false, error: 'No patterns in Hydrogen file' };
+  }
+
+  let instruments = readInstruments(doc);
+  const kitName = getChildText(root, 'drumkit_name');
+  if (instruments.length === 0 && kitName?.toLowerCase() === DEFAULT_KIT_NAME) {
+    instruments = DEFAULT_KIT_INSTRUMENTS.map((instrument) => ({ ...instrument }));
+  }
+
+  // Notes may use instruments the file doesn't name
+  for (const pattern of patterns) {
+    for (const note of pattern.notes) {
+      if (!instruments.some((instrument) => instrument.id === note.instrument)) {
+        instruments.push({ id: note.instrument, name: `Instrument ${note.instrument}` });
+      }
+    }
+  }
+
+  const bpm = getChildNumber(root, 'bpm');
+  return {
+    ok: true,
+    song: {
+      name: getChildText(root, 'name') || kitName || undefined,
+      bpm: bpm && bpm > 0 ? bpm : undefined,
+      instruments,
+      patterns,
+    },
+  };
+}
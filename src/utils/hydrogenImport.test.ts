@@ -0,0 +1,158 @@
+/**
+ * Tests for Hydrogen pattern import
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { DrumPattern } from '../types/pattern';
+import type { HydrogenNote, HydrogenPattern, HydrogenSong } from '../types/hydrogen';
+import { PAD_IDS, FINGER_DEFAULTS, type PadId } from '../config/padMapping';
+import { DEFAULT_KIT_INSTRUMENTS, getDefaultHydrogenPad } from '../config/hydrogen';
+import {
+  buildHydrogenPattern,
+  countHydrogenNotes,
+  detectHydrogenSubdivision,
+  getHydrogenPatternLayout,
+} from './hydrogenImport';
+
+function createPattern(notes: [number, number][], size = 192, denominator = 4): HydrogenPattern {
+  return {
+    name: 'Groove',
+    size,
+    denominator,
+    notes: notes.map(([instrument, position]): HydrogenNote => ({ instrument, position, velocity: 0.8 })),
+  };
+}
+
+function createSong(pattern: HydrogenPattern): HydrogenSong {
+  return { name: 'Song', bpm: 90, instruments: DEFAULT_KIT_INSTRUMENTS, patterns: [pattern] };
+}
+
+function getActiveSteps(pattern: DrumPattern, padId: PadId): number[] {
+  return pattern.tracks[PAD_IDS.indexOf(padId)].steps.flatMap((step, i) => (step.active ? [i] : []));
+}
+
+describe('getDefaultHydrogenPad', () => {
+  it('matches the default kit by name', () => {
+    expect(DEFAULT_KIT_INSTRUMENTS.map((instrument) => getDefaultHydrogenPad(instrument.name))).toEqual([
+      'kick',
+      'snare_rim_closed',
+      'snare',
+      'snare',
+      'snare',
+      'tom_low_r',
+      'hihat_close_r',
+      'tom_mid_r',
+      'hihat_close_l',
+      'tom_high_r',
+      'hihat_open',
+      null,
+      'ride_bow',
+      'crash_r',
+      'ride_bow',
+      'crash_r',
+    ]);
+  });
+
+  it('matches common names from other kits', () => {
+    expect(getDefaultHydrogenPad('Bass Drum 1')).toBe('kick');
+    expect(getDefaultHydrogenPad('Hi-Hat Open')).toBe('hihat_open');
+    expect(getDefaultHydrogenPad('Ride Bell')).toBe('ride_cup');
+    expect(getDefaultHydrogenPad('Floor Tom')).toBe('tom_low_r');
+    expect(getDefaultHydrogenPad('Rimshot')).toBe('snare_rim_open');
+    expect(getDefaultHydrogenPad('Theremin')).toBeNull();
+  });
+});
+
+describe('getHydrogenPatternLayout', () => {
+  it('fits the pattern length into one bar when it can', () => {
+    expect(getHydrogenPatternLayout(createPattern([], 192))).toEqual({
+      timeSignature: { numerator: 4, denominator: 4 },
+      bars: 1,
+    });
+    expect(getHydrogenPatternLayout(createPattern([], 144))).toEqual({
+      timeSignature: { numerator: 3, denominator: 4 },
+      bars: 1,
+    });
+    expect(getHydrogenPatternLayout(createPattern([], 120, 8))).toEqual({
+      timeSignature: { numerator: 5, denominator: 8 },
+      bars: 1,
+    });
+  });
+
+  it('splits longer patterns into 4/4 bars', () => {
+    expect(getHydrogenPatternLayout(createPattern([], 384))).toEqual({
+      timeSignature: { numerator: 4, denominator: 4 },
+      bars: 2,
+    });
+    expect(getHydrogenPatternLayout(createPattern([], 500)).bars).toBe(3);
+  });
+});
+
+describe('detectHydrogenSubdivision', () => {
+  it('picks the coarsest grid that fits the notes', () => {
+    const quarters = createPattern([[0, 0], [0, 96]]);
+    expect(detectHydrogenSubdivision(createSong(quarters), quarters)).toBe('4n');
+    const sixteenths = createPattern([[6, 0], [6, 12], [6, 36]]);
+    expect(detectHydrogenSubdivision(createSong(sixteenths), sixteenths)).toBe('16n');
+    const triplets = createPattern([[6, 0], [6, 16], [6, 32]]);
+    expect(detectHydrogenSubdivision(createSong(triplets), triplets)).toBe('8t');
+  });
+});
+
+describe('buildHydrogenPattern', () => {
+  it('places notes on their pads at the nearest step', () => {
+    const hydrogenPattern = createPattern([[0, 0], [4, 48], [0, 97], [4, 143], [6, 0], [6, 25]]);
+    const { pattern, unmapped } = buildHydrogenPattern(createSong(hydrogenPattern), hydrogenPattern, {
+      subdivision: '8n',
+      overrides: {},
+    });
+
+    expect(pattern.name).toBe('Groove');
+    expect(pattern.bpm).toBe(90);
+    expect(pattern.subdivision).toBe('8n');
+    expect(pattern.bars).toBe(1);
+    expect(getActiveSteps(pattern, 'kick')).toEqual([0, 4]);
+    expect(getActiveSteps(pattern, 'snare')).toEqual([2, 6]);
+    expect(getActiveSteps(pattern, 'hihat_close_r')).toEqual([0, 1]);
+    expect(pattern.tracks[PAD_IDS.indexOf('kick')].steps[0]).toEqual({
+      active: true,
+      finger: FINGER_DEFAULTS.kick,
+      velocity: 102,
+    });
+    expect(unmapped).toEqual([]);
+  });
+
+  it('keeps the pattern length even when the last bar is empty', () => {
+    const hydrogenPattern = createPattern([[0, 0]], 384);
+    const { pattern } = buildHydrogenPattern(createSong(hydrogenPattern), hydrogenPattern, {
+      subdivision: '4n',
+      overrides: {},
+    });
+    expect(pattern.bars).toBe(2);
+    expect(pattern.tracks[0].steps).toHaveLength(8);
+  });
+
+  it('follows mapping changes and reports unmapped instruments', () => {
+    const hydrogenPattern = createPattern([[6, 0], [11, 48], [11, 96], [4, 48]]);
+    const { pattern, unmapped } = buildHydrogenPattern(createSong(hydrogenPattern), hydrogenPattern, {
+      overrides: { 'closed hh': 'ride_bow', 'snare rock': null },
+    });
+
+    expect(getActiveSteps(pattern, 'ride_bow')).toEqual([0]);
+    expect(getActiveSteps(pattern, 'snare')).toEqual([]);
+    expect(unmapped).toEqual([
+      { instrument: { id: 4, name: 'Snare Rock' }, count: 1 },
+      { instrument: { id: 11, name: 'Cowbell' }, count: 2 },
+    ]);
+  });
+});
+
+describe('countHydrogenNotes', () => {
+  it('counts notes per instrument', () => {
+    const hydrogenPattern = createPattern([[6, 0], [0, 0], [6, 48]]);
+    expect(countHydrogenNotes(createSong(hydrogenPattern), hydrogenPattern)).toEqual([
+      { instrument: { id: 0, name: 'Kick' }, count: 1 },
+      { instrument: { id: 6, name: 'Closed HH' }, count: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Hydrogen Pattern Import
+ *
+ * Turns a pattern read from a Hydrogen file into a DrumPattern:
+ * - Pattern length sets the time signature and bar count
+ * - Note positions snap to the nearest step of a supported Subdivision
+ *   (detected automatically or chosen by the user), as MIDI imports do
+ * - Instruments map onto FGDP pads by name (editable mapping)
+ */
+
+import type { DrumPattern, Subdivision, TimeSignature } from '../types/pattern';
+import { DEFAULT_TIME_SIGNATURE, TIME_SIGNATURES } from '../types/pattern';
+import type { MidiDrumData } from '../types/midi';
+import type { HydrogenInstrument, HydrogenPattern, HydrogenSong } from '../types/hydrogen';
+import { HYDROGEN_TICKS_PER_QUARTER } from '../types/hydrogen';
+import { createPadMapping, type GmPadAssignment } from '../config/padMapping';
+import { getHydrogenPad, type HydrogenPadAssignment } from '../config/hydrogen';
+import { buildMidiPattern, countMidiNotes, detectSubdivision, MAX_BARS } from './midiImport';
+
+/** Ticks in a whole note */
+const WHOLE_NOTE_TICKS = HYDROGEN_TICKS_PER_QUARTER * 4;
+
+/**
+ * Number of notes per instrument
+ */
+export interface HydrogenNoteCount {
+  instrument: HydrogenInstrument;
+  count: number;
+}
+
+export interface HydrogenImportOptions {
+  /** Grid to quantize to; detected when undefined */
+  subdivision?: Subdivision;
+  /** Changes to the name-based instrument mapping */
+  overrides: HydrogenPadAssignment;
+}
+
+export interface HydrogenImportResult {
+  pattern: DrumPattern;
+  /** Notes without a pad, per instrument */
+  unmapped: HydrogenNoteCount[];
+  /** Notes beyond the last bar that fits in a pattern */
+  truncated: number;
+  /** Notes that landed on a step the same pad already plays */
+  merged: number;
+}
+
+/**
+ * Time signature and bar count matching a pattern's length: one bar when
+ * a supported time signature fits, otherwise whole bars (4/4 preferred)
+ */
+export function getHydrogenPatternLayout(
+  pattern: HydrogenPattern
+): { timeSignature: TimeSignature; bars: DrumPattern['bars'] } {
+  const beats = pattern.size / (WHOLE_NOTE_TICKS / pattern.denominator);
+  const candidates = TIME_SIGNATURES.filter((ts) => ts.denominator === pattern.denominator);
+
+  const single = candidates.find((ts) => ts.numerator === beats);
+  if (single) return { timeSignature: { ...single }, bars: 1 };
+
+  const ordered = [
+    ...candidates.filter((ts) => ts.numerator === DEFAULT_TIME_SIGNATURE.numerator),
+    ...candidates,
+  ];
+  for (const ts of ordered) {
+    const bars = beats / ts.numerator;
+    if (Number.isInteger(bars) && bars <= MAX_BARS) {
+      return { timeSignature: { ...ts }, bars: bars as DrumPattern['bars'] };
+    }
+  }
+
+  const bars = Math.ceil(pattern.size / WHOLE_NOTE_TICKS);
+  return {
+    timeSignature: { ...DEFAULT_TIME_SIGNATURE },
+    bars: Math.min(MAX_BARS, Math.max(1, bars)) as DrumPattern['bars'],
+  };
+}
+
+/**
+ * A Hydrogen pattern as MIDI drum data, so the MIDI quantizer can place it.
+ * Instrument IDs stand in for GM note numbers.
+ */
+export function toMidiDrumData(song: HydrogenSong, pattern: HydrogenPattern): MidiDrumData {
+  return {
+    ticksPerQuarter: HYDROGEN_TICKS_PER_QUARTER,
+    bpm: song.bpm,
+    timeSignature: getHydrogenPatternLayout(pattern).timeSignature,
+    name: pattern.name,
+    drumNotes: pattern.notes.map((note) => ({
+      midi: note.instrument,
+      ticks: note.position,
+      velocity: Math.max(1, Math.round(note.velocity * 127)),
+    })),
+  };
+}
+
+/**
+ * Look up an instrument by ID (named after the ID if the file lacks it)
+ */
+function getInstrument(song: HydrogenSong, id: number): HydrogenInstrument {
+  return song.instruments.find((instrument) => instrument.id === id) ?? { id, name: `Instrument ${id}` };
+}
+
+/**
+ * Count a pattern's notes per instrument, lowest ID first
+ */
+export function countHydrogenNotes(song: HydrogenSong, pattern: HydrogenPattern): HydrogenNoteCount[] {
+  return countMidiNotes(pattern.notes.map((note) => ({ midi: note.instrument }))).map(({ midi, count }) => ({
+    instrument: getInstrument(song, midi),
+    count,
+  }));
+}
+
+/**
+ * Coarsest subdivision that puts the pattern's notes on the grid
+ */
+export function detectHydrogenSubdivision(song: HydrogenSong, pattern: HydrogenPattern): Subdivision {
+  return detectSubdivision(toMidiDrumData(song, pattern));
+}
+
+/**
+ * Build a pattern from one pattern of a Hydrogen file
+ */
+export function buildHydrogenPattern(
+  song: HydrogenSong,
+  pattern: HydrogenPattern,
+  options: HydrogenImportOptions
+): HydrogenImportResult {
+  const assignment: GmPadAssignment = {};
+  for (const instrument of song.instruments) {
+    assignment[instrument.id] = getHydrogenPad(instrument.name, options.overrides);
+  }
+
+  const result = buildMidiPattern(toMidiDrumData(song, pattern), {
+    // Cut to the 50 characters the name editor allows
+    name: pattern.name.slice(0, 50),
+    subdivision: options.subdivision,
+    mapping: createPadMapping(assignment),
+    bars: getHydrogenPatternLayout(pattern).bars,
+  });
+
+  return {
+    ...result,
+    pattern: { ...result.pattern, id: `hydrogen-${Date.now()}` },
+    unmapped: result.unmapped.map(({ midi, count }) => ({ instrument: getInstrument(song, midi), count })),
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Tests for MIDI drum export
+ * Files are read back with the import parser.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createMidiFile, MIDI_EXPORT_PPQ } from './midiExport';
+import { parseMidiFile } from './midiFile';
+import { PAD_IDS, PADS, FINGER_DEFAULTS, type PadId } from '../config/padMapping';
+import type { DrumPattern, PatternStep, PatternTrack, Subdivision } from '../types/pattern';
+import type { DrumNote } from '../types/midi';
+
+function createTestPattern(subdivision: Subdivision = '16n', stepsPerBar = 16): DrumPattern {
+  return {
+    id: 'test-pattern',
+    name: 'Exercise 1',
+    bpm: 90,
+    subdivision,
+    bars: 1,
+    tracks: PAD_IDS.map((padId) => ({
+      padId,
+      label: PADS[padId].label,
+      defaultFinger: FINGER_DEFAULTS[padId],
+      steps: Array.from({ length: stepsPerBar }, () => ({ active: false })),
+    })),
+  };
+}
+
+function getTrack(pattern: DrumPattern, padId: PadId): PatternTrack {
+  return pattern.tracks[PAD_IDS.indexOf(padId)];
+}
+
+function hit(velocity = 100, extra: Partial<PatternStep> = {}): PatternStep {
+  return { active: true, velocity, ...extra };
+}
+
+/** Notes of an exported file, read back */
+function readNotes(bytes: Uint8Array): DrumNote[] {
+  const result = parseMidiFile(bytes);
+  expect(result.ok).toBe(true);
+  return result.ok ? result.data.drumNotes : [];
+}
+
+/** Split a file into standalone single-track files */
+function splitTracks(bytes: Uint8Array): Uint8Array[] {
+  const header = bytes.subarray(0, 14);
+  const files: Uint8Array[] = [];
+  let pos = 14;
+  while (pos < bytes.length) {
+    const length = new DataView(bytes.buffer, bytes.byteOffset + pos + 4, 4).getUint32(0);
+    const file = new Uint8Array([...header, ...bytes.subarray(pos, pos + 8 + length)]);
+    file[9] = 0; // format 0
+    file[11] = 1; // one track
+    files.push(file);
+    pos += 8 + length;
+  }
+  return files;
+}
+
+describe('createMidiFile', () => {
+  it('writes tempo, time signature and notes on channel 10', () => {
+    const pattern = createTestPattern();
+    pattern.timeSignature = { numerator: 4, denominator: 4 };
+    getTrack(pattern, 'kick').steps[0] = hit(110);
+    getTrack(pattern, 'snare').steps[4] = hit(90);
+    getTrack(pattern, 'hihat_close_r').steps[2] = hit(60);
+
+    const bytes = createMidiFile(pattern, { splitHands: false });
+    const result = parseMidiFile(bytes);
+
+    expect(bytes[9]).toBe(0); // format 0
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.ticksPerQuarter).toBe(MIDI_EXPORT_PPQ);
+    expect(result.data.bpm).toBeCloseTo(90);
+    expect(result.data.timeSignature).toEqual({ numerator: 4, denominator: 4 });
+    expect(result.data.name).toBe('Exercise 1');
+    expect(result.data.drumNotes).toEqual([
+      { midi: 36, ticks: 0, velocity: 110 },
+      { midi: 42, ticks: 240, velocity: 60 },
+      { midi: 38, ticks: 480, velocity: 90 },
+    ]);
+  });
+
+  it('places triplet steps on the triplet grid', () => {
+    const pattern = createTestPattern('8t', 12);
+    getTrack(pattern, 'kick').steps[1] = hit();
+    getTrack(pattern, 'kick').steps[3] = hit();
+
+    expect(readNotes(createMidiFile(pattern, { splitHands: false })).map((n) => n.ticks)).toEqual([160, 480]);
+  });
+
+  it('applies swing, articulations and polymetric track lengths', () => {
+    const pattern = createTestPattern();
+    pattern.swing = 75;
+    pattern.swingUnit = '16n';
+    getTrack(pattern, 'snare').steps[1] = hit(100, { articulation: 'accent' });
+    const kick = getTrack(pattern, 'kick');
+    kick.steps[0] = hit();
+    kick.length = 6;
+
+    const notes = readNotes(createMidiFile(pattern, { splitHands: false }));
+
+    // Swung off-beat 16th (75% of the pair)
+    expect(notes.find((n) => n.midi === 38)).toEqual({ midi: 38, ticks: 180, velocity: 127 });
+    // 6-step kick loop repeats within the 16-step pass
+    expect(notes.filter((n) => n.midi === 36).map((n) => n.ticks)).toEqual([0, 720, 1440]);
+  });
+
+  it('writes flam grace notes before the main note', () => {
+    const pattern = createTestPattern();
+    getTrack(pattern, 'snare').steps[4] = hit(100, { articulation: 'flam' });
+
+    const notes = readNotes(createMidiFile(pattern, { splitHands: false }));
+
+    expect(notes).toHaveLength(2);
+    expect(notes[0].ticks).toBeLessThan(480);
+    expect(notes[0].velocity).toBeLessThan(notes[1].velocity);
+    expect(notes[1]).toEqual({ midi: 38, ticks: 480, velocity: 100 });
+  });
+
+  it('leaves out muted tracks', () => {
+    const pattern = createTestPattern();
+    getTrack(pattern, 'kick').steps[0] = hit();
+    getTrack(pattern, 'snare').steps[0] = hit();
+    getTrack(pattern, 'snare').muted = true;
+
+    expect(readNotes(createMidiFile(pattern, { splitHands: false })).map((n) => n.midi)).toEqual([36]);
+  });
+
+  it('merges L and R pads that share a GM note', () => {
+    const pattern = createTestPattern();
+    getTrack(pattern, 'hihat_close_l').steps[0] = hit(70);
+    getTrack(pattern, 'hihat_close_r').steps[0] = hit(90);
+
+    expect(readNotes(createMidiFile(pattern, { splitHands: false }))).toEqual([{ midi: 42, ticks: 0, velocity: 90 }]);
+  });
+
+  it('splits hands onto separate tracks by finger designation', () => {
+    const pattern = createTestPattern();
+    getTrack(pattern, 'snare').steps[0] = hit(100, { finger: { hand: 'L', finger: 2 } });
+    getTrack(pattern, 'snare').steps[2] = hit(100, { finger: { hand: 'R', finger: 2 } });
+    getTrack(pattern, 'tom_low_l').steps[4] = hit();
+
+    const bytes = createMidiFile(pattern, { splitHands: true });
+    expect(bytes[9]).toBe(1); // format 1
+    expect(bytes[11]).toBe(3); // conductor + two hands
+
+    const [conductor, left, right] = splitTracks(bytes);
+    expect(parseMidiFile(conductor).ok).toBe(false); // no notes
+    expect(readNotes(left)).toEqual([
+      { midi: 38, ticks: 0, velocity: 100 },
+      { midi: 41, ticks: 480, velocity: 100 },
+    ]);
+    expect(readNotes(right)).toEqual([{ midi: 38, ticks: 240, velocity: 100 }]);
+  });
+});
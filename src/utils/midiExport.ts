@@ -0,0 +1,201 @@
+/**
+ * MIDI Drum Export
+ *
+ * Writes a pattern as a Standard MIDI File on channel 10:
+ * - One pass of the pattern at its tempo, time signature and grid
+ *   (triplets, swing, polymetric tracks and mute/solo as played)
+ * - Step velocities with articulations applied (accents, ghosts, grace notes)
+ * - Each pad uses its GM note from GM_DRUM_NOTES
+ * - Optionally splits left- and right-hand hits onto separate tracks
+ *   (format 1); otherwise everything is on one track (format 0)
+ *
+ * Step conditions are not applied: every active step is written.
+ */
+
+import type { DrumPattern } from '../types/pattern';
+import {
+  getPatternTimeSignature,
+  getStepsPerBeat,
+  getStepVelocity,
+  getTrackStepIndex,
+  hasSoloTrack,
+  isTrackAudible,
+} from '../types/pattern';
+import { MIDI_DRUM_CHANNEL } from '../types/midi';
+import type { PadId } from '../config/padMapping';
+import { GM_DRUM_NOTES } from '../config/drumSamples';
+import { getArticulationHits } from '../config/articulations';
+import { getPatternSwing, getSwingOffset } from './swing';
+
+/** Ticks per quarter note (divisible by every grid, triplets included) */
+export const MIDI_EXPORT_PPQ = 480;
+
+/** Longest written note (a 32nd note); drums only need the note-on */
+const NOTE_TICKS = MIDI_EXPORT_PPQ / 8;
+
+export const MIDI_FILE_MIME = 'audio/midi';
+
+export interface MidiExportOptions {
+  /** Put left- and right-hand hits on separate tracks */
+  splitHands: boolean;
+}
+
+/**
+ * A note to write, before note lengths are known
+ */
+interface ExportNote {
+  ticks: number;
+  midi: number;
+  velocity: number;
+  hand: 'L' | 'R';
+}
+
+/**
+ * A channel event at an absolute time
+ */
+interface TrackEvent {
+  ticks: number;
+  bytes: number[];
+}
+
+function varLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  while ((value >>>= 7) > 0) {
+    bytes.unshift((value & 0x7f) | 0x80);
+  }
+  return bytes;
+}
+
+function uint16(value: number): number[] {
+  return [(value >> 8) & 0xff, value & 0xff];
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function metaEvent(type: number, data: number[]): number[] {
+  return [0xff, type, ...varLength(data.length), ...data];
+}
+
+/**
+ * Collect the hits of one pattern pass in time order
+ */
+function collectNotes(pattern: DrumPattern): ExportNote[] {
+  const stepTicks = MIDI_EXPORT_PPQ / getStepsPerBeat(pattern.subdivision);
+  const ticksPerSecond = (pattern.bpm / 60) * MIDI_EXPORT_PPQ;
+  const { swing, unit } = getPatternSwing(pattern);
+  const soloActive = hasSoloTrack(pattern.tracks);
+  const totalSteps = pattern.tracks[0]?.steps.length ?? 0;
+
+  const notes: ExportNote[] = [];
+  for (const track of pattern.tracks) {
+    if (!isTrackAudible(track, soloActive)) continue;
+    const midi = GM_DRUM_NOTES[track.padId as PadId];
+    if (midi === undefined) continue;
+
+    for (let stepIndex = 0; stepIndex < totalSteps; stepIndex++) {
+      const step = track.steps[getTrackStepIndex(track, stepIndex)];
+      if (!step?.active) continue;
+
+      const stepTime = stepIndex * stepTicks + getSwingOffset(stepIndex, pattern.subdivision, swing, unit, stepTicks);
+      const hand = (step.finger ?? track.defaultFinger).hand;
+      for (const hit of getArticulationHits(getStepVelocity(step), step.articulation)) {
+        const ticks = Math.round(stepTime + hit.offset * ticksPerSecond);
+        // Grace notes before the pattern start are left out
+        if (ticks < 0) continue;
+        notes.push({ ticks, midi, velocity: hit.velocity, hand });
+      }
+    }
+  }
+
+  return notes.sort((a, b) => a.ticks - b.ticks || a.midi - b.midi);
+}
+
+/**
+ * Turn notes into note-on/off events
+ * Hits on the same note and tick are merged (loudest wins), and each note
+ * ends before the next hit on the same note and by the end of the pattern.
+ */
+function createNoteEvents(notes: ExportNote[], endTicks: number): TrackEvent[] {
+  const merged: ExportNote[] = [];
+  for (const note of notes) {
+    const same = merged.find((other) => other.ticks === note.ticks && other.midi === note.midi);
+    if (same) {
+      same.velocity = Math.max(same.velocity, note.velocity);
+    } else {
+      merged.push({ ...note });
+    }
+  }
+
+  const events: TrackEvent[] = [];
+  const nextTicks = new Map<number, number>();
+  for (let i = merged.length - 1; i >= 0; i--) {
+    const { ticks, midi, velocity } = merged[i];
+    const next = nextTicks.get(midi) ?? endTicks;
+    const length = Math.max(1, Math.min(NOTE_TICKS, next - ticks, endTicks - ticks));
+    nextTicks.set(midi, ticks);
+
+    events.push({ ticks, bytes: [0x90 | MIDI_DRUM_CHANNEL, midi, velocity] });
+    events.push({ ticks: ticks + length, bytes: [0x80 | MIDI_DRUM_CHANNEL, midi, 0] });
+  }
+
+  // Note-offs first when they share a tick with note-ons
+  return events.sort((a, b) => a.ticks - b.ticks || a.bytes[0] - b.bytes[0]);
+}
+
+/**
+ * Encode an MTrk chunk; events must be in time order
+ */
+function createTrackChunk(leading: number[], events: TrackEvent[], endTicks: number): number[] {
+  const data = [...leading];
+  let time = 0;
+  for (const event of events) {
+    data.push(...varLength(event.ticks - time), ...event.bytes);
+    time = event.ticks;
+  }
+  data.push(...varLength(Math.max(0, endTicks - time)), ...metaEvent(0x2f, []));
+
+  return [0x4d, 0x54, 0x72, 0x6b, ...uint32(data.length), ...data];
+}
+
+/**
+ * Track name meta event at time 0
+ */
+function trackName(name: string): number[] {
+  return [0x00, ...metaEvent(0x03, [...new TextEncoder().encode(name)])];
+}
+
+/**
+ * Write a pattern as a Standard MIDI File
+ */
+export function createMidiFile(pattern: DrumPattern, options: MidiExportOptions): Uint8Array<ArrayBuffer> {
+  const timeSignature = getPatternTimeSignature(pattern);
+  const totalSteps = pattern.tracks[0]?.steps.length ?? 0;
+  const endTicks = (totalSteps * MIDI_EXPORT_PPQ) / getStepsPerBeat(pattern.subdivision);
+
+  const microsecondsPerQuarter = Math.round(60_000_000 / pattern.bpm);
+  const conductor = [
+    ...trackName(pattern.name),
+    0x00, ...metaEvent(0x51, [(microsecondsPerQuarter >> 16) & 0xff, (microsecondsPerQuarter >> 8) & 0xff, microsecondsPerQuarter & 0xff]),
+    0x00, ...metaEvent(0x58, [timeSignature.numerator, Math.log2(timeSignature.denominator), 24, 8]),
+  ];
+
+  const notes = collectNotes(pattern);
+  const chunks = options.splitHands
+    ? [
+        createTrackChunk(conductor, [], endTicks),
+        createTrackChunk(trackName('Left Hand'), createNoteEvents(notes.filter((n) => n.hand === 'L'), endTicks), endTicks),
+        createTrackChunk(trackName('Right Hand'), createNoteEvents(notes.filter((n) => n.hand === 'R'), endTicks), endTicks),
+      ]
+    : [createTrackChunk(conductor, createNoteEvents(notes, endTicks), endTicks)];
+
+  const header = [
+    0x4d, 0x54, 0x68, 0x64, ...uint32(6),
+    ...uint16(options.splitHands ? 1 : 0),
+    ...uint16(chunks.length),
+    ...uint16(MIDI_EXPORT_PPQ),
+  ];
+
+  return new Uint8Array([...header, ...chunks.flat()]);
+}
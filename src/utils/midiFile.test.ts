@@ -0,0 +1,105 @@
+/**
+ * Tests for the Standard MIDI File reader
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseMidiFile } from './midiFile';
+
+/** Variable-length quantity bytes */
+function varLength(value: number): number[] {
+  const bytes = [value & 0x7f];
+  while ((value >>= 7) > 0) {
+    bytes.unshift((value & 0x7f) | 0x80);
+  }
+  return bytes;
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+/** Format-0 file with one track of raw event bytes */
+function createMidiFile(events: number[], ticksPerQuarter = 480): Uint8Array {
+  const track = [...events, 0x00, 0xff, 0x2f, 0x00];
+  return new Uint8Array([
+    ...[0x4d, 0x54, 0x68, 0x64], ...uint32(6), 0x00, 0x00, 0x00, 0x01,
+    (ticksPerQuarter >> 8) & 0xff, ticksPerQuarter & 0xff,
+    ...[0x4d, 0x54, 0x72, 0x6b], ...uint32(track.length), ...track,
+  ]);
+}
+
+describe('parseMidiFile', () => {
+  it('reads channel-10 note-ons with absolute times', () => {
+    const result = parseMidiFile(createMidiFile([
+      0x00, 0x99, 36, 100,
+      ...varLength(240), 0x99, 38, 90,
+      ...varLength(240), 0x99, 42, 70,
+    ]));
+
+    expect(result).toEqual({
+      ok: true,
+      data: {
+        ticksPerQuarter: 480,
+        drumNotes: [
+          { midi: 36, ticks: 0, velocity: 100 },
+          { midi: 38, ticks: 240, velocity: 90 },
+          { midi: 42, ticks: 480, velocity: 70 },
+        ],
+      },
+    });
+  });
+
+  it('follows running status and treats velocity 0 as note-off', () => {
+    const result = parseMidiFile(createMidiFile([
+      0x00, 0x99, 36, 100,
+      0x60, 36, 0, // running status, note-off
+      0x00, 38, 80, // running status, note-on
+    ]));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.drumNotes).toEqual([
+      { midi: 36, ticks: 0, velocity: 100 },
+      { midi: 38, ticks: 96, velocity: 80 },
+    ]);
+  });
+
+  it('reads tempo, time signature and track name', () => {
+    const result = parseMidiFile(createMidiFile([
+      0x00, 0xff, 0x03, 0x04, ...'Funk'.split('').map((c) => c.charCodeAt(0)),
+      0x00, 0xff, 0x51, 0x03, 0x09, 0x27, 0xc0, // 600000 µs = 100 BPM
+      0x00, 0xff, 0x58, 0x04, 0x03, 0x02, 0x18, 0x08, // 3/4
+      0x00, 0x99, 36, 100,
+    ]));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.bpm).toBeCloseTo(100);
+    expect(result.data.timeSignature).toEqual({ numerator: 3, denominator: 4 });
+    expect(result.data.name).toBe('Funk');
+  });
+
+  it('ignores other channels', () => {
+    const result = parseMidiFile(createMidiFile([0x00, 0x90, 60, 100]));
+    expect(result).toEqual({ ok: false, error: 'No drum notes on MIDI channel 10' });
+  });
+
+  it('rejects files that are not MIDI', () => {
+    const result = parseMidiFile(new TextEncoder().encode('{"format":"fgdp-pattern"}'));
+    expect(result).toEqual({ ok: false, error: 'Not a MIDI file' });
+  });
+
+  it('rejects truncated files', () => {
+    const bytes = createMidiFile([0x00, 0x99, 36, 100]);
+    const result = parseMidiFile(bytes.subarray(0, bytes.length - 6));
+    expect(result.ok).toBe(false);
+  });
+
+  it('rejects SMPTE timing', () => {
+    const bytes = createMidiFile([0x00, 0x99, 36, 100]);
+    bytes[12] = 0xe7;
+    bytes[13] = 0x28;
+    const result = parseMidiFile(bytes);
+    expect(result).toEqual({ ok: false, error: 'SMPTE-timed MIDI files are not supported' });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Standard MIDI File Reader
+ *
+ * Minimal SMF (format 0/1/2) parser for drum import:
+ * - Collects channel-10 note-ons with their absolute tick times
+ * - Reads the first tempo, time signature and track name
+ * - Everything else (other channels, controllers, SysEx) is skipped
+ */
+
+import type { MidiDrumData } from '../types/midi';
+import { MIDI_DRUM_CHANNEL } from '../types/midi';
+import type { TimeSignature } from '../types/pattern';
+
+/** File extensions accepted by the importer */
+export const MIDI_FILE_EXTENSIONS = ['.mid', '.midi'];
+
+/**
+ * Result of reading a MIDI file
+ */
+export type MidiParseResult =
+  | { ok: true; data: MidiDrumData }
+  | { ok: false; error: string };
+
+const TIME_SIGNATURE_DENOMINATORS: TimeSignature['denominator'][] = [2, 4, 8, 16];
+
+/**
+ * Sequential reader over the file bytes
+ */
+interface ByteReader {
+  data: Uint8Array;
+  pos: number;
+}
+
+function readUint8(reader: ByteReader): number {
+  if (reader.pos >= reader.data.length) {
+    throw new RangeError('unexpected end of file');
+  }
+  return reader.data[reader.pos++];
+}
+
+function readUint16(reader: ByteReader): number {
+  return (readUint8(reader) << 8) | readUint8(reader);
+}
+
+function readUint32(reader: ByteReader): number {
+  return ((readUint16(reader) << 16) >>> 0) + readUint16(reader);
+}
+
+function readAscii(reader: ByteReader, length: number): string {
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    text += String.fromCharCode(readUint8(reader));
+  }
+  return text;
+}
+
+/**
+ * Read a variable-length quantity (7 bits per byte, high bit = more bytes)
+ */
+function readVarLength(reader: ByteReader): number {
+  let value = 0;
+  for (let i = 0; i < 4; i++) {
+    const byte = readUint8(reader);
+    value = (value << 7) | (byte & 0x7f);
+    if ((byte & 0x80) === 0) return value;
+  }
+  throw new RangeError('invalid variable-length value');
+}
+
+function readBytes(reader: ByteReader, length: number): Uint8Array {
+  if (reader.pos + length > reader.data.length) {
+    throw new RangeError('unexpected end of file');
+  }
+  const bytes = reader.data.subarray(reader.pos, reader.pos + length);
+  reader.pos += length;
+  return bytes;
+}
+
+/**
+ * Read one MTrk chunk body, adding what it contains to `result`
+ */
+function readTrack(reader: ByteReader, end: number, result: MidiDrumData): void {
+  let ticks = 0;
+  let runningStatus = 0;
+
+  while (reader.pos < end) {
+    ticks += readVarLength(reader);
+
+    let status = reader.data[reader.pos];
+    if (status >= 0x80) {
+      reader.pos++;
+    } else if (runningStatus) {
+      status = runningStatus;
+    } else {
+      throw new RangeError('data byte without a status byte');
+    }
+
+    // Meta event
+    if (status === 0xff) {
+      const type = readUint8(reader);
+      const payload = readBytes(reader, readVarLength(reader));
+
+      if (type === 0x2f) break; // End of track
+      if (type === 0x51 && payload.length === 3 && result.bpm === undefined) {
+        const microsecondsPerQuarter = (payload[0] << 16) | (payload[1] << 8) | payload[2];
+        if (microsecondsPerQuarter > 0) {
+          result.bpm = 60_000_000 / microsecondsPerQuarter;
+        }
+      }
+      if (type === 0x58 && payload.length >= 2 && result.timeSignature === undefined) {
+        const numerator = payload[0];
+        const denominator = 2 ** payload[1];
+        if (numerator >= 1 && numerator <= 16 && TIME_SIGNATURE_DENOMINATORS.includes(denominator as TimeSignature['denominator'])) {
+          result.timeSignature = { numerator, denominator: denominator as TimeSignature['denominator'] };
+        }
+      }
+      if (type === 0x03 && result.name === undefined) {
+        const name = new TextDecoder().decode(payload).trim();
+        if (name) result.name = name;
+      }
+      continue;
+    }
+
+    // SysEx: skip
+    if (status === 0xf0 || status === 0xf7) {
+      readBytes(reader, readVarLength(reader));
+      continue;
+    }
+
+    // Channel message
+    runningStatus = status;
+    const type = status & 0xf0;
+    const channel = status & 0x0f;
+    const data1 = readUint8(reader);
+    const data2 = type === 0xc0 || type === 0xd0 ? 0 : readUint8(reader);
+
+    // Note-on with velocity 0 is a note-off
+    if (type === 0x90 && channel === MIDI_DRUM_CHANNEL && data2 > 0) {
+      result.drumNotes.push({ midi: data1, ticks, velocity: data2 });
+    }
+  }
+
+  reader.pos = end;
+}
+
+/**
+ * Read drum notes and timing from a Standard MIDI File
+ */
+export function parseMidiFile(data: Uint8Array): MidiParseResult {
+  const reader: ByteReader = { data, pos: 0 };
+
+  try {
+    if (data.length < 14 || readAscii(reader, 4) !== 'MThd') {
+      return { ok: false, error: 'Not a MIDI file' };
+    }
+
+    const headerLength = readUint32(reader);
+    const headerEnd = reader.pos + headerLength;
+    readUint16(reader); // format: tracks are merged on one timeline either way
+    const trackCount = readUint16(reader);
+    const division = readUint16(reader);
+    reader.pos = headerEnd;
+
+    if (division & 0x8000) {
+      return { ok: false, error: 'SMPTE-timed MIDI files are not supported' };
+    }
+    if (division === 0) {
+      return { ok: false, error: 'Invalid MIDI file (zero ticks per quarter note)' };
+    }
+
+    const result: MidiDrumData = { ticksPerQuarter: division, drumNotes: [] };
+
+    for (let i = 0; i < trackCount && reader.pos < data.length; i++) {
+      const chunkType = readAscii(reader, 4);
+      const chunkLength = readUint32(reader);
+      const chunkEnd = reader.pos + chunkLength;
+      if (chunkType === 'MTrk') {
+        readTrack(reader, Math.min(chunkEnd, data.length), result);
+      }
+      reader.pos = chunkEnd;
+    }
+
+    if (result.drumNotes.length === 0) {
+      return { ok: false, error: 'No drum notes on MIDI channel 10' };
+    }
+
+    result.drumNotes.sort((a, b) => a.ticks - b.ticks || a.midi - b.midi);
+    return { ok: true, data: result };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'read error';
+    return { ok: false, error: `Invalid MIDI file (${reason})` };
+  }
+}
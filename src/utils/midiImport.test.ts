@@ -0,0 +1,138 @@
+/**
+ * Tests for MIDI drum import (quantization and pad mapping)
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { DrumNote, MidiDrumData } from '../types/midi';
+import type { DrumPattern } from '../types/pattern';
+import {
+  DEFAULT_GM_ASSIGNMENT,
+  FINGER_DEFAULTS,
+  FGDP_PAD_MAPPING_BY_GM,
+  PAD_IDS,
+  createPadMapping,
+  type PadId,
+} from '../config/padMapping';
+import { buildMidiPattern, countMidiNotes, detectSubdivision } from './midiImport';
+import { mapDrumNotesToPads } from './padMapping';
+
+const PPQ = 480;
+
+function createData(drumNotes: DrumNote[], extra: Partial<MidiDrumData> = {}): MidiDrumData {
+  return { ticksPerQuarter: PPQ, drumNotes, ...extra };
+}
+
+function note(midi: number, ticks: number, velocity = 100): DrumNote {
+  return { midi, ticks, velocity };
+}
+
+function getTrack(pattern: DrumPattern, padId: PadId) {
+  return pattern.tracks[PAD_IDS.indexOf(padId)];
+}
+
+describe('detectSubdivision', () => {
+  it('picks the coarsest grid that fits every note', () => {
+    expect(detectSubdivision(createData([note(36, 0), note(42, 240), note(38, 480)]))).toBe('8n');
+    expect(detectSubdivision(createData([note(36, 0), note(42, 120), note(38, 360)]))).toBe('16n');
+    expect(detectSubdivision(createData([note(36, 0), note(42, 160), note(38, 320)]))).toBe('8t');
+  });
+
+  it('tolerates slightly humanized timing', () => {
+    expect(detectSubdivision(createData([note(36, 3), note(42, 118), note(38, 244)]))).toBe('16n');
+  });
+
+  it('only considers grids that fit the time signature', () => {
+    const data = createData([note(36, 0), note(42, 240)], { timeSignature: { numerator: 3, denominator: 8 } });
+    expect(detectSubdivision(data)).toBe('8n');
+  });
+});
+
+describe('buildMidiPattern', () => {
+  it('places mapped notes on the grid with their velocity and default finger', () => {
+    const data = createData([note(36, 0, 110), note(38, 480, 90), note(42, 240, 60)], { bpm: 96 });
+    const { pattern, unmapped, truncated, merged } = buildMidiPattern(data, {
+      name: 'Groove',
+      mapping: FGDP_PAD_MAPPING_BY_GM,
+    });
+
+    expect(pattern.name).toBe('Groove');
+    expect(pattern.bpm).toBe(96);
+    expect(pattern.subdivision).toBe('8n');
+    expect(pattern.bars).toBe(1);
+    expect(pattern.tracks).toHaveLength(PAD_IDS.length);
+    expect(getTrack(pattern, 'kick').steps[0]).toEqual({
+      active: true,
+      finger: FINGER_DEFAULTS.kick,
+      velocity: 110,
+    });
+    expect(getTrack(pattern, 'snare').steps[2]).toMatchObject({ active: true, velocity: 90 });
+    expect(getTrack(pattern, 'hihat_close_r').steps[1]).toMatchObject({ active: true, velocity: 60 });
+    expect(getTrack(pattern, 'kick').steps[1]).toEqual({ active: false });
+    expect(unmapped).toEqual([]);
+    expect(truncated).toBe(0);
+    expect(merged).toBe(0);
+  });
+
+  it('uses the chosen subdivision', () => {
+    const data = createData([note(36, 0), note(38, 480)]);
+    const { pattern } = buildMidiPattern(data, { name: 'x', subdivision: '16n', mapping: FGDP_PAD_MAPPING_BY_GM });
+
+    expect(pattern.subdivision).toBe('16n');
+    expect(pattern.tracks[0].steps).toHaveLength(16);
+    expect(getTrack(pattern, 'snare').steps[4].active).toBe(true);
+  });
+
+  it('reports notes without a pad', () => {
+    const data = createData([note(36, 0), note(81, 0), note(81, 240), note(34, 480)]);
+    const { unmapped } = buildMidiPattern(data, { name: 'x', mapping: FGDP_PAD_MAPPING_BY_GM });
+    expect(unmapped).toEqual([{ midi: 34, count: 1 }, { midi: 81, count: 2 }]);
+  });
+
+  it('drops notes after the fourth bar', () => {
+    const barTicks = PPQ * 4;
+    const data = createData([note(36, 0), note(36, barTicks * 3), note(36, barTicks * 4), note(36, barTicks * 5)]);
+    const { pattern, truncated } = buildMidiPattern(data, { name: 'x', subdivision: '16n', mapping: FGDP_PAD_MAPPING_BY_GM });
+
+    expect(pattern.bars).toBe(4);
+    expect(pattern.tracks[0].steps).toHaveLength(64);
+    expect(truncated).toBe(2);
+  });
+
+  it('merges notes that land on the same step, keeping the loudest', () => {
+    // 35 and 36 both map to the kick
+    const data = createData([note(35, 0, 70), note(36, 10, 120)]);
+    const { pattern, merged } = buildMidiPattern(data, { name: 'x', subdivision: '16n', mapping: FGDP_PAD_MAPPING_BY_GM });
+
+    expect(merged).toBe(1);
+    expect(getTrack(pattern, 'kick').steps[0]).toMatchObject({ active: true, velocity: 120 });
+  });
+
+  it('follows a custom mapping', () => {
+    const mapping = createPadMapping({ ...DEFAULT_GM_ASSIGNMENT, 38: 'snare_rim_open', 42: null });
+    const data = createData([note(38, 0), note(42, 0)]);
+    const { pattern, unmapped } = buildMidiPattern(data, { name: 'x', subdivision: '16n', mapping });
+
+    expect(getTrack(pattern, 'snare_rim_open').steps[0].active).toBe(true);
+    expect(getTrack(pattern, 'snare').steps[0].active).toBe(false);
+    expect(unmapped).toEqual([{ midi: 42, count: 1 }]);
+  });
+});
+
+describe('mapDrumNotesToPads', () => {
+  it('splits notes into mapped and unmapped', () => {
+    const { mapped, unmapped } = mapDrumNotesToPads([note(36, 0), note(100, 0)]);
+    expect(mapped).toEqual([
+      { ...note(36, 0), padId: 'kick', padIndex: PAD_IDS.indexOf('kick'), padLabel: expect.any(String) },
+    ]);
+    expect(unmapped).toEqual([note(100, 0)]);
+  });
+});
+
+describe('countMidiNotes', () => {
+  it('counts notes per GM number, lowest first', () => {
+    expect(countMidiNotes([note(42, 0), note(36, 0), note(42, 240)])).toEqual([
+      { midi: 36, count: 1 },
+      { midi: 42, count: 2 },
+    ]);
+  });
+});
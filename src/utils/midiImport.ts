@@ -0,0 +1,174 @@
+/**
+ * MIDI Drum Import
+ *
+ * Turns drum notes read from a MIDI file into a DrumPattern:
+ * - Quantizes note times to the nearest step of a supported Subdivision
+ *   (detected automatically or chosen by the user)
+ * - Maps GM percussion notes onto FGDP pads (editable mapping)
+ * - Keeps up to 4 bars; later notes are reported, as are unmapped notes
+ */
+
+import type { DrumPattern, PatternStep, Subdivision, TimeSignature } from '../types/pattern';
+import {
+  DEFAULT_BPM,
+  DEFAULT_TIME_SIGNATURE,
+  clampBpm,
+  getStepsPerBar,
+  getStepsPerBeat,
+  isSubdivisionCompatible,
+} from '../types/pattern';
+import type { MidiDrumData } from '../types/midi';
+import { PAD_IDS, PADS, FINGER_DEFAULTS, type PadMappingEntry } from '../config/padMapping';
+import { mapDrumNotesToPads } from './padMapping';
+
+/** Maximum number of bars in a pattern */
+const MAX_BARS = 4;
+
+/** Subdivisions tried by auto-detection, coarsest first */
+const SUBDIVISIONS_BY_RESOLUTION: Subdivision[] = ['4n', '4t', '8n', '8t', '16n', '16t', '32n', '32t'];
+
+/**
+ * How far (in quarter notes) a note may sit off the grid and still count
+ * as on it during auto-detection (a 128th note)
+ */
+const DETECTION_TOLERANCE = 1 / 32;
+
+/**
+ * Number of notes per GM note number
+ */
+export interface MidiNoteCount {
+  midi: number;
+  count: number;
+}
+
+export interface MidiImportOptions {
+  /** Pattern name */
+  name: string;
+  /** Grid to quantize to; detected when undefined */
+  subdivision?: Subdivision;
+  /** GM note lookup (see createPadMapping) */
+  mapping: Record<number, PadMappingEntry>;
+  /** Pattern length; from the last note when undefined */
+  bars?: DrumPattern['bars'];
+}
+
+export interface MidiImportResult {
+  pattern: DrumPattern;
+  /** Notes without a pad, per GM note */
+  unmapped: MidiNoteCount[];
+  /** Notes beyond the last bar that fits in a pattern */
+  truncated: number;
+  /** Notes that landed on a step the same pad already plays */
+  merged: number;
+}
+
+/**
+ * Count the notes of each GM note number, lowest note first
+ */
+export function countMidiNotes(notes: { midi: number }[]): MidiNoteCount[] {
+  const counts = new Map<number, number>();
+  for (const note of notes) {
+    counts.set(note.midi, (counts.get(note.midi) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([midi, count]) => ({ midi, count }));
+}
+
+/**
+ * Time signature to import with: the file's, or 4/4
+ */
+export function getMidiTimeSignature(data: MidiDrumData): TimeSignature {
+  return data.timeSignature ?? DEFAULT_TIME_SIGNATURE;
+}
+
+/**
+ * Pick the coarsest subdivision that puts every note on the grid
+ * (within DETECTION_TOLERANCE), or the one closest to it if none does
+ */
+export function detectSubdivision(data: MidiDrumData): Subdivision {
+  const timeSignature = getMidiTimeSignature(data);
+  const candidates = SUBDIVISIONS_BY_RESOLUTION.filter((s) => isSubdivisionCompatible(s, timeSignature));
+
+  let best: Subdivision = '16n';
+  let bestError = Infinity;
+
+  for (const subdivision of candidates) {
+    const stepTicks = data.ticksPerQuarter / getStepsPerBeat(subdivision);
+    let maxError = 0;
+    let totalError = 0;
+    for (const note of data.drumNotes) {
+      const offset = Math.abs(note.ticks / stepTicks - Math.round(note.ticks / stepTicks)) * stepTicks;
+      maxError = Math.max(maxError, offset);
+      totalError += offset;
+    }
+
+    if (maxError <= data.ticksPerQuarter * DETECTION_TOLERANCE) {
+      return subdivision;
+    }
+    if (totalError < bestError) {
+      best = subdivision;
+      bestError = totalError;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Build a pattern from MIDI drum notes
+ */
+export function buildMidiPattern(data: MidiDrumData, options: MidiImportOptions): MidiImportResult {
+  const timeSignature = getMidiTimeSignature(data);
+  const subdivision = options.subdivision ?? detectSubdivision(data);
+  const stepTicks = data.ticksPerQuarter / getStepsPerBeat(subdivision);
+  const stepsPerBar = getStepsPerBar(subdivision, timeSignature);
+
+  const { mapped, unmapped } = mapDrumNotesToPads(data.drumNotes, options.mapping);
+
+  // Snap every mapped note to its nearest step
+  const placed = mapped.map((note) => ({ ...note, step: Math.round(note.ticks / stepTicks) }));
+  const lastStep = placed.reduce((max, note) => Math.max(max, note.step), 0);
+  const bars = options.bars ?? (Math.min(MAX_BARS, Math.floor(lastStep / stepsPerBar) + 1) as DrumPattern['bars']);
+  const totalSteps = bars * stepsPerBar;
+
+  // Velocity per step for each track; the loudest note wins a shared step
+  const velocities = PAD_IDS.map(() => new Map<number, number>());
+  let truncated = 0;
+  let merged = 0;
+  for (const note of placed) {
+    if (note.step >= totalSteps) {
+      truncated++;
+      continue;
+    }
+    const trackVelocities = velocities[note.padIndex];
+    const existing = trackVelocities.get(note.step);
+    if (existing !== undefined) merged++;
+    trackVelocities.set(note.step, Math.max(existing ?? 0, note.velocity));
+  }
+
+  const pattern: DrumPattern = {
+    id: `midi-${Date.now()}`,
+    name: options.name,
+    bpm: data.bpm === undefined ? DEFAULT_BPM : clampBpm(data.bpm),
+    subdivision,
+    bars,
+    timeSignature: { ...timeSignature },
+    tracks: PAD_IDS.map((padId, trackIndex) => ({
+      padId,
+      label: PADS[padId].label,
+      defaultFinger: { ...FINGER_DEFAULTS[padId] },
+      steps: Array.from({ length: totalSteps }, (_, step): PatternStep => {
+        const velocity = velocities[trackIndex].get(step);
+        return velocity === undefined
+          ? { active: false }
+          : { active: true, finger: { ...FINGER_DEFAULTS[padId] }, velocity };
+      }),
+    })),
+  };
+
+  return { pattern, unmapped: countMidiNotes(unmapped), truncated, merged };
+}
+
+/** Export constants for external use */
+export { MAX_BARS };
@@ -0,0 +1,122 @@
+/**
+ * Tests for MusicXML export
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createMusicXml } from './musicXml';
+import { PAD_IDS, PADS, FINGER_DEFAULTS, type PadId } from '../config/padMapping';
+import type { DrumPattern, PatternStep, Subdivision } from '../types/pattern';
+
+function createTestPattern(subdivision: Subdivision = '16n', steps = 16): DrumPattern {
+  return {
+    id: 'test-pattern',
+    name: 'Rock & Roll <1>',
+    bpm: 100,
+    subdivision,
+    bars: 1,
+    tracks: PAD_IDS.map((padId) => ({
+      padId,
+      label: PADS[padId].label,
+      defaultFinger: FINGER_DEFAULTS[padId],
+      steps: Array.from({ length: steps }, () => ({ active: false })),
+    })),
+  };
+}
+
+function setStep(pattern: DrumPattern, padId: PadId, index: number, step: Partial<PatternStep> = {}): void {
+  pattern.tracks[PAD_IDS.indexOf(padId)].steps[index] = {
+    active: true,
+    finger: FINGER_DEFAULTS[padId],
+    velocity: 100,
+    ...step,
+  };
+}
+
+function parse(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+  return doc;
+}
+
+/** Sum of note/rest durations of a voice in a measure (chord tones and grace notes don't add time) */
+function voiceDuration(measure: Element, voice: string): number {
+  return [...measure.getElementsByTagName('note')]
+    .filter((n) => n.querySelector('voice')?.textContent === voice && !n.querySelector('chord') && !n.querySelector('grace'))
+    .reduce((sum, n) => sum + Number(n.querySelector('duration')?.textContent), 0);
+}
+
+describe('createMusicXml', () => {
+  it('writes a well-formed percussion part', () => {
+    const pattern = createTestPattern();
+    pattern.timeSignature = { numerator: 4, denominator: 4 };
+    setStep(pattern, 'kick', 0);
+    setStep(pattern, 'snare', 4, { finger: { hand: 'L', finger: 2 } });
+    setStep(pattern, 'hihat_close_r', 2);
+
+    const doc = parse(createMusicXml(pattern));
+
+    expect(doc.querySelector('work-title')?.textContent).toBe('Rock & Roll <1>');
+    expect(doc.querySelector('clef sign')?.textContent).toBe('percussion');
+    expect(doc.querySelector('time beats')?.textContent).toBe('4');
+    expect(doc.querySelector('sound')?.getAttribute('tempo')).toBe('100');
+    expect(doc.querySelectorAll('score-instrument')).toHaveLength(PAD_IDS.length);
+    expect(doc.querySelector('midi-instrument[id="P1-kick"] midi-unpitched')?.textContent).toBe('37');
+
+    const measure = doc.querySelector('measure')!;
+    expect(voiceDuration(measure, '1')).toBe(96);
+    expect(voiceDuration(measure, '2')).toBe(96);
+
+    const snare = [...measure.querySelectorAll('note')].find((n) => n.querySelector('instrument')?.getAttribute('id') === 'P1-snare')!;
+    expect(snare.querySelector('display-step')?.textContent).toBe('C');
+    expect(snare.querySelector('display-octave')?.textContent).toBe('5');
+    expect(snare.querySelector('stem')?.textContent).toBe('up');
+    expect(snare.querySelector('fingering')?.textContent).toBe('(2)');
+
+    const hihat = [...measure.querySelectorAll('note')].find((n) => n.querySelector('instrument')?.getAttribute('id') === 'P1-hihat_close_r')!;
+    expect(hihat.querySelector('notehead')?.textContent).toBe('x');
+  });
+
+  it('writes triplet brackets with time modification', () => {
+    const pattern = createTestPattern('8t', 12);
+    setStep(pattern, 'ride_bow', 0);
+    setStep(pattern, 'ride_bow', 1);
+    setStep(pattern, 'ride_bow', 2);
+
+    const doc = parse(createMusicXml(pattern));
+    const notes = [...doc.querySelectorAll('note')];
+
+    expect(notes[0].querySelector('tuplet')?.getAttribute('type')).toBe('start');
+    expect(notes[2].querySelector('tuplet')?.getAttribute('type')).toBe('stop');
+    expect(notes[1].querySelector('time-modification actual-notes')?.textContent).toBe('3');
+    expect(notes[0].querySelector('type')?.textContent).toBe('eighth');
+    expect(voiceDuration(doc.querySelector('measure')!, '1')).toBe(96);
+  });
+
+  it('writes accents, ghost notes and flam grace notes', () => {
+    const pattern = createTestPattern();
+    setStep(pattern, 'snare', 0, { articulation: 'accent' });
+    setStep(pattern, 'snare', 2, { articulation: 'ghost' });
+    setStep(pattern, 'snare', 4, { articulation: 'flam' });
+
+    const notes = [...parse(createMusicXml(pattern)).querySelectorAll('note')].filter((n) => !n.querySelector('rest'));
+
+    expect(notes[0].querySelector('accent')).not.toBeNull();
+    expect(notes[1].querySelector('notehead')?.getAttribute('parentheses')).toBe('yes');
+    expect(notes[2].querySelector('grace')?.getAttribute('slash')).toBe('yes');
+    expect(notes[2].querySelector('duration')).toBeNull();
+    expect(notes[3].querySelector('grace')).toBeNull();
+  });
+
+  it('writes one measure per bar with repeat barlines', () => {
+    const pattern = createTestPattern('16n', 48);
+    pattern.bars = 3;
+    setStep(pattern, 'kick', 40);
+
+    const doc = parse(createMusicXml(pattern));
+    const measures = doc.querySelectorAll('measure');
+
+    expect(measures).toHaveLength(3);
+    expect(measures[0].querySelector('repeat')?.getAttribute('direction')).toBe('forward');
+    expect(measures[2].querySelector('repeat')?.getAttribute('direction')).toBe('backward');
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * MusicXML Export
+ *
+ * Writes a pattern as a MusicXML 4.0 percussion part (laid out by
+ * utils/drumNotation.ts):
+ * - Unpitched notes on drum-set staff positions, each tied to a
+ *   GM drum instrument for playback
+ * - Beams per group, 3:2 brackets for triplet grids
+ * - Accents, ghost notes (parenthesized), flam/drag grace notes
+ * - Finger designations as fingerings, in the app's style:
+ *   "2" = right hand, "(2)" = left hand
+ * - Repeat barlines around the pattern
+ */
+
+import type { DrumPattern } from '../types/pattern';
+import { formatFingerDesignation, getStepsPerBeat } from '../types/pattern';
+import type { NotationEvent, NotationNote, NotationVoiceNumber } from '../types/notation';
+import { PAD_IDS, PADS, type PadId } from '../config/padMapping';
+import { DRUM_STAFF_POSITIONS } from '../config/drumNotation';
+import { GM_DRUM_NOTES } from '../config/drumSamples';
+import { getPatternSwing, DEFAULT_SWING } from './swing';
+import { createDrumNotation } from './drumNotation';
+
+export const MUSICXML_EXTENSION = '.musicxml';
+export const MUSICXML_MIME = 'application/vnd.recordare.musicxml+xml';
+
+/** Divisions per quarter note (fits every grid, triplets included) */
+const DIVISIONS = 24;
+
+/** MusicXML note dynamics are a percentage of this MIDI velocity */
+const FORTE_VELOCITY = 90;
+
+const PART_ID = 'P1';
+
+/** Grace notes written before a hit */
+const GRACE_NOTES: Partial<Record<NonNullable<NotationNote['articulation']>, { count: number; type: string }>> = {
+  flam: { count: 1, type: 'eighth' },
+  drag: { count: 2, type: '16th' },
+};
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function getInstrumentId(padId: PadId): string {
+  return `${PART_ID}-${padId}`;
+}
+
+/**
+ * Staff position of a pad's notes
+ */
+function writeUnpitched(padId: PadId): string {
+  const position = DRUM_STAFF_POSITIONS[padId];
+  return `<unpitched><display-step>${position.displayStep}</display-step><display-octave>${position.displayOctave}</display-octave></unpitched>`;
+}
+
+/**
+ * Grace notes for a flam or drag
+ */
+function writeGraceNotes(note: NotationNote, voice: NotationVoiceNumber): string[] {
+  const grace = note.articulation ? GRACE_NOTES[note.articulation] : undefined;
+  if (!grace) return [];
+
+  const position = DRUM_STAFF_POSITIONS[note.padId];
+  return Array.from({ length: grace.count }, (_, i) => {
+    const beam = grace.count > 1
+      ? `<beam number="1">${i === 0 ? 'begin' : i === grace.count - 1 ? 'end' : 'continue'}</beam>`
+      : '';
+    return [
+      '<note>',
+      `<grace${grace.count === 1 ? ' slash="yes"' : ''}/>`,
+      writeUnpitched(note.padId),
+      `<instrument id="${getInstrumentId(note.padId)}"/>`,
+      `<voice>${voice}</voice>`,
+      `<type>${grace.type}</type>`,
+      `<stem>${voice === 1 ? 'up' : 'down'}</stem>`,
+      `<notehead>${position.notehead}</notehead>`,
+      beam,
+      '</note>',
+    ].join('');
+  });
+}
+
+/**
+ * Elements of one note or rest
+ */
+function writeNote(
+  event: NotationEvent,
+  note: NotationNote | null,
+  isChordTone: boolean,
+  voice: NotationVoiceNumber,
+  stepDivisions: number
+): string {
+  const parts: string[] = [];
+  const dynamics = note ? ` dynamics="${Math.round((note.velocity / FORTE_VELOCITY) * 10000) / 100}"` : '';
+  parts.push(`<note${dynamics}>`);
+  if (isChordTone) parts.push('<chord/>');
+  parts.push(note ? writeUnpitched(note.padId) : '<rest/>');
+  parts.push(`<duration>${event.steps * stepDivisions}</duration>`);
+  if (note) parts.push(`<instrument id="${getInstrumentId(note.padId)}"/>`);
+  parts.push(`<voice>${voice}</voice>`);
+  parts.push(`<type>${event.type}</type>`);
+  for (let i = 0; i < event.dots; i++) parts.push('<dot/>');
+  if (event.tuplet) {
+    parts.push('<time-modification><actual-notes>3</actual-notes><normal-notes>2</normal-notes></time-modification>');
+  }
+
+  if (note) {
+    const position = DRUM_STAFF_POSITIONS[note.padId];
+    parts.push(`<stem>${voice === 1 ? 'up' : 'down'}</stem>`);
+    parts.push(
+      note.articulation === 'ghost'
+        ? `<notehead parentheses="yes">${position.notehead}</notehead>`
+        : `<notehead>${position.notehead}</notehead>`
+    );
+    if (event.beam && !isChordTone) parts.push(`<beam number="1">${event.beam}</beam>`);
+  }
+
+  // Tuplet brackets go on the first note of an event only
+  const notations: string[] = [];
+  if (!isChordTone && (event.tuplet === 'start' || event.tuplet === 'stop')) {
+    notations.push(
+      event.tuplet === 'start' ? '<tuplet type="start" bracket="yes"/>' : '<tuplet type="stop"/>'
+    );
+  }
+  if (note) {
+    if (note.articulation === 'accent') {
+      notations.push('<articulations><accent/></articulations>');
+    }
+    const placement = voice === 1 ? 'above' : 'below';
+    notations.push(
+      `<technical><fingering placement="${placement}">${escapeXml(formatFingerDesignation(note.finger))}</fingering></technical>`
+    );
+  }
+  if (notations.length > 0) parts.push(`<notations>${notations.join('')}</notations>`);
+
+  parts.push('</note>');
+  return parts.join('');
+}
+
+/**
+ * Write a pattern as a MusicXML document
+ */
+export function createMusicXml(pattern: DrumPattern): string {
+  const notation = createDrumNotation(pattern);
+  const { timeSignature } = notation;
+  const stepDivisions = DIVISIONS / getStepsPerBeat(pattern.subdivision);
+  const barDivisions = notation.stepsPerBar * stepDivisions;
+  const { swing } = getPatternSwing(pattern);
+
+  const measures = notation.measures.map((measure, index) => {
+    const lines: string[] = [`<measure number="${index + 1}">`];
+
+    if (index === 0) {
+      lines.push(
+        '<barline location="left"><bar-style>heavy-light</bar-style><repeat direction="forward"/></barline>',
+        '<attributes>',
+        `<divisions>${DIVISIONS}</divisions>`,
+        '<key><fifths>0</fifths></key>',
+        `<time><beats>${timeSignature.numerator}</beats><beat-type>${timeSignature.denominator}</beat-type></time>`,
+        '<clef><sign>percussion</sign></clef>',
+        '</attributes>',
+        `<direction placement="above"><direction-type><metronome><beat-unit>quarter</beat-unit><per-minute>${pattern.bpm}</per-minute></metronome></direction-type><sound tempo="${pattern.bpm}"/></direction>`,
+        '<direction placement="below"><direction-type><words>Fingering: 1-5 = right hand, (1)-(5) = left hand</words></direction-type></direction>'
+      );
+      if (swing > DEFAULT_SWING) {
+        lines.push(`<direction placement="above"><direction-type><words>Swing ${swing}%</words></direction-type></direction>`);
+      }
+    }
+
+    measure.voices.forEach((voice, voiceIndex) => {
+      if (voiceIndex > 0) {
+        lines.push(`<backup><duration>${barDivisions}</duration></backup>`);
+      }
+      for (const event of voice.events) {
+        if (event.notes.length === 0) {
+          lines.push(writeNote(event, null, false, voice.voice, stepDivisions));
+          continue;
+        }
+        for (const note of event.notes) {
+          lines.push(...writeGraceNotes(note, voice.voice));
+        }
+        event.notes.forEach((note, i) => {
+          lines.push(writeNote(event, note, i > 0, voice.voice, stepDivisions));
+        });
+      }
+    });
+
+    if (index === notation.measures.length - 1) {
+      lines.push('<barline location="right"><bar-style>light-heavy</bar-style><repeat direction="backward"/></barline>');
+    }
+    lines.push('</measure>');
+    return lines.map((line) => `    ${line}`).join('\n');
+  });
+
+  const instruments = PAD_IDS.map((padId) =>
+    `      <score-instrument id="${getInstrumentId(padId)}"><instrument-name>${escapeXml(PADS[padId].label)}</instrument-name></score-instrument>`
+  );
+  const midiInstruments = PAD_IDS.map((padId) =>
+    `      <midi-instrument id="${getInstrumentId(padId)}"><midi-channel>10</midi-channel><midi-unpitched>${GM_DRUM_NOTES[padId] + 1}</midi-unpitched></midi-instrument>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+    '<score-partwise version="4.0">',
+    `  <work><work-title>${escapeXml(pattern.name)}</work-title></work>`,
+    '  <part-list>',
+    `    <score-part id="${PART_ID}">`,
+    '      <part-name>Drums</part-name>',
+    ...instruments,
+    ...midiInstruments,
+    '    </score-part>',
+    '  </part-list>',
+    `  <part id="${PART_ID}">`,
+    ...measures,
+    '  </part>',
+    '</score-partwise>',
+    '',
+  ].join('\n');
+}
@@ -1,8 +1,7 @@
-import { DrumNote, MappedDrumNote } from '../types/midi';
+import type { DrumNote, MappedDrumNote } from '../types/midi';
 import {
-  FGDP_PAD_MAPPING,
   FGDP_PAD_MAPPING_BY_GM,
-  PadMappingEntry,
+  type PadMappingEntry,
 } from '../config/padMapping';
 
 export interface PadMappingResult {
@@ -12,8 +11,14 @@ export interface PadMappingResult {
 
 /**
  * Map drum notes (GM percussion) to FGDP pad indices using the configured table.
+ *
+ * @param drumNotes - Notes read from a MIDI file
+ * @param mapping - GM note lookup (see createPadMapping); the default table when omitted
  */
-export const mapDrumNotesToPads = (drumNotes: DrumNote[]): PadMappingResult => {
+export const mapDrumNotesToPads = (
+  drumNotes: DrumNote[],
+  mapping: Record<number, PadMappingEntry> = FGDP_PAD_MAPPING_BY_GM
+): PadMappingResult => {
   if (drumNotes.length === 0) {
     return { mapped: [], unmapped: [] };
   }
@@ -22,25 +27,21 @@ export const mapDrumNotesToPads = (drumNotes: DrumNote[]): PadMappingResult => {
   const unmapped: DrumNote[] = [];
 
   for (const note of drumNotes) {
-    const mapping: PadMappingEntry | undefined =
-      FGDP_PAD_MAPPING_BY_GM[note.midi];
+    const entry: PadMappingEntry | undefined = mapping[note.midi];
 
-    if (!mapping) {
-      // Unmapped note - keep for potential debugging/visualization
+    if (!entry) {
+      // Unmapped note - reported to the user after import
       unmapped.push(note);
       continue;
     }
 
     mapped.push({
       ...note,
-      padIndex: mapping.padIndex,
-      padLabel: mapping.label,
+      padId: entry.padId,
+      padIndex: entry.padIndex,
+      padLabel: entry.label,
     });
   }
 
   return { mapped, unmapped };
 };
-
-
-
-
@@ -0,0 +1,169 @@
+/**
+ * Tests for pattern JSON export/import
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  serializePatternJson,
+  parsePatternJson,
+  getPatternFileName,
+  PATTERN_JSON_FORMAT,
+  PATTERN_JSON_VERSION,
+} from './patternJson';
+import { PAD_IDS, PADS, FINGER_DEFAULTS } from '../config/padMapping';
+import type { DrumPattern } from '../types/pattern';
+
+/** 1-bar 16th-note pattern with a few detailed notes */
+function createTestPattern(): DrumPattern {
+  return {
+    id: 'test-pattern',
+    name: 'Exercise 1',
+    bpm: 96,
+    subdivision: '16n',
+    bars: 1,
+    swing: 60,
+    swingUnit: '16n',
+    tracks: PAD_IDS.map((padId) => ({
+      padId,
+      label: PADS[padId].label,
+      defaultFinger: FINGER_DEFAULTS[padId],
+      steps: Array.from({ length: 16 }, () => ({ active: false })),
+    })),
+  };
+}
+
+/** Parse JSON text and return the errors (fails the test if it parsed) */
+function parseErrors(text: string): string[] {
+  const result = parsePatternJson(text);
+  expect(result.ok).toBe(false);
+  return result.ok ? [] : result.errors;
+}
+
+describe('patternJson', () => {
+  describe('serializePatternJson / parsePatternJson', () => {
+    it('round-trips fingers, velocities, articulations and conditions', () => {
+      const pattern = createTestPattern();
+      pattern.tracks[6].steps[4] = {
+        active: true,
+        finger: { hand: 'L', finger: 2 },
+        velocity: 64,
+        articulation: 'ghost',
+        condition: { probability: 50, cycle: 2, iteration: 2 },
+      };
+      pattern.tracks[17].length = 12;
+      pattern.tracks[3].muted = true;
+
+      const result = parsePatternJson(serializePatternJson(pattern));
+
+      expect(result).toEqual({ ok: true, pattern });
+    });
+
+    it('writes the format marker and version', () => {
+      const file = JSON.parse(serializePatternJson(createTestPattern()));
+
+      expect(file.format).toBe(PATTERN_JSON_FORMAT);
+      expect(file.version).toBe(PATTERN_JSON_VERSION);
+    });
+
+    it('accepts a bare pattern object', () => {
+      const result = parsePatternJson(JSON.stringify(createTestPattern()));
+
+      expect(result.ok).toBe(true);
+    });
+
+    it('gives active steps without finger or velocity the track defaults', () => {
+      const pattern = createTestPattern();
+      pattern.tracks[0].steps[0] = { active: true };
+
+      const result = parsePatternJson(JSON.stringify(pattern));
+
+      expect(result.ok && result.pattern.tracks[0].steps[0]).toEqual({
+        active: true,
+        finger: FINGER_DEFAULTS.crash_l,
+        velocity: 100,
+      });
+    });
+
+    it('puts tracks into pad order', () => {
+      const pattern = createTestPattern();
+      pattern.tracks.reverse();
+
+      const result = parsePatternJson(JSON.stringify(pattern));
+
+      expect(result.ok && result.pattern.tracks.map((t) => t.padId)).toEqual([...PAD_IDS]);
+    });
+  });
+
+  describe('validation errors', () => {
+    it('reports invalid JSON', () => {
+      expect(parseErrors('{ not json')[0]).toMatch(/^Not valid JSON/);
+    });
+
+    it('rejects other formats and newer versions', () => {
+      expect(parseErrors(JSON.stringify({ format: 'other' }))).toEqual([
+        `format: must be "${PATTERN_JSON_FORMAT}"`,
+      ]);
+      expect(parseErrors(JSON.stringify({ format: PATTERN_JSON_FORMAT, version: 99 }))[0]).toMatch(
+        /^version: 99 is not supported/
+      );
+    });
+
+    it('reports each invalid pattern field', () => {
+      const pattern = { ...createTestPattern(), bpm: 300, subdivision: '64n', name: '' };
+
+      expect(parseErrors(JSON.stringify(pattern))).toEqual([
+        'name: must be a non-empty string',
+        'bpm: must be a whole number from 40 to 200',
+        'subdivision: must be one of "4n", "4t", "8n", "8t", "16n", "16t", "32n", "32t"',
+      ]);
+    });
+
+    it('reports step fields with their path', () => {
+      const pattern = createTestPattern();
+      pattern.tracks[3].steps[5] = { active: true, velocity: 200 };
+      (pattern.tracks[3].steps[6] as unknown) = { active: true, finger: { hand: 'X', finger: 2 } };
+
+      expect(parseErrors(JSON.stringify(pattern))).toEqual([
+        'tracks[3].steps[5].velocity: must be a whole number from 1 to 127',
+        'tracks[3].steps[6].finger.hand: must be one of "L", "R"',
+      ]);
+    });
+
+    it('reports steps that do not match the grid', () => {
+      const pattern = createTestPattern();
+      pattern.tracks[0].steps = pattern.tracks[0].steps.slice(0, 8);
+
+      expect(parseErrors(JSON.stringify(pattern))).toEqual([
+        'tracks[0].steps: must have 16 steps for this length and grid (found 8)',
+      ]);
+    });
+
+    it('reports unknown, duplicate and missing pads', () => {
+      const pattern = createTestPattern();
+      pattern.tracks[1].padId = 'cowbell';
+      pattern.tracks[2].padId = 'kick';
+
+      expect(parseErrors(JSON.stringify(pattern))).toEqual([
+        expect.stringMatching(/^tracks\[1\]\.padId: must be one of crash_l/),
+        'tracks[16].padId: "kick" appears more than once',
+        'tracks: missing pads: hihat_close_l, hihat_open',
+      ]);
+    });
+
+    it('reports a subdivision that does not fit the time signature', () => {
+      const pattern = { ...createTestPattern(), subdivision: '4t', timeSignature: { numerator: 3, denominator: 4 } };
+
+      expect(parseErrors(JSON.stringify(pattern))).toEqual([
+        'subdivision: 1/4T does not fit a whole number of steps in 3/4',
+      ]);
+    });
+  });
+
+  describe('getPatternFileName', () => {
+    it('turns the pattern name into a file name', () => {
+      expect(getPatternFileName({ name: 'Rock 8-Beat (v2)' })).toBe('rock-8-beat-v2.json');
+      expect(getPatternFileName({ name: '!!!' })).toBe('pattern.json');
+      expect(getPatternFileName({ name: 'Rock 8-Beat' }, '.mid')).toBe('rock-8-beat.mid');
+    });
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * Pattern JSON Files
+ *
+ * Readable, diff-friendly export of the full DrumPattern for keeping
+ * exercise sets in version control, and validated import:
+ * - Files carry a format marker and version
+ * - Incoming files are checked field by field; every problem is reported
+ *   with its path (e.g. "tracks[3].steps[5].velocity: ...")
+ * - Imported notes follow the editor's conventions: active steps get an
+ *   explicit finger and velocity, inactive steps carry no note data
+ */
+
+import type {
+  Articulation,
+  DrumPattern,
+  FingerDesignation,
+  PatternStep,
+  PatternTrack,
+  StepCondition,
+  Subdivision,
+  SwingUnit,
+  TimeSignature,
+} from '../types/pattern';
+import {
+  DEFAULT_VELOCITY,
+  MIN_BPM,
+  MAX_BPM,
+  MIN_VELOCITY,
+  MAX_VELOCITY,
+  formatTimeSignature,
+  getSubdivisionLabel,
+  getTotalSteps,
+  isSubdivisionCompatible,
+} from '../types/pattern';
+import { ARTICULATION_INFO } from '../config/articulations';
+import { PAD_IDS, isValidPadId } from '../config/padMapping';
+import { MIN_SWING, MAX_SWING } from './swing';
+import { MIN_PROBABILITY, MAX_PROBABILITY, MIN_CYCLE, MAX_CYCLE } from './stepConditions';
+
+/** Format marker written to every file */
+const PATTERN_JSON_FORMAT = 'fgdp-pattern';
+
+/** Current file version; newer files are rejected */
+const PATTERN_JSON_VERSION = 1;
+
+/** File extension and MIME type */
+const PATTERN_JSON_EXTENSION = '.json';
+const PATTERN_JSON_MIME = 'application/json';
+
+const SUBDIVISIONS: Subdivision[] = ['4n', '4t', '8n', '8t', '16n', '16t', '32n', '32t'];
+const SWING_UNITS: SwingUnit[] = ['8n', '16n'];
+const DENOMINATORS: TimeSignature['denominator'][] = [2, 4, 8, 16];
+
+/**
+ * Pattern file contents
+ */
+interface PatternJsonFile {
+  format: typeof PATTERN_JSON_FORMAT;
+  version: number;
+  pattern: DrumPattern;
+}
+
+/**
+ * Result of reading a pattern file
+ */
+export type PatternJsonResult =
+  | { ok: true; pattern: DrumPattern }
+  | { ok: false; errors: string[] };
+
+/**
+ * Serialize a pattern as a pretty-printed JSON file
+ */
+export function serializePatternJson(pattern: DrumPattern): string {
+  const file: PatternJsonFile = {
+    format: PATTERN_JSON_FORMAT,
+    version: PATTERN_JSON_VERSION,
+    // Notes kept from before a subdivision change are editor state, not file content
+    pattern: { ...pattern, subdivisionSource: undefined },
+  };
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+/**
+ * File name for a pattern download, e.g. "Rock 8-Beat" -> "rock-8-beat.json"
+ */
+export function getPatternFileName(
+  pattern: Pick<DrumPattern, 'name'>,
+  extension: string = PATTERN_JSON_EXTENSION
+): string {
+  const slug = pattern.name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'pattern'}${extension}`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Record a validation error for a field
+ */
+function fail(errors: string[], path: string, message: string): void {
+  errors.push(`${path}: ${message}`);
+}
+
+/**
+ * Check a whole number within a range
+ */
+function checkInteger(errors: string[], value: unknown, path: string, min: number, max: number): number | undefined {
+  if (isIntegerInRange(value, min, max)) return value;
+  fail(errors, path, `must be a whole number from ${min} to ${max}`);
+  return undefined;
+}
+
+/**
+ * Check a value against a fixed set of options
+ */
+function checkOneOf<T>(errors: string[], value: unknown, path: string, options: readonly T[]): T | undefined {
+  if (options.includes(value as T)) return value as T;
+  fail(errors, path, `must be one of ${options.map((o) => JSON.stringify(o)).join(', ')}`);
+  return undefined;
+}
+
+/**
+ * Check an optional flag (false is stored as undefined)
+ */
+function checkOptionalBoolean(errors: string[], value: unknown, path: string): boolean | undefined {
+  if (value === undefined || typeof value === 'boolean') return value || undefined;
+  fail(errors, path, 'must be true or false');
+  return undefined;
+}
+
+/**
+ * Check a finger designation
+ */
+function checkFinger(errors: string[], value: unknown, path: string): FingerDesignation | undefined {
+  if (!isObject(value)) {
+    fail(errors, path, 'must be an object like {"hand": "R", "finger": 2}');
+    return undefined;
+  }
+  const hand = checkOneOf(errors, value.hand, `${path}.hand`, ['L', 'R'] as const);
+  const finger = checkInteger(errors, value.finger, `${path}.finger`, 1, 5) as FingerDesignation['finger'] | undefined;
+  return hand && finger ? { hand, finger } : undefined;
+}
+
+/**
+ * Check an optional step condition
+ */
+function checkCondition(errors: string[], value: unknown, path: string): StepCondition | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    fail(errors, path, 'must be an object');
+    return undefined;
+  }
+
+  const condition: StepCondition = {};
+  if (value.probability !== undefined) {
+    condition.probability = checkInteger(errors, value.probability, `${path}.probability`, MIN_PROBABILITY, MAX_PROBABILITY);
+  }
+  if (value.cycle !== undefined || value.iteration !== undefined) {
+    const cycle = checkInteger(errors, value.cycle, `${path}.cycle`, MIN_CYCLE, MAX_CYCLE);
+    const iteration = checkInteger(errors, value.iteration ?? 1, `${path}.iteration`, 1, cycle ?? MAX_CYCLE);
+    if (cycle !== undefined && iteration !== undefined) {
+      condition.cycle = cycle;
+      condition.iteration = iteration;
+    }
+  }
+  return condition.probability !== undefined || condition.cycle !== undefined ? condition : undefined;
+}
+
+/**
+ * Check a step; active steps get an explicit finger and velocity
+ */
+function checkStep(errors: string[], value: unknown, path: string, defaultFinger: FingerDesignation | undefined): PatternStep {
+  if (!isObject(value)) {
+    fail(errors, path, 'must be an object like {"active": false}');
+    return { active: false };
+  }
+  if (typeof value.active !== 'boolean') {
+    fail(errors, `${path}.active`, 'must be true or false');
+    return { active: false };
+  }
+  if (!value.active) return { active: false };
+
+  const finger = value.finger === undefined ? defaultFinger : checkFinger(errors, value.finger, `${path}.finger`);
+  const velocity = value.velocity === undefined
+    ? DEFAULT_VELOCITY
+    : checkInteger(errors, value.velocity, `${path}.velocity`, MIN_VELOCITY, MAX_VELOCITY);
+  const articulation = value.articulation === undefined
+    ? undefined
+    : checkOneOf(errors, value.articulation, `${path}.articulation`, Object.keys(ARTICULATION_INFO) as Articulation[]);
+  const condition = checkCondition(errors, value.condition, `${path}.condition`);
+
+  return {
+    active: true,
+    finger,
+    velocity,
+    articulation: articulation === 'normal' ? undefined : articulation,
+    condition,
+  };
+}
+
+/**
+ * Check a track against the pattern's step count
+ */
+function checkTrack(errors: string[], value: unknown, path: string, stepCount: number): PatternTrack | undefined {
+  if (!isObject(value)) {
+    fail(errors, path, 'must be an object');
+    return undefined;
+  }
+
+  const padId = typeof value.padId === 'string' && isValidPadId(value.padId) ? value.padId : undefined;
+  if (!padId) {
+    fail(errors, `${path}.padId`, `must be one of ${PAD_IDS.join(', ')}`);
+  }
+  if (typeof value.label !== 'string') {
+    fail(errors, `${path}.label`, 'must be a string');
+  }
+  const defaultFinger = checkFinger(errors, value.defaultFinger, `${path}.defaultFinger`);
+
+  let steps: PatternStep[] = [];
+  if (!Array.isArray(value.steps)) {
+    fail(errors, `${path}.steps`, 'must be an array');
+  } else if (value.steps.length !== stepCount) {
+    fail(errors, `${path}.steps`, `must have ${stepCount} steps for this length and grid (found ${value.steps.length})`);
+  } else {
+    steps = value.steps.map((step, i) => checkStep(errors, step, `${path}.steps[${i}]`, defaultFinger));
+  }
+
+  const length = value.length === undefined
+    ? undefined
+    : checkInteger(errors, value.length, `${path}.length`, 1, stepCount);
+  const muted = checkOptionalBoolean(errors, value.muted, `${path}.muted`);
+  const solo = checkOptionalBoolean(errors, value.solo, `${path}.solo`);
+
+  if (!padId || !defaultFinger || typeof value.label !== 'string') return undefined;
+  return {
+    padId,
+    label: value.label,
+    defaultFinger,
+    steps,
+    length: length === stepCount ? undefined : length,
+    muted,
+    solo,
+  };
+}
+
+/**
+ * Validate a parsed pattern object and rebuild it with only known fields
+ */
+function validatePattern(value: unknown): PatternJsonResult {
+  const errors: string[] = [];
+  if (!isObject(value)) {
+    return { ok: false, errors: ['pattern: must be an object'] };
+  }
+
+  const name = typeof value.name === 'string' ? value.name.trim() : '';
+  if (!name) {
+    fail(errors, 'name', 'must be a non-empty string');
+  }
+  const bpm = checkInteger(errors, value.bpm, 'bpm', MIN_BPM, MAX_BPM);
+  const subdivision = checkOneOf(errors, value.subdivision, 'subdivision', SUBDIVISIONS);
+  const bars = checkInteger(errors, value.bars, 'bars', 1, 4) as DrumPattern['bars'] | undefined;
+
+  let timeSignature: TimeSignature | undefined;
+  if (value.timeSignature !== undefined) {
+    const ts = value.timeSignature;
+    if (!isObject(ts)) {
+      fail(errors, 'timeSignature', 'must be an object like {"numerator": 4, "denominator": 4}');
+    } else {
+      const numerator = checkInteger(errors, ts.numerator, 'timeSignature.numerator', 1, 16);
+      const denominator = checkOneOf(errors, ts.denominator, 'timeSignature.denominator', DENOMINATORS);
+      if (numerator !== undefined && denominator !== undefined) {
+        timeSignature = { numerator, denominator };
+      }
+    }
+  }
+
+  if (subdivision && timeSignature && !isSubdivisionCompatible(subdivision, timeSignature)) {
+    fail(
+      errors,
+      'subdivision',
+      `${getSubdivisionLabel(subdivision)} does not fit a whole number of steps in ${formatTimeSignature(timeSignature)}`
+    );
+  }
+
+  const swing = value.swing === undefined ? undefined : checkInteger(errors, value.swing, 'swing', MIN_SWING, MAX_SWING);
+  const swingUnit = value.swingUnit === undefined ? undefined : checkOneOf(errors, value.swingUnit, 'swingUnit', SWING_UNITS);
+
+  // Tracks can only be checked against a known grid
+  if (errors.length > 0 || bpm === undefined || !subdivision || !bars) {
+    return { ok: false, errors };
+  }
+
+  const stepCount = getTotalSteps(bars, subdivision, timeSignature);
+  const tracks: PatternTrack[] = [];
+  if (!Array.isArray(value.tracks)) {
+    fail(errors, 'tracks', 'must be an array');
+  } else {
+    const trackValues: unknown[] = value.tracks;
+    trackValues.forEach((track, i) => {
+      const parsed = checkTrack(errors, track, `tracks[${i}]`, stepCount);
+      if (!parsed) return;
+      if (tracks.some((t) => t.padId === parsed.padId)) {
+        fail(errors, `tracks[${i}].padId`, `"${parsed.padId}" appears more than once`);
+        return;
+      }
+      tracks.push(parsed);
+    });
+
+    const missing = PAD_IDS.filter((padId) => !trackValues.some((t) => isObject(t) && t.padId === padId));
+    if (missing.length > 0) {
+      fail(errors, 'tracks', `missing pads: ${missing.join(', ')}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    pattern: {
+      id: typeof value.id === 'string' && value.id ? value.id : `file-${Date.now()}`,
+      name,
+      bpm,
+      subdivision,
+      bars,
+      timeSignature,
+      swing: swing === MIN_SWING ? undefined : swing,
+      swingUnit,
+      // Tracks follow the pad order the editor expects
+      tracks: PAD_IDS.flatMap((padId) => tracks.filter((t) => t.padId === padId)),
+    },
+  };
+}
+
+/**
+ * Read a pattern from JSON text
+ *
+ * Accepts a pattern file written by serializePatternJson or a bare
+ * DrumPattern object.
+ */
+export function parsePatternJson(text: string): PatternJsonResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'parse error';
+    return { ok: false, errors: [`Not valid JSON (${reason})`] };
+  }
+
+  if (isObject(data) && data.format !== undefined) {
+    if (data.format !== PATTERN_JSON_FORMAT) {
+      return { ok: false, errors: [`format: must be "${PATTERN_JSON_FORMAT}"`] };
+    }
+    if (!isIntegerInRange(data.version, 1, PATTERN_JSON_VERSION)) {
+      return {
+        ok: false,
+        errors: [`version: ${JSON.stringify(data.version)} is not supported (up to ${PATTERN_JSON_VERSION})`],
+      };
+    }
+    return validatePattern(data.pattern);
+  }
+
+  return validatePattern(data);
+}
+
+/** Export constants for external use */
+export { PATTERN_JSON_FORMAT, PATTERN_JSON_VERSION, PATTERN_JSON_EXTENSION, PATTERN_JSON_MIME };
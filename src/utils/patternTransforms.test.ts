@@ -0,0 +1,124 @@
+/**
+ * Tests for pattern transforms
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { PatternStep, PatternTrack } from '../types/pattern';
+import {
+  getMirrorPadId,
+  mirrorTrackHands,
+  reverseSteps,
+  rotateSteps,
+  stretchSteps,
+  transformTrackSteps,
+} from './patternTransforms';
+
+/**
+ * Build steps from a string like "x..x" (x = active)
+ */
+function steps(pattern: string): PatternStep[] {
+  return [...pattern].map((c) => ({ active: c === 'x' }));
+}
+
+/**
+ * Render steps back to an "x..x" string
+ */
+function render(result: PatternStep[]): string {
+  return result.map((step) => (step.active ? 'x' : '.')).join('');
+}
+
+function track(padId: string, pattern: string, hand: 'L' | 'R' = 'R'): PatternTrack {
+  return { padId, label: padId, defaultFinger: { hand, finger: 2 }, steps: steps(pattern) };
+}
+
+describe('patternTransforms', () => {
+  describe('rotateSteps', () => {
+    it('should shift steps later and wrap around', () => {
+      expect(render(rotateSteps(steps('x..x....'), 1))).toBe('.x..x...');
+      expect(render(rotateSteps(steps('x......x'), 1))).toBe('xx......');
+    });
+
+    it('should shift steps earlier with a negative amount', () => {
+      expect(render(rotateSteps(steps('.x..x...'), -1))).toBe('x..x....');
+      expect(render(rotateSteps(steps('x.......'), -9))).toBe('.......x');
+    });
+  });
+
+  describe('reverseSteps', () => {
+    it('should reverse step order', () => {
+      expect(render(reverseSteps(steps('xx...x..')))).toBe('..x...xx');
+    });
+  });
+
+  describe('stretchSteps', () => {
+    it('should spread notes twice as far apart at x2', () => {
+      expect(render(stretchSteps(steps('xx.x....'), 2))).toBe('x.x...x.');
+    });
+
+    it('should squeeze even steps and repeat at x0.5', () => {
+      expect(render(stretchSteps(steps('x.x.x...'), 0.5))).toBe('xxx.xxx.');
+    });
+
+    it('should drop notes between grid steps at x0.5', () => {
+      expect(render(stretchSteps(steps('.x.x....'), 0.5))).toBe('........');
+    });
+  });
+
+  describe('transformTrackSteps', () => {
+    it('should transform only the range', () => {
+      const tracks = [track('snare', 'x.......'), track('kick', 'x.......')];
+      const result = transformTrackSteps(tracks, (s) => rotateSteps(s, 1), {
+        startTrack: 1,
+        endTrack: 1,
+        startStep: 0,
+        endStep: 3,
+      });
+
+      expect(render(result[0].steps)).toBe('x.......');
+      expect(render(result[1].steps)).toBe('.x......');
+      expect(result[0]).toBe(tracks[0]);
+    });
+
+    it('should wrap within each track loop without a range', () => {
+      const tracks = [{ ...track('snare', 'x..x....'), length: 3 }];
+      const result = transformTrackSteps(tracks, (s) => rotateSteps(s, 1));
+
+      expect(render(result[0].steps)).toBe('.x.x....');
+    });
+  });
+
+  describe('getMirrorPadId', () => {
+    it('should pair left and right pads', () => {
+      expect(getMirrorPadId('tom_high_l')).toBe('tom_high_r');
+      expect(getMirrorPadId('crash_r')).toBe('crash_l');
+      expect(getMirrorPadId('snare')).toBeUndefined();
+    });
+  });
+
+  describe('mirrorTrackHands', () => {
+    it('should swap paired tracks and flip fingers', () => {
+      const tracks = [
+        track('crash_l', 'x...', 'L'),
+        track('crash_r', '..x.', 'R'),
+        track('snare', '.x..', 'R'),
+      ];
+      const result = mirrorTrackHands(tracks);
+
+      expect(render(result[0].steps)).toBe('..x.');
+      expect(render(result[1].steps)).toBe('x...');
+      expect(result[1].steps[0].finger).toEqual({ hand: 'R', finger: 2 });
+      // Unpaired pads keep their notes with the other hand
+      expect(render(result[2].steps)).toBe('.x..');
+      expect(result[2].steps[1].finger).toEqual({ hand: 'L', finger: 2 });
+    });
+
+    it('should swap a pair when only one side is in the range', () => {
+      const tracks = [track('crash_l', 'xx..', 'L'), track('snare', '....'), track('crash_r', '....')];
+      const result = mirrorTrackHands(tracks, { startTrack: 0, endTrack: 0, startStep: 0, endStep: 0 });
+
+      expect(render(result[0].steps)).toBe('.x..');
+      expect(render(result[2].steps)).toBe('x...');
+      expect(result[1]).toBe(tracks[1]);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Pattern transforms - rotate, reverse, hand-mirror and time-stretch
+ *
+ * Each transform works on a range of tracks and steps (e.g. the sequencer
+ * selection) or, without a range, on every track within its own loop length.
+ * Steps move with all their data (velocity, articulation, finger, condition).
+ */
+
+import type { FingerDesignation, PatternStep, PatternTrack } from '../types/pattern';
+import { getTrackLength } from '../types/pattern';
+
+/**
+ * Rectangular block of the pattern (inclusive, 0-indexed track and step indices)
+ */
+export interface StepRange {
+  startTrack: number;
+  endTrack: number;
+  startStep: number;
+  endStep: number;
+}
+
+/**
+ * Time-stretch factor: 2 spreads notes twice as far apart (half time),
+ * 0.5 squeezes them into half the space and repeats (double time)
+ */
+export type TimeStretch = 2 | 0.5;
+
+/**
+ * Create an empty step to fill gaps left by a transform
+ */
+function emptyStep(): PatternStep {
+  return { active: false };
+}
+
+/**
+ * Rotate steps by `amount` positions (positive = later), wrapping around
+ */
+export function rotateSteps(steps: PatternStep[], amount: number): PatternStep[] {
+  const count = steps.length;
+  if (count === 0) return steps;
+  const shift = ((amount % count) + count) % count;
+  return steps.map((_, i) => steps[(i - shift + count) % count]);
+}
+
+/**
+ * Reverse the order of steps
+ */
+export function reverseSteps(steps: PatternStep[]): PatternStep[] {
+  return [...steps].reverse();
+}
+
+/**
+ * Time-stretch steps, keeping the step count
+ * - x2: step i moves to 2i; notes pushed past the end are dropped
+ * - x0.5: even steps move to i/2 and the result repeats to fill the space;
+ *   notes on odd steps fall between grid steps and are dropped
+ */
+export function stretchSteps(steps: PatternStep[], factor: TimeStretch): PatternStep[] {
+  const count = steps.length;
+  if (factor === 2) {
+    return steps.map((_, i) => (i % 2 === 0 ? steps[i / 2] : emptyStep()));
+  }
+  const half = Math.ceil(count / 2);
+  return steps.map((_, i) => ({ ...steps[(i % half) * 2] }));
+}
+
+/**
+ * Get the pad on the other side for `_l`/`_r` pad pairs (e.g. tom_high_l ↔ tom_high_r)
+ */
+export function getMirrorPadId(padId: string): string | undefined {
+  if (padId.endsWith('_l')) return `${padId.slice(0, -2)}_r`;
+  if (padId.endsWith('_r')) return `${padId.slice(0, -2)}_l`;
+  return undefined;
+}
+
+/**
+ * Swap the hand of a finger designation
+ */
+export function mirrorFinger(finger: FingerDesignation): FingerDesignation {
+  return { hand: finger.hand === 'L' ? 'R' : 'L', finger: finger.finger };
+}
+
+/**
+ * Get the steps of a track a transform works on: the range's steps,
+ * or the track's loop without a range
+ */
+function getStepSpan(track: PatternTrack, range?: StepRange): [number, number] {
+  if (!range) return [0, getTrackLength(track)];
+  const start = Math.min(range.startStep, track.steps.length);
+  const end = Math.min(range.endStep + 1, track.steps.length);
+  return [start, end];
+}
+
+/**
+ * Check if a track is covered by a range (every track without a range)
+ */
+function isTrackInRange(trackIndex: number, range?: StepRange): boolean {
+  return !range || (trackIndex >= range.startTrack && trackIndex <= range.endTrack);
+}
+
+/**
+ * Apply a step-order transform to each track in the range
+ *
+ * @param tracks - Tracks to transform
+ * @param transform - Rewrites one track's span of steps (same length in and out)
+ * @param range - Block to transform; every track's loop when undefined
+ */
+export function transformTrackSteps(
+  tracks: PatternTrack[],
+  transform: (steps: PatternStep[]) => PatternStep[],
+  range?: StepRange
+): PatternTrack[] {
+  return tracks.map((track, trackIndex) => {
+    if (!isTrackInRange(trackIndex, range)) return track;
+
+    const [start, end] = getStepSpan(track, range);
+    if (end - start < 2) return track;
+
+    const steps = [...track.steps];
+    steps.splice(start, end - start, ...transform(steps.slice(start, end)));
+    return { ...track, steps };
+  });
+}
+
+/**
+ * Mirror hands: swap the notes of each `_l`/`_r` pad pair and play every
+ * note with the same finger of the other hand
+ *
+ * A pair is swapped when either of its tracks is in the range.
+ *
+ * @param tracks - Tracks to transform
+ * @param range - Block to transform; all steps of every track when undefined
+ */
+export function mirrorTrackHands(tracks: PatternTrack[], range?: StepRange): PatternTrack[] {
+  const trackIndexByPad = new Map(tracks.map((track, index) => [track.padId, index]));
+
+  return tracks.map((track, trackIndex) => {
+    const mirrorPadId = getMirrorPadId(track.padId);
+    const sourceIndex = mirrorPadId !== undefined ? trackIndexByPad.get(mirrorPadId) : undefined;
+    const sourceInRange = sourceIndex !== undefined && isTrackInRange(sourceIndex, range);
+    if (!isTrackInRange(trackIndex, range) && !sourceInRange) return track;
+
+    const source = sourceIndex !== undefined ? tracks[sourceIndex] : track;
+    const start = range ? Math.max(0, range.startStep) : 0;
+    const end = range ? range.endStep + 1 : track.steps.length;
+
+    const steps = track.steps.map((step, stepIndex) => {
+      if (stepIndex < start || stepIndex >= end) return step;
+
+      const sourceStep = source.steps[stepIndex] ?? emptyStep();
+      if (!sourceStep.active) return sourceStep;
+
+      return { ...sourceStep, finger: mirrorFinger(sourceStep.finger ?? source.defaultFinger) };
+    });
+
+    return { ...track, steps };
+  });
+}
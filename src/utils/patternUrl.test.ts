@@ -13,7 +13,8 @@ import { encodePattern, decodePattern, MAX_ENCODED_LENGTH } from './patternUrl';
 import type { DrumPattern, PatternTrack } from '../types/pattern';
 import { PAD_IDS, PADS, FINGER_DEFAULTS, type PadId } from '../config/padMapping';
 
-import type { Subdivision } from '../types/pattern';
+import type { Subdivision, TimeSignature } from '../types/pattern';
+import { getTotalSteps } from '../types/pattern';
 
 // Helper to create a minimal valid pattern using PAD_IDS structure
 function createTestPattern(
@@ -429,6 +430,188 @@ describe('Pattern URL Encoding', () => {
     });
   });
 
+  describe('time signatures', () => {
+    function createTimeSignaturePattern(
+      timeSignature: TimeSignature,
+      bars: 1 | 2 | 3 | 4 = 1,
+      subdivision: Subdivision = '16n'
+    ): DrumPattern {
+      const pattern = createTestPattern('Meter', bars, subdivision);
+      const totalSteps = getTotalSteps(bars, subdivision, timeSignature);
+      pattern.tracks.forEach((track) => {
+        track.steps = track.steps.slice(0, totalSteps);
+        while (track.steps.length < totalSteps) {
+          track.steps.push({ active: false, velocity: undefined, finger: undefined });
+        }
+      });
+      return { ...pattern, timeSignature };
+    }
+
+    it.each([
+      { numerator: 3, denominator: 4 },
+      { numerator: 5, denominator: 4 },
+      { numerator: 6, denominator: 8 },
+      { numerator: 7, denominator: 8 },
+    ] as TimeSignature[])('should roundtrip $numerator/$denominator', (timeSignature) => {
+      const original = createTimeSignaturePattern(timeSignature, 2);
+      const lastStep = original.tracks[0].steps.length - 1;
+      original.tracks[0].steps[lastStep] = { active: true, velocity: 100, finger: { hand: 'L', finger: 3 } };
+
+      const decoded = decodePattern(encodePattern(original)!);
+
+      expect(decoded).not.toBeNull();
+      expect(decoded!.timeSignature).toEqual(timeSignature);
+      expect(decoded!.tracks[0].steps.length).toBe(original.tracks[0].steps.length);
+      expect(decoded!.tracks[0].steps[lastStep].active).toBe(true);
+      expect(decoded!.tracks[0].steps[lastStep].finger).toEqual({ hand: 'L', finger: 3 });
+    });
+
+    it('should encode 4/4 patterns identically to patterns without a time signature', () => {
+      const legacy = createTestPattern('Same', 1, '16n');
+      const explicit = { ...legacy, timeSignature: { numerator: 4, denominator: 4 } as TimeSignature };
+
+      expect(encodePattern(explicit)).toBe(encodePattern(legacy));
+    });
+
+    it('should default to 4/4 when decoding links without a time signature', () => {
+      const decoded = decodePattern(encodePattern(createTestPattern())!);
+
+      expect(decoded!.timeSignature).toEqual({ numerator: 4, denominator: 4 });
+    });
+  });
+
+  describe('velocities', () => {
+    it('should roundtrip per-step velocities', () => {
+      const original = createTestPattern();
+      original.tracks[0].steps[0] = { active: true, velocity: 127, finger: { hand: 'R', finger: 1 } };
+      original.tracks[0].steps[4] = { active: true, velocity: 30, finger: { hand: 'L', finger: 2 } };
+      original.tracks[5].steps[2] = { active: true, velocity: 100, finger: { hand: 'R', finger: 3 } };
+
+      const decoded = decodePattern(encodePattern(original)!);
+
+      expect(decoded!.tracks[0].steps[0].velocity).toBe(127);
+      expect(decoded!.tracks[0].steps[4].velocity).toBe(30);
+      expect(decoded!.tracks[5].steps[2].velocity).toBe(100);
+    });
+
+    it('should not add velocity data when all velocities are default', () => {
+      const plain = createTestPattern();
+      plain.tracks[0].steps[0] = { active: true, velocity: undefined, finger: { hand: 'R', finger: 1 } };
+      const explicit = structuredClone(plain);
+      explicit.tracks[0].steps[0].velocity = 100;
+
+      expect(encodePattern(explicit)).toBe(encodePattern(plain));
+    });
+  });
+
+  describe('articulations', () => {
+    it('should roundtrip per-step articulations', () => {
+      const original = createTestPattern();
+      original.tracks[1].steps[0] = { active: true, finger: { hand: 'R', finger: 2 }, articulation: 'accent' };
+      original.tracks[1].steps[1] = { active: true, finger: { hand: 'R', finger: 2 }, articulation: 'ghost' };
+      original.tracks[1].steps[2] = { active: true, finger: { hand: 'L', finger: 2 } };
+      original.tracks[3].steps[8] = { active: true, finger: { hand: 'L', finger: 3 }, articulation: 'flam' };
+      original.tracks[3].steps[9] = { active: true, finger: { hand: 'L', finger: 3 }, articulation: 'drag' };
+
+      const decoded = decodePattern(encodePattern(original)!);
+      const articulations = [
+        decoded!.tracks[1].steps[0].articulation,
+        decoded!.tracks[1].steps[1].articulation,
+        decoded!.tracks[1].steps[2].articulation,
+        decoded!.tracks[3].steps[8].articulation,
+        decoded!.tracks[3].steps[9].articulation,
+      ];
+
+      expect(articulations).toEqual(['accent', 'ghost', undefined, 'flam', 'drag']);
+    });
+  });
+
+  describe('swing', () => {
+    it('should roundtrip swing amount and unit', () => {
+      const original = { ...createTestPattern(), swing: 62, swingUnit: '8n' as const };
+
+      const decoded = decodePattern(encodePattern(original)!);
+
+      expect(decoded!.swing).toBe(62);
+      expect(decoded!.swingUnit).toBe('8n');
+    });
+
+    it('should not add swing data for straight patterns', () => {
+      const legacy = createTestPattern();
+      const straight = { ...legacy, swing: 50, swingUnit: '8n' as const };
+
+      expect(encodePattern(straight)).toBe(encodePattern(legacy));
+      expect(decodePattern(encodePattern(legacy)!)!.swing).toBeUndefined();
+    });
+  });
+
+  describe('track mute/solo', () => {
+    it('should roundtrip muted and soloed tracks', () => {
+      const original = createTestPattern();
+      original.tracks[0].solo = true;
+      original.tracks[9].muted = true;
+      original.tracks[17].muted = true;
+      original.tracks[17].solo = true;
+
+      const decoded = decodePattern(encodePattern(original)!);
+
+      expect(decoded!.tracks.map((t) => !!t.muted)).toEqual(original.tracks.map((t) => !!t.muted));
+      expect(decoded!.tracks.map((t) => !!t.solo)).toEqual(original.tracks.map((t) => !!t.solo));
+    });
+
+    it('should not add track state when nothing is muted or soloed', () => {
+      const plain = createTestPattern();
+      const decoded = decodePattern(encodePattern(plain)!);
+
+      expect(decoded!.tracks.some((t) => t.muted || t.solo)).toBe(false);
+    });
+  });
+
+  describe('track lengths', () => {
+    it('should roundtrip per-track lengths', () => {
+      const original = createTestPattern('Poly', 2, '16n');
+      original.tracks[2].length = 3;
+      original.tracks[7].length = 20;
+      original.tracks[2].steps[0] = { active: true, finger: { hand: 'R', finger: 2 } };
+
+      const decoded = decodePattern(encodePattern(original)!);
+
+      expect(decoded!.tracks[2].length).toBe(3);
+      expect(decoded!.tracks[7].length).toBe(20);
+      expect(decoded!.tracks[0].length).toBeUndefined();
+      expect(decoded!.tracks[2].steps[0].active).toBe(true);
+    });
+
+    it('should not add length data when every track is full length', () => {
+      const plain = createTestPattern();
+      const explicit = structuredClone(plain);
+      explicit.tracks[0].length = 16;
+
+      expect(encodePattern(explicit)).toBe(encodePattern(plain));
+    });
+  });
+
+  describe('step conditions', () => {
+    it('should roundtrip probability and loop cycle conditions', () => {
+      const original = createTestPattern();
+      original.tracks[0].steps[0] = { active: true, finger: { hand: 'R', finger: 1 } };
+      original.tracks[0].steps[2] = { active: true, finger: { hand: 'R', finger: 1 }, condition: { probability: 40 } };
+      original.tracks[6].steps[4] = { active: true, finger: { hand: 'L', finger: 2 }, condition: { cycle: 4, iteration: 3 } };
+      original.tracks[6].steps[5] = {
+        active: true,
+        finger: { hand: 'L', finger: 2 },
+        condition: { probability: 75, cycle: 2, iteration: 2 },
+      };
+
+      const decoded = decodePattern(encodePattern(original)!);
+
+      expect(decoded!.tracks[0].steps[0].condition).toBeUndefined();
+      expect(decoded!.tracks[0].steps[2].condition).toEqual({ probability: 40 });
+      expect(decoded!.tracks[6].steps[4].condition).toEqual({ cycle: 4, iteration: 3 });
+      expect(decoded!.tracks[6].steps[5].condition).toEqual({ probability: 75, cycle: 2, iteration: 2 });
+    });
+  });
+
   describe('compression efficiency', () => {
     it('should produce short URLs for empty patterns', () => {
       const pattern = createTestPattern('Empty', 1, '16n');
@@ -12,11 +12,33 @@
  * - Uses bitmap for active steps (1 bit per step)
  * - Uses 4 bits per active step for finger info (1 bit hand + 3 bits finger)
  * - Compresses with pako (gzip) for further size reduction
+ *
+ * Extension block: optional tagged fields after the name (time signature, velocities, ...)
+ * - Only written when a pattern uses a non-default value
+ * - Older links have no extension block and decode unchanged
  */
 
-import type { DrumPattern, Subdivision } from '../types/pattern';
-import { getTotalSteps } from '../types/pattern';
+import type {
+  Articulation,
+  DrumPattern,
+  PatternTrack,
+  Subdivision,
+  SubdivisionSource,
+  SwingUnit,
+  TimeSignature,
+} from '../types/pattern';
+import {
+  getTotalSteps,
+  getStepVelocity,
+  DEFAULT_TIME_SIGNATURE,
+  DEFAULT_VELOCITY,
+  MIN_VELOCITY,
+  MAX_VELOCITY,
+  getPatternTimeSignature,
+} from '../types/pattern';
 import { PAD_IDS, PADS, FINGER_DEFAULTS, type PadId } from '../config/padMapping';
+import { clampSwing, getPatternSwing, DEFAULT_SWING } from './swing';
+import { normalizeStepCondition } from './stepConditions';
 import pako from 'pako';
 
 /** Maximum allowed encoded string length */
@@ -35,6 +57,31 @@ const SUBDIVISION_MAP: Record<Subdivision, number> = {
 };
 const SUBDIVISION_REVERSE: Subdivision[] = ['8n', '16n', '32n', '4n', '4t', '8t', '16t', '32t'];
 
+/** Flags bit 2: an extension block follows the name */
+const FLAG_EXTENSIONS = 0x04;
+
+/** Extension tags (1 byte each) */
+const EXT_TIME_SIGNATURE = 1;
+const EXT_VELOCITIES = 2;
+const EXT_ARTICULATIONS = 3;
+const EXT_SWING = 4;
+const EXT_TRACK_STATE = 5;
+const EXT_TRACK_LENGTHS = 6;
+const EXT_CONDITIONS = 7;
+const EXT_SUBDIVISION_SOURCE = 8;
+
+/** Bytes per track-flag bitmap (1 bit per track) */
+const TRACK_FLAG_BYTES = Math.ceil(NUM_TRACKS / 8);
+
+/** Articulation codes (4 bits each) - append only, never reorder */
+const ARTICULATION_CODES: Articulation[] = ['normal', 'accent', 'ghost', 'flam', 'drag'];
+
+/** Swing unit codes - append only, never reorder */
+const SWING_UNIT_CODES: SwingUnit[] = ['8n', '16n'];
+
+/** Valid time signature denominators */
+const TIME_SIGNATURE_DENOMINATORS: TimeSignature['denominator'][] = [2, 4, 8, 16];
+
 /**
  * Convert standard Base64 to URL-safe Base64
  * + → -, / → _, = → removed
@@ -80,6 +127,216 @@ function decodePatternName(data: Uint8Array, offset: number): { name: string; by
   return { name, bytesRead: 1 + length };
 }
 
+/**
+ * Encode extension entries into a length-prefixed block
+ * Block: 2 bytes total length, then entries of tag (1 byte) + length (2 bytes) + payload
+ */
+function encodeExtensions(entries: Array<{ tag: number; payload: Uint8Array }>): Uint8Array {
+  const bodyLength = entries.reduce((sum, e) => sum + 3 + e.payload.length, 0);
+  const result = new Uint8Array(2 + bodyLength);
+  result[0] = (bodyLength >> 8) & 0xFF;
+  result[1] = bodyLength & 0xFF;
+
+  let offset = 2;
+  for (const { tag, payload } of entries) {
+    result[offset++] = tag;
+    result[offset++] = (payload.length >> 8) & 0xFF;
+    result[offset++] = payload.length & 0xFF;
+    result.set(payload, offset);
+    offset += payload.length;
+  }
+  return result;
+}
+
+/**
+ * Decode an extension block into a tag → payload map
+ * Unknown tags are kept in the map and ignored by the caller
+ */
+function decodeExtensions(data: Uint8Array, offset: number): { extensions: Map<number, Uint8Array>; bytesRead: number } {
+  const bodyLength = (data[offset] << 8) | data[offset + 1];
+  const end = offset + 2 + bodyLength;
+  const extensions = new Map<number, Uint8Array>();
+
+  let pos = offset + 2;
+  while (pos + 3 <= end) {
+    const tag = data[pos];
+    const length = (data[pos + 1] << 8) | data[pos + 2];
+    pos += 3;
+    extensions.set(tag, data.slice(pos, pos + length));
+    pos += length;
+  }
+  return { extensions, bytesRead: 2 + bodyLength };
+}
+
+/**
+ * Collect extension entries for fields that differ from their defaults
+ */
+function collectExtensions(pattern: DrumPattern): Array<{ tag: number; payload: Uint8Array }> {
+  const entries: Array<{ tag: number; payload: Uint8Array }> = [];
+
+  const timeSignature = getPatternTimeSignature(pattern);
+  if (
+    timeSignature.numerator !== DEFAULT_TIME_SIGNATURE.numerator ||
+    timeSignature.denominator !== DEFAULT_TIME_SIGNATURE.denominator
+  ) {
+    entries.push({
+      tag: EXT_TIME_SIGNATURE,
+      payload: new Uint8Array([timeSignature.numerator, timeSignature.denominator]),
+    });
+  }
+
+  // Velocities: one byte per active step, in bitmap order
+  const velocities: number[] = [];
+  for (let trackIdx = 0; trackIdx < NUM_TRACKS; trackIdx++) {
+    pattern.tracks[trackIdx]?.steps.forEach((step) => {
+      if (step.active) velocities.push(getStepVelocity(step));
+    });
+  }
+  if (velocities.some((v) => v !== DEFAULT_VELOCITY)) {
+    entries.push({ tag: EXT_VELOCITIES, payload: new Uint8Array(velocities) });
+  }
+
+  // Articulations: 4 bits per active step, 2 per byte, in bitmap order
+  const articulations: number[] = [];
+  for (let trackIdx = 0; trackIdx < NUM_TRACKS; trackIdx++) {
+    pattern.tracks[trackIdx]?.steps.forEach((step) => {
+      if (step.active) articulations.push(ARTICULATION_CODES.indexOf(step.articulation ?? 'normal'));
+    });
+  }
+  if (articulations.some((code) => code > 0)) {
+    const payload = new Uint8Array(Math.ceil(articulations.length / 2));
+    articulations.forEach((code, i) => {
+      payload[i >> 1] |= i % 2 === 0 ? code << 4 : code;
+    });
+    entries.push({ tag: EXT_ARTICULATIONS, payload });
+  }
+
+  const { swing, unit } = getPatternSwing(pattern);
+  if (swing !== DEFAULT_SWING) {
+    entries.push({
+      tag: EXT_SWING,
+      payload: new Uint8Array([clampSwing(swing), SWING_UNIT_CODES.indexOf(unit)]),
+    });
+  }
+
+  // Track mute/solo: one bitmap each, 1 bit per track
+  if (pattern.tracks.some((track) => track.muted || track.solo)) {
+    const payload = new Uint8Array(TRACK_FLAG_BYTES * 2);
+    pattern.tracks.slice(0, NUM_TRACKS).forEach((track, trackIdx) => {
+      const bit = 1 << (7 - (trackIdx % 8));
+      if (track.muted) payload[trackIdx >> 3] |= bit;
+      if (track.solo) payload[TRACK_FLAG_BYTES + (trackIdx >> 3)] |= bit;
+    });
+    entries.push({ tag: EXT_TRACK_STATE, payload });
+  }
+
+  // Track lengths: track index + 2-byte length, only for tracks shorter than the pattern
+  const lengths: number[] = [];
+  pattern.tracks.slice(0, NUM_TRACKS).forEach((track, trackIdx) => {
+    if (track.length !== undefined && track.length < track.steps.length) {
+      lengths.push(trackIdx, (track.length >> 8) & 0xFF, track.length & 0xFF);
+    }
+  });
+  if (lengths.length > 0) {
+    entries.push({ tag: EXT_TRACK_LENGTHS, payload: new Uint8Array(lengths) });
+  }
+
+  // Step conditions: per conditioned step, 2-byte active-step index,
+  // probability (100 = always), iteration << 4 | cycle (0 = every loop)
+  const conditions: number[] = [];
+  let activeIndex = 0;
+  for (let trackIdx = 0; trackIdx < NUM_TRACKS; trackIdx++) {
+    pattern.tracks[trackIdx]?.steps.forEach((step) => {
+      if (!step.active) return;
+      const condition = normalizeStepCondition(step.condition);
+      if (condition) {
+        conditions.push(
+          (activeIndex >> 8) & 0xFF,
+          activeIndex & 0xFF,
+          condition.probability ?? 100,
+          condition.cycle ? ((condition.iteration ?? 1) << 4) | condition.cycle : 0
+        );
+      }
+      activeIndex++;
+    });
+  }
+  if (conditions.length > 0) {
+    entries.push({ tag: EXT_CONDITIONS, payload: new Uint8Array(conditions) });
+  }
+
+  // Notes from before the last subdivision change, as a nested pattern
+  const source = pattern.subdivisionSource;
+  if (source) {
+    entries.push({
+      tag: EXT_SUBDIVISION_SOURCE,
+      payload: toBinary({
+        ...pattern,
+        name: '',
+        subdivision: source.subdivision,
+        bars: source.bars,
+        timeSignature: source.timeSignature,
+        tracks: source.tracks,
+        subdivisionSource: undefined,
+      }),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Read the time signature extension, defaulting to 4/4
+ */
+function readTimeSignature(extensions: Map<number, Uint8Array>): TimeSignature {
+  const payload = extensions.get(EXT_TIME_SIGNATURE);
+  if (!payload || payload.length < 2) {
+    return { ...DEFAULT_TIME_SIGNATURE };
+  }
+  const numerator = payload[0];
+  const denominator = payload[1] as TimeSignature['denominator'];
+  if (numerator < 1 || numerator > 16 || !TIME_SIGNATURE_DENOMINATORS.includes(denominator)) {
+    throw new Error('Invalid time signature');
+  }
+  return { numerator, denominator };
+}
+
+/**
+ * Read the swing extension; empty when the pattern is straight
+ */
+function readSwing(extensions: Map<number, Uint8Array>): Pick<DrumPattern, 'swing' | 'swingUnit'> {
+  const payload = extensions.get(EXT_SWING);
+  if (!payload || payload.length < 2) {
+    return {};
+  }
+  const swingUnit = SWING_UNIT_CODES[payload[1]];
+  if (!swingUnit) {
+    throw new Error('Invalid swing unit');
+  }
+  return { swing: clampSwing(payload[0]), swingUnit };
+}
+
+/**
+ * Read the subdivision source extension; empty when the pattern has none
+ */
+function readSubdivisionSource(extensions: Map<number, Uint8Array>): { subdivisionSource?: SubdivisionSource } {
+  const payload = extensions.get(EXT_SUBDIVISION_SOURCE);
+  if (!payload) {
+    return {};
+  }
+  const source = fromBinary(payload);
+  if (!source) {
+    throw new Error('Invalid subdivision source');
+  }
+  return {
+    subdivisionSource: {
+      subdivision: source.subdivision,
+      bars: source.bars,
+      timeSignature: getPatternTimeSignature(source),
+      tracks: source.tracks,
+    },
+  };
+}
+
 /**
  * Binary format structure:
  * - 1 byte: version
@@ -87,12 +344,26 @@ function decodePatternName(data: Uint8Array, offset: number): { name: string; by
  *     bits 7-6: bars (0-3 for 1-4 bars)
  *     bits 5-4: subdivLower (lower 2 bits of subdivision index)
  *     bit 3:    subdivUpper (upper 1 bit of subdivision index)
- *     bits 2-0: reserved
+ *     bit 2:    extension block present
+ *     bits 1-0: reserved
  *   Subdivision index: (subdivUpper << 2) | subdivLower
  *   v1.0.2 compatibility: indices 0-2 (8n, 16n, 32n) use subdivLower only
  * - 2 bytes: BPM (big-endian)
  * - 1 byte: name length
  * - N bytes: name (UTF-8)
+ * - Extension block (only if flag bit 2 is set):
+ *   - 2 bytes: block length
+ *   - Entries: 1 byte tag, 2 bytes payload length, payload
+ *     tag 1 (time signature): numerator, denominator
+ *     tag 2 (velocities): 1 byte per active step, in bitmap order
+ *     tag 3 (articulations): 4 bits per active step, in bitmap order
+ *     tag 4 (swing): percentage (51-75), unit (0=8n, 1=16n)
+ *     tag 5 (track state): mute bitmap, solo bitmap (1 bit per track each)
+ *     tag 6 (track lengths): per shortened track, track index + 2-byte length
+ *     tag 7 (conditions): per conditioned step, 2-byte active-step index,
+ *       probability, iteration << 4 | cycle
+ *     tag 8 (subdivision source): the notes from before the last subdivision
+ *       change, encoded as a nested pattern in this format
  * - For each track (18 total):
  *   - ceil(totalSteps/8) bytes: bitmap of active steps
  * - For each active step (in order):
@@ -109,7 +380,9 @@ function toBinary(pattern: DrumPattern): Uint8Array {
 
   // Calculate size
   const nameBytes = encodePatternName(pattern.name);
-  const headerSize = 1 + 1 + 2 + nameBytes.length; // version + flags + bpm + name
+  const extensionEntries = collectExtensions(pattern);
+  const extensionBytes = extensionEntries.length > 0 ? encodeExtensions(extensionEntries) : null;
+  const headerSize = 1 + 1 + 2 + nameBytes.length + (extensionBytes?.length ?? 0); // version + flags + bpm + name + extensions
   const bitmapSize = NUM_TRACKS * bitmapBytesPerTrack;
 
   // Count active steps for finger data size
@@ -128,13 +401,14 @@ function toBinary(pattern: DrumPattern): Uint8Array {
   // Version
   buffer[offset++] = BINARY_VERSION;
 
-  // Flags: bars (2 bits) | subdivLower (2 bits) | subdivUpper (1 bit) | reserved (3 bits)
+  // Flags: bars (2 bits) | subdivLower (2 bits) | subdivUpper (1 bit) | extensions (1 bit) | reserved (2 bits)
   // v1.0.2 compatibility: subdivLower at bits 4-5 matches v1.0.2 layout for indices 0-2
   const barsValue = pattern.bars - 1; // 0-3 for 1-4 bars
   const subdivValue = SUBDIVISION_MAP[pattern.subdivision];
   const subdivLower = subdivValue & 0x03;        // lower 2 bits of subdivision index (bits 0-1)
   const subdivUpper = (subdivValue >> 2) & 0x01; // upper 1 bit of subdivision index (bit 2)
-  buffer[offset++] = (barsValue << 6) | (subdivLower << 4) | (subdivUpper << 3);
+  const extensionFlag = extensionBytes ? FLAG_EXTENSIONS : 0;
+  buffer[offset++] = (barsValue << 6) | (subdivLower << 4) | (subdivUpper << 3) | extensionFlag;
 
   // BPM (big-endian 16-bit)
   buffer[offset++] = (pattern.bpm >> 8) & 0xFF;
@@ -144,6 +418,12 @@ function toBinary(pattern: DrumPattern): Uint8Array {
   buffer.set(nameBytes, offset);
   offset += nameBytes.length;
 
+  // Extension block
+  if (extensionBytes) {
+    buffer.set(extensionBytes, offset);
+    offset += extensionBytes.length;
+  }
+
   // Bitmaps for each track
   const fingerData: number[] = []; // Collect finger info for active steps
 
@@ -201,7 +481,7 @@ function fromBinary(data: Uint8Array): DrumPattern | null {
       return null;
     }
 
-    // Flags: bars (2 bits) | subdivLower (2 bits) | subdivUpper (1 bit) | reserved (3 bits)
+    // Flags: bars (2 bits) | subdivLower (2 bits) | subdivUpper (1 bit) | extensions (1 bit) | reserved (2 bits)
     // v1.0.2 compatibility: subdivLower at bits 4-5 matches v1.0.2 layout for indices 0-2
     const flags = data[offset++];
     const bars = ((flags >> 6) & 0x03) + 1 as 1 | 2 | 3 | 4;
@@ -218,12 +498,24 @@ function fromBinary(data: Uint8Array): DrumPattern | null {
     const { name, bytesRead } = decodePatternName(data, offset);
     offset += bytesRead;
 
+    // Extension block
+    let extensions = new Map<number, Uint8Array>();
+    if (flags & FLAG_EXTENSIONS) {
+      const decoded = decodeExtensions(data, offset);
+      extensions = decoded.extensions;
+      offset += decoded.bytesRead;
+    }
+    const timeSignature = readTimeSignature(extensions);
+
     // Calculate sizes
-    const totalSteps = getTotalSteps(bars, subdivision);
+    const totalSteps = getTotalSteps(bars, subdivision, timeSignature);
+    if (!Number.isInteger(totalSteps)) {
+      return null;
+    }
     const bitmapBytesPerTrack = Math.ceil(totalSteps / 8);
 
     // Create tracks and read bitmaps
-    const tracks = PAD_IDS.map((padId) => ({
+    const tracks: PatternTrack[] = PAD_IDS.map((padId) => ({
       padId,
       label: PADS[padId].label,
       defaultFinger: FINGER_DEFAULTS[padId as PadId],
@@ -231,6 +523,7 @@ function fromBinary(data: Uint8Array): DrumPattern | null {
         active: false,
         velocity: undefined as number | undefined,
         finger: undefined as { hand: 'L' | 'R'; finger: 1 | 2 | 3 | 4 | 5 } | undefined,
+        articulation: undefined as Articulation | undefined,
       })),
     }));
 
@@ -245,7 +538,7 @@ function fromBinary(data: Uint8Array): DrumPattern | null {
           if (stepIdx < totalSteps) {
             if (byte & (1 << (7 - bitIdx))) {
               tracks[trackIdx].steps[stepIdx].active = true;
-              tracks[trackIdx].steps[stepIdx].velocity = 100;
+              tracks[trackIdx].steps[stepIdx].velocity = DEFAULT_VELOCITY;
               activePositions.push({ trackIdx, stepIdx });
             }
           }
@@ -253,6 +546,70 @@ function fromBinary(data: Uint8Array): DrumPattern | null {
       }
     }
 
+    // Apply velocities (extension), otherwise keep the default
+    const velocities = extensions.get(EXT_VELOCITIES);
+    if (velocities) {
+      activePositions.forEach(({ trackIdx, stepIdx }, i) => {
+        if (i < velocities.length) {
+          tracks[trackIdx].steps[stepIdx].velocity =
+            Math.max(MIN_VELOCITY, Math.min(MAX_VELOCITY, velocities[i]));
+        }
+      });
+    }
+
+    // Apply articulations (extension)
+    const articulations = extensions.get(EXT_ARTICULATIONS);
+    if (articulations) {
+      activePositions.forEach(({ trackIdx, stepIdx }, i) => {
+        const byte = articulations[i >> 1] ?? 0;
+        const code = i % 2 === 0 ? (byte >> 4) & 0x0F : byte & 0x0F;
+        const articulation = ARTICULATION_CODES[code];
+        if (articulation && articulation !== 'normal') {
+          tracks[trackIdx].steps[stepIdx].articulation = articulation;
+        }
+      });
+    }
+
+    // Apply track mute/solo (extension)
+    const trackState = extensions.get(EXT_TRACK_STATE);
+    if (trackState) {
+      tracks.forEach((track, trackIdx) => {
+        const bit = 1 << (7 - (trackIdx % 8));
+        if ((trackState[trackIdx >> 3] ?? 0) & bit) track.muted = true;
+        if ((trackState[TRACK_FLAG_BYTES + (trackIdx >> 3)] ?? 0) & bit) track.solo = true;
+      });
+    }
+
+    // Apply step conditions (extension)
+    const conditions = extensions.get(EXT_CONDITIONS);
+    if (conditions) {
+      for (let i = 0; i + 3 < conditions.length; i += 4) {
+        const position = activePositions[(conditions[i] << 8) | conditions[i + 1]];
+        if (!position) {
+          throw new Error('Invalid step condition');
+        }
+        const cycleByte = conditions[i + 3];
+        tracks[position.trackIdx].steps[position.stepIdx].condition = normalizeStepCondition({
+          probability: conditions[i + 2],
+          iteration: cycleByte >> 4,
+          cycle: cycleByte & 0x0F,
+        });
+      }
+    }
+
+    // Apply track lengths (extension)
+    const trackLengths = extensions.get(EXT_TRACK_LENGTHS);
+    if (trackLengths) {
+      for (let i = 0; i + 2 < trackLengths.length; i += 3) {
+        const track = tracks[trackLengths[i]];
+        const length = (trackLengths[i + 1] << 8) | trackLengths[i + 2];
+        if (!track || length < 1 || length >= totalSteps) {
+          throw new Error('Invalid track length');
+        }
+        track.length = length;
+      }
+    }
+
     // Read finger data
     for (let i = 0; i < activePositions.length; i++) {
       const byteIdx = Math.floor(i / 2);
@@ -273,7 +630,10 @@ function fromBinary(data: Uint8Array): DrumPattern | null {
       bpm,
       subdivision,
       bars,
+      timeSignature,
+      ...readSwing(extensions),
       tracks,
+      ...readSubdivisionSource(extensions),
     };
   } catch {
     return null;
@@ -305,9 +665,10 @@ export function encodePattern(pattern: DrumPattern): string | null {
     // Convert to URL-safe
     const urlSafe = toUrlSafe(base64);
 
-    // Check length limit
+    // Check length limit; the notes kept from before a subdivision change
+    // are optional, so drop them before giving up
     if (urlSafe.length > MAX_ENCODED_LENGTH) {
-      return null;
+      return pattern.subdivisionSource ? encodePattern({ ...pattern, subdivisionSource: undefined }) : null;
     }
 
     return urlSafe;
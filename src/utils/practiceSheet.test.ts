@@ -0,0 +1,88 @@
+/**
+ * Tests for the practice sheet layout
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { DrumPattern, PatternTrack, Subdivision } from '../types/pattern';
+import { PAD_IDS, PADS, FINGER_DEFAULTS, type PadId } from '../config/padMapping';
+import { getPadFingerings, getSheetLines, getSheetRows } from './practiceSheet';
+
+function createTestPattern(subdivision: Subdivision = '16n', bars: DrumPattern['bars'] = 1): DrumPattern {
+  const steps = bars * (subdivision === '8n' ? 8 : subdivision === '32n' ? 32 : 16);
+  return {
+    id: 'test-pattern',
+    name: 'Exercise 1',
+    bpm: 100,
+    subdivision,
+    bars,
+    tracks: PAD_IDS.map((padId) => ({
+      padId,
+      label: PADS[padId].label,
+      defaultFinger: FINGER_DEFAULTS[padId],
+      steps: Array.from({ length: steps }, () => ({ active: false })),
+    })),
+  };
+}
+
+function getTrack(pattern: DrumPattern, padId: PadId): PatternTrack {
+  return pattern.tracks[PAD_IDS.indexOf(padId)];
+}
+
+describe('getSheetRows', () => {
+  it('lists only tracks that play, with the finger for every hit', () => {
+    const pattern = createTestPattern();
+    getTrack(pattern, 'snare').steps[4] = {
+      active: true,
+      finger: { hand: 'L', finger: 2 },
+      articulation: 'accent',
+    };
+    getTrack(pattern, 'kick').steps[0] = { active: true };
+
+    const rows = getSheetRows(pattern);
+    expect(rows.map((row) => row.padId)).toEqual(['snare', 'kick']);
+    expect(rows[0].cells[4]).toEqual({ finger: { hand: 'L', finger: 2 }, articulation: 'accent' });
+    expect(rows[1].cells[0]).toEqual({ finger: FINGER_DEFAULTS.kick });
+    expect(rows[1].cells[1]).toBeNull();
+    expect(rows[1].cells).toHaveLength(16);
+  });
+
+  it('unrolls polymetric tracks and leaves out muted ones', () => {
+    const pattern = createTestPattern();
+    const hihat = getTrack(pattern, 'hihat_close_r');
+    hihat.length = 3;
+    hihat.steps[0] = { active: true };
+    getTrack(pattern, 'snare').steps[4] = { active: true };
+    getTrack(pattern, 'snare').muted = true;
+
+    const rows = getSheetRows(pattern);
+    expect(rows).toHaveLength(1);
+    expect(rows[0].cells.flatMap((cell, i) => (cell ? [i] : []))).toEqual([0, 3, 6, 9, 12, 15]);
+  });
+});
+
+describe('getSheetLines', () => {
+  it('fits as many bars on a line as 32 steps allow', () => {
+    expect(getSheetLines(createTestPattern('8n', 4))).toEqual([[0, 1, 2, 3]]);
+    expect(getSheetLines(createTestPattern('16n', 3))).toEqual([[0, 1], [2]]);
+    expect(getSheetLines(createTestPattern('32n', 2))).toEqual([[0], [1]]);
+  });
+});
+
+describe('getPadFingerings', () => {
+  it('collects each finger used on a pad once, left hand first', () => {
+    const pattern = createTestPattern();
+    const snare = getTrack(pattern, 'snare');
+    snare.steps[0] = { active: true, finger: { hand: 'R', finger: 2 } };
+    snare.steps[2] = { active: true, finger: { hand: 'L', finger: 3 } };
+    snare.steps[4] = { active: true, finger: { hand: 'L', finger: 2 } };
+    snare.steps[6] = { active: true, finger: { hand: 'R', finger: 2 } };
+
+    expect(getPadFingerings(pattern)).toEqual({
+      snare: [
+        { hand: 'L', finger: 2 },
+        { hand: 'L', finger: 3 },
+        { hand: 'R', finger: 2 },
+      ],
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Practice Sheet Layout
+ *
+ * Lays out a pattern for the printable practice sheet (one pass, as played:
+ * polymetric tracks unrolled, muted tracks left out):
+ * - Grid rows for the tracks that play, with the finger for every hit
+ * - Bars grouped into lines that fit the page width
+ * - Fingers used on each pad, for the pad diagram
+ */
+
+import type { Articulation, DrumPattern, FingerDesignation } from '../types/pattern';
+import {
+  getPatternTimeSignature,
+  getStepsPerBar,
+  getTrackStepIndex,
+  hasSoloTrack,
+  isTrackAudible,
+} from '../types/pattern';
+import type { PadId } from '../config/padMapping';
+
+/** Paper sizes the sheet is laid out for */
+export type PaperSize = 'a4' | 'letter';
+
+/**
+ * Paper size options with their CSS @page size
+ */
+export const PAPER_SIZES: { value: PaperSize; label: string; pageSize: string }[] = [
+  { value: 'a4', label: 'A4', pageSize: 'A4' },
+  { value: 'letter', label: 'Letter', pageSize: 'letter' },
+];
+
+/** Most grid steps on one line of the sheet (a line holds at least one bar) */
+const MAX_LINE_STEPS = 32;
+
+/**
+ * A hit in the sheet grid
+ */
+export interface SheetHit {
+  finger: FingerDesignation;
+  /** Omitted for normal hits */
+  articulation?: Exclude<Articulation, 'normal'>;
+}
+
+/**
+ * A grid row: one track that plays
+ */
+export interface SheetRow {
+  padId: PadId;
+  label: string;
+  /** One entry per pattern step; null = rest */
+  cells: (SheetHit | null)[];
+}
+
+/**
+ * Grid rows for the audible tracks with at least one hit, in track order
+ */
+export function getSheetRows(pattern: DrumPattern): SheetRow[] {
+  const totalSteps = pattern.tracks[0]?.steps.length ?? 0;
+  const soloActive = hasSoloTrack(pattern.tracks);
+  const rows: SheetRow[] = [];
+
+  for (const track of pattern.tracks) {
+    if (!isTrackAudible(track, soloActive)) continue;
+
+    const cells = Array.from({ length: totalSteps }, (_, stepIndex): SheetHit | null => {
+      const step = track.steps[getTrackStepIndex(track, stepIndex)];
+      if (!step?.active) return null;
+      const finger = step.finger ?? track.defaultFinger;
+      return step.articulation && step.articulation !== 'normal'
+        ? { finger, articulation: step.articulation }
+        : { finger };
+    });
+
+    if (cells.some((cell) => cell !== null)) {
+      rows.push({ padId: track.padId as PadId, label: track.label, cells });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Bar indices on each line of the sheet
+ */
+export function getSheetLines(pattern: DrumPattern): number[][] {
+  const stepsPerBar = getStepsPerBar(pattern.subdivision, getPatternTimeSignature(pattern));
+  const barsPerLine = Math.max(1, Math.floor(MAX_LINE_STEPS / stepsPerBar));
+  const lines: number[][] = [];
+  for (let bar = 0; bar < pattern.bars; bar += barsPerLine) {
+    lines.push(Array.from({ length: Math.min(barsPerLine, pattern.bars - bar) }, (_, i) => bar + i));
+  }
+  return lines;
+}
+
+/**
+ * Fingers played on each pad, left hand first, then by finger number
+ */
+export function getPadFingerings(pattern: DrumPattern): Partial<Record<PadId, FingerDesignation[]>> {
+  const fingerings: Partial<Record<PadId, FingerDesignation[]>> = {};
+
+  for (const row of getSheetRows(pattern)) {
+    const fingers = fingerings[row.padId] ?? [];
+    for (const cell of row.cells) {
+      if (!cell) continue;
+      const { hand, finger } = cell.finger;
+      if (!fingers.some((f) => f.hand === hand && f.finger === finger)) {
+        fingers.push({ hand, finger });
+      }
+    }
+    fingerings[row.padId] = fingers.sort(
+      (a, b) => (a.hand === b.hand ? 0 : a.hand === 'L' ? -1 : 1) || a.finger - b.finger
+    );
+  }
+  return fingerings;
+}
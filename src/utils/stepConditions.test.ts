@@ -0,0 +1,72 @@
+/**
+ * Tests for step trigger conditions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatStepCondition,
+  isStepDueOnLoop,
+  normalizeStepCondition,
+  shouldStepFire,
+} from './stepConditions';
+
+describe('stepConditions', () => {
+  describe('normalizeStepCondition', () => {
+    it('should drop conditions that always pass', () => {
+      expect(normalizeStepCondition(undefined)).toBeUndefined();
+      expect(normalizeStepCondition({ probability: 100, cycle: 1, iteration: 1 })).toBeUndefined();
+    });
+
+    it('should clamp probability and cycle values', () => {
+      expect(normalizeStepCondition({ probability: 0 })).toEqual({ probability: 1 });
+      expect(normalizeStepCondition({ cycle: 12, iteration: 20 })).toEqual({ cycle: 8, iteration: 8 });
+    });
+
+    it('should default the iteration to the first loop', () => {
+      expect(normalizeStepCondition({ cycle: 4 })).toEqual({ cycle: 4, iteration: 1 });
+    });
+  });
+
+  describe('isStepDueOnLoop', () => {
+    it('should play 1:2 on every other loop', () => {
+      const condition = { cycle: 2, iteration: 1 };
+      expect([0, 1, 2, 3].map((loop) => isStepDueOnLoop(condition, loop))).toEqual([true, false, true, false]);
+    });
+
+    it('should play 4:4 on the last of every four loops', () => {
+      const condition = { cycle: 4, iteration: 4 };
+      expect([0, 1, 2, 3, 7].map((loop) => isStepDueOnLoop(condition, loop))).toEqual([false, false, false, true, true]);
+    });
+
+    it('should ignore probability', () => {
+      expect(isStepDueOnLoop({ probability: 1 }, 0)).toBe(true);
+    });
+  });
+
+  describe('shouldStepFire', () => {
+    it('should always fire without a condition', () => {
+      expect(shouldStepFire(undefined, 3, () => 0.99)).toBe(true);
+    });
+
+    it('should fire when the random roll is below the probability', () => {
+      expect(shouldStepFire({ probability: 50 }, 0, () => 0.49)).toBe(true);
+      expect(shouldStepFire({ probability: 50 }, 0, () => 0.5)).toBe(false);
+    });
+
+    it('should require both the loop cycle and the probability', () => {
+      const condition = { probability: 50, cycle: 2, iteration: 2 };
+      expect(shouldStepFire(condition, 0, () => 0)).toBe(false);
+      expect(shouldStepFire(condition, 1, () => 0)).toBe(true);
+      expect(shouldStepFire(condition, 1, () => 0.9)).toBe(false);
+    });
+  });
+
+  describe('formatStepCondition', () => {
+    it('should format cycle and probability', () => {
+      expect(formatStepCondition(undefined)).toBe('');
+      expect(formatStepCondition({ probability: 25 })).toBe('25%');
+      expect(formatStepCondition({ cycle: 4, iteration: 1 })).toBe('1:4');
+      expect(formatStepCondition({ cycle: 2, iteration: 2, probability: 50 })).toBe('2:2 50%');
+    });
+  });
+});
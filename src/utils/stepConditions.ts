@@ -0,0 +1,86 @@
+/**
+ * Step Conditions
+ *
+ * Evaluation and display of conditional triggers:
+ * - Probability: the step fires with the given chance each time it comes up
+ * - Loop cycle "A:B": the step fires only on loop A of every B loops
+ *   (e.g. 1:2 = every other loop, 4:4 = the last of every four)
+ *
+ * Loops are counted per track, so tracks with their own length cycle
+ * on their own loop count.
+ */
+
+import type { StepCondition } from '../types/pattern';
+
+/** Probability range in percent (100 = always, stored as undefined) */
+export const MIN_PROBABILITY = 1;
+export const MAX_PROBABILITY = 99;
+
+/** Cycle length range in loops (1 = every loop, stored as undefined) */
+export const MIN_CYCLE = 2;
+export const MAX_CYCLE = 8;
+
+/**
+ * Clean up a condition: clamp values and drop parts that always pass
+ *
+ * @returns The condition, or undefined if the step fires every time
+ */
+export function normalizeStepCondition(condition: StepCondition | undefined): StepCondition | undefined {
+  if (!condition) return undefined;
+
+  const result: StepCondition = {};
+
+  if (condition.probability !== undefined && condition.probability < 100) {
+    result.probability = Math.max(MIN_PROBABILITY, Math.min(MAX_PROBABILITY, Math.round(condition.probability)));
+  }
+
+  if (condition.cycle !== undefined && condition.cycle >= MIN_CYCLE) {
+    const cycle = Math.min(MAX_CYCLE, Math.round(condition.cycle));
+    result.cycle = cycle;
+    result.iteration = Math.max(1, Math.min(cycle, Math.round(condition.iteration ?? 1)));
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Whether a step's loop cycle lets it play on a given loop (ignores probability)
+ *
+ * @param condition - Step condition
+ * @param loopIndex - Loop count since playback started (0-based)
+ */
+export function isStepDueOnLoop(condition: StepCondition | undefined, loopIndex: number): boolean {
+  if (!condition?.cycle) return true;
+  return loopIndex % condition.cycle === (condition.iteration ?? 1) - 1;
+}
+
+/**
+ * Decide whether a step fires on a given loop
+ *
+ * @param condition - Step condition
+ * @param loopIndex - Loop count since playback started (0-based)
+ * @param random - Random source returning [0, 1), injectable for tests
+ */
+export function shouldStepFire(
+  condition: StepCondition | undefined,
+  loopIndex: number,
+  random: () => number = Math.random
+): boolean {
+  if (!condition) return true;
+  if (!isStepDueOnLoop(condition, loopIndex)) return false;
+  if (condition.probability === undefined) return true;
+  return random() * 100 < condition.probability;
+}
+
+/**
+ * Short label for a condition, e.g. "1:4", "50%" or "1:4 50%"
+ *
+ * @returns Empty string when the step fires every time
+ */
+export function formatStepCondition(condition: StepCondition | undefined): string {
+  if (!condition) return '';
+  const parts: string[] = [];
+  if (condition.cycle) parts.push(`${condition.iteration ?? 1}:${condition.cycle}`);
+  if (condition.probability !== undefined) parts.push(`${condition.probability}%`);
+  return parts.join(' ');
+}
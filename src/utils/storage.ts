@@ -8,6 +8,12 @@
 /** Storage key definitions */
 export const STORAGE_KEYS = {
   THEME: 'fgdp-theme',
+  HISTORY: 'fgdp-history',
+  LIBRARY: 'fgdp-library',
+  SESSION: 'fgdp-session',
+  MIDI_MAPPING: 'fgdp-midi-mapping',
+  TAB_MAPPING: 'fgdp-tab-mapping',
+  HYDROGEN_MAPPING: 'fgdp-hydrogen-mapping',
 } as const;
 
 export type StorageKey = (typeof STORAGE_KEYS)[keyof typeof STORAGE_KEYS];
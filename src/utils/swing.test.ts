@@ -0,0 +1,92 @@
+/**
+ * Tests for swing timing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  canSwing,
+  clampSwing,
+  getPatternSwing,
+  getSwingOffset,
+  getSwungStepPosition,
+} from './swing';
+
+describe('swing', () => {
+  describe('canSwing', () => {
+    it('should allow straight grids at least as fine as the swing unit', () => {
+      expect(canSwing('16n', '16n')).toBe(true);
+      expect(canSwing('32n', '16n')).toBe(true);
+      expect(canSwing('8n', '8n')).toBe(true);
+      expect(canSwing('16n', '8n')).toBe(true);
+    });
+
+    it('should reject triplet and coarser grids', () => {
+      expect(canSwing('16t', '16n')).toBe(false);
+      expect(canSwing('8t', '8n')).toBe(false);
+      expect(canSwing('8n', '16n')).toBe(false);
+      expect(canSwing('4n', '8n')).toBe(false);
+    });
+  });
+
+  describe('clampSwing', () => {
+    it('should clamp to 50-75 and round', () => {
+      expect(clampSwing(10)).toBe(50);
+      expect(clampSwing(90)).toBe(75);
+      expect(clampSwing(66.6)).toBe(67);
+    });
+  });
+
+  describe('getPatternSwing', () => {
+    it('should default to straight 16ths', () => {
+      expect(getPatternSwing({})).toEqual({ swing: 50, unit: '16n' });
+    });
+  });
+
+  describe('getSwingOffset', () => {
+    it('should not move any step when straight', () => {
+      for (let i = 0; i < 4; i++) {
+        expect(getSwingOffset(i, '16n', 50, '16n', 1)).toBe(0);
+      }
+    });
+
+    it('should delay only the off-beat of each 16th pair', () => {
+      // 75%: the off-beat lands at 1.5 steps instead of 1
+      expect(getSwingOffset(0, '16n', 75, '16n', 1)).toBe(0);
+      expect(getSwingOffset(1, '16n', 75, '16n', 1)).toBeCloseTo(0.5);
+      expect(getSwingOffset(2, '16n', 75, '16n', 1)).toBe(0);
+      expect(getSwingOffset(3, '16n', 75, '16n', 1)).toBeCloseTo(0.5);
+    });
+
+    it('should scale with step duration', () => {
+      expect(getSwingOffset(1, '16n', 75, '16n', 0.125)).toBeCloseTo(0.0625);
+    });
+
+    it('should move finer steps proportionally under 8th swing', () => {
+      // 16n grid, 8n pairs span 4 steps; 60% puts the off-beat 8th at 2.4 steps
+      expect(getSwingOffset(0, '16n', 60, '8n', 1)).toBe(0);
+      expect(getSwingOffset(1, '16n', 60, '8n', 1)).toBeCloseTo(0.2);
+      expect(getSwingOffset(2, '16n', 60, '8n', 1)).toBeCloseTo(0.4);
+      expect(getSwingOffset(3, '16n', 60, '8n', 1)).toBeCloseTo(0.2);
+    });
+
+    it('should ignore swing on grids that cannot swing', () => {
+      expect(getSwingOffset(1, '16t', 75, '16n', 1)).toBe(0);
+      expect(getSwingOffset(1, '8n', 75, '16n', 1)).toBe(0);
+    });
+  });
+
+  describe('getSwungStepPosition', () => {
+    it('should map swung note times back to their grid steps', () => {
+      for (const [subdivision, unit] of [['16n', '16n'], ['32n', '16n'], ['16n', '8n']] as const) {
+        for (let step = 0; step < 8; step++) {
+          const swungTime = step + getSwingOffset(step, subdivision, 67, unit, 1);
+          expect(getSwungStepPosition(swungTime, subdivision, 67, unit)).toBeCloseTo(step);
+        }
+      }
+    });
+
+    it('should return the position unchanged when straight', () => {
+      expect(getSwungStepPosition(1.3, '16n', 50, '16n')).toBe(1.3);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Swing / Shuffle Timing
+ *
+ * Swing is expressed as the position of the off-beat within a pair of
+ * swing units (8th or 16th notes), as a percentage of the pair:
+ * - 50% = straight
+ * - 66.7% = triplet feel
+ * - 75% = dotted feel (maximum)
+ *
+ * Time inside each pair is warped piecewise-linearly so the first half of
+ * the pair is stretched and the second half compressed. This also moves
+ * finer grid steps (e.g. 32nds under 16th swing) proportionally.
+ */
+
+import type { DrumPattern, Subdivision, SwingUnit } from '../types/pattern';
+import { getStepsPerBeat, isTriplet } from '../types/pattern';
+
+/** Swing percentage limits */
+export const MIN_SWING = 50;
+export const MAX_SWING = 75;
+export const DEFAULT_SWING = 50;
+export const DEFAULT_SWING_UNIT: SwingUnit = '16n';
+
+/** Swing units per quarter-note beat */
+const UNITS_PER_BEAT: Record<SwingUnit, number> = {
+  '8n': 2,
+  '16n': 4,
+};
+
+/**
+ * Get a pattern's swing settings, with defaults for older patterns
+ */
+export function getPatternSwing(pattern: Pick<DrumPattern, 'swing' | 'swingUnit'>): {
+  swing: number;
+  unit: SwingUnit;
+} {
+  return {
+    swing: pattern.swing ?? DEFAULT_SWING,
+    unit: pattern.swingUnit ?? DEFAULT_SWING_UNIT,
+  };
+}
+
+/**
+ * Clamp a swing percentage to the valid range
+ */
+export function clampSwing(swing: number): number {
+  return Math.max(MIN_SWING, Math.min(MAX_SWING, Math.round(swing)));
+}
+
+/**
+ * Whether swing can be applied to a grid
+ * Requires a straight subdivision at least as fine as the swing unit
+ */
+export function canSwing(subdivision: Subdivision, unit: SwingUnit): boolean {
+  return !isTriplet(subdivision) && getStepsPerBeat(subdivision) >= UNITS_PER_BEAT[unit];
+}
+
+/**
+ * Number of grid steps in one swing pair, or null if the grid can't swing
+ */
+function getStepsPerPair(subdivision: Subdivision, unit: SwingUnit): number | null {
+  if (!canSwing(subdivision, unit)) return null;
+  return (getStepsPerBeat(subdivision) / UNITS_PER_BEAT[unit]) * 2;
+}
+
+/**
+ * Warp a position within a pair (0-1) to its swung position
+ */
+function warp(fraction: number, ratio: number): number {
+  return fraction <= 0.5
+    ? fraction * 2 * ratio
+    : ratio + (fraction - 0.5) * 2 * (1 - ratio);
+}
+
+/**
+ * Inverse of warp: swung position within a pair (0-1) to straight position
+ */
+function unwarp(fraction: number, ratio: number): number {
+  return fraction <= ratio
+    ? (fraction / ratio) * 0.5
+    : 0.5 + ((fraction - ratio) / (1 - ratio)) * 0.5;
+}
+
+/**
+ * Timing offset of a step caused by swing
+ *
+ * @param stepIndex - Step index in the pattern
+ * @param subdivision - Pattern grid
+ * @param swing - Swing percentage (50-75)
+ * @param unit - Swung note value
+ * @param stepDuration - Duration of one grid step (any time unit)
+ * @returns Delay to add to the step's straight time, in the unit of stepDuration
+ */
+export function getSwingOffset(
+  stepIndex: number,
+  subdivision: Subdivision,
+  swing: number,
+  unit: SwingUnit,
+  stepDuration: number
+): number {
+  const stepsPerPair = getStepsPerPair(subdivision, unit);
+  if (stepsPerPair === null || swing === MIN_SWING) return 0;
+
+  const ratio = clampSwing(swing) / 100;
+  const fraction = (stepIndex % stepsPerPair) / stepsPerPair;
+  return (warp(fraction, ratio) - fraction) * stepsPerPair * stepDuration;
+}
+
+/**
+ * Convert a straight (transport) step position into the grid position the
+ * swung playback is at, so the playhead lines up with swung notes
+ *
+ * @param stepPosition - Fractional step position in straight time
+ * @returns Fractional grid step position
+ */
+export function getSwungStepPosition(
+  stepPosition: number,
+  subdivision: Subdivision,
+  swing: number,
+  unit: SwingUnit
+): number {
+  const stepsPerPair = getStepsPerPair(subdivision, unit);
+  if (stepsPerPair === null || swing === MIN_SWING) return stepPosition;
+
+  const ratio = clampSwing(swing) / 100;
+  const pairStart = Math.floor(stepPosition / stepsPerPair) * stepsPerPair;
+  const fraction = (stepPosition - pairStart) / stepsPerPair;
+  return pairStart + unwarp(fraction, ratio) * stepsPerPair;
+}
@@ -0,0 +1,39 @@
+/**
+ * Tests for WAV encoding
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeWav } from './wav';
+
+function readAscii(view: DataView, offset: number, length: number): string {
+  return String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+}
+
+describe('encodeWav', () => {
+  it('writes a 16-bit PCM header and interleaved samples', () => {
+    const channels = [new Float32Array([0, 1, -1]), new Float32Array([0.5, 2, -0.5])];
+    const wav = encodeWav({
+      numberOfChannels: 2,
+      sampleRate: 44100,
+      length: 3,
+      getChannelData: (channel) => channels[channel],
+    });
+    const view = new DataView(wav);
+
+    expect(wav.byteLength).toBe(44 + 3 * 2 * 2);
+    expect(readAscii(view, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(wav.byteLength - 8);
+    expect(readAscii(view, 8, 8)).toBe('WAVEfmt ');
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(44100);
+    expect(view.getUint32(28, true)).toBe(44100 * 4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(readAscii(view, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(12);
+
+    const samples = Array.from({ length: 6 }, (_, i) => view.getInt16(44 + i * 2, true));
+    // L/R pairs; out-of-range samples are clipped
+    expect(samples).toEqual([0, 16384, 32767, 32767, -32768, -16384]);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * WAV Encoding
+ *
+ * Encodes rendered audio as a 16-bit PCM WAV file.
+ */
+
+export const WAV_EXTENSION = '.wav';
+export const WAV_MIME = 'audio/wav';
+
+/**
+ * The parts of an AudioBuffer needed for encoding
+ */
+export interface AudioData {
+  numberOfChannels: number;
+  sampleRate: number;
+  length: number;
+  getChannelData: (channel: number) => Float32Array;
+}
+
+function writeAscii(view: DataView, offset: number, text: string): void {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
+
+/**
+ * Encode audio as a 16-bit PCM WAV file (samples are clipped to -1..1)
+ */
+export function encodeWav(audio: AudioData): ArrayBuffer {
+  const channels = audio.numberOfChannels;
+  const blockAlign = channels * 2;
+  const dataSize = audio.length * blockAlign;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  // RIFF header
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(view, 8, 'WAVE');
+
+  // Format chunk
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, audio.sampleRate, true);
+  view.setUint32(28, audio.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+
+  // Samples, channels interleaved
+  writeAscii(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+  const channelData = Array.from({ length: channels }, (_, c) => audio.getChannelData(c));
+  let offset = 44;
+  for (let i = 0; i < audio.length; i++) {
+    for (const data of channelData) {
+      const sample = Math.max(-1, Math.min(1, data[i]));
+      view.setInt16(offset, Math.round(sample < 0 ? sample * 0x8000 : sample * 0x7fff), true);
+      offset += 2;
+    }
+  }
+
+  return buffer;
+}